@@ -27,7 +27,7 @@ export class App {
   protected readonly title = signal('Healthcare Interoperability Suite');
 
   openHelp(): void {
-    alert('MediBridge Interoperability Portal\n\nUpload patient data in JSON format to:\n• Convert to HL7 FHIR R4 standard\n• Assess data quality\n\nSample files available in /sample-data/ folder.');
+    alert('MediBridge Interoperability Portal\n\nUpload patient data (JSON, CSV, HL7 v2 ADT messages or CDA documents) to:\n• Convert to HL7 FHIR R4 standard\n• Assess data quality\n\nSample files available in /sample-data/ folder.');
   }
 
   scrollToUpload(): void {
@@ -0,0 +1,90 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { BatchInteroperabilityResult, InteroperabilityResult } from '../../services/interoperability.service';
+import { AuditReport, AuditReportService } from '../../services/audit-report.service';
+
+type AuditScope = 'record' | 'batch';
+
+@Component({
+  selector: 'app-audit-report',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatCardModule,
+    MatIconModule,
+    MatButtonModule,
+    MatButtonToggleModule
+  ],
+  templateUrl: './audit-report.component.html',
+  styleUrls: ['./audit-report.component.scss']
+})
+export class AuditReportComponent {
+  @Input() result?: InteroperabilityResult;
+  @Input() batchResult?: BatchInteroperabilityResult;
+  @Input() fileName = '';
+  @Input() selectedIndex = 0;
+
+  scope: AuditScope = 'record';
+  printError?: string;
+
+  constructor(private auditReports: AuditReportService) {}
+
+  setScope(scope: AuditScope): void {
+    this.scope = scope;
+  }
+
+  downloadHtml(): void {
+    const report = this.build();
+    if (!report) return;
+    this.download(this.auditReports.toHtml(report), 'text/html', 'html');
+  }
+
+  downloadCsv(): void {
+    const report = this.build();
+    if (!report) return;
+    this.download(this.auditReports.toCsv(report), 'text/csv', 'csv');
+  }
+
+  /**
+   * Opens the report in a new window and prints it; the browser's print dialog saves it as PDF
+   */
+  print(): void {
+    const report = this.build();
+    if (!report) return;
+
+    const url = window.URL.createObjectURL(new Blob([this.auditReports.toHtml(report)], { type: 'text/html' }));
+    const win = window.open(url, '_blank');
+    if (!win) {
+      window.URL.revokeObjectURL(url);
+      this.printError = 'The report window was blocked; allow pop-ups for this site or download the HTML report instead';
+      return;
+    }
+    this.printError = undefined;
+    win.addEventListener('load', () => {
+      win.print();
+      window.URL.revokeObjectURL(url);
+    });
+  }
+
+  private build(): AuditReport | undefined {
+    if (this.scope === 'batch' && this.batchResult) {
+      return this.auditReports.forBatch(this.batchResult, this.fileName);
+    }
+    return this.result ? this.auditReports.forRecord(this.result, this.fileName, this.selectedIndex) : undefined;
+  }
+
+  private download(content: string, type: string, extension: string): void {
+    const blob = new Blob([content], { type });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    const suffix = this.scope === 'batch' && this.batchResult ? 'batch' : `record-${this.selectedIndex + 1}`;
+    link.download = `audit-report-${suffix}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+    link.click();
+    window.URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,85 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { FHIRBundleType } from '../../models/fhir.model';
+import {
+  BatchInteroperabilityResult,
+  InteroperabilityResult,
+  InteroperabilityService
+} from '../../services/interoperability.service';
+
+@Component({
+  selector: 'app-batch-summary',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatCardModule,
+    MatIconModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatTooltipModule
+  ],
+  templateUrl: './batch-summary.component.html',
+  styleUrls: ['./batch-summary.component.scss']
+})
+export class BatchSummaryComponent {
+  @Input() batchResult?: BatchInteroperabilityResult;
+  @Input() selectedIndex = 0;
+  @Output() recordSelected = new EventEmitter<number>();
+  @Output() bundleTypeChange = new EventEmitter<FHIRBundleType>();
+
+  constructor(private interopService: InteroperabilityService) {}
+
+  get bundleType(): FHIRBundleType {
+    return this.batchResult?.bundleConversion.bundle.type || 'transaction';
+  }
+
+  selectRecord(index: number): void {
+    this.recordSelected.emit(index);
+  }
+
+  changeBundleType(type: FHIRBundleType): void {
+    if (type !== this.bundleType) {
+      this.bundleTypeChange.emit(type);
+    }
+  }
+
+  getRecordLabel(record: InteroperabilityResult, index: number): string {
+    const name = record.fhirConversion.fhirResource?.name?.[0];
+    if (name) {
+      const label = name.text || [...(name.given || []), name.family].filter(Boolean).join(' ');
+      if (label) return label;
+    }
+    return `Record ${index + 1}`;
+  }
+
+  getScoreColor(score: number): string {
+    if (score >= 90) return '#4caf50';
+    if (score >= 75) return '#8bc34a';
+    if (score >= 60) return '#ff9800';
+    if (score >= 40) return '#ff5722';
+    return '#f44336';
+  }
+
+  // Withdrawn records are left out and locked elements withheld; Consent resources travel with their Patients
+  downloadBundle(): void {
+    if (this.batchResult) {
+      const { bundle, excluded } = this.interopService.disclosableBundle(this.batchResult);
+      if (excluded > 0) {
+        alert(`${excluded} record(s) with withdrawn consent were left out of the Bundle`);
+      }
+      const jsonString = JSON.stringify(bundle, null, 2);
+      const blob = new Blob([jsonString], { type: 'application/fhir+json' });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `fhir-bundle-${bundle.id}.json`;
+      link.click();
+      window.URL.revokeObjectURL(url);
+    }
+  }
+}
@@ -1,12 +1,17 @@
-import { Component, Input } from '@angular/core';
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
 import { MatExpansionModule } from '@angular/material/expansion';
 import { MatIconModule } from '@angular/material/icon';
 import { MatChipsModule } from '@angular/material/chips';
 import { MatBadgeModule } from '@angular/material/badge';
 import { MatTooltipModule } from '@angular/material/tooltip';
-import { PHIPAValidationResult, PHIPAViolation, PHIPAWarning } from '../../models/phipa.model';
+import { PHIPASeverity, PHIPAValidationResult, PHIPAViolation, PHIPAWarning, PHITextSegment } from '../../models/phipa.model';
+import { CapacityAssessment, SubstituteDecisionMaker } from '../../models/capacity.model';
+import { CAPACITY_VIOLATION_TYPES, CAPACITY_WARNING_TYPE, CapacityService, MINOR_AGE } from '../../services/capacity.service';
+import { PhipaRulePackService } from '../../services/phipa-rule-pack.service';
+import { FreeTextPhiService } from '../../services/free-text-phi.service';
 
 @Component({
   selector: 'app-compliance-display',
@@ -14,6 +19,7 @@ import { PHIPAValidationResult, PHIPAViolation, PHIPAWarning } from '../../model
   imports: [
     CommonModule,
     MatCardModule,
+    MatButtonModule,
     MatExpansionModule,
     MatIconModule,
     MatChipsModule,
@@ -23,27 +29,100 @@ import { PHIPAValidationResult, PHIPAViolation, PHIPAWarning } from '../../model
   templateUrl: './compliance-display.component.html',
   styleUrls: ['./compliance-display.component.scss']
 })
-export class ComplianceDisplayComponent {
+export class ComplianceDisplayComponent implements OnChanges {
   @Input() validationResult?: PHIPAValidationResult;
+  @Input() sourceData?: any; // The scanned record, whose free text is shown with its identifiers highlighted
+  @Input() capacity?: CapacityAssessment;
+  @Output() redact = new EventEmitter<PHIPAViolation>();
+  textSegments = new Map<PHIPAViolation, PHITextSegment[]>();
+
+  constructor(
+    private rulePacks: PhipaRulePackService,
+    private freeText: FreeTextPhiService,
+    private capacities: CapacityService
+  ) {}
+
+  ngOnChanges(): void {
+    this.textSegments.clear();
+    this.validationResult?.violations
+      .filter(violation => violation.spans)
+      .forEach(violation => {
+        const text = this.sourceData === undefined ? undefined : this.freeText.textAt(this.sourceData, violation.field);
+        if (text !== undefined) {
+          this.textSegments.set(violation, this.freeText.segments(text, violation.spans!));
+        }
+      });
+  }
+
+  // e.g. "Personal Health Information Protection Act, 2004 (Ontario)"
+  get jurisdictionsLabel(): string {
+    return (this.validationResult?.jurisdictions ?? [])
+      .map(id => this.rulePacks.getJurisdiction(id))
+      .map(jurisdiction => `${jurisdiction.fullName} (${jurisdiction.region})`)
+      .join(' · ');
+  }
+
+  getJurisdictionName(violation: PHIPAViolation): string {
+    return this.rulePacks.getJurisdiction(violation.jurisdiction).name;
+  }
 
   get isCompliant(): boolean {
     return this.validationResult?.isCompliant || false;
   }
 
+  // Capacity findings are listed in a category of their own rather than under their severity
   get criticalViolations(): PHIPAViolation[] {
-    return this.validationResult?.violations.filter(v => v.severity === 'critical') || [];
+    return this.generalViolations.filter(v => v.severity === 'critical');
   }
 
   get highViolations(): PHIPAViolation[] {
-    return this.validationResult?.violations.filter(v => v.severity === 'high') || [];
+    return this.generalViolations.filter(v => v.severity === 'high');
   }
 
   get mediumViolations(): PHIPAViolation[] {
-    return this.validationResult?.violations.filter(v => v.severity === 'medium') || [];
+    return this.generalViolations.filter(v => v.severity === 'medium');
   }
 
   get lowViolations(): PHIPAViolation[] {
-    return this.validationResult?.violations.filter(v => v.severity === 'low') || [];
+    return this.generalViolations.filter(v => v.severity === 'low');
+  }
+
+  get generalWarnings(): PHIPAWarning[] {
+    return this.validationResult?.warnings.filter(w => w.warningType !== CAPACITY_WARNING_TYPE) || [];
+  }
+
+  get capacityViolations(): PHIPAViolation[] {
+    return this.validationResult?.violations.filter(v => CAPACITY_VIOLATION_TYPES.includes(v.violationType)) || [];
+  }
+
+  get capacityWarnings(): PHIPAWarning[] {
+    return this.validationResult?.warnings.filter(w => w.warningType === CAPACITY_WARNING_TYPE) || [];
+  }
+
+  // Capacity rules are PHIPA's, and only concern minors and patients marked incapable
+  get showCapacity(): boolean {
+    return !!this.capacity
+      && (this.capacity.minor || this.capacity.incapable)
+      && !!this.validationResult?.jurisdictions.includes('PHIPA');
+  }
+
+  // e.g. "14 years old, under 16 · marked incapable (capacity)"
+  get capacityLabel(): string {
+    if (!this.capacity) return '';
+    const { age, ageExact, minor, incapable, incapacitySource } = this.capacity;
+    return [
+      minor ? `${ageExact ? '' : 'at least '}${age} years old, under ${MINOR_AGE}` : '',
+      incapable ? `marked incapable (${incapacitySource})` : ''
+    ].filter(Boolean).join(' · ');
+  }
+
+  get decisionMakers(): SubstituteDecisionMaker[] {
+    return this.capacity ? this.capacities.getEligibleDecisionMakers(this.capacity) : [];
+  }
+
+  // Counts every violation, capacity findings included
+  getSeverityCount(severity: PHIPASeverity): number {
+    return this.validationResult?.violations.filter(v => v.severity === severity).length || 0;
   }
 
   getSeverityIcon(severity: string): string {
@@ -66,13 +145,15 @@ export class ComplianceDisplayComponent {
     const totalIssues = this.validationResult.violations.length + this.validationResult.warnings.length;
     if (totalIssues === 0) return 100;
 
-    const criticalWeight = this.criticalViolations.length * 25;
-    const highWeight = this.highViolations.length * 15;
-    const mediumWeight = this.mediumViolations.length * 10;
-    const lowWeight = this.lowViolations.length * 5;
+    // Each violation counts by severity, scaled by the weight of the rule that raised it
+    const penalties = { critical: 25, high: 15, medium: 10, low: 5 };
+    const violationWeight = this.validationResult.violations.reduce(
+      (sum, violation) => sum + penalties[violation.severity] * (violation.weight ?? 1),
+      0
+    );
     const warningWeight = this.validationResult.warnings.length * 2;
 
-    const deduction = criticalWeight + highWeight + mediumWeight + lowWeight + warningWeight;
+    const deduction = violationWeight + warningWeight;
     return Math.max(0, 100 - deduction);
   }
 
@@ -82,4 +163,8 @@ export class ComplianceDisplayComponent {
     if (score >= 70) return '#ff9800';
     return '#f44336';
   }
+
+  private get generalViolations(): PHIPAViolation[] {
+    return this.validationResult?.violations.filter(v => !CAPACITY_VIOLATION_TYPES.includes(v.violationType)) || [];
+  }
 }
@@ -0,0 +1,108 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import {
+  ConsentDirective,
+  ConsentDirectiveType,
+  ConsentStatus,
+  LockableElement
+} from '../../models/consent.model';
+import { ConsentService, LOCKABLE_ELEMENTS } from '../../services/consent.service';
+import { InteroperabilityResult } from '../../services/interoperability.service';
+
+const STATUS_DISPLAY: Record<ConsentStatus, { label: string; icon: string; description: string }> = {
+  consented: { label: 'Consent given', icon: 'how_to_reg', description: 'The record may be disclosed' },
+  restricted: { label: 'Lockbox in place', icon: 'lock_person', description: 'Locked elements are withheld from exports' },
+  withdrawn: { label: 'Consent withdrawn', icon: 'block', description: 'The record may not be disclosed; exports are blocked' },
+  unknown: { label: 'No consent directive', icon: 'help_outline', description: 'No consent, lockbox or withdrawal was recorded' }
+};
+
+const TYPE_LABELS: Record<ConsentDirectiveType, string> = {
+  consent: 'Consent',
+  lockbox: 'Lockbox',
+  withdrawal: 'Withdrawal'
+};
+
+@Component({
+  selector: 'app-consent',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatCardModule,
+    MatIconModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatTooltipModule
+  ],
+  templateUrl: './consent.component.html',
+  styleUrls: ['./consent.component.scss']
+})
+export class ConsentComponent {
+  @Input() result?: InteroperabilityResult;
+  @Output() changed = new EventEmitter<void>();
+
+  readonly statusDisplay = STATUS_DISPLAY;
+  readonly typeLabels = TYPE_LABELS;
+  readonly types = Object.keys(TYPE_LABELS) as ConsentDirectiveType[];
+  readonly lockable = LOCKABLE_ELEMENTS;
+
+  // Manual directive form
+  newType: ConsentDirectiveType = 'lockbox';
+  newElements: LockableElement[] = [];
+  addError?: string;
+
+  constructor(private consents: ConsentService) {}
+
+  getElementLabel(element: LockableElement): string {
+    return this.consents.getElementLabel(element);
+  }
+
+  getElementLabels(directive: ConsentDirective): string {
+    return directive.elements.map(element => this.getElementLabel(element)).join(', ');
+  }
+
+  addDirective(dateInput: HTMLInputElement, recipientInput: HTMLInputElement, noteInput: HTMLInputElement): void {
+    if (!this.result) return;
+    try {
+      this.consents.addManualDirective(this.result.originalData, {
+        type: this.newType,
+        ...(dateInput.value && { date: dateInput.value }),
+        elements: this.newType === 'lockbox' ? this.newElements : [],
+        ...(this.newType === 'lockbox' && recipientInput.value.trim() && { recipient: recipientInput.value.trim() }),
+        ...(noteInput.value.trim() && { note: noteInput.value.trim() })
+      });
+    } catch (error) {
+      this.addError = (error as Error).message;
+      return;
+    }
+
+    this.addError = undefined;
+    this.newElements = [];
+    [dateInput, recipientInput, noteInput].forEach(input => (input.value = ''));
+    this.changed.emit();
+  }
+
+  removeDirective(directive: ConsentDirective): void {
+    if (!this.result) return;
+    this.consents.removeManualDirective(this.result.originalData, directive.id);
+    this.changed.emit();
+  }
+
+  downloadConsents(): void {
+    if (!this.result) return;
+    const patientId = this.result.fhirConversion.fhirResource?.id;
+    const consents = this.consents.toFhirConsents(this.result.consent, patientId ? `Patient/${patientId}` : 'Patient');
+    const jsonString = JSON.stringify(consents, null, 2);
+    const blob = new Blob([jsonString], { type: 'application/fhir+json' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `consent-${patientId || 'patient'}.json`;
+    link.click();
+    window.URL.revokeObjectURL(url);
+  }
+}
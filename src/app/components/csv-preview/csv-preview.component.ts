@@ -0,0 +1,67 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { CsvDelimiter, CsvParseOptions, CsvPreview } from '../../models/csv.model';
+
+const PREVIEW_ROWS = 10;
+
+@Component({
+  selector: 'app-csv-preview',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatCardModule,
+    MatIconModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatSlideToggleModule
+  ],
+  templateUrl: './csv-preview.component.html',
+  styleUrls: ['./csv-preview.component.scss']
+})
+export class CsvPreviewComponent {
+  @Input() preview?: CsvPreview;
+  @Output() optionsChange = new EventEmitter<CsvParseOptions>();
+  @Output() commit = new EventEmitter<void>();
+  @Output() cancel = new EventEmitter<void>();
+
+  readonly delimiters: { value: CsvDelimiter; label: string }[] = [
+    { value: ',', label: 'Comma' },
+    { value: ';', label: 'Semicolon' },
+    { value: '\t', label: 'Tab' },
+    { value: '|', label: 'Pipe' }
+  ];
+
+  get previewRows(): any[] {
+    return this.preview?.table.rows.slice(0, PREVIEW_ROWS) || [];
+  }
+
+  get hiddenRowCount(): number {
+    return Math.max(0, (this.preview?.table.rows.length || 0) - PREVIEW_ROWS);
+  }
+
+  getDelimiterLabel(delimiter: CsvDelimiter): string {
+    return this.delimiters.find(d => d.value === delimiter)?.label || delimiter;
+  }
+
+  changeDelimiter(delimiter: CsvDelimiter): void {
+    this.optionsChange.emit({ ...this.preview?.options, delimiter });
+  }
+
+  changeHeader(hasHeader: boolean): void {
+    this.optionsChange.emit({ ...this.preview?.options, hasHeader });
+  }
+
+  getTypeIcon(type: string): string {
+    switch (type) {
+      case 'number': return 'tag';
+      case 'boolean': return 'toggle_on';
+      case 'date': return 'event';
+      default: return 'text_fields';
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatExpansionModule } from '@angular/material/expansion';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import {
+  DeidentificationAction,
+  DeidentificationPolicy,
+  DeidentificationResult,
+  PhiCategory
+} from '../../models/deidentification.model';
+import { ConsentService } from '../../services/consent.service';
+import { ALLOWED_ACTIONS, DeidentificationService } from '../../services/deidentification.service';
+import { InteroperabilityResult } from '../../services/interoperability.service';
+
+const CATEGORY_LABELS: Record<PhiCategory, string> = {
+  name: 'Names',
+  identifier: 'Identifiers',
+  sensitive: 'Sensitive identifiers',
+  birthDate: 'Birth date',
+  date: 'Other dates',
+  age: 'Age',
+  street: 'Street address',
+  city: 'City',
+  postalCode: 'Postal code',
+  telecom: 'Phone and e-mail'
+};
+
+const ACTION_LABELS: Record<DeidentificationAction, string> = {
+  keep: 'Keep',
+  remove: 'Remove',
+  mask: 'Mask',
+  generalize: 'Generalize',
+  dateShift: 'Shift',
+  suppress: 'Suppress'
+};
+
+@Component({
+  selector: 'app-deidentification',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatCardModule,
+    MatIconModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatExpansionModule,
+    MatTooltipModule
+  ],
+  templateUrl: './deidentification.component.html',
+  styleUrls: ['./deidentification.component.scss']
+})
+export class DeidentificationComponent implements OnChanges {
+  @Input() result?: InteroperabilityResult;
+
+  policies: DeidentificationPolicy[];
+  policy: DeidentificationPolicy;
+  deidentified?: DeidentificationResult;
+  readonly categories = Object.keys(CATEGORY_LABELS) as PhiCategory[];
+  readonly categoryLabels = CATEGORY_LABELS;
+  readonly actionLabels = ACTION_LABELS;
+  readonly allowedActions = ALLOWED_ACTIONS;
+
+  constructor(
+    private deidentification: DeidentificationService,
+    private consents: ConsentService
+  ) {
+    this.policies = this.deidentification.getPolicies();
+    this.policy = this.deidentification.getPolicy();
+  }
+
+  ngOnChanges(): void {
+    this.apply();
+  }
+
+  selectPolicy(id: string): void {
+    this.deidentification.selectPolicy(id);
+    this.apply();
+  }
+
+  setAction(category: PhiCategory, action: DeidentificationAction): void {
+    this.deidentification.setAction(category, action);
+    this.apply();
+  }
+
+  get exportBlocked(): boolean {
+    return !!this.result && !this.consents.canDisclose(this.result.consent);
+  }
+
+  countFor(target: 'source' | 'fhir'): number {
+    return this.deidentified?.report.filter(entry => entry.target === target).length || 0;
+  }
+
+  downloadExport(): void {
+    if (this.deidentified && !this.exportBlocked) {
+      const jsonString = JSON.stringify(this.deidentified, null, 2);
+      const blob = new Blob([jsonString], { type: 'application/json' });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `deidentified-${this.deidentified.policyId}-${this.deidentified.createdAt.toISOString().slice(0, 10)}.json`;
+      link.click();
+      window.URL.revokeObjectURL(url);
+    }
+  }
+
+  private apply(): void {
+    this.policy = this.deidentification.getPolicy();
+    if (!this.result) {
+      this.deidentified = undefined;
+      return;
+    }
+
+    // HL7 v2 input is de-identified as the record the converter flattened it into; lockbox instructions
+    // hold whatever the policy would keep
+    const { consent } = this.result;
+    const source = this.consents.withholdLockedFields(this.result.fhirConversion.originalData ?? this.result.originalData, consent);
+    const patient = this.result.fhirConversion.fhirResource;
+    this.deidentified = this.deidentification.deidentify(source, patient && this.consents.withholdLocked(patient, consent));
+  }
+}
@@ -5,7 +5,18 @@ import { MatExpansionModule } from '@angular/material/expansion';
 import { MatIconModule } from '@angular/material/icon';
 import { MatChipsModule } from '@angular/material/chips';
 import { MatButtonModule } from '@angular/material/button';
-import { FHIRConversionResult, FHIRPatient, FHIRContactPoint, FHIRIdentifier } from '../../models/fhir.model';
+import {
+  FHIRConversionResult,
+  FHIRPatient,
+  FHIRPatientContact,
+  FHIRHumanName,
+  FHIRAddress,
+  FHIRContactPoint,
+  FHIRIdentifier,
+  FHIRPeriod
+} from '../../models/fhir.model';
+import { ConsentState } from '../../models/consent.model';
+import { ConsentService } from '../../services/consent.service';
 
 @Component({
   selector: 'app-fhir-display',
@@ -23,6 +34,9 @@ import { FHIRConversionResult, FHIRPatient, FHIRContactPoint, FHIRIdentifier } f
 })
 export class FhirDisplayComponent {
   @Input() conversionResult?: FHIRConversionResult;
+  @Input() consent?: ConsentState;
+
+  constructor(private consents: ConsentService) {}
 
   get fhirPatient(): FHIRPatient | undefined {
     return this.conversionResult?.fhirResource;
@@ -32,9 +46,30 @@ export class FhirDisplayComponent {
     return this.conversionResult?.success || false;
   }
 
+  // The official name, or the first one when none is marked official
+  private get primaryName(): FHIRHumanName | undefined {
+    const names = this.fhirPatient?.name || [];
+    return names.find(name => name.use === 'official') || names[0];
+  }
+
+  get exportBlocked(): boolean {
+    return !!this.consent && !this.consents.canDisclose(this.consent);
+  }
+
+  // The Patient as it may leave the application: without the elements a lockbox withholds
+  private get exportablePatient(): FHIRPatient | undefined {
+    if (!this.fhirPatient) return undefined;
+    if (this.exportBlocked) {
+      alert('Consent was withdrawn for this record; the FHIR resource may not be exported');
+      return undefined;
+    }
+    return this.consent ? this.consents.withholdLocked(this.fhirPatient, this.consent) : this.fhirPatient;
+  }
+
   copyToClipboard(): void {
-    if (this.fhirPatient) {
-      const jsonString = JSON.stringify(this.fhirPatient, null, 2);
+    const patient = this.exportablePatient;
+    if (patient) {
+      const jsonString = JSON.stringify(patient, null, 2);
       navigator.clipboard.writeText(jsonString).then(() => {
         alert('FHIR resource copied to clipboard!');
       });
@@ -42,24 +77,70 @@ export class FhirDisplayComponent {
   }
 
   downloadFHIR(): void {
-    if (this.fhirPatient) {
-      const jsonString = JSON.stringify(this.fhirPatient, null, 2);
+    const patient = this.exportablePatient;
+    if (patient) {
+      const jsonString = JSON.stringify(patient, null, 2);
       const blob = new Blob([jsonString], { type: 'application/json' });
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `fhir-patient-${this.fhirPatient.id}.json`;
+      link.download = `fhir-patient-${patient.id}.json`;
       link.click();
       window.URL.revokeObjectURL(url);
     }
   }
 
   getNameDisplay(): string {
-    if (!this.fhirPatient?.name || this.fhirPatient.name.length === 0) {
+    return this.formatName(this.primaryName);
+  }
+
+  // Every name but the primary one, e.g. maiden or preferred names
+  getOtherNameDisplay(): string[] {
+    return (this.fhirPatient?.name || [])
+      .filter(name => name !== this.primaryName)
+      .map(name => this.describe(this.formatName(name), name.use, undefined, name.period));
+  }
+
+  getTelecomDisplay(system: string): string[] {
+    return this.describeTelecom(this.fhirPatient?.telecom, system);
+  }
+
+  getAddressDisplay(): string[] {
+    return (this.fhirPatient?.address || []).map(address =>
+      this.describe(this.formatAddress(address), [address.use, address.type].filter(Boolean).join(' '), undefined, address.period)
+    );
+  }
+
+  getMaritalStatusDisplay(): string {
+    const maritalStatus = this.fhirPatient?.maritalStatus;
+    const coding = maritalStatus?.coding?.[0];
+    return coding?.display || maritalStatus?.text || coding?.code || 'N/A';
+  }
+
+  getLanguageDisplay(): string {
+    if (!this.fhirPatient?.communication || this.fhirPatient.communication.length === 0) {
       return 'N/A';
     }
 
-    const name = this.fhirPatient.name[0];
+    return this.fhirPatient.communication.map(communication => {
+      const code = communication.language.coding?.[0]?.code;
+      const label = communication.language.text || communication.language.coding?.[0]?.display || code || 'Unknown';
+      const tag = code && code !== label ? ` (${code})` : '';
+      return `${label}${tag}${communication.preferred ? ', preferred' : ''}`;
+    }).join('; ');
+  }
+
+  // Contact role (e.g. Emergency Contact) and personal relationship (e.g. spouse)
+  getRelationshipDisplay(contact: FHIRPatientContact): string[] {
+    return (contact.relationship || [])
+      .map(relationship => relationship.coding?.[0]?.display || relationship.text || relationship.coding?.[0]?.code)
+      .filter((display): display is string => !!display);
+  }
+
+  formatName(name: FHIRHumanName | undefined): string {
+    if (!name) {
+      return 'N/A';
+    }
     if (name.text) {
       return name.text;
     }
@@ -73,21 +154,31 @@ export class FhirDisplayComponent {
     return parts.join(' ') || 'N/A';
   }
 
-  getTelecomDisplay(system: string): string {
-    if (!this.fhirPatient?.telecom) {
-      return 'N/A';
-    }
+  // Every contact point of a system, preferred (lowest rank) first
+  describeTelecom(telecom: FHIRContactPoint[] | undefined, system: string): string[] {
+    return (telecom || [])
+      .filter((t: FHIRContactPoint) => t.system === system && t.value)
+      .sort((a, b) => (a.rank ?? Number.MAX_SAFE_INTEGER) - (b.rank ?? Number.MAX_SAFE_INTEGER))
+      .map(t => this.describe(t.value!, t.use, t.rank, t.period));
+  }
 
-    const contact = this.fhirPatient.telecom.find((t: FHIRContactPoint) => t.system === system);
-    return contact?.value || 'N/A';
+  // "416-555-1234 (work, rank 1, since 2020-01-01)"
+  private describe(value: string, use: string | undefined, rank: number | undefined, period: FHIRPeriod | undefined): string {
+    const details = [use, rank !== undefined ? `rank ${rank}` : undefined, this.formatPeriod(period)].filter(Boolean);
+    return details.length > 0 ? `${value} (${details.join(', ')})` : value;
   }
 
-  getAddressDisplay(): string {
-    if (!this.fhirPatient?.address || this.fhirPatient.address.length === 0) {
+  private formatPeriod(period: FHIRPeriod | undefined): string | undefined {
+    if (period?.start && period.end) return `${period.start} to ${period.end}`;
+    if (period?.start) return `since ${period.start}`;
+    if (period?.end) return `until ${period.end}`;
+    return undefined;
+  }
+
+  formatAddress(addr: FHIRAddress | undefined): string {
+    if (!addr) {
       return 'N/A';
     }
-
-    const addr = this.fhirPatient.address[0];
     if (addr.text) {
       return addr.text;
     }
@@ -110,7 +201,7 @@ export class FhirDisplayComponent {
     return this.fhirPatient.identifier.map((id: FHIRIdentifier) => {
       const type = id.type?.coding?.[0]?.display || 'Identifier';
       const value = id.value || 'N/A';
-      return `${type}: ${value}`;
+      return id.assigner?.display ? `${type}: ${value} (${id.assigner.display})` : `${type}: ${value}`;
     });
   }
 }
@@ -52,8 +52,9 @@ export class FileUploadComponent {
   private processFile(file: File): void {
     this.error = '';
     
-    if (!file.name.endsWith('.json')) {
-      this.error = 'Please select a JSON file';
+    const isCsv = /\.(csv|tsv|psv)$/i.test(file.name);
+    if (!file.name.endsWith('.json') && !isCsv) {
+      this.error = 'Please select a JSON or CSV file';
       return;
     }
 
@@ -62,7 +63,11 @@ export class FileUploadComponent {
 
     console.log('Starting to process file:', file.name);
 
-    this.tableDataService.processJsonFile(file)
+    const processing = isCsv
+      ? this.tableDataService.processCsvFile(file)
+      : this.tableDataService.processJsonFile(file);
+
+    processing
       .then((data) => {
         console.log('File processed successfully:', data);
         this.ngZone.run(() => {
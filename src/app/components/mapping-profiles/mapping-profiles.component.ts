@@ -0,0 +1,153 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatExpansionModule } from '@angular/material/expansion';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { FieldMapping, MappingProfile } from '../../models/mapping-profile.model';
+import { FHIRConversionOptions } from '../../models/fhir.model';
+import { SOURCE_DATE_FORMATS } from '../../models/date.model';
+import { MappingProfileService } from '../../services/mapping-profile.service';
+import { FhirConverterService } from '../../services/fhir-converter.service';
+
+@Component({
+  selector: 'app-mapping-profiles',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatCardModule,
+    MatIconModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatExpansionModule,
+    MatTooltipModule,
+    MatSlideToggleModule
+  ],
+  templateUrl: './mapping-profiles.component.html',
+  styleUrls: ['./mapping-profiles.component.scss']
+})
+export class MappingProfilesComponent {
+  profiles: MappingProfile[] = [];
+  activeProfile!: MappingProfile;
+  editorText = '';
+  editorErrors: string[] = [];
+  isEditing = false;
+  conversionOptions: FHIRConversionOptions;
+  // Applies to 'auto' dateFormat transforms; ambiguous dates are read day-first when detecting
+  readonly dateFormats = SOURCE_DATE_FORMATS;
+
+  constructor(
+    private mappingProfiles: MappingProfileService,
+    private fhirConverter: FhirConverterService
+  ) {
+    this.conversionOptions = this.fhirConverter.getConversionOptions();
+    this.refresh();
+  }
+
+  selectProfile(id: string): void {
+    this.mappingProfiles.setActiveProfile(id);
+    this.refresh();
+  }
+
+  newProfile(): void {
+    const { builtIn, ...template } = this.activeProfile;
+    const ids = new Set(this.profiles.map(profile => profile.id));
+    let id = `${template.id}-copy`;
+    for (let n = 2; ids.has(id); n++) {
+      id = `${template.id}-copy-${n}`;
+    }
+    this.openEditor(JSON.stringify({ ...template, id, name: `${template.name} (copy)` }, null, 2));
+  }
+
+  editProfile(): void {
+    this.openEditor(this.mappingProfiles.exportProfile(this.activeProfile.id));
+  }
+
+  saveProfile(text: string): void {
+    try {
+      const profile = JSON.parse(text);
+      this.editorErrors = this.mappingProfiles.validateProfile(profile);
+      if (this.editorErrors.length > 0) return;
+
+      const saved = this.mappingProfiles.saveProfile(profile);
+      this.mappingProfiles.setActiveProfile(saved.id);
+      this.isEditing = false;
+      this.refresh();
+    } catch (error) {
+      this.editorErrors = (error as Error).message.split('\n');
+    }
+  }
+
+  cancelEdit(): void {
+    this.isEditing = false;
+    this.editorErrors = [];
+  }
+
+  deleteProfile(): void {
+    if (this.activeProfile.builtIn) return;
+    if (confirm(`Delete mapping profile "${this.activeProfile.name}"?`)) {
+      this.mappingProfiles.deleteProfile(this.activeProfile.id);
+      this.refresh();
+    }
+  }
+
+  onImportFile(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const profile = this.mappingProfiles.importProfile(reader.result as string);
+        this.mappingProfiles.setActiveProfile(profile.id);
+        this.refresh();
+      } catch (error) {
+        alert('Invalid mapping profile:\n' + (error as Error).message);
+      }
+      input.value = '';
+    };
+    reader.readAsText(file);
+  }
+
+  exportProfile(): void {
+    const jsonString = this.mappingProfiles.exportProfile(this.activeProfile.id);
+    const blob = new Blob([jsonString], { type: 'application/json' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${this.activeProfile.id}.mapping-profile.json`;
+    link.click();
+    window.URL.revokeObjectURL(url);
+  }
+
+  updateConversionOptions(options: Partial<FHIRConversionOptions>): void {
+    this.fhirConverter.setConversionOptions(options);
+    this.conversionOptions = this.fhirConverter.getConversionOptions();
+  }
+
+  getSources(mapping: FieldMapping): string {
+    return ([] as string[]).concat(mapping.source ?? []).join(' | ') || '—';
+  }
+
+  getTransforms(mapping: FieldMapping): string {
+    if (mapping.mappings) {
+      return `each element: ${mapping.mappings.length} mapping(s)`;
+    }
+    return (mapping.transforms || []).map(transform => transform.type).join(', ');
+  }
+
+  private openEditor(text: string): void {
+    this.editorText = text;
+    this.editorErrors = [];
+    this.isEditing = true;
+  }
+
+  private refresh(): void {
+    this.profiles = this.mappingProfiles.getProfiles();
+    this.activeProfile = this.mappingProfiles.getActiveProfile();
+  }
+}
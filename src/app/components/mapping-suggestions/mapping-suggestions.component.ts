@@ -0,0 +1,85 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { FHIRUnmappedField } from '../../models/fhir.model';
+import { MappingProfile, MappingSuggestion } from '../../models/mapping-profile.model';
+import { MappingSuggestionService } from '../../services/mapping-suggestion.service';
+
+type SuggestionDecision = 'accepted' | 'rejected';
+
+@Component({
+  selector: 'app-mapping-suggestions',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatCardModule,
+    MatIconModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatTooltipModule
+  ],
+  templateUrl: './mapping-suggestions.component.html',
+  styleUrls: ['./mapping-suggestions.component.scss']
+})
+export class MappingSuggestionsComponent implements OnChanges {
+  @Input() unmappedFields?: FHIRUnmappedField[];
+  @Output() mappingsSaved = new EventEmitter<MappingProfile>();
+
+  suggestions: MappingSuggestion[] = [];
+  // Keyed by source path
+  selectedCandidate: Record<string, number> = {};
+  decisions: Record<string, SuggestionDecision> = {};
+
+  constructor(private mappingSuggestions: MappingSuggestionService) {}
+
+  ngOnChanges(): void {
+    this.suggestions = this.mappingSuggestions.suggestMappings(this.unmappedFields || []);
+    this.selectedCandidate = {};
+    this.decisions = {};
+    this.suggestions.forEach(suggestion => this.selectedCandidate[suggestion.sourcePath] = 0);
+  }
+
+  get acceptedCount(): number {
+    return Object.values(this.decisions).filter(decision => decision === 'accepted').length;
+  }
+
+  selectCandidate(suggestion: MappingSuggestion, index: number): void {
+    this.selectedCandidate[suggestion.sourcePath] = index;
+  }
+
+  decide(suggestion: MappingSuggestion, decision: SuggestionDecision): void {
+    // Clicking the current decision again undoes it
+    if (this.decisions[suggestion.sourcePath] === decision) {
+      delete this.decisions[suggestion.sourcePath];
+    } else {
+      this.decisions[suggestion.sourcePath] = decision;
+    }
+  }
+
+  saveAccepted(): void {
+    const accepted = this.suggestions
+      .filter(suggestion => this.decisions[suggestion.sourcePath] === 'accepted')
+      .map(suggestion => ({
+        sourcePath: suggestion.sourcePath,
+        candidate: suggestion.candidates[this.selectedCandidate[suggestion.sourcePath]]
+      }));
+
+    if (accepted.length === 0) return;
+
+    try {
+      this.mappingsSaved.emit(this.mappingSuggestions.saveAcceptedMappings(accepted));
+    } catch (error) {
+      alert('Could not save mappings: ' + (error as Error).message);
+    }
+  }
+
+  getConfidenceColor(confidence: number): string {
+    if (confidence >= 0.85) return '#4caf50';
+    if (confidence >= 0.65) return '#ff9800';
+    return '#f44336';
+  }
+}
@@ -7,7 +7,29 @@ import { MatTabsModule } from '@angular/material/tabs';
 import { MatProgressBarModule } from '@angular/material/progress-bar';
 import { FhirDisplayComponent } from '../fhir-display/fhir-display.component';
 import { ComplianceDisplayComponent } from '../compliance-display/compliance-display.component';
-import { InteroperabilityService, InteroperabilityResult } from '../../services/interoperability.service';
+import { BatchSummaryComponent } from '../batch-summary/batch-summary.component';
+import { CsvPreviewComponent } from '../csv-preview/csv-preview.component';
+import { MappingProfilesComponent } from '../mapping-profiles/mapping-profiles.component';
+import { MappingSuggestionsComponent } from '../mapping-suggestions/mapping-suggestions.component';
+import { DeidentificationComponent } from '../deidentification/deidentification.component';
+import { PseudonymVaultComponent } from '../pseudonym-vault/pseudonym-vault.component';
+import { PhipaRulePacksComponent } from '../phipa-rule-packs/phipa-rule-packs.component';
+import { ConsentComponent } from '../consent/consent.component';
+import { PurposeOfUseComponent } from '../purpose-of-use/purpose-of-use.component';
+import { RemediationComponent } from '../remediation/remediation.component';
+import { PhiLeakageComponent } from '../phi-leakage/phi-leakage.component';
+import { ReidentificationRiskComponent } from '../reidentification-risk/reidentification-risk.component';
+import { AuditReportComponent } from '../audit-report/audit-report.component';
+import { FHIRBundleType } from '../../models/fhir.model';
+import { PHIPAViolation } from '../../models/phipa.model';
+import { CsvParseOptions, CsvPreview, DecodedText } from '../../models/csv.model';
+import {
+  InteroperabilityService,
+  InteroperabilityResult,
+  BatchInteroperabilityResult
+} from '../../services/interoperability.service';
+
+const ACCEPTED_EXTENSIONS = ['.json', '.hl7', '.txt', '.xml', '.csv', '.tsv', '.psv'];
 
 @Component({
   selector: 'app-medibridge',
@@ -20,15 +42,32 @@ import { InteroperabilityService, InteroperabilityResult } from '../../services/
     MatTabsModule,
     MatProgressBarModule,
     FhirDisplayComponent,
-    ComplianceDisplayComponent
+    ComplianceDisplayComponent,
+    BatchSummaryComponent,
+    CsvPreviewComponent,
+    MappingProfilesComponent,
+    MappingSuggestionsComponent,
+    DeidentificationComponent,
+    ConsentComponent,
+    PurposeOfUseComponent,
+    RemediationComponent,
+    PhiLeakageComponent,
+    ReidentificationRiskComponent,
+    AuditReportComponent,
+    PseudonymVaultComponent,
+    PhipaRulePacksComponent
   ],
   templateUrl: './medibridge.component.html',
   styleUrls: ['./medibridge.component.scss']
 })
 export class MediBridgeComponent {
   result?: InteroperabilityResult;
+  batchResult?: BatchInteroperabilityResult;
+  csvPreview?: CsvPreview;
+  selectedRecordIndex = 0;
   isProcessing = false;
   uploadedFileName = '';
+  readonly acceptedExtensions = ACCEPTED_EXTENSIONS.join(',');
 
   constructor(private interopService: InteroperabilityService) {}
 
@@ -38,8 +77,8 @@ export class MediBridgeComponent {
       const file = input.files[0];
       
       // Validate file type
-      if (!file.name.endsWith('.json')) {
-        alert('Please upload a valid JSON file');
+      if (!this.isAcceptedFile(file)) {
+        alert('Please upload a JSON, HL7 v2 (.hl7, .txt), CDA (.xml) or CSV file');
         return;
       }
       
@@ -56,8 +95,8 @@ export class MediBridgeComponent {
       const file = event.dataTransfer.files[0];
       
       // Validate file type
-      if (!file.name.endsWith('.json')) {
-        alert('Please drop a valid JSON file');
+      if (!this.isAcceptedFile(file)) {
+        alert('Please drop a JSON, HL7 v2 (.hl7, .txt), CDA (.xml) or CSV file');
         return;
       }
       
@@ -71,52 +110,183 @@ export class MediBridgeComponent {
     event.stopPropagation();
   }
 
+  private isAcceptedFile(file: File): boolean {
+    const name = file.name.toLowerCase();
+    return ACCEPTED_EXTENSIONS.some(ext => name.endsWith(ext));
+  }
+
   private readFile(file: File): void {
-    if (!file.name.endsWith('.json')) {
-      alert('Please select a JSON file');
+    if (!this.isAcceptedFile(file)) {
+      alert('Please select a JSON, HL7 v2, CDA or CSV file');
       return;
     }
 
     const reader = new FileReader();
     reader.onload = (e: ProgressEvent<FileReader>) => {
       try {
-        const content = e.target?.result as string;
-        const data = JSON.parse(content);
-        this.processData(data);
+        const decoded = this.interopService.decodeFile(e.target?.result as ArrayBuffer);
+        const isCsv = /\.(csv|tsv|psv)$/i.test(file.name) || this.interopService.detectFormat(decoded.text) === 'csv';
+        if (isCsv) {
+          this.showCsvPreview(file.name, decoded);
+        } else {
+          this.processData(this.interopService.parseInput(decoded.text));
+        }
       } catch (error) {
-        alert('Invalid JSON file: ' + (error as Error).message);
+        alert('Invalid file: ' + (error as Error).message);
       }
     };
-    reader.readAsText(file);
+    reader.readAsArrayBuffer(file);
   }
 
-  onTextSubmitted(jsonText: string): void {
-    if (!jsonText.trim()) {
-      alert('Please enter some JSON data');
+  onTextSubmitted(inputText: string): void {
+    if (!inputText.trim()) {
+      alert('Please enter some JSON data, an HL7 v2 message, a CDA document or CSV rows');
       return;
     }
 
     try {
-      const data = JSON.parse(jsonText);
-      this.uploadedFileName = 'Pasted JSON';
+      const format = this.interopService.detectFormat(inputText);
+      if (format === 'csv') {
+        this.showCsvPreview('Pasted CSV', { text: inputText, encoding: 'Pasted text' });
+        return;
+      }
+
+      const data = this.interopService.parseInput(inputText);
+      const labels: Record<string, string> = {
+        json: 'Pasted JSON',
+        hl7v2: 'Pasted HL7 v2 message',
+        cda: 'Pasted CDA document'
+      };
+      this.uploadedFileName = labels[format];
       this.processData(data);
     } catch (error) {
-      alert('Invalid JSON: ' + (error as Error).message);
+      alert('Invalid input: ' + (error as Error).message);
     }
   }
 
+  private showCsvPreview(fileName: string, decoded: DecodedText, options: CsvParseOptions = {}): void {
+    this.csvPreview = this.interopService.previewCsv(fileName, decoded, options);
+  }
+
+  onCsvOptionsChange(options: CsvParseOptions): void {
+    if (!this.csvPreview) return;
+    try {
+      const { fileName, text, encoding } = this.csvPreview;
+      this.showCsvPreview(fileName, { text, encoding }, options);
+    } catch (error) {
+      alert('Invalid CSV: ' + (error as Error).message);
+    }
+  }
+
+  commitCsvPreview(): void {
+    if (!this.csvPreview) return;
+    const records = this.csvPreview.parseResult.records;
+    this.uploadedFileName = this.csvPreview.fileName;
+    this.csvPreview = undefined;
+    this.processData(records.length === 1 ? records[0] : records);
+  }
+
+  cancelCsvPreview(): void {
+    this.csvPreview = undefined;
+    this.uploadedFileName = '';
+  }
+
   private processData(data: any): void {
     this.isProcessing = true;
 
     // Simulate async processing
-    setTimeout(() => {
-      this.result = this.interopService.processPatientData(data);
-      this.isProcessing = false;
+    setTimeout(async () => {
+      const records = this.interopService.getBatchRecords(data);
+      if (records) {
+        this.batchResult = this.interopService.processBatch(records);
+        this.selectRecord(0);
+      } else {
+        this.batchResult = undefined;
+        this.result = this.interopService.processPatientData(data);
+      }
+      await this.pseudonymizeResults();
     }, 500);
   }
 
+  // Results stay hidden until their identifiers are pseudonymized
+  private async pseudonymizeResults(): Promise<void> {
+    this.isProcessing = true;
+    try {
+      await this.interopService.pseudonymize(this.batchResult ? this.batchResult.records : this.result ? [this.result] : []);
+    } catch (error) {
+      alert('Pseudonymization failed: ' + (error as Error).message);
+      this.clearResults();
+    }
+    this.isProcessing = false;
+  }
+
+  selectRecord(index: number): void {
+    if (!this.batchResult) return;
+    this.selectedRecordIndex = index;
+    this.result = this.batchResult.records[index];
+  }
+
+  onBundleTypeChange(bundleType: FHIRBundleType): void {
+    this.reprocessBatch(bundleType);
+    this.pseudonymizeResults();
+  }
+
+  /**
+   * Re-runs the conversion after accepted suggestions were saved to the active profile
+   */
+  onMappingsSaved(): void {
+    if (this.batchResult) {
+      this.reprocessBatch(this.batchResult.bundleConversion.bundle.type);
+    } else if (this.result) {
+      this.result = this.interopService.processPatientData(this.result.originalData);
+    }
+    this.pseudonymizeResults();
+  }
+
+  /**
+   * Redacts the identifiers of a free-text finding in the record and refreshes its compliance results
+   */
+  onRedactFreeText(violation: PHIPAViolation): void {
+    if (!this.result) return;
+    if (!this.interopService.redactFreeText(this.result, violation)) {
+      alert('The text changed since it was scanned; nothing was redacted');
+      return;
+    }
+    if (this.batchResult) {
+      this.batchResult.summary = this.interopService.summarizeBatch(this.batchResult.records);
+    }
+  }
+
+  onConsentChanged(): void {
+    if (!this.result) return;
+    this.interopService.refreshConsent(this.result);
+    if (this.batchResult) {
+      this.batchResult.summary = this.interopService.summarizeBatch(this.batchResult.records);
+    }
+  }
+
+  // The purpose of use applies to every record, so the whole batch is re-validated
+  onPurposeChanged(): void {
+    if (this.batchResult) {
+      this.batchResult.records.forEach(record => this.interopService.revalidate(record));
+      this.batchResult.summary = this.interopService.summarizeBatch(this.batchResult.records);
+    } else if (this.result) {
+      this.interopService.revalidate(this.result);
+    }
+  }
+
+  private reprocessBatch(bundleType: FHIRBundleType): void {
+    if (!this.batchResult) return;
+    const records = this.batchResult.records.map(r => r.originalData);
+    this.batchResult = this.interopService.processBatch(records, bundleType);
+    this.selectRecord(Math.min(this.selectedRecordIndex, this.batchResult.records.length - 1));
+  }
+
   clearResults(): void {
     this.result = undefined;
+    this.batchResult = undefined;
+    this.csvPreview = undefined;
+    this.selectedRecordIndex = 0;
     this.uploadedFileName = '';
   }
 
@@ -0,0 +1,46 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatIconModule } from '@angular/material/icon';
+import { MatExpansionModule } from '@angular/material/expansion';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { PHILeakageItem, PHILeakageStatus, PHIPAValidationResult } from '../../models/phipa.model';
+import { InteroperabilityResult, InteroperabilityService } from '../../services/interoperability.service';
+
+const STATUS_LABELS: Record<PHILeakageStatus, { label: string; description: string }> = {
+  carried: { label: 'Carried', description: 'Found in the source and present in the FHIR Patient' },
+  introduced: { label: 'Output only', description: 'Found in the FHIR Patient but not flagged in the source' },
+  contained: { label: 'Kept out', description: 'Found in the source but not mapped, pseudonymized or withheld from the Patient' }
+};
+
+@Component({
+  selector: 'app-phi-leakage',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatCardModule,
+    MatIconModule,
+    MatExpansionModule,
+    MatTooltipModule
+  ],
+  templateUrl: './phi-leakage.component.html',
+  styleUrls: ['./phi-leakage.component.scss']
+})
+export class PhiLeakageComponent implements OnChanges {
+  @Input() result?: InteroperabilityResult;
+  // Bound separately so that re-validation and pseudonymization refresh the comparison
+  @Input() outputValidation?: PHIPAValidationResult;
+
+  items: PHILeakageItem[] = [];
+  readonly statusLabels = STATUS_LABELS;
+
+  constructor(private interopService: InteroperabilityService) {}
+
+  ngOnChanges(): void {
+    this.items = this.result ? this.interopService.getLeakage(this.result) : [];
+  }
+
+  count(status: PHILeakageStatus): number {
+    return this.items.filter(item => item.status === status).length;
+  }
+}
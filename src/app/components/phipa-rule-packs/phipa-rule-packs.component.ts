@@ -0,0 +1,203 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatExpansionModule } from '@angular/material/expansion';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { PHIPARule, PHIPARulePack, PHIPAViolationType, PrivacyJurisdictionId } from '../../models/phipa.model';
+import { PhipaRulePackService, PRIVACY_JURISDICTIONS } from '../../services/phipa-rule-pack.service';
+import { PhipaValidationService } from '../../services/phipa-validation.service';
+
+@Component({
+  selector: 'app-phipa-rule-packs',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatCardModule,
+    MatIconModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatExpansionModule,
+    MatTooltipModule,
+    MatSlideToggleModule
+  ],
+  templateUrl: './phipa-rule-packs.component.html',
+  styleUrls: ['./phipa-rule-packs.component.scss']
+})
+export class PhipaRulePacksComponent {
+  readonly jurisdictions = PRIVACY_JURISDICTIONS;
+  selectedJurisdictions: PrivacyJurisdictionId[];
+  viewedJurisdiction: PrivacyJurisdictionId = 'PHIPA'; // Whose packs are listed and edited
+  packs: PHIPARulePack[] = [];
+  activePack!: PHIPARulePack;
+  editorText = '';
+  editorErrors: string[] = [];
+  isEditing = false;
+  readonly violationTypes = PHIPAViolationType;
+
+  constructor(
+    private rulePacks: PhipaRulePackService,
+    private phipaValidator: PhipaValidationService
+  ) {
+    this.selectedJurisdictions = this.phipaValidator.getJurisdictions();
+    this.refresh();
+  }
+
+  selectJurisdictions(ids: PrivacyJurisdictionId[]): void {
+    if (ids.length > 0) {
+      this.phipaValidator.setJurisdictions(ids);
+    }
+    // A scan needs at least one regime; deselecting the last one keeps it selected
+    this.selectedJurisdictions = this.phipaValidator.getJurisdictions();
+  }
+
+  viewJurisdiction(id: PrivacyJurisdictionId): void {
+    this.viewedJurisdiction = id;
+    this.refresh();
+  }
+
+  selectPack(id: string): void {
+    this.rulePacks.setActivePack(id);
+    this.refresh();
+  }
+
+  newPack(): void {
+    const { builtIn, ...template } = this.activePack;
+    this.openEditor(JSON.stringify({ ...template, id: this.unusedId(`${template.id}-copy`), name: `${template.name} (copy)`, version: '1.0.0' }, null, 2));
+  }
+
+  editPack(): void {
+    this.openEditor(this.rulePacks.exportPack(this.activePack.id));
+  }
+
+  /**
+   * Opens the editor on the active pack (a copy of a built-in one) with a custom rule to fill in
+   */
+  addRule(): void {
+    const { builtIn, ...pack } = this.activePack;
+    const [major, minor] = pack.version.split('.').map(Number);
+    const ruleIds = new Set(pack.rules.map(rule => rule.id));
+    let ruleId = 'custom';
+    for (let n = 2; ruleIds.has(ruleId); n++) {
+      ruleId = `custom-${n}`;
+    }
+
+    const rule: PHIPARule = {
+      id: ruleId,
+      type: 'CUSTOM_SENSITIVE',
+      fieldNamePattern: '',
+      severity: 'high',
+      weight: 1,
+      description: '',
+      recommendation: 'Review and encrypt sensitive fields',
+      enabled: true
+    };
+    this.openEditor(JSON.stringify({
+      ...pack,
+      ...(builtIn && { id: this.unusedId(`${pack.id}-custom`), name: `${pack.name} (custom)` }),
+      version: `${major}.${minor + 1}.0`,
+      rules: [...pack.rules, rule]
+    }, null, 2));
+  }
+
+  savePack(text: string): void {
+    try {
+      const pack = JSON.parse(text);
+      this.editorErrors = this.rulePacks.validatePack(pack);
+      if (this.editorErrors.length > 0) return;
+
+      const saved = this.rulePacks.savePack(pack);
+      this.rulePacks.setActivePack(saved.id);
+      this.isEditing = false;
+      this.viewJurisdiction(this.rulePacks.jurisdictionOf(saved));
+    } catch (error) {
+      this.editorErrors = (error as Error).message.split('\n');
+    }
+  }
+
+  cancelEdit(): void {
+    this.isEditing = false;
+    this.editorErrors = [];
+  }
+
+  deletePack(): void {
+    if (this.activePack.builtIn) return;
+    if (confirm(`Delete rule pack "${this.activePack.name}"?`)) {
+      this.rulePacks.deletePack(this.activePack.id);
+      this.refresh();
+    }
+  }
+
+  onImportFile(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const pack = this.rulePacks.importPack(reader.result as string);
+        this.rulePacks.setActivePack(pack.id);
+        this.viewJurisdiction(this.rulePacks.jurisdictionOf(pack));
+      } catch (error) {
+        alert('Invalid rule pack:\n' + (error as Error).message);
+      }
+      input.value = '';
+    };
+    reader.readAsText(file);
+  }
+
+  exportPack(): void {
+    const jsonString = this.rulePacks.exportPack(this.activePack.id);
+    const blob = new Blob([jsonString], { type: 'application/json' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${this.activePack.id}-${this.activePack.version}.rule-pack.json`;
+    link.click();
+    window.URL.revokeObjectURL(url);
+  }
+
+  setEnabled(rule: PHIPARule, enabled: boolean): void {
+    this.updateRule(rule, { enabled });
+  }
+
+  setWeight(rule: PHIPARule, input: HTMLInputElement): void {
+    const weight = Number(input.value);
+    if (input.value === '' || weight === rule.weight) return;
+    this.updateRule(rule, { weight });
+    input.value = String(this.activePack.rules.find(r => r.id === rule.id)?.weight ?? rule.weight);
+  }
+
+  private updateRule(rule: PHIPARule, changes: Partial<PHIPARule>): void {
+    try {
+      this.rulePacks.updateRule(rule.id, changes, this.viewedJurisdiction);
+    } catch (error) {
+      alert('Could not update the rule:\n' + (error as Error).message);
+    }
+    this.refresh();
+  }
+
+  private unusedId(base: string): string {
+    const ids = new Set(this.rulePacks.getPacks().map(pack => pack.id));
+    let id = base;
+    for (let n = 2; ids.has(id); n++) {
+      id = `${base}-${n}`;
+    }
+    return id;
+  }
+
+  private openEditor(text: string): void {
+    this.editorText = text;
+    this.editorErrors = [];
+    this.isEditing = true;
+  }
+
+  private refresh(): void {
+    this.packs = this.rulePacks.getPacks(this.viewedJurisdiction);
+    this.activePack = this.rulePacks.getActivePack(this.viewedJurisdiction);
+  }
+}
@@ -0,0 +1,83 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { PseudonymVaultEntry } from '../../models/pseudonym.model';
+import { FhirConverterService } from '../../services/fhir-converter.service';
+import { PseudonymizationService } from '../../services/pseudonymization.service';
+
+@Component({
+  selector: 'app-pseudonym-vault',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatCardModule,
+    MatIconModule,
+    MatButtonModule,
+    MatSlideToggleModule
+  ],
+  templateUrl: './pseudonym-vault.component.html',
+  styleUrls: ['./pseudonym-vault.component.scss']
+})
+export class PseudonymVaultComponent {
+  pseudonymizeIdentifiers: boolean;
+  isUnlocking = false;
+  unlockError = '';
+  // Result of the last re-identification: the entry, or null when the token is unknown
+  reidentified?: PseudonymVaultEntry | null;
+
+  constructor(
+    private pseudonyms: PseudonymizationService,
+    private fhirConverter: FhirConverterService
+  ) {
+    this.pseudonymizeIdentifiers = this.fhirConverter.getConversionOptions().pseudonymizeIdentifiers;
+  }
+
+  get isUnlocked(): boolean {
+    return this.pseudonyms.isUnlocked();
+  }
+
+  get hasStoredVault(): boolean {
+    return this.pseudonyms.hasStoredVault();
+  }
+
+  get entryCount(): number {
+    return this.pseudonyms.getEntryCount();
+  }
+
+  async unlock(keyInput: HTMLInputElement): Promise<void> {
+    this.isUnlocking = true;
+    this.unlockError = '';
+    try {
+      await this.pseudonyms.unlock(keyInput.value);
+      keyInput.value = '';
+    } catch (error) {
+      this.unlockError = (error as Error).message;
+    }
+    this.isUnlocking = false;
+  }
+
+  lock(): void {
+    this.pseudonyms.lock();
+    this.reidentified = undefined;
+    this.setPseudonymize(false);
+  }
+
+  setPseudonymize(enabled: boolean): void {
+    this.fhirConverter.setConversionOptions({ pseudonymizeIdentifiers: enabled });
+    this.pseudonymizeIdentifiers = enabled;
+  }
+
+  reidentify(token: string): void {
+    this.reidentified = token.trim() ? this.pseudonyms.reidentify(token) ?? null : undefined;
+  }
+
+  clearVault(): void {
+    if (confirm(`Delete all ${this.entryCount} pseudonym(s)? Their original identifiers can no longer be recovered.`)) {
+      this.pseudonyms.clearVault();
+      this.reidentified = undefined;
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatExpansionModule } from '@angular/material/expansion';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import {
+  MinimizationAnalysis,
+  PurposeElement,
+  PurposeElementUse,
+  PurposeOfUse
+} from '../../models/purpose-of-use.model';
+import { ConsentService } from '../../services/consent.service';
+import { InteroperabilityResult } from '../../services/interoperability.service';
+import { PURPOSE_ELEMENTS, PurposeOfUseService } from '../../services/purpose-of-use.service';
+
+const USE_LABELS: Record<PurposeElementUse, string> = {
+  required: 'Required',
+  permitted: 'Permitted',
+  excluded: 'Not needed'
+};
+
+@Component({
+  selector: 'app-purpose-of-use',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatCardModule,
+    MatIconModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatExpansionModule,
+    MatTooltipModule
+  ],
+  templateUrl: './purpose-of-use.component.html',
+  styleUrls: ['./purpose-of-use.component.scss']
+})
+export class PurposeOfUseComponent implements OnChanges {
+  @Input() result?: InteroperabilityResult;
+  // Emitted when the purpose or its definition changed, so that records are re-validated
+  @Output() changed = new EventEmitter<void>();
+
+  purposes: PurposeOfUse[] = [];
+  purpose?: PurposeOfUse;
+  analysis?: MinimizationAnalysis;
+  readonly elements = PURPOSE_ELEMENTS;
+  readonly uses = Object.keys(USE_LABELS) as PurposeElementUse[];
+  readonly useLabels = USE_LABELS;
+
+  constructor(
+    private purposeService: PurposeOfUseService,
+    private consents: ConsentService
+  ) {
+    this.refresh();
+  }
+
+  ngOnChanges(): void {
+    this.refresh();
+  }
+
+  get exportBlocked(): boolean {
+    return !!this.result && !this.consents.canDisclose(this.result.consent);
+  }
+
+  selectPurpose(id: string): void {
+    this.purposeService.selectPurpose(id === 'none' ? null : id);
+    this.update();
+  }
+
+  setUse(element: PurposeElement, use: PurposeElementUse): void {
+    this.purposeService.setElementUse(element, use);
+    this.update();
+  }
+
+  deletePurpose(): void {
+    if (this.purpose && !this.purpose.builtIn && confirm(`Delete the purpose of use "${this.purpose.name}"?`)) {
+      this.purposeService.deletePurpose(this.purpose.id);
+      this.update();
+    }
+  }
+
+  getElementLabel(element: PurposeElement): string {
+    return this.purposeService.getElementLabel(element);
+  }
+
+  downloadMinimized(): void {
+    if (!this.result || !this.purpose || this.exportBlocked) return;
+
+    // Lockbox instructions hold whatever the purpose permits
+    const patient = this.result.fhirConversion.fhirResource;
+    const minimized = this.purposeService.minimize(
+      this.source,
+      patient && this.consents.withholdLocked(patient, this.result.consent),
+      this.purpose
+    );
+    const jsonString = JSON.stringify(minimized, null, 2);
+    const blob = new Blob([jsonString], { type: 'application/json' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `minimized-${this.purpose.id}-${minimized.createdAt.toISOString().slice(0, 10)}.json`;
+    link.click();
+    window.URL.revokeObjectURL(url);
+  }
+
+  // HL7 v2 input is judged as the record the converter flattened it into
+  private get source(): any {
+    return this.result ? this.result.fhirConversion.originalData ?? this.result.originalData : undefined;
+  }
+
+  private update(): void {
+    this.refresh();
+    this.changed.emit();
+  }
+
+  private refresh(): void {
+    this.purposes = this.purposeService.getPurposes();
+    this.purpose = this.purposeService.getSelectedPurpose();
+    const source = this.source;
+    this.analysis = this.purpose && source && typeof source === 'object'
+      ? this.purposeService.analyze(source, this.purpose)
+      : undefined;
+  }
+}
@@ -0,0 +1,141 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatExpansionModule } from '@angular/material/expansion';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import {
+  GeneralizationSuggestion,
+  QuasiIdentifier,
+  ReidentificationRiskAssessment,
+  RiskOptions
+} from '../../models/reidentification-risk.model';
+import { BatchInteroperabilityResult, InteroperabilityService } from '../../services/interoperability.service';
+import {
+  QUASI_IDENTIFIER_SETS,
+  QUASI_IDENTIFIERS,
+  ReidentificationRiskService
+} from '../../services/reidentification-risk.service';
+
+@Component({
+  selector: 'app-reidentification-risk',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatCardModule,
+    MatIconModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatExpansionModule,
+    MatTooltipModule
+  ],
+  templateUrl: './reidentification-risk.component.html',
+  styleUrls: ['./reidentification-risk.component.scss']
+})
+export class ReidentificationRiskComponent implements OnChanges {
+  @Input() batchResult?: BatchInteroperabilityResult;
+  @Output() recordSelected = new EventEmitter<number>();
+
+  options: RiskOptions;
+  sensitiveCandidates: string[] = [];
+  optionError?: string;
+  readonly quasiIdentifiers = QUASI_IDENTIFIERS;
+  readonly quasiIdentifierSets = QUASI_IDENTIFIER_SETS;
+
+  constructor(
+    private risk: ReidentificationRiskService,
+    private interopService: InteroperabilityService
+  ) {
+    this.options = this.risk.getOptions();
+  }
+
+  get assessment(): ReidentificationRiskAssessment | undefined {
+    return this.batchResult?.riskAssessment;
+  }
+
+  // The preset matching the selected quasi-identifiers, if any
+  get selectedSetId(): string | undefined {
+    return QUASI_IDENTIFIER_SETS.find(set =>
+      set.quasiIdentifiers.length === this.options.quasiIdentifiers.length
+      && set.quasiIdentifiers.every(id => this.options.quasiIdentifiers.includes(id))
+    )?.id;
+  }
+
+  ngOnChanges(): void {
+    this.options = this.risk.getOptions();
+    this.sensitiveCandidates = this.batchResult
+      ? this.risk.getSensitiveCandidates(this.interopService.getRiskRecords(this.batchResult.records))
+      : [];
+  }
+
+  selectSet(id: string): void {
+    const set = QUASI_IDENTIFIER_SETS.find(candidate => candidate.id === id);
+    if (set) {
+      this.update({ quasiIdentifiers: [...set.quasiIdentifiers] });
+    }
+  }
+
+  setQuasiIdentifiers(ids: QuasiIdentifier[]): void {
+    this.update({ quasiIdentifiers: ids });
+  }
+
+  setKTarget(input: HTMLInputElement): void {
+    this.update({ kTarget: Number(input.value) });
+    input.value = String(this.options.kTarget);
+  }
+
+  setSensitiveAttribute(path: string): void {
+    this.update({ sensitiveAttribute: path === 'none' ? undefined : path });
+  }
+
+  setLevel(id: QuasiIdentifier, level: number): void {
+    this.update({ generalization: { ...this.options.generalization, [id]: level } });
+  }
+
+  applySuggestion(suggestion: GeneralizationSuggestion): void {
+    this.update({ generalization: { ...suggestion.generalization } });
+  }
+
+  resetGeneralization(): void {
+    this.update({ generalization: {} });
+  }
+
+  getLabel(id: string): string {
+    return QUASI_IDENTIFIERS.find(qi => qi.id === id)?.label ?? id;
+  }
+
+  getLevels(id: QuasiIdentifier): string[] {
+    return this.risk.getQuasiIdentifier(id).levels;
+  }
+
+  getLevel(id: QuasiIdentifier): number {
+    return this.options.generalization[id] ?? 0;
+  }
+
+  isGeneralized(): boolean {
+    return this.options.quasiIdentifiers.some(id => this.getLevel(id) > 0);
+  }
+
+  getValues(values: Partial<Record<QuasiIdentifier, string>>): string {
+    return Object.entries(values).map(([id, value]) => `${this.getLabel(id)}: ${value}`).join(' · ');
+  }
+
+  percent(value: number): string {
+    return `${Math.round(value * 100)}%`;
+  }
+
+  private update(options: Partial<RiskOptions>): void {
+    try {
+      this.risk.setOptions(options);
+      this.optionError = undefined;
+    } catch (error) {
+      this.optionError = (error as Error).message;
+    }
+    this.options = this.risk.getOptions();
+    if (this.batchResult) {
+      this.interopService.assessRisk(this.batchResult);
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatExpansionModule } from '@angular/material/expansion';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { PHIPASeverity, PHIPAValidationResult } from '../../models/phipa.model';
+import {
+  RemediationAction,
+  RemediationChoice,
+  RemediationItem,
+  RemediationOutcome
+} from '../../models/remediation.model';
+import { InteroperabilityResult, InteroperabilityService } from '../../services/interoperability.service';
+import { ConsentService } from '../../services/consent.service';
+import { Hl7v2ParserService } from '../../services/hl7v2-parser.service';
+import { REMEDIATION_ACTIONS, RemediationService } from '../../services/remediation.service';
+
+const SEVERITY_ORDER: PHIPASeverity[] = ['critical', 'high', 'medium', 'low'];
+
+@Component({
+  selector: 'app-remediation',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatCardModule,
+    MatIconModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatExpansionModule,
+    MatTooltipModule
+  ],
+  templateUrl: './remediation.component.html',
+  styleUrls: ['./remediation.component.scss']
+})
+export class RemediationComponent implements OnChanges {
+  @Input() result?: InteroperabilityResult;
+  // Bound separately so that a re-validated record refreshes the items
+  @Input() validation?: PHIPAValidationResult;
+
+  items: RemediationItem[] = [];
+  choices: Record<string, RemediationChoice> = {};
+  outcome?: RemediationOutcome;
+  remediatedResult?: InteroperabilityResult;
+  applyError?: string;
+  isApplying = false;
+  readonly actions = REMEDIATION_ACTIONS;
+
+  constructor(
+    private remediation: RemediationService,
+    private interopService: InteroperabilityService,
+    private consents: ConsentService,
+    private hl7Parser: Hl7v2ParserService
+  ) {}
+
+  ngOnChanges(): void {
+    const source = this.source;
+    this.items = this.result && source && typeof source === 'object'
+      ? this.remediation.getItems(this.result.phipaValidation, source)
+      : [];
+    this.choices = Object.fromEntries(this.items.map(item => [item.field, this.remediation.getDefaultChoice(item)]));
+    this.outcome = undefined;
+    this.remediatedResult = undefined;
+    this.applyError = undefined;
+  }
+
+  // HL7 v2 and CDA input is remediated as the record the converter flattened it into
+  get source(): any {
+    return this.result ? this.result.fhirConversion.originalData ?? this.result.originalData : undefined;
+  }
+
+  get exportBlocked(): boolean {
+    return !!this.result && !this.consents.canDisclose(this.result.consent);
+  }
+
+  get isDocument(): boolean {
+    return !!this.result && typeof this.source !== 'object';
+  }
+
+  get isFlattened(): boolean {
+    return !!this.result && this.source !== this.result.originalData;
+  }
+
+  // What the flattened record was read from, for the note above the table
+  get flattenedFrom(): string {
+    return this.result && this.hl7Parser.isMessage(this.result.originalData) ? 'HL7 v2 message' : 'CDA document';
+  }
+
+  setAction(field: string, action: RemediationAction): void {
+    this.choices = { ...this.choices, [field]: { ...this.choices[field], action } };
+  }
+
+  setJustification(field: string, input: HTMLInputElement): void {
+    this.choices = { ...this.choices, [field]: { ...this.choices[field], justification: input.value } };
+  }
+
+  getActionLabel(action: RemediationAction): string {
+    return REMEDIATION_ACTIONS.find(option => option.action === action)!.label;
+  }
+
+  getActionDescription(action: RemediationAction): string {
+    return REMEDIATION_ACTIONS.find(option => option.action === action)!.description;
+  }
+
+  // One line per violation type, with the jurisdictions that raised it
+  getFindings(item: RemediationItem): string[] {
+    const types = new Map<string, string[]>();
+    item.violations.forEach(v => types.set(v.violationType, [...(types.get(v.violationType) ?? []), v.jurisdiction]));
+    return [...types.entries()].map(([type, jurisdictions]) => `${type} (${[...new Set(jurisdictions)].join(', ')})`);
+  }
+
+  getSeverity(item: RemediationItem): PHIPASeverity {
+    return SEVERITY_ORDER.find(severity => item.violations.some(v => v.severity === severity))!;
+  }
+
+  /**
+   * Applies the choices to a copy of the record and runs the copy through the pipeline again, rebuilt
+   * into a message or document first when the record was flattened from one
+   */
+  async apply(): Promise<void> {
+    if (!this.result || this.isApplying) return;
+
+    this.isApplying = true;
+    this.applyError = undefined;
+    try {
+      const outcome = await this.remediation.apply(this.source, this.items, this.choices);
+      const remediatedResult = this.interopService.processRemediated(this.result, outcome.remediated);
+      await this.interopService.pseudonymize([remediatedResult]);
+      this.outcome = outcome;
+      this.remediatedResult = remediatedResult;
+      this.remediation.recordApplied(this.source, {
+        log: outcome.log,
+        scoreAfter: remediatedResult.dataQualityScore,
+        violationsAfter: remediatedResult.phipaValidation.violations.length,
+        appliedAt: new Date()
+      });
+    } catch (error) {
+      this.applyError = (error as Error).message;
+    }
+    this.isApplying = false;
+  }
+
+  formatValue(value: any): string {
+    return value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  }
+
+  downloadRemediated(): void {
+    if (!this.outcome || !this.result) return;
+    // Lockbox instructions still hold for the remediated copy
+    const remediated = this.consents.withholdLockedFields(this.outcome.remediated, this.result.consent);
+    if (this.hl7Parser.isMessage(this.result.originalData)) {
+      const message = this.hl7Parser.fromRecord(remediated, this.result.originalData.delimiters);
+      this.save(this.hl7Parser.toText(message), 'text/plain', 'remediated', 'hl7');
+      return;
+    }
+    this.download(remediated, 'remediated');
+  }
+
+  downloadLog(): void {
+    if (!this.outcome || !this.result || !this.remediatedResult) return;
+    this.download({
+      createdAt: new Date().toISOString(),
+      jurisdictions: this.result.phipaValidation.jurisdictions,
+      ...(this.result.phipaValidation.purposeOfUse && { purposeOfUse: this.result.phipaValidation.purposeOfUse }),
+      scoreBefore: this.result.dataQualityScore,
+      scoreAfter: this.remediatedResult.dataQualityScore,
+      violationsBefore: this.result.phipaValidation.violations.length,
+      violationsAfter: this.remediatedResult.phipaValidation.violations.length,
+      entries: this.outcome.log
+    }, 'remediation-log');
+  }
+
+  private download(data: any, name: string): void {
+    this.save(JSON.stringify(data, null, 2), 'application/json', name, 'json');
+  }
+
+  private save(content: string, type: string, name: string, extension: string): void {
+    if (this.exportBlocked) return;
+    const blob = new Blob([content], { type });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+    link.click();
+    window.URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,23 @@
+// Capacity and Substitute Decision-Maker Models (minors and patients marked incapable)
+
+// Why a contact may decide for the patient:
+// - guardian: guardian, or attorney under a power of attorney
+// - parent: parent of the patient, who decides for a child under the age of consent
+// - relative: spouse, partner, child, sibling or other relative, ranked after the above for an incapable patient
+export type DecisionMakerBasis = 'guardian' | 'parent' | 'relative';
+
+export interface SubstituteDecisionMaker {
+  contactIndex: number; // Position in Patient.contact
+  basis: DecisionMakerBasis;
+  relationship: string; // As recorded, e.g. "legal guardian" or "mother"
+}
+
+export interface CapacityAssessment {
+  age?: number; // Whole years today; the youngest the birth date allows when it is partial
+  ageExact: boolean; // False for a partial birth date that allows two ages
+  minor: boolean; // Under the age at which a patient consents for themselves
+  incapable: boolean;
+  incapacitySource?: string; // Source field that marks the patient incapable
+  decisionMakers: SubstituteDecisionMaker[]; // Contacts whose relationship lets them decide for the patient
+  directContacts: string[]; // Patient telecom elements that reach the patient themselves, e.g. "telecom[0]"
+}
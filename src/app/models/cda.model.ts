@@ -0,0 +1,89 @@
+// HL7 CDA R2 / C-CDA Document Models
+
+// Every extracted value remembers the XPath it was read from
+export interface CdaValue {
+  value: string;
+  xpath: string;
+}
+
+export interface CdaId {
+  root?: string;
+  extension?: string;
+  assigningAuthorityName?: string;
+  xpath: string;
+}
+
+export interface CdaAddress {
+  use?: string;
+  streetAddressLines: CdaValue[];
+  city?: CdaValue;
+  state?: CdaValue;
+  postalCode?: CdaValue;
+  country?: CdaValue;
+  xpath: string;
+}
+
+export interface CdaTelecom {
+  value: string;
+  use?: string;
+  xpath: string;
+}
+
+export interface CdaName {
+  use?: string;
+  prefix: CdaValue[];
+  given: CdaValue[];
+  family?: CdaValue;
+  suffix: CdaValue[];
+  text?: CdaValue;
+  xpath: string;
+}
+
+export interface CdaCode {
+  code: string;
+  displayName?: string;
+  codeSystem?: string;
+  xpath: string;
+}
+
+export interface CdaLanguage {
+  code: string;
+  preferred?: boolean;
+  xpath: string;
+}
+
+export interface CdaPatientRole {
+  ids: CdaId[];
+  addresses: CdaAddress[];
+  telecoms: CdaTelecom[];
+  names: CdaName[];
+  gender?: CdaCode;
+  birthTime?: CdaValue;
+  maritalStatus?: CdaCode;
+  languages: CdaLanguage[];
+  providerOrganization?: CdaValue;
+}
+
+export interface CdaDocument {
+  documentType: 'CDA';
+  title?: string;
+  documentId?: string;
+  templateIds: string[];
+  patientRoles: CdaPatientRole[];
+  // The whole document as a plain object (attributes as @name, text as #text)
+  content: any;
+}
+
+// Root OIDs that tell what an id's extension is, and the record field it is read into for scanning
+export const CDA_ID_ROOT_NAMES: Record<string, string> = {
+  '2.16.840.1.113883.4.1': 'ssn' // US Social Security Administration
+};
+
+// URL schemes of telecom values, and the record field each is read into for scanning
+export const CDA_TELECOM_SCHEME_NAMES: Record<string, string> = {
+  tel: 'phone',
+  fax: 'fax',
+  mailto: 'email',
+  http: 'url',
+  https: 'url'
+};
@@ -0,0 +1,42 @@
+// Consent Directive Models (express consent, PHIPA lockbox instructions and withdrawals)
+
+export type ConsentDirectiveType =
+  | 'consent' // Express consent to collect, use and disclose
+  | 'lockbox' // Instruction to withhold some information from disclosure (PHIPA "lockbox")
+  | 'withdrawal'; // Consent withdrawn: the record may not be disclosed
+
+// Patient elements a lockbox can withhold
+export type LockableElement =
+  | 'name'
+  | 'telecom'
+  | 'address'
+  | 'birthDate'
+  | 'gender'
+  | 'identifier'
+  | 'contact'
+  | 'maritalStatus'
+  | 'communication';
+
+export interface ConsentDirective {
+  id: string;
+  type: ConsentDirectiveType;
+  date?: string; // FHIR date the directive was given; undated directives count as the most recent
+  elements: LockableElement[]; // Withheld elements of a lockbox; empty for other types
+  recipient?: string; // Whom a lockbox applies to; everyone when absent
+  note?: string;
+  source: 'record' | 'manual'; // Read from the source record or entered in the application
+  sourcePath?: string; // Field of the source record the directive was read from
+}
+
+// - consented: the latest consent decision gives consent and nothing is locked
+// - restricted: not withdrawn, but a lockbox withholds some elements
+// - withdrawn: the latest consent decision withdraws consent
+// - unknown: no directive was recorded
+export type ConsentStatus = 'consented' | 'restricted' | 'withdrawn' | 'unknown';
+
+export interface ConsentState {
+  directives: ConsentDirective[]; // Oldest first, undated last
+  status: ConsentStatus;
+  lockedElements: LockableElement[];
+  withdrawal?: ConsentDirective; // The withdrawal in force, when the status is withdrawn
+}
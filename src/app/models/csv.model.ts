@@ -0,0 +1,33 @@
+import { TableData } from './table-data.model';
+
+// CSV / Flat File Models
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export interface CsvParseOptions {
+  delimiter?: CsvDelimiter | 'auto';
+  hasHeader?: boolean | 'auto';
+}
+
+export interface CsvParseResult {
+  headers: string[];
+  records: any[];
+  delimiter: CsvDelimiter;
+  quoteChar: '"' | '\'' | null;
+  hasHeader: boolean;
+  warnings: string[];
+}
+
+export interface DecodedText {
+  text: string;
+  encoding: string;
+}
+
+// Parsed flat file awaiting user confirmation before the pipeline runs
+export interface CsvPreview {
+  fileName: string;
+  text: string;
+  encoding: string;
+  options: CsvParseOptions;
+  parseResult: CsvParseResult;
+  table: TableData;
+}
@@ -0,0 +1,26 @@
+// Source Date Models
+
+// Formats a source date can be read as; 'auto' detects ISO 8601, HL7 TS, YYYYMMDD,
+// day/month/year and written month names ("15 May 1985", "mai 1985")
+export type SourceDateFormat =
+  | 'auto'
+  | 'YYYY-MM-DD'
+  | 'YYYYMMDD'
+  | 'DD/MM/YYYY'
+  | 'MM/DD/YYYY'
+  | 'DD-MM-YYYY'
+  | 'HL7';
+
+export const SOURCE_DATE_FORMATS: SourceDateFormat[] = [
+  'auto', 'YYYY-MM-DD', 'YYYYMMDD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD-MM-YYYY', 'HL7'
+];
+
+// FHIR dates may be partial: YYYY, YYYY-MM or YYYY-MM-DD
+export type DatePrecision = 'year' | 'month' | 'day';
+
+export interface NormalizedDate {
+  value?: string; // FHIR date; undefined when the source could not be read
+  precision?: DatePrecision;
+  format?: Exclude<SourceDateFormat, 'auto'> | 'text'; // How the source was read
+  warnings: string[];
+}
@@ -0,0 +1,54 @@
+// De-identification Models
+import { FHIRPatient } from './fhir.model';
+
+// Kinds of personal health information a de-identification policy decides on
+export type PhiCategory =
+  | 'name'
+  | 'identifier'
+  | 'sensitive' // Anything the PHIPA scanner flags: SIN, payment cards, biometrics, ...
+  | 'birthDate'
+  | 'date'
+  | 'age'
+  | 'street'
+  | 'city'
+  | 'postalCode'
+  | 'telecom';
+
+export type DeidentificationAction =
+  | 'keep'
+  | 'remove' // Drop the field
+  | 'mask' // Hide all but a few characters
+  | 'generalize' // Dates → year or year-month, postal codes → FSA, ages → buckets
+  | 'dateShift' // Move every date of a patient by the same random number of days
+  | 'suppress'; // Keep the field but withhold its value ("[SUPPRESSED]", data-absent-reason in FHIR)
+
+export type GeneralizedDatePrecision = 'year' | 'yearMonth';
+
+export interface DeidentificationPolicy {
+  id: string;
+  name: string;
+  description: string;
+  builtIn?: boolean;
+  actions: Record<PhiCategory, DeidentificationAction>;
+  datePrecision: GeneralizedDatePrecision; // Used when generalizing dates
+  ageBucketSize: number; // Years per age bucket; ages of 90 and over are always grouped as "90+"
+  maxDateShiftDays: number; // Per-patient shifts are drawn from ±maxDateShiftDays
+}
+
+export interface DeidentificationReportEntry {
+  target: 'source' | 'fhir';
+  path: string;
+  category: PhiCategory;
+  action: DeidentificationAction;
+  detail: string; // What was done, never the original value
+}
+
+export interface DeidentificationResult {
+  policyId: string;
+  policyName: string;
+  source?: any; // De-identified copy of the original record; absent for CDA documents
+  fhirResource?: FHIRPatient;
+  report: DeidentificationReportEntry[];
+  notes: string[];
+  createdAt: Date;
+}
@@ -1,3 +1,5 @@
+import { SourceDateFormat } from './date.model';
+
 // FHIR R4 Patient Resource Model
 export interface FHIRPatient {
   resourceType: 'Patient';
@@ -6,7 +8,9 @@ export interface FHIRPatient {
     versionId?: string;
     lastUpdated?: string;
     profile?: string[];
+    security?: FHIRCoding[];
   };
+  extension?: FHIRExtension[];
   identifier?: FHIRIdentifier[];
   active?: boolean;
   name?: FHIRHumanName[];
@@ -17,6 +21,17 @@ export interface FHIRPatient {
   maritalStatus?: FHIRCodeableConcept;
   contact?: FHIRPatientContact[];
   communication?: FHIRPatientCommunication[];
+  generalPractitioner?: FHIRReference[];
+  managingOrganization?: FHIRReference;
+}
+
+export interface FHIRExtension {
+  url: string;
+  valueString?: string;
+  valueBoolean?: boolean;
+  valueInteger?: number;
+  valueDecimal?: number;
+  valueCode?: string;
 }
 
 export interface FHIRIdentifier {
@@ -25,6 +40,8 @@ export interface FHIRIdentifier {
   system?: string;
   value?: string;
   period?: FHIRPeriod;
+  assigner?: FHIRReference;
+  extension?: FHIRExtension[];
 }
 
 export interface FHIRHumanName {
@@ -98,6 +115,51 @@ export interface FHIRReference {
   display?: string;
 }
 
+// FHIR R4 Consent Resource Model (privacy consent directives)
+export interface FHIRConsent {
+  resourceType: 'Consent';
+  id?: string;
+  status: 'draft' | 'proposed' | 'active' | 'rejected' | 'inactive' | 'entered-in-error';
+  scope: FHIRCodeableConcept;
+  category: FHIRCodeableConcept[];
+  patient: FHIRReference;
+  dateTime?: string;
+  policyRule?: FHIRCodeableConcept;
+  provision?: FHIRConsentProvision;
+}
+
+export interface FHIRConsentProvision {
+  type?: 'deny' | 'permit';
+  actor?: { role: FHIRCodeableConcept; reference: FHIRReference }[];
+  code?: FHIRCodeableConcept[]; // What the provision covers, e.g. Patient elements
+  provision?: FHIRConsentProvision[]; // Exceptions to this provision
+}
+
+// FHIR R4 Bundle Resource Model
+export type FHIRBundleType = 'transaction' | 'collection';
+
+export interface FHIRBundle {
+  resourceType: 'Bundle';
+  id?: string;
+  meta?: {
+    lastUpdated?: string;
+  };
+  type: FHIRBundleType;
+  timestamp?: string;
+  entry?: FHIRBundleEntry[];
+}
+
+export interface FHIRBundleEntry {
+  fullUrl?: string;
+  resource?: FHIRPatient | FHIRConsent;
+  request?: FHIRBundleEntryRequest;
+}
+
+export interface FHIRBundleEntryRequest {
+  method: 'GET' | 'HEAD' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+  url: string;
+}
+
 // Conversion Result
 export interface FHIRConversionResult {
   success: boolean;
@@ -105,4 +167,33 @@ export interface FHIRConversionResult {
   originalData?: any;
   mappingLog?: string[];
   errors?: string[];
+  // Ambiguous or doubtful values that were still converted (the ⚠ entries of the mapping log)
+  warnings?: string[];
+  unmappedFields?: FHIRUnmappedField[];
+}
+
+// Source field that no mapping consumed
+export interface FHIRUnmappedField {
+  path: string;
+  value: string; // Masked when sensitive
+  sensitive: boolean;
+  sensitiveType?: string;
+  preserved: boolean; // Carried into Patient.extension
+}
+
+export interface FHIRConversionOptions {
+  preserveUnmapped: boolean;
+  extensionNamespace: string;
+  // Source date format used by 'auto' dateFormat transforms; 'auto' detects it per value
+  sourceDateFormat: SourceDateFormat;
+  // Replace MRN, health card and SIN identifiers with keyed pseudonyms from the unlocked vault
+  pseudonymizeIdentifiers: boolean;
+}
+
+// Batch Conversion Result
+export interface FHIRBundleConversionResult {
+  success: boolean;
+  bundle: FHIRBundle;
+  entries: FHIRConversionResult[];
+  errors: string[];
 }
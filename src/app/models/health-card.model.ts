@@ -0,0 +1,27 @@
+// Provincial and Territorial Health Card Models
+
+export type ProvinceCode = 'AB' | 'BC' | 'MB' | 'NB' | 'NL' | 'NS' | 'NT' | 'NU' | 'ON' | 'PE' | 'QC' | 'SK' | 'YT';
+
+export interface HealthCardJurisdiction {
+  province: ProvinceCode;
+  name: string; // Province or territory, e.g. "Ontario"
+  cardName: string; // e.g. "OHIP health number"
+  system: string; // Identifier.system URI for the jurisdiction's health numbers
+  assigner: string; // Issuing authority, used as Identifier.assigner.display
+  // Other names the issuer goes by in source data (plan names, ministries), compared case-insensitively
+  aliases: string[];
+  pattern: RegExp; // Applied to the number without spaces or dashes, in upper case
+  // Whether a match (format and check digit) is specific enough to identify the province without a hint
+  selfIdentifying: boolean;
+}
+
+export type HealthCardStatus = 'valid' | 'invalid' | 'unknown-province';
+
+export interface HealthCardCheck {
+  status: HealthCardStatus;
+  number: string; // Without separators or version code
+  versionCode?: string; // Ontario version code, e.g. "AB"
+  jurisdiction?: HealthCardJurisdiction; // Set when the status is valid
+  candidates: ProvinceCode[]; // Provinces whose format the number fits when the status is unknown-province
+  problem?: string; // Why the number is invalid
+}
@@ -0,0 +1,145 @@
+// HL7 v2.x Message Models
+
+// A field is a list of repetitions; each repetition is a list of components,
+// and each component is a list of (already unescaped) subcomponents
+export type HL7v2Field = string[][][];
+
+export interface HL7v2Delimiters {
+  field: string;
+  component: string;
+  repetition: string;
+  escape: string;
+  subcomponent: string;
+}
+
+export interface HL7v2Segment {
+  name: string;
+  // Indexed by field number (fields[5] is PID-5); fields[0] holds the segment name
+  fields: HL7v2Field[];
+}
+
+export interface HL7v2Message {
+  delimiters: HL7v2Delimiters;
+  segments: HL7v2Segment[];
+  messageType?: string;
+  triggerEvent?: string;
+  controlId?: string;
+  version?: string;
+}
+
+// Human-readable names for the fields mapped from each segment
+export const HL7V2_FIELD_NAMES: Record<string, Record<number, string>> = {
+  MSH: {
+    3: 'sendingApplication',
+    4: 'sendingFacility',
+    5: 'receivingApplication',
+    6: 'receivingFacility',
+    7: 'messageDateTime',
+    9: 'messageType',
+    10: 'messageControlId',
+    11: 'processingId',
+    12: 'versionId'
+  },
+  EVN: {
+    1: 'eventTypeCode',
+    2: 'recordedDateTime'
+  },
+  PID: {
+    1: 'setId',
+    2: 'patientId',
+    3: 'patientIdentifierList',
+    5: 'patientName',
+    6: 'mothersMaidenName',
+    7: 'dateTimeOfBirth',
+    8: 'administrativeSex',
+    10: 'race',
+    11: 'patientAddress',
+    13: 'phoneNumberHome',
+    14: 'phoneNumberBusiness',
+    15: 'primaryLanguage',
+    16: 'maritalStatus',
+    17: 'religion',
+    18: 'patientAccountNumber',
+    19: 'ssnNumber',
+    20: 'driversLicenseNumber',
+    22: 'ethnicGroup',
+    29: 'patientDeathDateTime',
+    30: 'patientDeathIndicator'
+  },
+  PD1: {
+    3: 'patientPrimaryFacility',
+    4: 'patientPrimaryCareProvider',
+    12: 'protectionIndicator'
+  },
+  NK1: {
+    1: 'setId',
+    2: 'name',
+    3: 'relationship',
+    4: 'address',
+    5: 'phoneNumber',
+    6: 'businessPhoneNumber',
+    7: 'contactRole',
+    8: 'startDate',
+    9: 'endDate',
+    15: 'administrativeSex'
+  }
+};
+
+// Composite data types that toRecord reads component by component
+export type HL7v2CompositeType = 'CX' | 'XPN' | 'XAD' | 'XTN';
+
+// Data types of the composite fields holding personal information; other fields are kept as text
+export const HL7V2_FIELD_TYPES: Record<string, Record<number, HL7v2CompositeType>> = {
+  PID: { 2: 'CX', 3: 'CX', 5: 'XPN', 6: 'XPN', 11: 'XAD', 13: 'XTN', 14: 'XTN', 18: 'CX' },
+  NK1: { 2: 'XPN', 4: 'XAD', 5: 'XTN', 6: 'XTN' }
+};
+
+// Names of the components of each composite type
+export const HL7V2_COMPONENT_NAMES: Record<HL7v2CompositeType, Record<number, string>> = {
+  CX: {
+    1: 'idNumber',
+    4: 'assigningAuthority',
+    5: 'identifierTypeCode',
+    6: 'assigningFacility'
+  },
+  XPN: {
+    1: 'familyName',
+    2: 'givenName',
+    3: 'middleName',
+    4: 'suffix',
+    5: 'prefix',
+    7: 'nameTypeCode'
+  },
+  XAD: {
+    1: 'streetAddress',
+    2: 'otherDesignation',
+    3: 'city',
+    4: 'province',
+    5: 'postalCode',
+    6: 'country',
+    7: 'addressType'
+  },
+  XTN: {
+    1: 'telephoneNumber',
+    2: 'useCode',
+    3: 'equipmentType',
+    4: 'emailAddress',
+    5: 'countryCode',
+    6: 'areaCode',
+    7: 'localNumber',
+    8: 'phoneExtension',
+    12: 'unformattedTelephoneNumber'
+  }
+};
+
+// CX-1 is named after the v2-0203 identifier type in CX-5, so that the ID reads as what it is
+export const HL7V2_IDENTIFIER_NAMES: Record<string, string> = {
+  MR: 'medicalRecordNumber',
+  PI: 'patientInternalId',
+  AN: 'accountNumber',
+  JHN: 'healthCardNumber',
+  HC: 'healthCardNumber',
+  SS: 'ssn',
+  DL: 'driversLicenseNumber',
+  PPN: 'passportNumber'
+};
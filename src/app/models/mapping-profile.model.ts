@@ -0,0 +1,102 @@
+import { SourceDateFormat } from './date.model';
+import { PersonNamePart } from './person-name.model';
+
+// Declarative Field Mapping Profiles
+
+// Source paths use dot notation with optional array indexes, e.g. "contact.phones[0].number".
+// Target paths are FHIR Patient paths, e.g. "name[0].family"; a trailing "[]" appends to
+// the array instead of setting a single element, e.g. "name[0].given[]".
+
+// 'auto' uses the configured source date format, detecting it when that is 'auto' too
+export type MappingDateFormat = SourceDateFormat;
+
+export interface SplitTransform {
+  type: 'split';
+  separator: string;
+  // Single part to keep; negative values count from the end
+  index?: number;
+  // Range of parts to keep (end exclusive, negative values count from the end)
+  start?: number;
+  end?: number;
+}
+
+export interface ConcatTransform {
+  type: 'concat';
+  // Further source paths appended to the value
+  sources: string[];
+  separator?: string;
+}
+
+export interface LookupTransform {
+  type: 'lookup';
+  // Keys are matched case-insensitively after trimming
+  table: Record<string, any>;
+  // Value used when nothing in the table matches; unmatched values are kept otherwise
+  fallback?: any;
+}
+
+export interface DateFormatTransform {
+  type: 'dateFormat';
+  format: MappingDateFormat;
+}
+
+export interface DefaultTransform {
+  type: 'default';
+  value: any;
+}
+
+// Parses a free-text personal name ("Smith, Dr. Jane", "Jane van der Berg Jr.") and keeps one part of it
+export interface ParseNameTransform {
+  type: 'parseName';
+  part: PersonNamePart;
+}
+
+// Normalizes language names ("French"), ISO 639-2 codes ("fre") and tags ("fr_ca") to BCP-47 ("fr", "fr-CA")
+export interface LanguageTransform {
+  type: 'language';
+}
+
+export type MappingTransform =
+  | SplitTransform
+  | ConcatTransform
+  | LookupTransform
+  | DateFormatTransform
+  | DefaultTransform
+  | ParseNameTransform
+  | LanguageTransform;
+
+export interface FieldMapping {
+  // Candidate source paths; the first one holding a value is used
+  source: string | string[];
+  target: string;
+  transforms?: MappingTransform[];
+  // Fixed values written alongside the target when the mapping applies (target path → value)
+  set?: Record<string, any>;
+  // Element mapping: the source is an array of objects and each element is mapped with these
+  // mappings (paths relative to the element) and appended to the "[]" target; "set" fills the gaps
+  mappings?: FieldMapping[];
+}
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  description?: string;
+  version?: string;
+  builtIn?: boolean;
+  mappings: FieldMapping[];
+}
+
+// Proposed mapping for a source field the active profile does not map
+export interface MappingCandidate {
+  path: string; // FHIR Patient path shown to the user, e.g. Patient.name.family
+  confidence: number; // 0–1
+  reasons: string[];
+  // Array indexes written as [#] are resolved to the next free index when the mapping is saved
+  mapping: Omit<FieldMapping, 'source'>;
+}
+
+export interface MappingSuggestion {
+  sourcePath: string;
+  sampleValue: string;
+  candidates: MappingCandidate[]; // Best first
+}
@@ -0,0 +1,14 @@
+// Free-text Personal Name Models
+
+export interface ParsedPersonName {
+  // The input with whitespace normalized
+  text: string;
+  prefix: string[];
+  given: string[];
+  family?: string;
+  suffix: string[];
+  // Guesses the parser had to make, e.g. a single token or an unclear family name boundary
+  warnings: string[];
+}
+
+export type PersonNamePart = 'text' | 'prefix' | 'given' | 'family' | 'suffix';
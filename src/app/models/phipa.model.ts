@@ -1,21 +1,90 @@
-// PHIPA Compliance Models
+// Privacy Compliance Models (PHIPA and the other supported privacy jurisdictions)
+import { CapacityAssessment } from './capacity.model';
+import { ConsentState } from './consent.model';
+import { PurposeOfUse } from './purpose-of-use.model';
+
+export type PrivacyJurisdictionId = 'PHIPA' | 'PIPEDA' | 'QC_LAW_25' | 'AB_HIA' | 'HIPAA';
+
+export interface PrivacyJurisdiction {
+  id: PrivacyJurisdictionId;
+  name: string; // Short name, e.g. "Law 25"
+  fullName: string;
+  region: string; // Where the regime applies, e.g. "Québec"
+}
+
 export interface PHIPAValidationResult {
-  isCompliant: boolean;
+  isCompliant: boolean; // No violation under any of the jurisdictions
   violations: PHIPAViolation[];
   warnings: PHIPAWarning[];
   scanDate: Date;
   summary: string;
+  jurisdictions: PrivacyJurisdictionId[]; // Regimes validated against
+  rulePacks: PHIPARulePackRef[]; // Rule pack version that produced the result, one per jurisdiction
+  purposeOfUse?: { id: string; name: string }; // Purpose data minimization was judged against, when one was picked
+}
+
+// What a record is validated against besides its fields
+export interface PHIPAValidationOptions {
+  jurisdictions?: PrivacyJurisdictionId[]; // The selected jurisdictions when omitted
+  consent?: ConsentState; // A withdrawal makes the disclosure of the record a violation
+  purpose?: PurposeOfUse; // The selected purpose when omitted; fields beyond it are violations
+  capacity?: CapacityAssessment; // A minor or incapable patient needs a substitute decision-maker
 }
 
 export interface PHIPAViolation {
   field: string;
   violationType: PHIPAViolationType;
   value?: string; // Masked value
-  severity: 'critical' | 'high' | 'medium' | 'low';
+  severity: PHIPASeverity;
   description: string;
   recommendation: string;
+  confidence: ViolationConfidence;
+  // What the finding rests on (field name, value format, check digit); merged findings list all of it
+  evidence: string[];
+  jurisdiction: PrivacyJurisdictionId; // Regime whose rule raised the finding
+  ruleId?: string; // Rule that raised the finding
+  weight?: number; // Multiplies the score deduction of the finding; 1 when absent
+  spans?: PHITextSpan[]; // Identifiers found inside a free-text value, for FREE_TEXT_PHI findings
 }
 
+// Where a kind of sensitive item ended up once the record was converted:
+// - carried: found in the source and present in the FHIR Patient
+// - contained: found in the source but kept out of the Patient (not mapped, pseudonymized or withheld)
+// - introduced: found only in the Patient, e.g. an identifier typed by the mapping
+export type PHILeakageStatus = 'carried' | 'contained' | 'introduced';
+
+// Input findings of one type lined up with the output findings of the same type
+export interface PHILeakageItem {
+  violationType: PHIPAViolationType;
+  severity: PHIPASeverity; // Highest of its findings
+  inputFields: string[]; // Source fields
+  outputFields: string[]; // Patient elements, e.g. "identifier[2]"
+  status: PHILeakageStatus;
+}
+
+export type PHITextKind = 'sin' | 'healthCard' | 'paymentCard' | 'phone' | 'email' | 'postalCode' | 'date' | 'name';
+
+// Identifier embedded in a free-text value (notes, narrative sections), located by character offsets
+export interface PHITextSpan {
+  start: number; // Offset of the first character
+  end: number; // Offset after the last character
+  kind: PHITextKind;
+  label: string; // e.g. "Phone number"
+  confidence: ViolationConfidence;
+  evidence: string;
+}
+
+// Piece of a free-text value for display; pieces with a span are identifiers
+export interface PHITextSegment {
+  text: string;
+  span?: PHITextSpan;
+}
+
+export type PHIPASeverity = 'critical' | 'high' | 'medium' | 'low';
+
+// high: field name and a verified value agree; medium: one strong signal; low: a weak value match only
+export type ViolationConfidence = 'high' | 'medium' | 'low';
+
 export interface PHIPAWarning {
   field: string;
   warningType: string;
@@ -36,14 +105,59 @@ export enum PHIPAViolationType {
   IP_ADDRESS = 'IP Address',
   BIOMETRIC_DATA = 'Biometric Data',
   GENETIC_DATA = 'Genetic Information',
+  SSN = 'US Social Security Number',
+  MEDICAL_RECORD_NUMBER = 'Medical Record Number',
+  HEALTH_PLAN_NUMBER = 'Health Plan Beneficiary Number',
+  CERTIFICATE_LICENSE = 'Certificate or License Number',
+  VEHICLE_IDENTIFIER = 'Vehicle Identifier',
+  DEVICE_IDENTIFIER = 'Device Identifier',
+  WEB_URL = 'Web URL',
+  FULL_FACE_PHOTO = 'Full-Face Photograph',
+  PERSONAL_NAME = 'Personal Name',
+  GEOGRAPHIC_SUBDIVISION = 'Geographic Subdivision Smaller than a State or Province',
+  FREE_TEXT_PHI = 'Identifiers in Free Text',
+  CONSENT_WITHDRAWN = 'Disclosure Against Consent Withdrawal',
+  BEYOND_PURPOSE = 'Collected Beyond Purpose of Use',
+  MINOR_WITHOUT_SDM = 'Minor Without Substitute Decision-Maker',
+  INCAPABLE_WITHOUT_SDM = 'Incapable Patient Without Substitute Decision-Maker',
   CUSTOM_SENSITIVE = 'Custom Sensitive Field'
 }
 
-// Sensitive field detection patterns
-export interface SensitiveFieldPattern {
-  type: PHIPAViolationType;
-  fieldNamePattern: RegExp;
-  valuePattern?: RegExp;
-  severity: 'critical' | 'high' | 'medium' | 'low';
+// Named value checks for values a regular expression cannot describe
+export type PHIPAValueCheck =
+  | 'healthCardFormat' // Any provincial or territorial health card format
+  | 'freeTextPhi'; // Long text that embeds identifiers, contact details, dates or names
+
+// Sensitive field detection rule. Patterns are regular expression sources so that rules round-trip
+// through JSON: field names and path scopes match case-insensitively, values case-sensitively.
+export interface PHIPARule {
+  id: string;
+  type: keyof typeof PHIPAViolationType; // e.g. "SIN", "CUSTOM_SENSITIVE"
+  fieldNamePattern: string;
+  valuePattern?: string; // When set (or valueCheck), string values must also match
+  valueCheck?: PHIPAValueCheck;
+  pathScope?: string; // Only fields whose full path (e.g. "emergencyContact.phone") matches
+  severity: PHIPASeverity;
+  weight: number; // Multiplies the score deduction of the rule's findings, 0-10
   description: string;
+  recommendation: string;
+  enabled: boolean;
+}
+
+// Versioned, importable and exportable set of detection rules for one jurisdiction
+export interface PHIPARulePack {
+  id: string;
+  name: string;
+  jurisdiction?: PrivacyJurisdictionId; // PHIPA when absent
+  version: string; // Semantic version; replacing a saved pack requires a higher one
+  description?: string;
+  builtIn?: boolean;
+  rules: PHIPARule[];
+}
+
+export interface PHIPARulePackRef {
+  id: string;
+  name: string;
+  version: string;
+  jurisdiction: PrivacyJurisdictionId;
 }
@@ -0,0 +1,25 @@
+// Keyed Pseudonymization Models
+
+// Kinds of identifier replaced by pseudonyms; each has its own pseudonym system URI. 'value' covers
+// anything else tokenized while remediating a record, such as card numbers or e-mail addresses.
+export type PseudonymKind = 'mrn' | 'health-card' | 'sin' | 'value';
+
+export interface Pseudonym {
+  kind: PseudonymKind;
+  token: string; // Keyed hash of the normalized value, stable for a given key
+  system: string; // Identifier.system of the pseudonymized identifier
+}
+
+export interface PseudonymVaultEntry extends Pseudonym {
+  value: string; // Original identifier value
+  originalSystem?: string; // Identifier.system the value had before pseudonymization
+  createdAt: string; // When the value was first pseudonymized
+}
+
+// Vault as persisted in browser storage: entries encrypted with AES-GCM under a key derived from the user's key
+export interface StoredPseudonymVault {
+  version: 1;
+  salt: string; // Base64 PBKDF2 salt of the encryption key
+  iv: string; // Base64 AES-GCM initialization vector
+  data: string; // Base64 ciphertext of the entries
+}
@@ -0,0 +1,52 @@
+// Purpose of Use Models (data minimization by the reason data is shared)
+
+// Kinds of personal information a purpose of use decides on
+export type PurposeElement =
+  | 'name'
+  | 'gender'
+  | 'birthDate'
+  | 'address'
+  | 'postalCode'
+  | 'telecom'
+  | 'healthCard'
+  | 'identifier' // Medical record numbers and other identifiers
+  | 'sin'
+  | 'financial' // Payment cards and bank accounts
+  | 'contact' // Emergency contacts and next of kin
+  | 'maritalStatus'
+  | 'language'
+  | 'clinicalNotes'
+  | 'other'; // Fields that fit none of the above
+
+// - required: the purpose cannot be served without it; a record lacking it gets a warning
+// - permitted: may be shared for the purpose
+// - excluded: collected beyond the purpose; reported as a minimization finding and dropped from the minimized export
+export type PurposeElementUse = 'required' | 'permitted' | 'excluded';
+
+export interface PurposeOfUse {
+  id: string;
+  name: string;
+  description: string;
+  code: string; // v3 PurposeOfUse code, e.g. TREAT, HPAYMT
+  builtIn?: boolean;
+  elements: Record<PurposeElement, PurposeElementUse>;
+}
+
+export interface MinimizationField {
+  path: string;
+  element: PurposeElement;
+}
+
+export interface MinimizationAnalysis {
+  purposeId: string;
+  beyondPurpose: MinimizationField[]; // Fields of excluded elements
+  missingRequired: PurposeElement[];
+}
+
+export interface MinimizedExport {
+  purpose: { id: string; name: string; code: string };
+  source?: any; // Source record without the fields beyond the purpose; absent for CDA documents
+  fhirResource?: any; // FHIR Patient without the elements beyond the purpose
+  removed: MinimizationField[];
+  createdAt: Date;
+}
@@ -0,0 +1,62 @@
+// Re-identification Risk Models (dataset-level k-anonymity and l-diversity)
+
+// Patient attributes that identify a person in combination, read from the converted Patients
+export type QuasiIdentifier = 'birthDate' | 'postalCode' | 'gender' | 'city' | 'language' | 'maritalStatus';
+
+export interface QuasiIdentifierSet {
+  id: string;
+  name: string;
+  quasiIdentifiers: QuasiIdentifier[];
+}
+
+export interface RiskOptions {
+  quasiIdentifiers: QuasiIdentifier[];
+  generalization: Partial<Record<QuasiIdentifier, number>>; // Level per quasi-identifier; 0 (as recorded) when absent
+  kTarget: number;
+  sensitiveAttribute?: string; // Source field whose diversity is measured (l-diversity), e.g. "diagnosis"
+}
+
+// Records sharing the same generalized quasi-identifier values
+export interface EquivalenceClass {
+  values: Partial<Record<QuasiIdentifier, string>>;
+  records: number[]; // Indexes of the records in the batch
+  sensitiveValues: number; // Distinct values of the sensitive attribute in the class
+}
+
+export interface RiskOutlier {
+  record: number;
+  classSize: number;
+  values: Partial<Record<QuasiIdentifier, string>>;
+}
+
+export interface GeneralizationSuggestion {
+  generalization: Partial<Record<QuasiIdentifier, number>>;
+  steps: string[]; // e.g. "Birth date → year"
+  k: number;
+  uniqueProportion: number;
+  informationLoss: number; // 0 (as recorded) to 1 (every quasi-identifier suppressed)
+}
+
+export interface ReidentificationRiskAssessment {
+  options: RiskOptions;
+  recordCount: number; // Records assessed
+  skippedCount: number; // Records without a converted Patient
+  k: number; // Size of the smallest equivalence class
+  l?: number; // Fewest distinct sensitive values in a class, when a sensitive attribute is set
+  uniqueCount: number; // Records alone in their class
+  uniqueProportion: number;
+  maxRisk: number; // 1 / k: chance of re-identifying the most exposed record
+  averageRisk: number; // Mean over records of 1 / class size
+  homogeneousClasses: number; // Classes whose records all share one sensitive value
+  meetsTarget: boolean;
+  classes: EquivalenceClass[];
+  outliers: RiskOutlier[]; // Records in classes smaller than the target k
+  suggestions: GeneralizationSuggestion[];
+  assessedAt: Date;
+}
+
+// A record of the batch as the assessment reads it
+export interface RiskRecord {
+  patient?: any; // Converted FHIR Patient; records without one are skipped
+  source?: any; // Source record, for the sensitive attribute
+}
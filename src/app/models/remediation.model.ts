@@ -0,0 +1,52 @@
+// Remediation Models (fixing the violations of a source record)
+import { PHIPASeverity, PHIPAViolation, PHIPAViolationType, PrivacyJurisdictionId } from './phipa.model';
+
+export type RemediationAction =
+  | 'remove' // Drop the field
+  | 'mask' // Hide all but a few characters; identifiers in free text are replaced by placeholders
+  | 'tokenize' // Replace the value with its keyed pseudonym, kept in the vault for re-identification
+  | 'keep'; // Leave the value as it is, with a justification for the log
+
+// The violations of one field, remediated together
+export interface RemediationItem {
+  field: string;
+  violations: PHIPAViolation[];
+  allowedActions: RemediationAction[];
+}
+
+export interface RemediationChoice {
+  action: RemediationAction;
+  justification?: string; // Required when keeping the value
+}
+
+export interface JustificationLogEntry {
+  field: string;
+  violationType: PHIPAViolationType;
+  jurisdiction: PrivacyJurisdictionId;
+  severity: PHIPASeverity;
+  action: RemediationAction;
+  detail: string; // What was done, never the original value
+  justification?: string;
+  decidedAt: string;
+}
+
+export interface RemediationDiffEntry {
+  path: string;
+  change: 'removed' | 'changed' | 'added';
+  before?: any;
+  after?: any;
+}
+
+export interface RemediationOutcome {
+  remediated: any; // Working copy of the source record with the choices applied
+  log: JustificationLogEntry[];
+  diff: RemediationDiffEntry[];
+}
+
+// Remediation last applied to a record, kept for its audit report
+export interface AppliedRemediation {
+  log: JustificationLogEntry[];
+  scoreAfter: number;
+  violationsAfter: number;
+  appliedAt: Date;
+}
@@ -0,0 +1,71 @@
+import { TestBed } from '@angular/core/testing';
+import { AuditReportService } from './audit-report.service';
+import { InteroperabilityService } from './interoperability.service';
+import { RemediationService } from './remediation.service';
+import compliantPatient from '../../../sample-data/patient-compliant.json';
+
+describe('AuditReportService', () => {
+  let service: AuditReportService;
+  let interop: InteroperabilityService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    service = TestBed.inject(AuditReportService);
+    interop = TestBed.inject(InteroperabilityService);
+  });
+
+  // A record whose field name, file name and justification carry markup and spreadsheet formulas
+  const hostileReport = () => {
+    const record = { firstName: 'Jane', lastName: 'Smith', 'sin<img src=x onerror=alert(1)>': '130 692 544' };
+    const result = interop.processPatientData(record);
+    const [violation] = result.phipaValidation.violations;
+    TestBed.inject(RemediationService).recordApplied(record, {
+      log: [{
+        field: violation.field,
+        violationType: violation.violationType,
+        jurisdiction: violation.jurisdiction,
+        severity: violation.severity,
+        action: 'keep',
+        detail: 'kept as recorded',
+        justification: '=HYPERLINK("https://example.com","<b>approved</b>")',
+        decidedAt: new Date().toISOString()
+      }],
+      scoreAfter: result.dataQualityScore,
+      violationsAfter: 1,
+      appliedAt: new Date()
+    });
+    return service.forRecord(result, '<script>alert("file")</script>.json');
+  };
+
+  it('escapes every value written into the HTML report', () => {
+    const html = service.toHtml(hostileReport());
+
+    expect(html).not.toContain('<script>alert');
+    expect(html).not.toContain('<img src=x');
+    expect(html).not.toContain('<b>approved</b>');
+    expect(html).toContain('&lt;script&gt;alert(&quot;file&quot;)&lt;/script&gt;.json');
+    expect(html).toContain('sin&lt;img src=x onerror=alert(1)&gt;');
+  });
+
+  it('quotes CSV cells and keeps spreadsheets from reading them as formulas', () => {
+    const csv = service.toCsv(hostileReport());
+    const [header, row] = csv.split('\r\n');
+
+    expect(header.split(',')).toHaveLength(19);
+    expect(row).toContain('"\'=HYPERLINK(""https://example.com"",""<b>approved</b>"")"');
+    expect(row.startsWith('"<script>alert(""file"")</script>.json",Record 1,')).toBe(true);
+    expect(csv.endsWith('\r\n')).toBe(true);
+  });
+
+  it('writes one row for a record without findings', () => {
+    const report = service.forRecord(interop.processPatientData(structuredClone(compliantPatient)), 'compliant.json');
+    report.records[0].violations = [];
+    report.records[0].warnings = [];
+
+    const rows = service.toCsv(report).trim().split('\r\n');
+
+    expect(rows).toHaveLength(2);
+    expect(rows[1].split(',')).toHaveLength(19);
+    expect(rows[1]).toContain('No findings');
+  });
+});
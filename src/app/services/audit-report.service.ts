@@ -0,0 +1,337 @@
+import { Injectable } from '@angular/core';
+import { ConsentStatus } from '../models/consent.model';
+import {
+  PHIPARulePackRef,
+  PHIPASeverity,
+  PHIPAWarning,
+  PrivacyJurisdictionId,
+  ViolationConfidence
+} from '../models/phipa.model';
+import { RemediationAction } from '../models/remediation.model';
+import {
+  BatchInteroperabilityResult,
+  BatchSummary,
+  InteroperabilityResult,
+  InteroperabilityService,
+  QualityScoreBreakdown
+} from './interoperability.service';
+import { PhipaRulePackService } from './phipa-rule-pack.service';
+import { RemediationService } from './remediation.service';
+
+// - open: nothing was decided yet
+// - remediated: removed, masked or tokenized in the remediated copy of the record
+// - accepted: kept, with a justification
+export type AuditRemediationStatus = 'open' | 'remediated' | 'accepted';
+
+export interface AuditViolation {
+  field: string;
+  violationType: string;
+  jurisdiction: PrivacyJurisdictionId;
+  severity: PHIPASeverity;
+  confidence: ViolationConfidence;
+  value?: string; // Masked as in the compliance results
+  ruleId?: string;
+  remediation: AuditRemediationStatus;
+  remediationAction?: RemediationAction;
+  justification?: string;
+}
+
+export interface AuditRecord {
+  label: string; // "Record 3"; never the patient's name
+  processedAt: Date;
+  converted: boolean;
+  compliant: boolean;
+  consentStatus: ConsentStatus;
+  score: QualityScoreBreakdown;
+  assessment: string;
+  violations: AuditViolation[];
+  warnings: PHIPAWarning[];
+  rulePacks: PHIPARulePackRef[];
+  outputFindings?: number; // Findings of the scan of the converted Patient
+  carriedIntoOutput: string[]; // Kinds of sensitive data carried from the source into the Patient
+  remediation?: { appliedAt: Date; scoreAfter: number; violationsAfter: number };
+}
+
+export interface AuditReport {
+  generatedAt: Date;
+  fileName: string;
+  jurisdictions: string[]; // Names of the regimes validated against
+  rulePacks: PHIPARulePackRef[];
+  purposeOfUse?: string;
+  batchSummary?: BatchSummary;
+  records: AuditRecord[];
+}
+
+const CSV_COLUMNS = [
+  'File', 'Record', 'Processed At', 'Compliant', 'Consent', 'Quality Score', 'Finding Kind', 'Jurisdiction',
+  'Rule Pack', 'Rule Pack Version', 'Rule', 'Field', 'Finding', 'Severity', 'Confidence', 'Masked Value',
+  'Remediation Status', 'Remediation Action', 'Justification'
+];
+const REMEDIATION_LABELS: Record<AuditRemediationStatus, string> = {
+  open: 'Open',
+  remediated: 'Remediated',
+  accepted: 'Accepted'
+};
+// Longer masked values are narrative with its identifiers replaced; the start is enough to recognize it
+const MAX_VALUE_LENGTH = 120;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class AuditReportService {
+  constructor(
+    private interopService: InteroperabilityService,
+    private remediation: RemediationService,
+    private rulePacks: PhipaRulePackService
+  ) {}
+
+  /**
+   * Audit report of one record
+   * @param index - Position of the record in its batch, for the record label
+   */
+  forRecord(result: InteroperabilityResult, fileName: string, index = 0): AuditReport {
+    return this.build([{ result, index }], fileName);
+  }
+
+  /**
+   * Audit report of every record of a batch, with the batch totals
+   */
+  forBatch(batch: BatchInteroperabilityResult, fileName: string): AuditReport {
+    return this.build(batch.records.map((result, index) => ({ result, index })), fileName, batch.summary);
+  }
+
+  /**
+   * Standalone, print-ready HTML document of a report; printing it from the browser produces the PDF
+   */
+  toHtml(report: AuditReport): string {
+    const e = (value: any) => this.escapeHtml(value);
+    const rows = (cells: any[][]) => cells.map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('');
+
+    const records = report.records.map(record => {
+      const violations = record.violations.length === 0
+        ? '<p class="none">No violations.</p>'
+        : `<table><thead><tr><th>Field</th><th>Finding</th><th>Jurisdiction</th><th>Severity</th><th>Confidence</th>`
+          + `<th>Masked value</th><th>Remediation</th></tr></thead><tbody>${rows(record.violations.map(v => [
+            `<code>${e(v.field)}</code>`,
+            e(v.violationType),
+            e(v.jurisdiction),
+            `<span class="severity ${v.severity}">${e(v.severity)}</span>`,
+            e(v.confidence),
+            `<code>${e(this.truncate(v.value ?? ''))}</code>`,
+            e(this.describeRemediation(v))
+          ]))}</tbody></table>`;
+      const warnings = record.warnings.length === 0
+        ? '<p class="none">No warnings.</p>'
+        : `<table><thead><tr><th>Field</th><th>Warning</th><th>Description</th></tr></thead><tbody>${rows(
+            record.warnings.map(w => [`<code>${e(w.field)}</code>`, e(w.warningType), e(w.description)])
+          )}</tbody></table>`;
+      const { score } = record;
+
+      return `<section class="record">
+  <h2>${e(record.label)} <span class="status ${record.compliant ? 'pass' : 'fail'}">${record.compliant ? 'Compliant' : 'Non-compliant'}</span></h2>
+  <table class="facts"><tbody>${rows([
+    ['Processed', e(record.processedAt.toLocaleString())],
+    ['FHIR conversion', record.converted ? 'Succeeded' : 'Failed'],
+    ['Consent', e(record.consentStatus)],
+    ['Rule packs', e(record.rulePacks.map(pack => `${pack.name} ${pack.version}`).join(', '))],
+    ['FHIR output', record.outputFindings === undefined
+      ? 'Not scanned'
+      : e(`${record.outputFindings} finding(s)${record.carriedIntoOutput.length ? `; carried from the source: ${record.carriedIntoOutput.join(', ')}` : ''}`)],
+    ['Remediation', record.remediation
+      ? e(`Applied ${record.remediation.appliedAt.toLocaleString()}; remediated copy scores ${record.remediation.scoreAfter}/100 with ${record.remediation.violationsAfter} violation(s)`)
+      : 'Not applied']
+  ])}</tbody></table>
+  <h3>Data quality score: ${score.total}/100 <small>${e(record.assessment)}</small></h3>
+  <table class="score"><thead><tr><th>Component</th><th>Points</th><th>Detail</th></tr></thead><tbody>${rows([
+    ['FHIR conversion', `${score.conversion} / 30`, record.converted ? '' : 'Partial credit for the mapping log'],
+    ['Completeness', `${score.completeness} / 20`, !record.converted
+      ? 'No FHIR Patient to score'
+      : score.missingElements.length ? e(`Missing: ${score.missingElements.join(', ')}`) : 'All scored elements present'],
+    ['Compliance', `${score.compliance} / 50`, score.deduction ? e(`${score.deduction} point(s) deducted for violations`) : 'No deduction']
+  ])}</tbody></table>
+  <h3>Violations (${record.violations.length})</h3>
+  ${violations}
+  <h3>Warnings (${record.warnings.length})</h3>
+  ${warnings}
+</section>`;
+    }).join('\n');
+
+    const summary = report.batchSummary;
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Compliance Audit Report — ${e(report.fileName)}</title>
+<style>
+  @page { margin: 16mm; }
+  body { font-family: Arial, Helvetica, sans-serif; font-size: 12px; color: #222; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 0 0 8px; border-bottom: 2px solid #1976d2; padding-bottom: 4px; }
+  h3 { font-size: 13px; margin: 16px 0 6px; }
+  small { font-weight: normal; color: #666; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 8px; }
+  th, td { border: 1px solid #ddd; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #f5f5f5; }
+  tr { break-inside: avoid; }
+  table.facts td:first-child { width: 160px; font-weight: bold; }
+  code { font-family: 'Courier New', monospace; word-break: break-all; }
+  .record { margin-top: 24px; break-before: page; }
+  .record:first-of-type { break-before: auto; }
+  .status { font-size: 12px; padding: 2px 8px; border-radius: 4px; color: white; }
+  .status.pass { background: #2e7d32; }
+  .status.fail { background: #c62828; }
+  .severity.critical { color: #c62828; font-weight: bold; }
+  .severity.high { color: #e65100; font-weight: bold; }
+  .none { color: #666; }
+  .sign-off { margin-top: 32px; break-inside: avoid; }
+  .sign-off td { height: 32px; }
+</style>
+</head>
+<body>
+<h1>Compliance Audit Report</h1>
+<table class="facts"><tbody>${rows([
+  ['Source file', e(report.fileName)],
+  ['Generated', e(report.generatedAt.toLocaleString())],
+  ['Jurisdictions', e(report.jurisdictions.join(', '))],
+  ['Rule packs', e(report.rulePacks.map(pack => `${pack.name} ${pack.version} (${pack.jurisdiction})`).join(', '))],
+  ['Purpose of use', e(report.purposeOfUse ?? 'None selected')],
+  ...(summary ? [
+    ['Records', `${summary.totalRecords} (${summary.convertedCount} converted, ${summary.failedCount} failed)`],
+    ['Compliance', `${summary.compliantCount} compliant, ${summary.nonCompliantCount} non-compliant, ${summary.totalViolations} violation(s)`],
+    ['Average quality score', `${summary.averageQualityScore}/100`]
+  ] : [])
+])}</tbody></table>
+${records}
+<section class="sign-off">
+  <h2>Sign-off</h2>
+  <table><tbody>${rows([['Reviewed by', ''], ['Role', ''], ['Date', ''], ['Signature', '']])}</tbody></table>
+</section>
+</body>
+</html>
+`;
+  }
+
+  /**
+   * One row per violation and warning, with the record's results repeated on each row; a record without
+   * findings gets a single row. Cells that a spreadsheet would read as a formula are prefixed with a quote.
+   */
+  toCsv(report: AuditReport): string {
+    const lines = [CSV_COLUMNS];
+
+    report.records.forEach(record => {
+      const base = [
+        report.fileName,
+        record.label,
+        record.processedAt.toISOString(),
+        record.compliant ? 'Yes' : 'No',
+        record.consentStatus,
+        String(record.score.total)
+      ];
+      const pack = (jurisdiction?: PrivacyJurisdictionId) => record.rulePacks.find(ref => ref.jurisdiction === jurisdiction);
+
+      record.violations.forEach(v => lines.push([
+        ...base, 'Violation', v.jurisdiction, pack(v.jurisdiction)?.name ?? '', pack(v.jurisdiction)?.version ?? '', v.ruleId ?? '',
+        v.field, v.violationType, v.severity, v.confidence, this.truncate(v.value ?? ''),
+        REMEDIATION_LABELS[v.remediation], v.remediationAction ?? '', v.justification ?? ''
+      ]));
+      record.warnings.forEach(w => lines.push([
+        ...base, 'Warning', '', '', '', '', w.field, `${w.warningType}: ${w.description}`, '', '', '', '', '', ''
+      ]));
+      if (record.violations.length === 0 && record.warnings.length === 0) {
+        lines.push([...base, 'No findings', ...Array(CSV_COLUMNS.length - base.length - 1).fill('')]);
+      }
+    });
+
+    return lines.map(line => line.map(cell => this.escapeCsv(cell)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  private build(entries: { result: InteroperabilityResult; index: number }[], fileName: string, batchSummary?: BatchSummary): AuditReport {
+    const records = entries.map(({ result, index }) => this.buildRecord(result, index));
+    const rulePacks = new Map<string, PHIPARulePackRef>();
+    records.forEach(record => record.rulePacks.forEach(ref => rulePacks.set(`${ref.jurisdiction}|${ref.id}|${ref.version}`, ref)));
+    const jurisdictions = [...new Set(entries.flatMap(({ result }) => result.phipaValidation.jurisdictions))];
+    const purposes = [...new Set(entries.map(({ result }) => result.phipaValidation.purposeOfUse?.name).filter(Boolean))];
+
+    return {
+      generatedAt: new Date(),
+      fileName,
+      jurisdictions: jurisdictions.map(id => this.rulePacks.getJurisdiction(id).name),
+      rulePacks: [...rulePacks.values()],
+      ...(purposes.length > 0 && { purposeOfUse: purposes.join(', ') }),
+      ...(batchSummary && { batchSummary }),
+      records
+    };
+  }
+
+  private buildRecord(result: InteroperabilityResult, index: number): AuditRecord {
+    const source = result.fhirConversion.originalData ?? result.originalData;
+    const applied = this.remediation.getApplied(source);
+
+    return {
+      label: `Record ${index + 1}`,
+      processedAt: result.processedAt,
+      converted: result.fhirConversion.success,
+      compliant: result.phipaValidation.isCompliant,
+      consentStatus: result.consent.status,
+      score: this.interopService.getQualityBreakdown(result.fhirConversion, result.phipaValidation),
+      assessment: this.interopService.getQualityAssessment(result.dataQualityScore),
+      violations: result.phipaValidation.violations.map(violation => {
+        const decision = applied?.log.find(entry =>
+          entry.field === violation.field
+          && entry.violationType === violation.violationType
+          && entry.jurisdiction === violation.jurisdiction
+        );
+        return {
+          field: violation.field,
+          violationType: violation.violationType,
+          jurisdiction: violation.jurisdiction,
+          severity: violation.severity,
+          confidence: violation.confidence,
+          ...(violation.value && { value: violation.value }),
+          ...(violation.ruleId && { ruleId: violation.ruleId }),
+          remediation: !decision ? 'open' : decision.action === 'keep' ? 'accepted' : 'remediated',
+          ...(decision && { remediationAction: decision.action }),
+          ...(decision?.justification && { justification: decision.justification })
+        };
+      }),
+      warnings: result.phipaValidation.warnings,
+      rulePacks: result.phipaValidation.rulePacks,
+      ...(result.outputValidation && { outputFindings: result.outputValidation.violations.length }),
+      carriedIntoOutput: this.interopService.getLeakage(result)
+        .filter(item => item.status === 'carried')
+        .map(item => item.violationType),
+      ...(applied && {
+        remediation: { appliedAt: applied.appliedAt, scoreAfter: applied.scoreAfter, violationsAfter: applied.violationsAfter }
+      })
+    };
+  }
+
+  private describeRemediation(violation: AuditViolation): string {
+    switch (violation.remediation) {
+      case 'remediated':
+        return `Remediated (${violation.remediationAction})`;
+      case 'accepted':
+        return `Accepted: ${violation.justification}`;
+      default:
+        return REMEDIATION_LABELS.open;
+    }
+  }
+
+  private truncate(value: string): string {
+    return value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH)}…` : value;
+  }
+
+  private escapeHtml(value: any): string {
+    return String(value ?? '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  private escapeCsv(value: string): string {
+    const cell = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  }
+}
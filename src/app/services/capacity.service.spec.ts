@@ -0,0 +1,62 @@
+import { TestBed } from '@angular/core/testing';
+import { FHIRPatient } from '../models/fhir.model';
+import { CapacityService } from './capacity.service';
+
+describe('CapacityService', () => {
+  let service: CapacityService;
+  const today = new Date(2026, 9, 19);
+  const contacts: FHIRPatient['contact'] = [
+    { relationship: [{ coding: [{ code: 'MTH', display: 'mother' }] }] },
+    { relationship: [{ text: 'Brother' }] },
+    { relationship: [{ text: 'Neighbour' }] },
+    { relationship: [{ text: 'Legal guardian' }] }
+  ];
+
+  beforeEach(() => {
+    service = TestBed.inject(CapacityService);
+  });
+
+  it('finds a minor and lets only guardians and parents decide', () => {
+    const assessment = service.assess({}, { resourceType: 'Patient', birthDate: '2015-03-01', contact: contacts }, today);
+
+    expect(assessment).toMatchObject({ age: 11, ageExact: true, minor: true, incapable: false });
+    expect(assessment.decisionMakers).toEqual([
+      { contactIndex: 0, basis: 'parent', relationship: 'mother' },
+      { contactIndex: 1, basis: 'relative', relationship: 'Brother' },
+      { contactIndex: 3, basis: 'guardian', relationship: 'Legal guardian' }
+    ]);
+    expect(service.getEligibleDecisionMakers(assessment).map(maker => maker.contactIndex)).toEqual([0, 3]);
+  });
+
+  it('counts a partial birth date as the youngest age it allows', () => {
+    expect(service.assess({}, { resourceType: 'Patient', birthDate: '2010' }, today)).toMatchObject({ age: 15, ageExact: false, minor: true });
+  });
+
+  it('reads incapacity from the patient fields, not from a contact', () => {
+    const adult: FHIRPatient = { resourceType: 'Patient', birthDate: '1950-01-01', contact: contacts };
+
+    const incapable = service.assess({ patient: { incapable: true } }, adult, today);
+    expect(incapable).toMatchObject({ minor: false, incapable: true, incapacitySource: 'patient.incapable' });
+    expect(service.getEligibleDecisionMakers(incapable)).toHaveLength(3);
+
+    expect(service.assess({ decisionMakingCapacity: 'no' }, adult, today).incapable).toBe(true);
+    const capable = service.assess({ emergencyContact: { capacity: 'incapable' } }, adult, today);
+    expect(capable.incapable).toBe(false);
+    expect(service.getEligibleDecisionMakers(capable)).toEqual([]);
+  });
+
+  it('lists the telecom elements that reach the patient directly', () => {
+    const assessment = service.assess({}, {
+      resourceType: 'Patient',
+      telecom: [
+        { system: 'fax', value: '613-555-0000' },
+        { system: 'email', value: 'amelie@example.com' },
+        { system: 'phone' },
+        { system: 'sms', value: '613-555-2468' }
+      ]
+    }, today);
+
+    expect(assessment.directContacts).toEqual(['telecom[1]', 'telecom[3]']);
+    expect(assessment.age).toBeUndefined();
+  });
+});
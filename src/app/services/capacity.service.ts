@@ -0,0 +1,125 @@
+import { Injectable } from '@angular/core';
+import { CapacityAssessment, DecisionMakerBasis, SubstituteDecisionMaker } from '../models/capacity.model';
+import { FHIRPatient, FHIRPatientContact } from '../models/fhir.model';
+import { PHIPAViolationType } from '../models/phipa.model';
+import { DateNormalizerService } from './date-normalizer.service';
+
+// PHIPA s. 23: a parent or guardian may consent for a child under 16
+export const MINOR_AGE = 16;
+
+export const CAPACITY_VIOLATION_TYPES: PHIPAViolationType[] = [
+  PHIPAViolationType.MINOR_WITHOUT_SDM,
+  PHIPAViolationType.INCAPABLE_WITHOUT_SDM
+];
+export const CAPACITY_WARNING_TYPE = 'Capacity and Substitute Decision-Maker';
+
+// Relationship codes (v3 RoleCode and v2-0063) and words of each basis, in the ranking of the
+// Health Care Consent Act s. 20: guardians and attorneys first, then parents, then other relatives
+const DECISION_MAKER_RELATIONSHIPS: { basis: DecisionMakerBasis; codes: string[]; words: RegExp }[] = [
+  {
+    basis: 'guardian',
+    codes: ['GUARD', 'GRD', 'POWATT', 'HPOWATT', 'DPOWATT', 'SPOWATT'],
+    words: /guardian|tut(eur|rice)|attorney|substitute.?decision|\bsdm\b|\bpoa\b|mandataire/i
+  },
+  {
+    basis: 'parent',
+    codes: ['PRN', 'PAR', 'MTH', 'FTH', 'NPRN', 'NMTH', 'NFTH', 'STPPRN', 'STPMTH', 'STPFTH', 'ADOPTP', 'ADOPTMTH', 'ADOPTFTH'],
+    words: /\b(parent|mother|father|m[èe]re|p[èe]re)\b/i
+  },
+  {
+    basis: 'relative',
+    codes: [
+      'SPS', 'SPO', 'DOMPART', 'DOM', 'CHILD', 'CHD', 'NCH', 'SON', 'DAU', 'BRO', 'SIS', 'SIB',
+      'GRMTH', 'GRFTH', 'GRP', 'GRNDCHILD', 'GCH', 'AUNT', 'UNCLE', 'FAMMEMB', 'EXF'
+    ],
+    words: /\b(spouse|husband|wife|partner|son|daughter|child|brother|sister|sibling|relative|family)\b/i
+  }
+];
+
+// "incapable": true, "capacity": "incapable", "hasCapacity": false, "decisionMakingCapacity": "no"
+const INCAPABLE_FIELD = /^(is.?)?(mentally.?)?incapab(le|ility)$|^incapacit(y|ated)$|^lacks?.?capacity$/i;
+const CAPACITY_FIELD = /^(has.?|is.?)?(decision.?making.?|decisional.?|mental.?)?capa(city|ble)(.?status)?$/i;
+const YES = /^(y|yes|true|1|oui)$/i;
+const INCAPABLE_VALUE = /^(n|no|false|0|non|incapable|incapacitated|inapte|not.?capable|lacks?.?capacity)$/i;
+// A contact's own capacity is not the patient's
+const CONTACT_FIELD = /contact|next.?of.?kin|guardian|substitute|sdm|attorney|parent|mother|father|spouse/i;
+const DIRECT_SYSTEMS = new Set(['phone', 'sms', 'email']);
+
+@Injectable({
+  providedIn: 'root'
+})
+export class CapacityService {
+  constructor(private dates: DateNormalizerService) {}
+
+  /**
+   * Works out whether a patient needs a substitute decision-maker and which contacts can be one
+   * @param source - Record as scanned by the compliance check, read for capacity fields
+   * @param patient - Converted Patient, read for the birth date, contacts and telecom
+   */
+  assess(source: any, patient?: FHIRPatient, today: Date = new Date()): CapacityAssessment {
+    const age = patient?.birthDate ? this.dates.getAge(patient.birthDate, today) : undefined;
+    const incapacitySource = this.findIncapacity(source, '');
+
+    return {
+      ...(age && { age: age.years }),
+      ageExact: age?.exact ?? false,
+      minor: !!age && age.years < MINOR_AGE,
+      incapable: !!incapacitySource,
+      ...(incapacitySource && { incapacitySource }),
+      decisionMakers: (patient?.contact ?? [])
+        .map((contact, index) => this.readDecisionMaker(contact, index))
+        .filter((maker): maker is SubstituteDecisionMaker => !!maker),
+      directContacts: (patient?.telecom ?? [])
+        .map((telecom, index) => ({ telecom, path: `telecom[${index}]` }))
+        .filter(({ telecom }) => !!telecom.value && DIRECT_SYSTEMS.has(telecom.system ?? ''))
+        .map(({ path }) => path)
+    };
+  }
+
+  /**
+   * Contacts who may decide for the patient: a guardian or parent for a minor, and for an incapable
+   * adult a guardian, attorney or relative
+   */
+  getEligibleDecisionMakers(assessment: CapacityAssessment): SubstituteDecisionMaker[] {
+    if (assessment.minor) {
+      return assessment.decisionMakers.filter(maker => maker.basis !== 'relative');
+    }
+    return assessment.incapable ? assessment.decisionMakers : [];
+  }
+
+  private readDecisionMaker(contact: FHIRPatientContact, contactIndex: number): SubstituteDecisionMaker | undefined {
+    const concepts = contact.relationship ?? [];
+    for (const { basis, codes, words } of DECISION_MAKER_RELATIONSHIPS) {
+      const coding = concepts.flatMap(concept => concept.coding ?? []).find(c => !!c.code && codes.includes(c.code.toUpperCase()));
+      if (coding) {
+        return { contactIndex, basis, relationship: coding.display ?? coding.code! };
+      }
+      const text = concepts.map(concept => concept.text).find(value => !!value && words.test(value));
+      if (text) {
+        return { contactIndex, basis, relationship: text };
+      }
+    }
+    return undefined;
+  }
+
+  // Path of the first field marking the patient incapable, outside the contacts
+  private findIncapacity(node: any, path: string): string | undefined {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) return undefined;
+
+    for (const [key, value] of Object.entries(node)) {
+      const fullPath = path ? `${path}.${key}` : key;
+      const text = typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? String(value).trim() : undefined;
+      if (text !== undefined && INCAPABLE_FIELD.test(key) && YES.test(text)) {
+        return fullPath;
+      }
+      if (text !== undefined && CAPACITY_FIELD.test(key) && INCAPABLE_VALUE.test(text)) {
+        return fullPath;
+      }
+      if (value && typeof value === 'object' && !CONTACT_FIELD.test(key)) {
+        const nested = this.findIncapacity(value, fullPath);
+        if (nested) return nested;
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,110 @@
+import { TestBed } from '@angular/core/testing';
+import { CdaParserService } from './cda-parser.service';
+
+const DISCHARGE_SUMMARY = `<?xml version="1.0" encoding="UTF-8"?>
+<ClinicalDocument xmlns="urn:hl7-org:v3">
+  <templateId root="2.16.840.1.113883.10.20.22.1.8"/>
+  <id root="2.16.840.1.113883.19.5.99999.1" extension="DS-20260114-0042"/>
+  <title>Discharge Summary</title>
+  <recordTarget>
+    <patientRole>
+      <id root="2.16.840.1.113883.19.5.99999.2" extension="MRN445566" assigningAuthorityName="Ottawa General Hospital"/>
+      <id root="2.16.840.1.113883.4.1" extension="046-454-286"/>
+      <addr use="HP">
+        <streetAddressLine>1053 Carling Avenue</streetAddressLine>
+        <streetAddressLine>Apt 402</streetAddressLine>
+        <city>Ottawa</city>
+        <postalCode>K1Y 4E9</postalCode>
+      </addr>
+      <telecom value="tel:+1-613-555-7788" use="HP"/>
+      <telecom value="mailto:l.nguyen@example.com"/>
+      <patient>
+        <name use="L"><prefix>Ms.</prefix><given>Linh</given><given>Thi</given><family>Nguyen</family></name>
+        <administrativeGenderCode code="F" codeSystem="2.16.840.1.113883.5.1" displayName="Female"/>
+        <birthTime value="19720905"/>
+        <languageCommunication><languageCode code="vi"/><preferenceInd value="true"/></languageCommunication>
+      </patient>
+      <providerOrganization><name>Ottawa General Hospital</name></providerOrganization>
+    </patientRole>
+  </recordTarget>
+  <component><structuredBody><component><section>
+    <title>Hospital Course</title>
+    <text>Admitted for elective knee arthroplasty.</text>
+  </section></component></structuredBody></component>
+</ClinicalDocument>`;
+
+describe('CdaParserService', () => {
+  let service: CdaParserService;
+
+  beforeEach(() => {
+    service = TestBed.inject(CdaParserService);
+  });
+
+  it('recognises ClinicalDocument XML', () => {
+    expect(service.isCda(DISCHARGE_SUMMARY)).toBe(true);
+    expect(service.isCda('<Bundle xmlns="http://hl7.org/fhir"/>')).toBe(false);
+  });
+
+  it('extracts the demographics of the patientRole with their XPaths', () => {
+    const document = service.parse(DISCHARGE_SUMMARY);
+    const role = document.patientRoles[0];
+
+    expect(document).toMatchObject({ documentType: 'CDA', title: 'Discharge Summary', documentId: '2.16.840.1.113883.19.5.99999.1^DS-20260114-0042' });
+    expect(role.ids[1]).toEqual({ root: '2.16.840.1.113883.4.1', extension: '046-454-286', xpath: '/ClinicalDocument/recordTarget/patientRole/id[2]' });
+    expect(role.addresses[0].streetAddressLines.map(line => line.xpath)).toEqual([
+      '/ClinicalDocument/recordTarget/patientRole/addr/streetAddressLine[1]',
+      '/ClinicalDocument/recordTarget/patientRole/addr/streetAddressLine[2]'
+    ]);
+    expect(role.names[0].given.map(given => given.value)).toEqual(['Linh', 'Thi']);
+    expect(role.gender).toMatchObject({ code: 'F', displayName: 'Female' });
+    expect(role.birthTime?.value).toBe('19720905');
+    expect(role.languages).toEqual([{ code: 'vi', preferred: true, xpath: '/ClinicalDocument/recordTarget/patientRole/patient/languageCommunication/languageCode/@code' }]);
+    expect(role.providerOrganization?.value).toBe('Ottawa General Hospital');
+  });
+
+  it('rejects malformed XML and other root elements', () => {
+    expect(() => service.parse('<ClinicalDocument><title></ClinicalDocument>')).toThrowError(/^Invalid XML/);
+    expect(() => service.parse('<Bundle/>')).toThrowError('Expected a ClinicalDocument root element but found <Bundle>');
+  });
+
+  it('reads ids by their root OID and telecom values by their scheme for scanning', () => {
+    const record = service.toRecord(service.parse(DISCHARGE_SUMMARY));
+    const patientRole = record.ClinicalDocument.recordTarget.patientRole;
+
+    expect(patientRole.id).toEqual([
+      { extension: 'MRN445566', root: '2.16.840.1.113883.19.5.99999.2', assigningAuthorityName: 'Ottawa General Hospital' },
+      { ssn: '046-454-286', root: '2.16.840.1.113883.4.1' }
+    ]);
+    expect(patientRole.telecom).toEqual([{ phone: '+1-613-555-7788', use: 'HP' }, { email: 'l.nguyen@example.com' }]);
+    expect(patientRole.patient).toEqual({
+      name: { use: 'L', prefix: 'Ms.', given: ['Linh', 'Thi'], family: 'Nguyen' },
+      administrativeGenderCode: 'F',
+      birthTime: '19720905',
+      languageCode: 'vi'
+    });
+    expect(record.ClinicalDocument.component.structuredBody.component.section.text).toBe('Admitted for elective knee arthroplasty.');
+  });
+
+  it('rebuilds the patientRole from a record it was read into', () => {
+    const document = service.parse(DISCHARGE_SUMMARY);
+    const record = service.toRecord(document);
+    const rebuilt = service.fromRecord(structuredClone(record), document);
+
+    expect(rebuilt.patientRoles).toEqual(document.patientRoles);
+    expect(service.toRecord(rebuilt)).toEqual(record);
+  });
+
+  it('leaves out removed ids and keeps edited names', () => {
+    const document = service.parse(DISCHARGE_SUMMARY);
+    const record = service.toRecord(document);
+    const patientRole = record.ClinicalDocument.recordTarget.patientRole;
+    patientRole.id = [patientRole.id[0]];
+    patientRole.patient.name.family = 'N.';
+
+    const [role] = service.fromRecord(record, document).patientRoles;
+
+    expect(role.ids).toEqual([document.patientRoles[0].ids[0]]);
+    expect(role.names[0].family?.value).toBe('N.');
+    expect(role.telecoms.map(telecom => telecom.value)).toEqual(['tel:+1-613-555-7788', 'mailto:l.nguyen@example.com']);
+  });
+});
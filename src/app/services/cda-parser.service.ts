@@ -0,0 +1,414 @@
+import { Injectable } from '@angular/core';
+import {
+  CdaDocument,
+  CdaPatientRole,
+  CdaId,
+  CdaAddress,
+  CdaTelecom,
+  CdaName,
+  CdaCode,
+  CdaValue,
+  CdaLanguage,
+  CDA_ID_ROOT_NAMES,
+  CDA_TELECOM_SCHEME_NAMES
+} from '../models/cda.model';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class CdaParserService {
+  constructor() {}
+
+  /**
+   * Whether the text looks like an HL7 CDA R2 / C-CDA XML document
+   */
+  isCda(text: string): boolean {
+    return /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<([\w-]+:)?ClinicalDocument[\s>]/.test(text.replace(/^\uFEFF/, ''));
+  }
+
+  /**
+   * Whether a value is an already-parsed CDA document
+   */
+  isDocument(data: any): data is CdaDocument {
+    return !!data && typeof data === 'object' && data.documentType === 'CDA' && Array.isArray(data.patientRoles);
+  }
+
+  /**
+   * Parses a CDA document and extracts every recordTarget/patientRole
+   * @param xml - CDA R2 / C-CDA XML text
+   * @returns CdaDocument with the extracted demographics and their source XPaths
+   */
+  parse(xml: string): CdaDocument {
+    const doc = new DOMParser().parseFromString(xml.replace(/^\uFEFF/, ''), 'application/xml');
+
+    const parserError = doc.getElementsByTagName('parsererror')[0];
+    if (parserError) {
+      throw new Error(`Invalid XML: ${parserError.textContent?.trim().split('\n')[0]}`);
+    }
+
+    const root = doc.documentElement;
+    if (root.localName !== 'ClinicalDocument') {
+      throw new Error(`Expected a ClinicalDocument root element but found <${root.localName}>`);
+    }
+
+    const patientRoles: CdaPatientRole[] = [];
+    this.indexed(root, 'recordTarget', '/ClinicalDocument').forEach(([recordTarget, path]) => {
+      const patientRole = this.child(recordTarget, 'patientRole');
+      if (patientRole) {
+        patientRoles.push(this.extractPatientRole(patientRole, `${path}/patientRole`));
+      }
+    });
+
+    const id = this.child(root, 'id');
+
+    return {
+      documentType: 'CDA',
+      title: this.text(this.child(root, 'title')),
+      documentId: id ? [id.getAttribute('root'), id.getAttribute('extension')].filter(Boolean).join('^') : undefined,
+      templateIds: this.children(root, 'templateId')
+        .map(el => el.getAttribute('root'))
+        .filter((rootOid): rootOid is string => !!rootOid),
+      patientRoles,
+      content: { ClinicalDocument: this.toObject(root) }
+    };
+  }
+
+  /**
+   * The document as a plain object to scan and display, with each recordTarget replaced by its
+   * extracted demographics: ids are named by their root OID (an SSN reads as "ssn") and telecom
+   * values by their scheme, so each value is read for what it is rather than as an XML attribute
+   */
+  toRecord(document: CdaDocument): any {
+    const { recordTarget, ...rest } = document.content.ClinicalDocument ?? {};
+    if (recordTarget === undefined) {
+      return document.content;
+    }
+    const roles = document.patientRoles.map(role => ({ patientRole: this.roleToRecord(role) }));
+    return { ClinicalDocument: { ...rest, recordTarget: roles.length === 1 ? roles[0] : roles } };
+  }
+
+  /**
+   * Rebuilds a document from the record toRecord read it into, e.g. once fields of the record were masked
+   * or removed. Each value keeps the XPath it had in the original document; the rest of the document is
+   * taken from the record as well.
+   * @param original - Document the record was read from
+   */
+  fromRecord(record: any, original: CdaDocument): CdaDocument {
+    const clinicalDocument = record?.ClinicalDocument ?? {};
+    const targets = this.list(clinicalDocument.recordTarget);
+    const roles = targets.map((target, index) => this.recordToRole(
+      target?.patientRole ?? {},
+      original.patientRoles[index],
+      `/ClinicalDocument/recordTarget${targets.length > 1 ? `[${index + 1}]` : ''}/patientRole`
+    ));
+
+    return { ...original, patientRoles: roles, content: record };
+  }
+
+  private extractPatientRole(patientRole: Element, xpath: string): CdaPatientRole {
+    const role: CdaPatientRole = {
+      ids: this.indexed(patientRole, 'id', xpath).map(([el, path]) => this.extractId(el, path)),
+      addresses: this.indexed(patientRole, 'addr', xpath).map(([el, path]) => this.extractAddress(el, path)),
+      telecoms: this.indexed(patientRole, 'telecom', xpath)
+        .filter(([el]) => !!el.getAttribute('value'))
+        .map(([el, path]): CdaTelecom => ({
+          value: el.getAttribute('value')!,
+          use: el.getAttribute('use') || undefined,
+          xpath: `${path}/@value`
+        })),
+      names: [],
+      languages: []
+    };
+
+    const patient = this.child(patientRole, 'patient');
+    if (patient) {
+      const patientPath = `${xpath}/patient`;
+      role.names = this.indexed(patient, 'name', patientPath).map(([el, path]) => this.extractName(el, path));
+      role.gender = this.extractCode(this.child(patient, 'administrativeGenderCode'), `${patientPath}/administrativeGenderCode`);
+      role.maritalStatus = this.extractCode(this.child(patient, 'maritalStatusCode'), `${patientPath}/maritalStatusCode`);
+
+      const birthTime = this.child(patient, 'birthTime')?.getAttribute('value');
+      if (birthTime) {
+        role.birthTime = { value: birthTime, xpath: `${patientPath}/birthTime/@value` };
+      }
+
+      role.languages = this.indexed(patient, 'languageCommunication', patientPath)
+        .map(([el, path]): CdaLanguage | null => {
+          const code = this.child(el, 'languageCode')?.getAttribute('code');
+          if (!code) return null;
+          const preference = this.child(el, 'preferenceInd')?.getAttribute('value');
+          return {
+            code,
+            preferred: preference ? preference === 'true' : undefined,
+            xpath: `${path}/languageCode/@code`
+          };
+        })
+        .filter((language): language is CdaLanguage => language !== null);
+    }
+
+    const organizationName = this.text(this.child(this.child(patientRole, 'providerOrganization'), 'name'));
+    if (organizationName) {
+      role.providerOrganization = { value: organizationName, xpath: `${xpath}/providerOrganization/name` };
+    }
+
+    return role;
+  }
+
+  private extractId(el: Element, xpath: string): CdaId {
+    return {
+      root: el.getAttribute('root') || undefined,
+      extension: el.getAttribute('extension') || undefined,
+      assigningAuthorityName: el.getAttribute('assigningAuthorityName') || undefined,
+      xpath
+    };
+  }
+
+  private extractAddress(el: Element, xpath: string): CdaAddress {
+    return {
+      use: el.getAttribute('use') || undefined,
+      streetAddressLines: this.indexed(el, 'streetAddressLine', xpath)
+        .map(([line, path]) => this.value(line, path))
+        .filter((line): line is CdaValue => !!line),
+      city: this.value(this.child(el, 'city'), `${xpath}/city`),
+      state: this.value(this.child(el, 'state'), `${xpath}/state`),
+      postalCode: this.value(this.child(el, 'postalCode'), `${xpath}/postalCode`),
+      country: this.value(this.child(el, 'country'), `${xpath}/country`),
+      xpath
+    };
+  }
+
+  private extractName(el: Element, xpath: string): CdaName {
+    const name: CdaName = {
+      use: el.getAttribute('use') || undefined,
+      prefix: this.indexed(el, 'prefix', xpath).map(([part, path]) => this.value(part, path)).filter((v): v is CdaValue => !!v),
+      given: this.indexed(el, 'given', xpath).map(([part, path]) => this.value(part, path)).filter((v): v is CdaValue => !!v),
+      family: this.value(this.child(el, 'family'), `${xpath}/family`),
+      suffix: this.indexed(el, 'suffix', xpath).map(([part, path]) => this.value(part, path)).filter((v): v is CdaValue => !!v),
+      xpath
+    };
+
+    // Unstructured names are plain text content of <name>
+    if (el.children.length === 0 && this.text(el)) {
+      name.text = { value: this.text(el)!, xpath: `${xpath}/text()` };
+    }
+
+    return name;
+  }
+
+  private extractCode(el: Element | undefined, xpath: string): CdaCode | undefined {
+    const code = el?.getAttribute('code');
+    if (!el || !code) return undefined;
+    return {
+      code,
+      displayName: el.getAttribute('displayName') || undefined,
+      codeSystem: el.getAttribute('codeSystem') || undefined,
+      xpath: `${xpath}/@code`
+    };
+  }
+
+  private value(el: Element | undefined, xpath: string): CdaValue | undefined {
+    const text = this.text(el);
+    return text ? { value: text, xpath } : undefined;
+  }
+
+  private roleToRecord(role: CdaPatientRole): any {
+    const value = (cda?: CdaValue) => cda?.value;
+    const values = (cda: CdaValue[]) => this.single(cda.map(item => item.value));
+    const patient = this.compact({
+      name: this.single(role.names.map(name => this.compact({
+        use: name.use,
+        prefix: values(name.prefix),
+        given: values(name.given),
+        family: value(name.family),
+        suffix: values(name.suffix),
+        text: value(name.text)
+      }))),
+      administrativeGenderCode: role.gender?.code,
+      birthTime: value(role.birthTime),
+      maritalStatusCode: role.maritalStatus?.code,
+      languageCode: this.single(role.languages.map(language => language.code))
+    });
+
+    return this.compact({
+      id: this.single(role.ids.map(id => this.compact({
+        [(id.root && CDA_ID_ROOT_NAMES[id.root]) || 'extension']: id.extension,
+        root: id.root,
+        assigningAuthorityName: id.assigningAuthorityName
+      }))),
+      addr: this.single(role.addresses.map(address => this.compact({
+        use: address.use,
+        streetAddressLine: values(address.streetAddressLines),
+        city: value(address.city),
+        state: value(address.state),
+        postalCode: value(address.postalCode),
+        country: value(address.country)
+      }))),
+      telecom: this.single(role.telecoms.map(telecom => {
+        const [scheme, ...rest] = telecom.value.split(':');
+        const name = CDA_TELECOM_SCHEME_NAMES[scheme.toLowerCase()];
+        return this.compact(name
+          ? { [name]: name === 'url' ? telecom.value : rest.join(':').replace(/^\/\//, ''), use: telecom.use }
+          : { value: telecom.value, use: telecom.use });
+      })),
+      patient: Object.keys(patient).length > 0 ? patient : undefined,
+      providerOrganization: value(role.providerOrganization)
+    });
+  }
+
+  // The inverse of roleToRecord; values the record no longer holds are left out
+  private recordToRole(record: any, original: CdaPatientRole | undefined, xpath: string): CdaPatientRole {
+    const at = (items: { xpath: string }[] | undefined, index: number, fallback: string) => items?.[index]?.xpath ?? fallback;
+    const value = (text: any, path: string): CdaValue | undefined =>
+      text === undefined || text === null || text === '' ? undefined : { value: String(text), xpath: path };
+    const values = (texts: any, originals: CdaValue[] | undefined, path: string): CdaValue[] =>
+      this.list(texts)
+        .map((text, index) => value(text, at(originals, index, `${path}[${index + 1}]`)))
+        .filter((item): item is CdaValue => !!item);
+    const code = (text: any, originalCode: CdaCode | undefined, path: string): CdaCode | undefined =>
+      text === undefined || text === null || text === ''
+        ? undefined
+        : String(text) === originalCode?.code ? originalCode : { code: String(text), xpath: originalCode?.xpath ?? path };
+    const patient = record.patient ?? {};
+    const patientPath = `${xpath}/patient`;
+
+    const role: CdaPatientRole = {
+      ids: this.list(record.id).map((id, index): CdaId => {
+        const root = id?.root;
+        return {
+          root,
+          extension: id?.[(root && CDA_ID_ROOT_NAMES[root]) || 'extension'],
+          assigningAuthorityName: id?.assigningAuthorityName,
+          xpath: at(original?.ids, index, `${xpath}/id[${index + 1}]`)
+        };
+      }),
+      addresses: this.list(record.addr).map((addr, index): CdaAddress => {
+        const originalAddress = original?.addresses[index];
+        const path = originalAddress?.xpath ?? `${xpath}/addr[${index + 1}]`;
+        return {
+          use: addr?.use,
+          streetAddressLines: values(addr?.streetAddressLine, originalAddress?.streetAddressLines, `${path}/streetAddressLine`),
+          city: value(addr?.city, originalAddress?.city?.xpath ?? `${path}/city`),
+          state: value(addr?.state, originalAddress?.state?.xpath ?? `${path}/state`),
+          postalCode: value(addr?.postalCode, originalAddress?.postalCode?.xpath ?? `${path}/postalCode`),
+          country: value(addr?.country, originalAddress?.country?.xpath ?? `${path}/country`),
+          xpath: path
+        };
+      }),
+      telecoms: this.list(record.telecom)
+        .map((telecom, index): CdaTelecom | null => {
+          const name = Object.keys(telecom ?? {}).find(key => key !== 'use');
+          const text = name && telecom[name];
+          if (text === undefined || text === null || text === '') return null;
+          const scheme = Object.keys(CDA_TELECOM_SCHEME_NAMES).find(key => CDA_TELECOM_SCHEME_NAMES[key] === name);
+          return {
+            value: name === 'value' || name === 'url' || !scheme ? String(text) : `${scheme}:${text}`,
+            use: telecom.use,
+            xpath: at(original?.telecoms, index, `${xpath}/telecom[${index + 1}]/@value`)
+          };
+        })
+        .filter((telecom): telecom is CdaTelecom => telecom !== null),
+      names: this.list(patient.name).map((name, index): CdaName => {
+        const originalName = original?.names[index];
+        const path = originalName?.xpath ?? `${patientPath}/name[${index + 1}]`;
+        return {
+          use: name?.use,
+          prefix: values(name?.prefix, originalName?.prefix, `${path}/prefix`),
+          given: values(name?.given, originalName?.given, `${path}/given`),
+          family: value(name?.family, originalName?.family?.xpath ?? `${path}/family`),
+          suffix: values(name?.suffix, originalName?.suffix, `${path}/suffix`),
+          text: value(name?.text, originalName?.text?.xpath ?? `${path}/text()`),
+          xpath: path
+        };
+      }),
+      gender: code(patient.administrativeGenderCode, original?.gender, `${patientPath}/administrativeGenderCode/@code`),
+      birthTime: value(patient.birthTime, original?.birthTime?.xpath ?? `${patientPath}/birthTime/@value`),
+      maritalStatus: code(patient.maritalStatusCode, original?.maritalStatus, `${patientPath}/maritalStatusCode/@code`),
+      languages: this.list(patient.languageCode).map((languageCode, index): CdaLanguage => ({
+        code: String(languageCode),
+        preferred: original?.languages[index]?.preferred,
+        xpath: at(original?.languages, index, `${patientPath}/languageCommunication[${index + 1}]/languageCode/@code`)
+      })),
+      providerOrganization: value(record.providerOrganization,
+        original?.providerOrganization?.xpath ?? `${xpath}/providerOrganization/name`)
+    };
+
+    return this.compact(role) as CdaPatientRole;
+  }
+
+  // A repeated element read as one item or an array, as a list
+  private list(value: any): any[] {
+    return value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+  }
+
+  // Leaves out undefined values
+  private compact(obj: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(Object.entries(obj).filter(([, item]) => item !== undefined));
+  }
+
+  // A single item as itself, several as an array and none as undefined, as repeated elements read in toObject
+  private single<T>(items: T[]): T | T[] | undefined {
+    return items.length === 0 ? undefined : items.length === 1 ? items[0] : items;
+  }
+
+  private text(el: Element | undefined): string | undefined {
+    const text = el?.textContent?.replace(/\s+/g, ' ').trim();
+    return text ? text : undefined;
+  }
+
+  private child(el: Element | undefined, localName: string): Element | undefined {
+    return el ? this.children(el, localName)[0] : undefined;
+  }
+
+  private children(el: Element, localName: string): Element[] {
+    return Array.from(el.children).filter(child => child.localName === localName);
+  }
+
+  /**
+   * Child elements paired with their XPath; the position predicate is only added when the element repeats
+   */
+  private indexed(el: Element, localName: string, xpath: string): [Element, string][] {
+    const matches = this.children(el, localName);
+    return matches.map((child, index): [Element, string] => [
+      child,
+      matches.length > 1 ? `${xpath}/${localName}[${index + 1}]` : `${xpath}/${localName}`
+    ]);
+  }
+
+  /**
+   * Converts an element to a plain object: attributes become @name keys, text content
+   * #text, and repeated child elements arrays
+   */
+  private toObject(el: Element): any {
+    const obj: any = {};
+
+    Array.from(el.attributes)
+      .filter(attr => !attr.name.startsWith('xmlns'))
+      .forEach(attr => obj[`@${attr.localName}`] = attr.value);
+
+    Array.from(el.children).forEach(child => {
+      const value = this.toObject(child);
+      const key = child.localName;
+      if (key in obj) {
+        obj[key] = Array.isArray(obj[key]) ? [...obj[key], value] : [obj[key], value];
+      } else {
+        obj[key] = value;
+      }
+    });
+
+    const ownText = Array.from(el.childNodes)
+      .filter(node => node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE)
+      .map(node => node.textContent || '')
+      .join('')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    if (ownText) {
+      if (Object.keys(obj).length === 0) {
+        return ownText;
+      }
+      obj['#text'] = ownText;
+    }
+
+    return obj;
+  }
+}
@@ -0,0 +1,131 @@
+import { TestBed } from '@angular/core/testing';
+import { FHIRPatient } from '../models/fhir.model';
+import { ConsentService } from './consent.service';
+
+describe('ConsentService', () => {
+  let service: ConsentService;
+
+  beforeEach(() => {
+    service = TestBed.inject(ConsentService);
+  });
+
+  describe('evaluate', () => {
+    it('reads express consent with a lockbox as restricted', () => {
+      const state = service.evaluate({
+        consent: { status: 'express', date: '2023-02-14', lockbox: { elements: ['phone', 'email', 'address'], recipient: 'Riverside FHT' } }
+      });
+      expect(state.status).toBe('restricted');
+      expect(state.lockedElements).toEqual(['telecom', 'address']);
+      expect(state.directives.find(d => d.type === 'lockbox')).toMatchObject({ recipient: 'Riverside FHT', sourcePath: 'consent.lockbox' });
+    });
+
+    it('lets the latest dated decision win', () => {
+      expect(service.evaluate({
+        consent: { status: 'yes', date: '2020-01-01' },
+        consentWithdrawnDate: '2024-05-01'
+      }).status).toBe('withdrawn');
+      expect(service.evaluate({
+        consent: { status: 'yes', date: '2024-06-01' },
+        consentWithdrawnDate: '2024-05-01'
+      }).status).toBe('consented');
+    });
+
+    it('counts an undated withdrawal as more recent than a dated consent', () => {
+      const state = service.evaluate({ consent: { status: 'express', date: '2023-02-14' }, consentWithdrawn: true });
+      expect(state.status).toBe('withdrawn');
+      expect(state.withdrawal?.sourcePath).toBe('consentWithdrawn');
+      expect(service.canDisclose(state)).toBe(false);
+    });
+
+    it('lets a dated withdrawal win over an undated consent it cannot be ordered against', () => {
+      const state = service.evaluate({ consent: 'yes', consentWithdrawnDate: '2024-05-01' });
+      expect(state.status).toBe('withdrawn');
+      expect(state.directives.map(d => d.type)).toEqual(['consent', 'withdrawal']);
+    });
+
+    it('reads "false", "no" and "N" in a withdrawal field as no withdrawal', () => {
+      ['false', 'no', 'N', ' FALSE ', '0'].forEach(answer => {
+        expect(service.evaluate({ consent: 'yes', consentWithdrawn: answer }).status).toBe('consented');
+      });
+      expect(service.evaluate({ consent: 'yes', consentWithdrawn: 0 }).status).toBe('consented');
+      expect(service.evaluate({ consent: 'yes', consentWithdrawn: 'Y' }).status).toBe('withdrawn');
+      expect(service.evaluate({ consent: 'yes', consentRevoked: 'true' }).status).toBe('withdrawn');
+    });
+
+    it('lets a withdrawal win a same-day tie', () => {
+      expect(service.evaluate({
+        consentWithdrawnDate: '2024-05-01',
+        consent: { status: 'yes', date: '2024-05-01' }
+      }).status).toBe('withdrawn');
+    });
+
+    it('is unknown without directives', () => {
+      const state = service.evaluate({ firstName: 'John' });
+      expect(state).toEqual({ directives: [], status: 'unknown', lockedElements: [] });
+      expect(service.canDisclose(state)).toBe(true);
+    });
+  });
+
+  describe('manual directives', () => {
+    it('dates an undated manual withdrawal today, so it outranks an earlier consent', () => {
+      const record = { consent: { status: 'yes', date: '2020-01-01' } };
+      const added = service.addManualDirective(record, { type: 'withdrawal', elements: [] });
+      expect(added.date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+      expect(service.evaluate(record).status).toBe('withdrawn');
+
+      service.removeManualDirective(record, added.id);
+      expect(service.evaluate(record).status).toBe('consented');
+    });
+
+    it('requires an element for a lockbox', () => {
+      expect(() => service.addManualDirective({}, { type: 'lockbox', elements: [] })).toThrowError(/at least one element/);
+    });
+  });
+
+  describe('withholding', () => {
+    const state = { directives: [], status: 'restricted' as const, lockedElements: ['telecom' as const, 'address' as const] };
+
+    it('drops locked elements from a Patient', () => {
+      const patient: FHIRPatient = {
+        resourceType: 'Patient',
+        gender: 'female',
+        telecom: [{ system: 'phone', value: '613-555-2468' }],
+        address: [{ city: 'Ottawa' }]
+      };
+      expect(service.withholdLocked(patient, state)).toEqual({ resourceType: 'Patient', gender: 'female' });
+    });
+
+    it('drops the source fields of locked elements and keeps the directives', () => {
+      const record = {
+        firstName: 'Amélie',
+        phone: '613-555-2468',
+        address: { city: 'Ottawa' },
+        emergencyContact: { name: 'Luc', email: 'luc@example.com' },
+        consent: { lockbox: { elements: ['phone', 'address'] } }
+      };
+      expect(service.withholdLockedFields(record, state)).toEqual({
+        firstName: 'Amélie',
+        emergencyContact: { name: 'Luc' },
+        consent: { lockbox: { elements: ['phone', 'address'] } }
+      });
+    });
+  });
+
+  describe('toFhirConsents', () => {
+    it('writes one Consent per directive, the superseded decision inactive', () => {
+      const state = service.evaluate({
+        consent: { status: 'yes', date: '2020-01-01', lockbox: ['phone'] },
+        consentWithdrawnDate: '2024-05-01'
+      });
+      const consents = service.toFhirConsents(state, 'Patient/123');
+
+      expect(consents.map(c => [c.policyRule?.coding?.[0].code, c.status])).toEqual([
+        ['OPTIN', 'inactive'],
+        ['OPTINR', 'active'],
+        ['OPTOUT', 'active']
+      ]);
+      expect(consents[1].provision?.provision?.[0]).toMatchObject({ type: 'deny', code: [{ coding: [{ code: 'telecom' }] }] });
+      expect(consents.every(c => c.patient.reference === 'Patient/123')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,309 @@
+import { Injectable } from '@angular/core';
+import {
+  ConsentDirective,
+  ConsentDirectiveType,
+  ConsentState,
+  LockableElement
+} from '../models/consent.model';
+import { FHIRConsent, FHIRConsentProvision, FHIRPatient } from '../models/fhir.model';
+import { DateNormalizerService } from './date-normalizer.service';
+
+export const PATIENT_ELEMENT_SYSTEM = 'https://medibridge.example.org/fhir/CodeSystem/patient-element';
+
+// Lockable Patient elements and the source field names that refer to them, tested in order
+export const LOCKABLE_ELEMENTS: { element: LockableElement; label: string; aliases: RegExp }[] = [
+  { element: 'contact', label: 'Contacts', aliases: /^contacts?$|emergency|next.?of.?kin/i },
+  { element: 'telecom', label: 'Phone and e-mail', aliases: /telecom|phone|mobile|cell|fax|e.?mail/i },
+  { element: 'address', label: 'Address', aliases: /address|street|city|postal|zip/i },
+  { element: 'birthDate', label: 'Birth date', aliases: /birth|dob/i },
+  { element: 'identifier', label: 'Identifiers', aliases: /identifier|health.?card|hcn|ohip|mrn|^sin$/i },
+  { element: 'name', label: 'Name', aliases: /name/i },
+  { element: 'gender', label: 'Gender', aliases: /gender|sex/i },
+  { element: 'maritalStatus', label: 'Marital status', aliases: /marital/i },
+  { element: 'communication', label: 'Language', aliases: /communication|language/i }
+];
+
+const CONSENT_FIELD = /^(privacy.?)?consent(.?status|.?directive)?s?$/i;
+const WITHDRAWAL_FIELD = /^consent.?(withdrawn|withdrawal|revoked)(.?date)?$/i;
+const LOCKBOX_FIELD = /lock.?box|withh[eo]ld|do.?not.?disclose|disclosure.?restrictions?/i;
+const GIVEN = /^(y|yes|true|given|granted|express|implied|obtained|active|consented|opt.?in)$/i;
+const WITHDRAWN = /^(n|no|false|withdrawn|withdraw|revoked|refused|declined|rejected|opt.?out|inactive)$/i;
+// Answers of a withdrawal field such as "consentWithdrawn" that deny a withdrawal, as CSV and HL7 exports write them
+const NOT_WITHDRAWN = /^(n|no|false|0|none|not.?withdrawn)$/i;
+// Sort keys of undated directives: before every FHIR date for consents and lockboxes, after every one for withdrawals
+const UNDATED = '';
+const UNDATED_WITHDRAWAL = '9999';
+
+// v3 ActCode consent policies: opt in, opt in with restrictions, opt out
+const POLICY_RULES: Record<ConsentDirectiveType, { code: string; display: string }> = {
+  consent: { code: 'OPTIN', display: 'opt-in' },
+  lockbox: { code: 'OPTINR', display: 'opt-in with restrictions' },
+  withdrawal: { code: 'OPTOUT', display: 'opt-out' }
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ConsentService {
+  // Directives entered in the application, kept per source record so that reprocessing keeps them
+  private manualDirectives = new WeakMap<object, ConsentDirective[]>();
+  private manualCount = 0;
+
+  constructor(private dates: DateNormalizerService) {}
+
+  /**
+   * Works out the consent state of a record from the directives in its data and those entered for it
+   * @param data - Record as scanned by the compliance check
+   * @param record - Source record manual directives are kept against; defaults to data
+   */
+  evaluate(data: any, record: any = data): ConsentState {
+    // An undated directive cannot be ordered against dated ones, so the order fails closed: an undated consent
+    // counts as the oldest decision and an undated withdrawal as the most recent. On the same day a withdrawal
+    // outranks a consent, so that a withdrawal is never lost to an ordering tie.
+    const sortKey = (directive: ConsentDirective) =>
+      directive.date ?? (directive.type === 'withdrawal' ? UNDATED_WITHDRAWAL : UNDATED);
+    const directives = [...this.readDirectives(data), ...this.getManualDirectives(record)]
+      .map((directive, order) => ({ directive, order }))
+      .sort((a, b) =>
+        sortKey(a.directive).localeCompare(sortKey(b.directive))
+        || Number(a.directive.type === 'withdrawal') - Number(b.directive.type === 'withdrawal')
+        || a.order - b.order
+      )
+      .map(({ directive }) => directive);
+
+    const decision = [...directives].reverse().find(directive => directive.type !== 'lockbox');
+    const lockedElements = LOCKABLE_ELEMENTS
+      .map(({ element }) => element)
+      .filter(element => directives.some(directive => directive.type === 'lockbox' && directive.elements.includes(element)));
+
+    if (decision?.type === 'withdrawal') {
+      return { directives, status: 'withdrawn', lockedElements, withdrawal: decision };
+    }
+    return {
+      directives,
+      status: lockedElements.length > 0 ? 'restricted' : decision ? 'consented' : 'unknown',
+      lockedElements
+    };
+  }
+
+  /**
+   * Reads consent, lockbox and withdrawal directives from fields such as "consent", "consentWithdrawn"
+   * and "lockbox" anywhere in a record
+   */
+  readDirectives(data: any): ConsentDirective[] {
+    const directives: Omit<ConsentDirective, 'id'>[] = [];
+    this.scan(data, '', directives);
+    return directives.map((directive, index) => ({ ...directive, id: `record-${index + 1}` }));
+  }
+
+  getManualDirectives(record: any): ConsentDirective[] {
+    return record && typeof record === 'object' ? this.manualDirectives.get(record) ?? [] : [];
+  }
+
+  /**
+   * Records a directive entered in the application for a source record
+   */
+  addManualDirective(record: any, directive: Omit<ConsentDirective, 'id' | 'source'>): ConsentDirective {
+    if (!record || typeof record !== 'object') {
+      throw new Error('Consent directives can only be entered for a processed record');
+    }
+    if (directive.type === 'lockbox' && directive.elements.length === 0) {
+      throw new Error('Select at least one element for the lockbox to withhold');
+    }
+
+    // A directive entered without a date is given today's, the day it was recorded
+    const added: ConsentDirective = {
+      ...directive,
+      date: directive.date || this.today(),
+      id: `manual-${++this.manualCount}`,
+      source: 'manual'
+    };
+    this.manualDirectives.set(record, [...this.getManualDirectives(record), added]);
+    return added;
+  }
+
+  removeManualDirective(record: any, id: string): void {
+    this.manualDirectives.set(record, this.getManualDirectives(record).filter(directive => directive.id !== id));
+  }
+
+  canDisclose(state: ConsentState): boolean {
+    return state.status !== 'withdrawn';
+  }
+
+  /**
+   * A copy of the Patient without the elements a lockbox withholds. Lockboxes limited to a recipient
+   * are applied too, since an export does not say who receives it.
+   */
+  withholdLocked(patient: FHIRPatient, state: ConsentState): FHIRPatient {
+    const copy: any = { ...patient };
+    state.lockedElements.forEach(element => delete copy[element]);
+    return copy;
+  }
+
+  /**
+   * A copy of a source record without the fields of the elements a lockbox withholds, e.g. "phone" and
+   * "emergencyContact.email" for a lockbox on phone and e-mail. Consent fields are kept as they are.
+   */
+  withholdLockedFields(data: any, state: ConsentState): any {
+    if (state.lockedElements.length === 0 || !data || typeof data !== 'object') {
+      return data;
+    }
+
+    const withhold = (node: any): any => {
+      if (Array.isArray(node)) return node.map(withhold);
+      if (!node || typeof node !== 'object') return node;
+      return Object.fromEntries(Object.entries(node)
+        .filter(([key]) => {
+          const element = this.isDirectiveField(key) ? undefined : this.resolveElement(key);
+          return !element || !state.lockedElements.includes(element);
+        })
+        .map(([key, value]) => [key, this.isDirectiveField(key) ? value : withhold(value)]));
+    };
+    return withhold(data);
+  }
+
+  /**
+   * One FHIR Consent per directive; a directive superseded by a later consent decision is inactive
+   * @param patientReference - Reference to the Patient, e.g. "Patient/123" or a Bundle entry's fullUrl
+   */
+  toFhirConsents(state: ConsentState, patientReference: string): FHIRConsent[] {
+    const decisions = state.directives.filter(directive => directive.type !== 'lockbox');
+    const inForce = decisions[decisions.length - 1];
+
+    return state.directives.map(directive => {
+      const superseded = directive.type !== 'lockbox' && directive !== inForce;
+      const policy = POLICY_RULES[directive.type];
+
+      return {
+        resourceType: 'Consent',
+        id: crypto.randomUUID(),
+        status: superseded ? 'inactive' : 'active',
+        scope: {
+          coding: [{ system: 'http://terminology.hl7.org/CodeSystem/consentscope', code: 'patient-privacy', display: 'Privacy Consent' }]
+        },
+        category: [{ coding: [{ system: 'http://loinc.org', code: '59284-0', display: 'Patient Consent' }] }],
+        patient: { reference: patientReference },
+        ...(directive.date && { dateTime: directive.date }),
+        policyRule: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode', ...policy }] },
+        provision: this.toProvision(directive)
+      };
+    });
+  }
+
+  /**
+   * Whether a field name holds consent, lockbox or withdrawal directives
+   */
+  isDirectiveField(key: string): boolean {
+    return WITHDRAWAL_FIELD.test(key) || LOCKBOX_FIELD.test(key) || CONSENT_FIELD.test(key);
+  }
+
+  getElementLabel(element: LockableElement): string {
+    return LOCKABLE_ELEMENTS.find(lockable => lockable.element === element)!.label;
+  }
+
+  private toProvision(directive: ConsentDirective): FHIRConsentProvision {
+    if (directive.type !== 'lockbox') {
+      return { type: directive.type === 'consent' ? 'permit' : 'deny' };
+    }
+
+    // Disclosure is permitted except for the locked elements, to the recipient when one is named
+    const exception: FHIRConsentProvision = {
+      type: 'deny',
+      ...(directive.recipient && {
+        actor: [{
+          role: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v3-ParticipationType', code: 'IRCP', display: 'information recipient' }] },
+          reference: { display: directive.recipient }
+        }]
+      }),
+      code: directive.elements.map(element => ({
+        coding: [{ system: PATIENT_ELEMENT_SYSTEM, code: element, display: this.getElementLabel(element) }]
+      }))
+    };
+    return { type: 'permit', provision: [exception] };
+  }
+
+  private scan(node: any, path: string, directives: Omit<ConsentDirective, 'id'>[]): void {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) return;
+
+    Object.entries(node).forEach(([key, value]) => {
+      const fullPath = path ? `${path}.${key}` : key;
+      if (WITHDRAWAL_FIELD.test(key)) {
+        if (this.isWithdrawal(value)) {
+          directives.push({ type: 'withdrawal', date: this.readDate(value), elements: [], source: 'record', sourcePath: fullPath });
+        }
+      } else if (LOCKBOX_FIELD.test(key)) {
+        this.readLockbox(value, fullPath, directives);
+      } else if (CONSENT_FIELD.test(key)) {
+        ([] as any[]).concat(value).forEach(item => this.readConsent(item, fullPath, directives));
+      } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+        this.scan(value, fullPath, directives);
+      }
+    });
+  }
+
+  // true, "yes", a withdrawal date or any other statement; false, "no", 0 and empty values deny the withdrawal
+  private isWithdrawal(value: any): boolean {
+    if (typeof value === 'string') return value.trim() !== '' && !NOT_WITHDRAWN.test(value.trim());
+    return value !== false && value !== 0 && value !== null && value !== undefined;
+  }
+
+  // "yes", true, "withdrawn", or { "status": "withdrawn", "date": "2024-05-01", "lockbox": [...] }
+  private readConsent(value: any, path: string, directives: Omit<ConsentDirective, 'id'>[]): void {
+    const isObject = value !== null && typeof value === 'object';
+    const details = isObject ? value : {};
+    const status = String(isObject ? details.status ?? details.state ?? details.value ?? '' : value).trim();
+    const date = this.readDate(details.date ?? details.dateTime ?? details.effective);
+
+    if (WITHDRAWN.test(status)) {
+      directives.push({ type: 'withdrawal', date, elements: [], source: 'record', sourcePath: path });
+    } else if (GIVEN.test(status)) {
+      directives.push({ type: 'consent', date, elements: [], source: 'record', sourcePath: path });
+    }
+
+    Object.keys(details)
+      .filter(key => LOCKBOX_FIELD.test(key) || /^restrictions?$/i.test(key))
+      .forEach(key => this.readLockbox(details[key], `${path}.${key}`, directives, date));
+  }
+
+  // "phone, address", ["phone", "address"], true (the whole record) or { "elements": [...], "recipient": "..." }
+  private readLockbox(value: any, path: string, directives: Omit<ConsentDirective, 'id'>[], date?: string): void {
+    if (value === false || value === null || value === undefined || value === '') return;
+
+    const details = value && typeof value === 'object' && !Array.isArray(value) ? value : { elements: value };
+    const names = details.elements ?? details.fields ?? details.data ?? true;
+    const elements = names === true
+      ? LOCKABLE_ELEMENTS.map(({ element }) => element)
+      : [...new Set(
+          ([] as any[]).concat(typeof names === 'string' ? names.split(/[,;|]/) : names)
+            .map(name => this.resolveElement(String(name)))
+            .filter((element): element is LockableElement => !!element)
+        )];
+    if (elements.length === 0) return;
+
+    const recipient = details.recipient ?? details.recipients;
+    directives.push({
+      type: 'lockbox',
+      date: this.readDate(details.date) ?? date,
+      elements,
+      ...(recipient && { recipient: ([] as any[]).concat(recipient).join(', ') }),
+      source: 'record',
+      sourcePath: path
+    });
+  }
+
+  private resolveElement(name: string): LockableElement | undefined {
+    const key = name.trim();
+    return LOCKABLE_ELEMENTS.find(lockable => lockable.element === key || lockable.aliases.test(key))?.element;
+  }
+
+  // Local calendar day as a FHIR date
+  private today(): string {
+    const now = new Date();
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  }
+
+  private readDate(value: any): string | undefined {
+    return typeof value === 'string' && value.trim() ? this.dates.normalize(value).value : undefined;
+  }
+}
@@ -0,0 +1,61 @@
+import { TestBed } from '@angular/core/testing';
+import { CsvParserService } from './csv-parser.service';
+
+describe('CsvParserService', () => {
+  let service: CsvParserService;
+
+  beforeEach(() => {
+    service = TestBed.inject(CsvParserService);
+  });
+
+  it('detects the delimiter and header and keys records by header', () => {
+    const result = service.parse('first_name;last_name;ohip\nMarie;Côté;1234567897\nJean;Roy;\n');
+    expect(result.delimiter).toBe(';');
+    expect(result.hasHeader).toBe(true);
+    expect(result.records).toEqual([
+      { first_name: 'Marie', last_name: 'Côté', ohip: '1234567897' },
+      { first_name: 'Jean', last_name: 'Roy' }
+    ]);
+  });
+
+  it('keeps delimiters, line breaks and doubled quotes inside quoted fields', () => {
+    const result = service.parse('name,address\r\n"Roy, Jean","400 Rideau St\nUnit ""7"""\r\n');
+    expect(result.records[0]).toEqual({ name: 'Roy, Jean', address: '400 Rideau St\nUnit "7"' });
+  });
+
+  it('nests dotted headers', () => {
+    const result = service.parse('id,address.city,address.postalCode\nP1,Ottawa,K1N 5Y8\n');
+    expect(result.records[0]).toEqual({ id: 'P1', address: { city: 'Ottawa', postalCode: 'K1N 5Y8' } });
+  });
+
+  it('names columns when the first row is data', () => {
+    const result = service.parse('Marie,1984-02-29\nJean,1979-11-03\n');
+    expect(result.hasHeader).toBe(false);
+    expect(result.headers).toEqual(['column1', 'column2']);
+    expect(result.warnings[0]).toContain('No header row');
+  });
+
+  it('suffixes repeated headers', () => {
+    expect(service.parse('phone,phone\n1,2\n', { hasHeader: true }).headers).toEqual(['phone', 'phone_2']);
+  });
+
+  it('warns about rows of another width', () => {
+    const result = service.parse('a,b,c\n1,2\n');
+    expect(result.warnings).toContain('Row 2 has 2 field(s), expected 3');
+  });
+
+  it('follows a delimiter and header setting', () => {
+    const result = service.parse('a|b\n1|2\n', { delimiter: '|', hasHeader: false });
+    expect(result.records).toEqual([{ column1: 'a', column2: 'b' }, { column1: '1', column2: '2' }]);
+  });
+
+  it('rejects empty files', () => {
+    expect(() => service.parse('\uFEFF  \n')).toThrowError('CSV file is empty');
+  });
+
+  it('decodes UTF-8 and falls back to Windows-1252', () => {
+    expect(service.decode(new TextEncoder().encode('Côté').buffer)).toEqual({ text: 'Côté', encoding: 'UTF-8' });
+    expect(service.decode(new Uint8Array([0x43, 0xF4, 0x74, 0xE9]).buffer))
+      .toEqual({ text: 'Côté', encoding: 'Windows-1252 (Latin-1)' });
+  });
+});
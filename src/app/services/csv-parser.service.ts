@@ -0,0 +1,282 @@
+import { Injectable } from '@angular/core';
+import { CsvDelimiter, CsvParseOptions, CsvParseResult, DecodedText } from '../models/csv.model';
+
+const CANDIDATE_DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
+const SAMPLE_LINES = 20;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class CsvParserService {
+  constructor() {}
+
+  /**
+   * Whether a file name looks like a delimited flat file
+   */
+  isCsvFile(fileName: string): boolean {
+    return /\.(csv|tsv|psv)$/i.test(fileName);
+  }
+
+  /**
+   * Decodes raw file bytes, honouring a BOM and falling back to Windows-1252 (Latin-1)
+   * when the content is not valid UTF-8 (e.g. French names exported by older clinic systems)
+   */
+  decode(buffer: ArrayBuffer): DecodedText {
+    const bytes = new Uint8Array(buffer);
+
+    if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+      return { text: new TextDecoder('utf-8').decode(bytes), encoding: 'UTF-8 (BOM)' };
+    }
+    if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+      return { text: new TextDecoder('utf-16le').decode(bytes), encoding: 'UTF-16LE (BOM)' };
+    }
+    if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+      return { text: new TextDecoder('utf-16be').decode(bytes), encoding: 'UTF-16BE (BOM)' };
+    }
+
+    try {
+      return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'UTF-8' };
+    } catch {
+      return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'Windows-1252 (Latin-1)' };
+    }
+  }
+
+  /**
+   * Parses delimited text into one record per row
+   * @param text - Decoded CSV text
+   * @param options - Delimiter and header handling ('auto' detects them)
+   * @returns CsvParseResult with the records keyed by header name
+   */
+  parse(text: string, options: CsvParseOptions = {}): CsvParseResult {
+    const warnings: string[] = [];
+    const content = text.replace(/^\uFEFF/, '');
+
+    if (!content.trim()) {
+      throw new Error('CSV file is empty');
+    }
+
+    const delimiter = !options.delimiter || options.delimiter === 'auto'
+      ? this.detectDelimiter(content)
+      : options.delimiter;
+    const quoteChar = this.detectQuoteChar(content, delimiter);
+
+    const rows = this.tokenize(content, delimiter, quoteChar)
+      .filter(row => row.some(cell => cell.trim().length > 0));
+
+    if (rows.length === 0) {
+      throw new Error('No rows found in CSV file');
+    }
+
+    const hasHeader = options.hasHeader === undefined || options.hasHeader === 'auto'
+      ? this.detectHeader(rows)
+      : options.hasHeader;
+
+    const width = Math.max(...rows.map(row => row.length));
+    const headers = this.normalizeHeaders(hasHeader ? rows[0] : [], width);
+    const dataRows = hasHeader ? rows.slice(1) : rows;
+
+    if (!hasHeader) {
+      warnings.push('No header row detected; columns were named column1, column2, ...');
+    }
+
+    const records = dataRows.map((row, index) => {
+      if (row.length !== headers.length) {
+        const lineNumber = index + (hasHeader ? 2 : 1);
+        warnings.push(`Row ${lineNumber} has ${row.length} field(s), expected ${headers.length}`);
+      }
+      return this.toRecord(headers, row);
+    });
+
+    return {
+      headers,
+      records,
+      delimiter,
+      quoteChar,
+      hasHeader,
+      warnings
+    };
+  }
+
+  /**
+   * Picks the candidate delimiter that splits the sample lines into the most consistent column count
+   */
+  private detectDelimiter(content: string): CsvDelimiter {
+    const lines = content.split(/\r\n|\r|\n/).filter(line => line.trim()).slice(0, SAMPLE_LINES);
+    let best: CsvDelimiter = ',';
+    let bestScore = 0;
+
+    for (const delimiter of CANDIDATE_DELIMITERS) {
+      const counts = lines.map(line => this.countOutsideQuotes(line, delimiter));
+      const mode = this.mode(counts);
+      if (mode === 0) continue;
+
+      const consistent = counts.filter(count => count === mode).length;
+      const score = consistent * 1000 + mode;
+      if (score > bestScore) {
+        best = delimiter;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  private detectQuoteChar(content: string, delimiter: CsvDelimiter): '"' | '\'' | null {
+    const d = delimiter === '|' ? '\\|' : delimiter;
+    const quoted = (quote: string) =>
+      (content.match(new RegExp(`(^|${d}|\\n)${quote}[^${quote}\\n]*${quote}(?=${d}|\\r?\\n|$)`, 'g')) || []).length;
+
+    const doubleQuoted = quoted('"');
+    const singleQuoted = quoted('\'');
+
+    if (doubleQuoted === 0 && singleQuoted === 0) {
+      return content.includes('"') ? '"' : null;
+    }
+    return singleQuoted > doubleQuoted ? '\'' : '"';
+  }
+
+  /**
+   * RFC 4180 tokenizer: quoted fields may contain delimiters, line breaks and doubled quotes
+   */
+  private tokenize(content: string, delimiter: string, quoteChar: string | null): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let i = 0;
+
+    while (i < content.length) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === quoteChar) {
+          if (content[i + 1] === quoteChar) {
+            field += char;
+            i += 2;
+            continue;
+          }
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+        i++;
+        continue;
+      }
+
+      if (quoteChar && char === quoteChar && field.trim() === '') {
+        field = '';
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\r' || char === '\n') {
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+        if (char === '\r' && content[i + 1] === '\n') {
+          i++;
+        }
+      } else {
+        field += char;
+      }
+      i++;
+    }
+
+    if (field.length > 0 || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  /**
+   * A first row is treated as a header when every cell is a distinct, non-empty label
+   * that does not look like a data value
+   */
+  private detectHeader(rows: string[][]): boolean {
+    const first = rows[0].map(cell => cell.trim());
+    const labels = new Set(first.map(cell => cell.toLowerCase()));
+
+    if (first.some(cell => cell === '') || labels.size !== first.length) {
+      return false;
+    }
+
+    return first.every(cell =>
+      isNaN(Number(cell)) &&
+      !/^\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}$/.test(cell) &&
+      !cell.includes('@') &&
+      cell.length <= 64
+    );
+  }
+
+  private normalizeHeaders(headerRow: string[], width: number): string[] {
+    const seen = new Map<string, number>();
+    const headers: string[] = [];
+
+    for (let i = 0; i < width; i++) {
+      let header = (headerRow[i] || '').trim() || `column${i + 1}`;
+      const count = seen.get(header) || 0;
+      seen.set(header, count + 1);
+      if (count > 0) {
+        header = `${header}_${count + 1}`;
+      }
+      headers.push(header);
+    }
+
+    return headers;
+  }
+
+  /**
+   * Builds a record from a row; dotted headers (e.g. address.city) become nested objects
+   */
+  private toRecord(headers: string[], row: string[]): any {
+    const record: any = {};
+
+    headers.forEach((header, index) => {
+      const value = (row[index] ?? '').trim();
+      if (value === '') return;
+
+      const path = header.split('.');
+      let target = record;
+      path.slice(0, -1).forEach(key => {
+        if (typeof target[key] !== 'object' || target[key] === null) {
+          target[key] = {};
+        }
+        target = target[key];
+      });
+      target[path[path.length - 1]] = value;
+    });
+
+    return record;
+  }
+
+  private countOutsideQuotes(line: string, delimiter: string): number {
+    let count = 0;
+    let inQuotes = false;
+    for (const char of line) {
+      if (char === '"') {
+        inQuotes = !inQuotes;
+      } else if (char === delimiter && !inQuotes) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  private mode(values: number[]): number {
+    const frequency = new Map<number, number>();
+    values.forEach(value => frequency.set(value, (frequency.get(value) || 0) + 1));
+
+    let mode = 0;
+    let best = 0;
+    frequency.forEach((count, value) => {
+      if (count > best || (count === best && value > mode)) {
+        mode = value;
+        best = count;
+      }
+    });
+    return mode;
+  }
+}
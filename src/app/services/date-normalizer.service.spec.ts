@@ -0,0 +1,93 @@
+import { TestBed } from '@angular/core/testing';
+import { DateNormalizerService } from './date-normalizer.service';
+
+describe('DateNormalizerService', () => {
+  let service: DateNormalizerService;
+  const today = new Date(2026, 9, 19);
+
+  beforeEach(() => {
+    service = TestBed.inject(DateNormalizerService);
+  });
+
+  describe('normalize', () => {
+    it('reads ISO, HL7 and YYYYMMDD dates without shifting the day', () => {
+      expect(service.normalize('1980-04-03').value).toBe('1980-04-03');
+      expect(service.normalize('1980-04-03T23:30:00-05:00').value).toBe('1980-04-03');
+      expect(service.normalize('19800403120000-0500')).toMatchObject({ value: '1980-04-03', format: 'HL7' });
+      expect(service.normalize('19800403')).toMatchObject({ value: '1980-04-03', format: 'YYYYMMDD' });
+    });
+
+    it('keeps partial dates at their precision', () => {
+      expect(service.normalize('1985')).toMatchObject({ value: '1985', precision: 'year' });
+      expect(service.normalize('05/1985')).toMatchObject({ value: '1985-05', precision: 'month' });
+      expect(service.normalize('May 1985')).toMatchObject({ value: '1985-05', precision: 'month' });
+    });
+
+    it('reads written English and French month names', () => {
+      expect(service.normalize('15 May 1985').value).toBe('1985-05-15');
+      expect(service.normalize('May 15th, 1985').value).toBe('1985-05-15');
+      expect(service.normalize('1er mai 1985').value).toBe('1985-05-01');
+    });
+
+    it('reads ambiguous numeric dates as day/month with a warning', () => {
+      const result = service.normalize('03/04/1980');
+      expect(result.value).toBe('1980-04-03');
+      expect(result.warnings[0]).toContain('ambiguous');
+    });
+
+    it('reads month first when the second number cannot be a month', () => {
+      expect(service.normalize('04/23/1980')).toMatchObject({ value: '1980-04-23', format: 'MM/DD/YYYY', warnings: [] });
+    });
+
+    it('follows a fixed source format', () => {
+      expect(service.normalize('03/04/1980', 'MM/DD/YYYY').value).toBe('1980-03-04');
+      expect(service.normalize('1980-03-04', 'DD/MM/YYYY').value).toBeUndefined();
+    });
+
+    it('rejects impossible calendar dates', () => {
+      expect(service.normalize('1981-02-29').value).toBeUndefined();
+      expect(service.normalize('1980-02-29').value).toBe('1980-02-29');
+      expect(service.normalize('1980-13-01').warnings[0]).toContain('no month 13');
+    });
+
+    it('returns only warnings for values that are not dates', () => {
+      expect(service.normalize('unknown')).toEqual({ warnings: ['"unknown" is not a recognised date'] });
+      expect(service.normalize('')).toEqual({ warnings: [] });
+    });
+
+    it('does not take Object.prototype members for month names', () => {
+      expect(service.normalize('constructor 1985')).toEqual({ warnings: ['"constructor 1985" is not a recognised date'] });
+      expect(service.normalize('1 toString 1985').value).toBeUndefined();
+    });
+  });
+
+  describe('checkBirthDate', () => {
+    it('flags future birth dates and ages over 130', () => {
+      expect(service.checkBirthDate('2027-01-01', today)[0]).toContain('in the future');
+      expect(service.checkBirthDate('1890-01-01', today)[0]).toContain('over 130');
+      expect(service.checkBirthDate('1980-04-03', today)).toEqual([]);
+    });
+
+    it('compares partial dates at their own precision', () => {
+      expect(service.checkBirthDate('2026', today)).toEqual([]);
+      expect(service.checkBirthDate('2026-11', today)[0]).toContain('in the future');
+    });
+  });
+
+  describe('getAge', () => {
+    it('counts whole years up to the birthday', () => {
+      expect(service.getAge('2010-10-19', today)).toEqual({ years: 16, exact: true });
+      expect(service.getAge('2010-10-20', today)).toEqual({ years: 15, exact: true });
+    });
+
+    it('gives the youngest age a partial date allows', () => {
+      expect(service.getAge('2010', today)).toEqual({ years: 15, exact: false });
+      expect(service.getAge('2010-09', today)).toEqual({ years: 16, exact: true });
+    });
+
+    it('returns undefined for unreadable or future dates', () => {
+      expect(service.getAge('soon', today)).toBeUndefined();
+      expect(service.getAge('2027-01-01', today)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import { Injectable } from '@angular/core';
+import { DatePrecision, NormalizedDate, SourceDateFormat } from '../models/date.model';
+
+const MAX_AGE_YEARS = 130;
+
+// ISO 8601 date, possibly partial, with an optional time; the date is taken as written, never shifted by a timezone
+const ISO_DATE = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?(?:[T ]\d{1,2}:\d{2}.*)?$/;
+// HL7 v2 TS / DTM: YYYY[MM[DD[HH[MM[SS[.S]]]]]][+/-ZZZZ]
+const HL7_TS = /^(\d{4})(\d{2})?(\d{2})?(?:\d{2}(?:\d{2}(?:\d{2}(?:\.\d{1,4})?)?)?)?(?:[+-]\d{4})?$/;
+const YEAR_FIRST = /^(\d{4})[/.](\d{1,2})[/.](\d{1,2})$/;
+const NUMERIC_DMY = /^(\d{1,2})([/.-])(\d{1,2})\2(\d{4})$/;
+const MONTH_YEAR = /^(\d{1,2})[/.-](\d{4})$/;
+
+// Capture groups holding the year, month and day for each fixed-layout format
+const FIXED_FORMATS: Record<'YYYYMMDD' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'DD-MM-YYYY', { pattern: RegExp; order: number[] }> = {
+  'YYYYMMDD': { pattern: /^(\d{4})(\d{2})(\d{2})$/, order: [1, 2, 3] },
+  'DD/MM/YYYY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: [3, 2, 1] },
+  'MM/DD/YYYY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: [3, 1, 2] },
+  'DD-MM-YYYY': { pattern: /^(\d{1,2})-(\d{1,2})-(\d{4})$/, order: [3, 2, 1] }
+};
+
+// English and French month names and abbreviations
+const MONTH_NAMES: Record<string, number> = {
+  jan: 1, january: 1, janv: 1, janvier: 1,
+  feb: 2, february: 2, fev: 2, 'fév': 2, 'févr': 2, fevrier: 2, 'février': 2,
+  mar: 3, march: 3, mars: 3,
+  apr: 4, april: 4, avr: 4, avril: 4,
+  may: 5, mai: 5,
+  jun: 6, june: 6, juin: 6,
+  jul: 7, july: 7, juil: 7, juillet: 7,
+  aug: 8, august: 8, aout: 8, 'août': 8,
+  sep: 9, sept: 9, september: 9, septembre: 9,
+  oct: 10, october: 10, octobre: 10,
+  nov: 11, november: 11, novembre: 11,
+  dec: 12, december: 12, 'déc': 12, decembre: 12, 'décembre': 12
+};
+
+interface DateParts {
+  year: number;
+  month?: number;
+  day?: number;
+  format?: NormalizedDate['format'];
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class DateNormalizerService {
+  constructor() {}
+
+  /**
+   * Reads a source date into a FHIR date (YYYY, YYYY-MM or YYYY-MM-DD) without going through
+   * JavaScript Date, so no timezone can shift the day
+   * @param value - Source value, e.g. "1980-04-03", "03/04/1980", "19800403120000-0500" or "May 1985"
+   * @param format - Expected source format; 'auto' detects it and warns when day and month are ambiguous
+   * @returns NormalizedDate with the FHIR date, or only warnings when the value is not a valid date
+   */
+  normalize(value: any, format: SourceDateFormat = 'auto'): NormalizedDate {
+    const warnings: string[] = [];
+    const text = value === undefined || value === null ? '' : String(value).trim();
+    if (!text) {
+      return { warnings };
+    }
+
+    const parts = format === 'auto' ? this.detect(text, warnings) : this.readAs(text, format);
+    if (!parts) {
+      warnings.push(format === 'auto'
+        ? `"${text}" is not a recognised date`
+        : `"${text}" does not match the ${format} date format`);
+      return { warnings };
+    }
+
+    const problem = this.calendarProblem(parts);
+    if (problem) {
+      warnings.push(`"${text}" is not a valid date (${problem})`);
+      return { warnings };
+    }
+
+    const precision: DatePrecision = parts.day !== undefined ? 'day' : parts.month !== undefined ? 'month' : 'year';
+    const date = [String(parts.year), parts.month, parts.day]
+      .filter(part => part !== undefined)
+      .map(part => String(part).padStart(2, '0'))
+      .join('-');
+
+    return { value: date, precision, format: parts.format, warnings };
+  }
+
+  /**
+   * The fixed source format a sample value is written in, or 'auto' when it cannot be told
+   */
+  detectFormat(value: string): SourceDateFormat {
+    const { format } = this.normalize(value);
+    return format && format !== 'text' ? format : 'auto';
+  }
+
+  /**
+   * Plausibility checks for a FHIR birth date: not in the future and not more than 130 years ago
+   * @param today - Reference date (the local calendar day by default)
+   */
+  checkBirthDate(date: string, today: Date = new Date()): string[] {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const todayDate = `${today.getFullYear()}-${pad(today.getMonth() + 1)}-${pad(today.getDate())}`;
+    // Partial dates are compared at their own precision
+    const comparable = (iso: string) => iso.slice(0, date.length);
+
+    if (date > comparable(todayDate)) {
+      return [`birth date ${date} is in the future`];
+    }
+    if (date < comparable(`${today.getFullYear() - MAX_AGE_YEARS}${todayDate.slice(4)}`)) {
+      return [`birth date ${date} means an age over ${MAX_AGE_YEARS} years`];
+    }
+    return [];
+  }
+
+  /**
+   * Age in whole years on a given day, from a FHIR birth date. A partial date gives the youngest age
+   * it allows, and is only exact when every birth day it allows gives the same age.
+   * @param today - Reference date (the local calendar day by default)
+   * @returns The age, or undefined when the date cannot be read or is in the future
+   */
+  getAge(birthDate: string, today: Date = new Date()): { years: number; exact: boolean } | undefined {
+    const match = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?/.exec(birthDate);
+    if (!match) return undefined;
+
+    const year = Number(match[1]);
+    const onDay = today.getMonth() * 100 + today.getDate() + 100;
+    const ageBornOn = (month: number, day: number) => today.getFullYear() - year - (onDay < month * 100 + day ? 1 : 0);
+    const month = match[2] ? Number(match[2]) : undefined;
+    const day = match[3] ? Number(match[3]) : undefined;
+    const youngest = ageBornOn(month ?? 12, day ?? 31);
+    const oldest = ageBornOn(month ?? 1, day ?? 1);
+
+    return youngest < 0 ? undefined : { years: youngest, exact: youngest === oldest };
+  }
+
+  private detect(text: string, warnings: string[]): DateParts | null {
+    let match = text.match(ISO_DATE);
+    if (match) {
+      return this.parts(match[1], match[2], match[3], 'YYYY-MM-DD');
+    }
+
+    match = text.match(HL7_TS);
+    if (match) {
+      return this.parts(match[1], match[2], match[3], /^\d{8}$/.test(text) ? 'YYYYMMDD' : 'HL7');
+    }
+
+    match = text.match(YEAR_FIRST);
+    if (match) {
+      return this.parts(match[1], match[2], match[3]);
+    }
+
+    match = text.match(NUMERIC_DMY);
+    if (match) {
+      const [, first, separator, second, year] = match;
+      const dayFirst: DateParts['format'] = separator === '-' ? 'DD-MM-YYYY' : 'DD/MM/YYYY';
+      if (Number(second) > 12 && Number(first) <= 12) {
+        return this.parts(year, first, second, separator === '/' ? 'MM/DD/YYYY' : undefined);
+      }
+      if (Number(first) <= 12 && Number(second) <= 12 && first !== second) {
+        warnings.push(
+          `"${text}" is ambiguous (day/month or month/day); read as day/month. ` +
+          'Set the source date format if the source writes month first'
+        );
+      }
+      return this.parts(year, second, first, dayFirst);
+    }
+
+    match = text.match(MONTH_YEAR);
+    if (match) {
+      return this.parts(match[2], match[1]);
+    }
+
+    return this.readText(text);
+  }
+
+  private readAs(text: string, format: Exclude<SourceDateFormat, 'auto'>): DateParts | null {
+    if (format === 'YYYY-MM-DD' || format === 'HL7') {
+      const match = text.match(format === 'HL7' ? HL7_TS : ISO_DATE);
+      return match ? this.parts(match[1], match[2], match[3], format) : null;
+    }
+
+    const { pattern, order } = FIXED_FORMATS[format];
+    const match = text.match(pattern);
+    if (!match) return null;
+    const [year, month, day] = order.map(group => match[group]);
+    return this.parts(year, month, day, format);
+  }
+
+  // "15 May 1985", "May 15th, 1985", "1er mai 1985", "Jan 2020"
+  private readText(text: string): DateParts | null {
+    const tokens = text.toLowerCase().split(/[\s,.\/-]+/).filter(Boolean);
+    const months = tokens.filter(token => Object.hasOwn(MONTH_NAMES, token));
+    const years = tokens.filter(token => /^\d{4}$/.test(token));
+    const days = tokens.filter(token => /^\d{1,2}(st|nd|rd|th|er)?$/.test(token));
+
+    if (months.length !== 1 || years.length !== 1 || days.length > 1 || tokens.length !== 2 + days.length) {
+      return null;
+    }
+    return {
+      year: Number(years[0]),
+      month: MONTH_NAMES[months[0]],
+      ...(days.length === 1 && { day: parseInt(days[0], 10) }),
+      format: 'text'
+    };
+  }
+
+  private parts(year: string, month?: string, day?: string, format?: DateParts['format']): DateParts {
+    return {
+      year: Number(year),
+      ...(month !== undefined && { month: Number(month) }),
+      ...(day !== undefined && { day: Number(day) }),
+      format
+    };
+  }
+
+  private calendarProblem({ year, month, day }: DateParts): string | null {
+    if (month === undefined) return null;
+    if (month < 1 || month > 12) {
+      return `there is no month ${month}`;
+    }
+    if (day === undefined) return null;
+
+    const leap = year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+    const daysInMonth = [31, leap ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][month - 1];
+    if (day < 1 || day > daysInMonth) {
+      return `${year}-${String(month).padStart(2, '0')} has no day ${day}`;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,124 @@
+import { TestBed } from '@angular/core/testing';
+import { FHIRPatient } from '../models/fhir.model';
+import { DeidentificationService } from './deidentification.service';
+
+describe('DeidentificationService', () => {
+  let service: DeidentificationService;
+
+  const record = {
+    id: 'MRN-10042',
+    birthDate: '1984-03-15',
+    admissionDate: '2024-01-10',
+    dischargeDate: '2024-01-20',
+    postalCode: 'M5V 2T6',
+    age: 93,
+    diagnosis: 'Asthma'
+  };
+
+  const patient: FHIRPatient = {
+    resourceType: 'Patient',
+    id: 'MRN-10042',
+    name: [{ family: 'Tremblay', given: ['Amélie'] }],
+    birthDate: '1984-03-15',
+    address: [{ line: ['123 Main Street'], city: 'Toronto', postalCode: 'M5V 2T6' }],
+    telecom: [{ system: 'email', value: 'amelie@example.ca' }]
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    service = TestBed.inject(DeidentificationService);
+  });
+
+  describe('Safe Harbour', () => {
+    it('keeps the year of dates, the FSA of postal codes and top-codes ages of 90 and over', () => {
+      const result = service.deidentify(record, undefined, service.getPolicies().find(p => p.id === 'safe-harbour'));
+
+      expect(result.source.id).toBeUndefined();
+      expect(result.source.birthDate).toBe('1984');
+      expect(result.source.admissionDate).toBe('2024');
+      expect(result.source.postalCode).toBe('M5V');
+      expect(result.source.age).toBe('90+');
+      expect(result.source.diagnosis).toBe('Asthma');
+    });
+
+    it('reports what was done to each field without its original value', () => {
+      const result = service.deidentify(record);
+
+      const postal = result.report.find(entry => entry.path === 'postalCode');
+      expect(postal).toEqual(expect.objectContaining({ target: 'source', category: 'postalCode', action: 'generalize' }));
+      expect(JSON.stringify(result.report)).not.toContain('M5V 2T6');
+      expect(JSON.stringify(result.report)).not.toContain('1984-03-15');
+    });
+
+    it('removes identifying Patient elements and drops array items left with only qualifiers', () => {
+      const result = service.deidentify(record, patient);
+      const fhir = result.fhirResource!;
+
+      expect(fhir.resourceType).toBe('Patient');
+      expect(fhir.id).not.toBe('MRN-10042');
+      expect(fhir.name).toBeUndefined();
+      expect(fhir.telecom).toBeUndefined();
+      expect(fhir.birthDate).toBe('1984');
+      expect(fhir.address).toEqual([{ postalCode: 'M5V' }]);
+    });
+  });
+
+  describe('Limited Data Set', () => {
+    it('shifts every date of a patient by the same number of days, keeping their intervals', () => {
+      service.selectPolicy('limited-data-set');
+      const result = service.deidentify(record);
+
+      const days = (date: string) => Date.parse(date) / (24 * 60 * 60 * 1000);
+      expect(result.source.admissionDate).not.toBe(record.admissionDate);
+      expect(days(result.source.dischargeDate) - days(result.source.admissionDate)).toBe(10);
+      expect(days(result.source.admissionDate) - days(record.admissionDate))
+        .toBe(days(result.source.birthDate) - days(record.birthDate));
+      expect(result.notes.some(note => note.includes('180'))).toBe(true);
+    });
+  });
+
+  describe('PHIPA Recommended', () => {
+    it('masks names word by word and e-mail addresses up to the domain', () => {
+      service.selectPolicy('phipa-recommended');
+      const fhir = service.deidentify(undefined, patient).fhirResource!;
+
+      expect(fhir.name?.[0]).toEqual({ family: 'T*******', given: ['A*****'] });
+      expect(fhir.telecom?.[0].value).toBe('a***@example.ca');
+      expect(fhir.birthDate).toBe('1984-03');
+    });
+  });
+
+  describe('setAction', () => {
+    it('turns the selected policy into a custom policy based on it', () => {
+      service.setAction('city', 'suppress');
+
+      expect(service.getPolicy()).toEqual(expect.objectContaining({
+        id: 'custom',
+        description: 'Based on Safe Harbour',
+        builtIn: false
+      }));
+      expect(service.getPolicy().actions.city).toBe('suppress');
+    });
+
+    it('ignores actions a category does not allow', () => {
+      service.setAction('name', 'generalize');
+
+      expect(service.getPolicy().id).toBe('safe-harbour');
+    });
+
+    it('withholds suppressed Patient elements with a data-absent-reason', () => {
+      service.setAction('city', 'suppress');
+      const fhir: any = service.deidentify(undefined, patient).fhirResource;
+
+      expect(fhir.address[0].city).toBeUndefined();
+      expect(fhir.address[0]._city.extension[0].valueCode).toBe('masked');
+    });
+  });
+
+  it('notes that a document source is left out', () => {
+    const result = service.deidentify('<ClinicalDocument/>', patient);
+
+    expect(result.source).toBeUndefined();
+    expect(result.notes[0]).toContain('document');
+  });
+});
@@ -0,0 +1,475 @@
+import { Injectable } from '@angular/core';
+import { FHIRPatient } from '../models/fhir.model';
+import {
+  DeidentificationAction,
+  DeidentificationPolicy,
+  DeidentificationReportEntry,
+  DeidentificationResult,
+  PhiCategory
+} from '../models/deidentification.model';
+import { PhipaValidationService } from './phipa-validation.service';
+import { DateNormalizerService } from './date-normalizer.service';
+
+const SUPPRESSED = '[SUPPRESSED]';
+const DATA_ABSENT_REASON = 'http://hl7.org/fhir/StructureDefinition/data-absent-reason';
+const MASK_VISIBLE = 4;
+const AGE_TOP_CODE = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Actions that make sense for each kind of PHI
+export const ALLOWED_ACTIONS: Record<PhiCategory, DeidentificationAction[]> = {
+  name: ['keep', 'remove', 'mask', 'suppress'],
+  identifier: ['keep', 'remove', 'mask', 'suppress'],
+  sensitive: ['keep', 'remove', 'mask', 'suppress'],
+  birthDate: ['keep', 'remove', 'generalize', 'dateShift', 'suppress'],
+  date: ['keep', 'remove', 'generalize', 'dateShift', 'suppress'],
+  age: ['keep', 'remove', 'generalize', 'suppress'],
+  street: ['keep', 'remove', 'mask', 'suppress'],
+  city: ['keep', 'remove', 'suppress'],
+  postalCode: ['keep', 'remove', 'mask', 'generalize', 'suppress'],
+  telecom: ['keep', 'remove', 'mask', 'suppress']
+};
+
+export const DEIDENTIFICATION_POLICIES: DeidentificationPolicy[] = [
+  {
+    id: 'safe-harbour',
+    name: 'Safe Harbour',
+    description: 'Removes direct identifiers, keeps only the year of dates and the FSA of postal codes',
+    builtIn: true,
+    actions: {
+      name: 'remove', identifier: 'remove', sensitive: 'remove', birthDate: 'generalize', date: 'generalize',
+      age: 'generalize', street: 'remove', city: 'remove', postalCode: 'generalize', telecom: 'remove'
+    },
+    datePrecision: 'year',
+    ageBucketSize: 5,
+    maxDateShiftDays: 365
+  },
+  {
+    id: 'limited-data-set',
+    name: 'Limited Data Set',
+    description: 'Keeps the timeline and city for research: dates are shifted per patient, identifiers masked',
+    builtIn: true,
+    actions: {
+      name: 'remove', identifier: 'mask', sensitive: 'remove', birthDate: 'dateShift', date: 'dateShift',
+      age: 'keep', street: 'remove', city: 'keep', postalCode: 'generalize', telecom: 'remove'
+    },
+    datePrecision: 'yearMonth',
+    ageBucketSize: 5,
+    maxDateShiftDays: 180
+  },
+  {
+    id: 'phipa-recommended',
+    name: 'PHIPA Recommended',
+    description: 'Applies the PHIPA scan recommendations: year-month birth dates, FSA postal codes, masked contacts',
+    builtIn: true,
+    actions: {
+      name: 'mask', identifier: 'mask', sensitive: 'remove', birthDate: 'generalize', date: 'keep',
+      age: 'keep', street: 'mask', city: 'keep', postalCode: 'generalize', telecom: 'mask'
+    },
+    datePrecision: 'yearMonth',
+    ageBucketSize: 10,
+    maxDateShiftDays: 365
+  }
+];
+
+// Source fields by name, tested in order against the last key of a path; PHIPA-flagged fields are 'sensitive' first
+const SOURCE_FIELDS: { category: PhiCategory; pattern: RegExp }[] = [
+  { category: 'birthDate', pattern: /birth.?(date|time)|of.?birth$|^dob$|^birthday$|naissance/i },
+  { category: 'age', pattern: /^age$|^age.?(in.?)?years$|_age$/i },
+  { category: 'age', pattern: /[a-z]Age$/ },
+  { category: 'postalCode', pattern: /postal|zip|post.?code/i },
+  { category: 'telecom', pattern: /phone|mobile|tel(ephone)?$|^tel|fax|cell|e.?mail|courriel/i },
+  { category: 'street', pattern: /street|address|^(address.?)?lines?\d*$|^rue$|adresse/i },
+  // Case-sensitive so that "ethnicity" is not a city
+  { category: 'city', pattern: /^(city|City|CITY|town|Town|ville|Ville)$|_(city|CITY)$|[a-z]City$|[mM]unicipality$/ },
+  { category: 'name', pattern: /name$|^(surname|forename|given|family|prenom|prénom|nom)$/i },
+  { category: 'identifier', pattern: /(^|_)id$|[a-z]Id$|^mrn$|medical.?record|identifier|chart.?n(o|umber)$/i },
+  { category: 'date', pattern: /date|time|since|until|^start$|^end$|_at$|[a-z]At$/i }
+];
+
+// Names of organizations and systems are not personal names
+const NOT_PERSONAL_NAME = /(file|org|organi[sz]ation|facility|application|practice|clinic|company|employer|user|display)_?name$/i;
+
+// FHIR Patient elements by path without indexes
+const FHIR_FIELDS: { category: PhiCategory; pattern: RegExp }[] = [
+  { category: 'identifier', pattern: /^identifier\.value$/ },
+  { category: 'name', pattern: /^(contact\.)?name\.(text|family|given|prefix|suffix)$/ },
+  { category: 'birthDate', pattern: /^birthDate$/ },
+  { category: 'date', pattern: /^deceasedDateTime$|\.period\.(start|end)$/ },
+  { category: 'street', pattern: /^(contact\.)?address\.(line|text)$/ },
+  { category: 'city', pattern: /^(contact\.)?address\.(city|district)$/ },
+  { category: 'postalCode', pattern: /^(contact\.)?address\.postalCode$/ },
+  { category: 'telecom', pattern: /^(contact\.)?telecom\.value$/ }
+];
+
+// Identifier types the PHIPA scan treats as sensitive in source data: health cards, SIN, passport, driver's licence
+const SENSITIVE_IDENTIFIER_TYPES = ['HC', 'JHN', 'SB', 'SS', 'PPN', 'DL'];
+
+// An array element left with only these qualifiers carries no information and is dropped
+const FHIR_QUALIFIERS = ['use', 'type', 'system', 'rank', 'period', 'assigner', 'extension'];
+
+interface LeafOutcome {
+  removed?: boolean;
+  value?: any;
+  detail: string;
+}
+
+interface Run {
+  policy: DeidentificationPolicy;
+  offsetDays: number;
+  report: DeidentificationReportEntry[];
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class DeidentificationService {
+  private policy: DeidentificationPolicy = this.copy(DEIDENTIFICATION_POLICIES[0]);
+  // Makes date shifts unpredictable across sessions while keeping them stable for a patient within one
+  private readonly shiftSalt = Math.random().toString(36).slice(2);
+
+  constructor(
+    private phipaValidator: PhipaValidationService,
+    private dateNormalizer: DateNormalizerService
+  ) {}
+
+  getPolicies(): DeidentificationPolicy[] {
+    return DEIDENTIFICATION_POLICIES;
+  }
+
+  getPolicy(): DeidentificationPolicy {
+    return this.copy(this.policy);
+  }
+
+  selectPolicy(id: string): void {
+    const policy = DEIDENTIFICATION_POLICIES.find(p => p.id === id);
+    if (policy) {
+      this.policy = this.copy(policy);
+    }
+  }
+
+  /**
+   * Changes the action of one category; the policy becomes a custom policy based on the current one
+   */
+  setAction(category: PhiCategory, action: DeidentificationAction): void {
+    if (!ALLOWED_ACTIONS[category].includes(action) || this.policy.actions[category] === action) return;
+
+    const base = this.policy.builtIn ? this.policy.name : this.policy.description.replace(/^Based on /, '');
+    this.policy = {
+      ...this.copy(this.policy),
+      id: 'custom',
+      name: 'Custom',
+      description: `Based on ${base}`,
+      builtIn: false,
+      actions: { ...this.policy.actions, [category]: action }
+    };
+  }
+
+  /**
+   * Produces de-identified copies of a source record and its FHIR Patient
+   * @param source - Original record (JSON, or the flattened HL7 v2 message); CDA text is left out
+   * @param fhirPatient - Converted Patient, if the conversion succeeded
+   * @param policy - Policy to apply (defaults to the selected policy)
+   * @returns DeidentificationResult with both copies and a report of every transformed field
+   */
+  deidentify(source: any, fhirPatient?: FHIRPatient, policy: DeidentificationPolicy = this.policy): DeidentificationResult {
+    const run: Run = { policy, offsetDays: this.dateOffset(source, fhirPatient, policy), report: [] };
+    const notes: string[] = [];
+
+    let deidentifiedSource: any;
+    if (source && typeof source === 'object') {
+      deidentifiedSource = this.transformSource(source, '', '', run) ?? (Array.isArray(source) ? [] : {});
+    } else if (source !== undefined) {
+      notes.push('The source is a document rather than a record; only the FHIR Patient was de-identified');
+    }
+
+    let deidentifiedPatient: FHIRPatient | undefined;
+    if (fhirPatient) {
+      deidentifiedPatient = this.transformFhir(fhirPatient, run);
+    } else {
+      notes.push('The conversion produced no FHIR Patient; only the source record was de-identified');
+    }
+
+    if (run.report.some(entry => entry.action === 'dateShift')) {
+      notes.push(`Dates were shifted by the same undisclosed number of days (at most ${policy.maxDateShiftDays}) for this patient`);
+    }
+
+    return {
+      policyId: policy.id,
+      policyName: policy.name,
+      ...(deidentifiedSource !== undefined && { source: deidentifiedSource }),
+      ...(deidentifiedPatient && { fhirResource: deidentifiedPatient }),
+      report: run.report,
+      notes,
+      createdAt: new Date()
+    };
+  }
+
+  /**
+   * Walks the source record; returns undefined when the node was removed or left empty
+   */
+  private transformSource(node: any, key: string, path: string, run: Run): any {
+    if (Array.isArray(node)) {
+      const items = node
+        .map((item, index) => this.transformSource(item, key, `${path}[${index}]`, run))
+        .filter(item => item !== undefined);
+      return items.length > 0 || node.length === 0 ? items : undefined;
+    }
+
+    if (node && typeof node === 'object') {
+      const copy: any = {};
+      Object.keys(node).forEach(childKey => {
+        const value = this.transformSource(node[childKey], childKey, path ? `${path}.${childKey}` : childKey, run);
+        if (value !== undefined) {
+          copy[childKey] = value;
+        }
+      });
+      return Object.keys(copy).length > 0 || Object.keys(node).length === 0 ? copy : undefined;
+    }
+
+    const category = this.classifySource(key, node, path);
+    const action = category ? run.policy.actions[category] : 'keep';
+    if (!category || action === 'keep') {
+      return node;
+    }
+
+    const outcome = action === 'suppress'
+      ? { value: SUPPRESSED, detail: 'value withheld' }
+      : this.applyAction(String(node), category, action, run);
+    run.report.push({ target: 'source', path, category, action, detail: outcome.detail });
+    return outcome.removed ? undefined : outcome.value;
+  }
+
+  private classifySource(key: string, value: any, path: string): PhiCategory | null {
+    if ((typeof value !== 'string' && typeof value !== 'number') || value === '') return null;
+
+    if (this.phipaValidator.checkField(key, value, path).length > 0) {
+      return 'sensitive';
+    }
+
+    const field = SOURCE_FIELDS.find(({ category, pattern }) =>
+      pattern.test(key) && !(category === 'name' && NOT_PERSONAL_NAME.test(key))
+    );
+    if (!field) return null;
+
+    // A "date" field only counts when it holds a readable date
+    if (field.category === 'date' && !this.dateNormalizer.normalize(value).value) return null;
+    return field.category;
+  }
+
+  private transformFhir(patient: FHIRPatient, run: Run): FHIRPatient {
+    const copy: any = this.transformFhirNode(patient, '', run) || {};
+
+    // The resource id is usually the source MRN
+    if (patient.id && run.policy.actions.identifier !== 'keep') {
+      copy.id = this.randomId();
+      run.report.push({
+        target: 'fhir',
+        path: 'Patient.id',
+        category: 'identifier',
+        action: run.policy.actions.identifier,
+        detail: 'replaced with a random resource id'
+      });
+    }
+
+    return { ...copy, resourceType: 'Patient' } as FHIRPatient;
+  }
+
+  private transformFhirNode(node: any, path: string, run: Run): any {
+    if (Array.isArray(node)) {
+      const items = node
+        .map((item, index) => this.transformFhirItem(item, `${path}[${index}]`, run))
+        .filter(item => item !== undefined);
+      return items.length > 0 ? items : undefined;
+    }
+
+    const copy: any = {};
+    Object.keys(node).forEach(key => {
+      const childPath = path ? `${path}.${key}` : key;
+      const value = node[key];
+
+      if (value && typeof value === 'object') {
+        const transformed = this.transformFhirNode(value, childPath, run);
+        if (transformed !== undefined) {
+          copy[key] = transformed;
+        }
+        return;
+      }
+
+      const category = this.classifyFhir(childPath, node);
+      const action = category ? run.policy.actions[category] : 'keep';
+      if (!category || action === 'keep') {
+        copy[key] = value;
+        return;
+      }
+
+      if (action === 'suppress') {
+        // FHIR keeps a withheld primitive as a data-absent-reason on its "_" sibling
+        copy[`_${key}`] = { extension: [{ url: DATA_ABSENT_REASON, valueCode: 'masked' }] };
+        run.report.push({ target: 'fhir', path: `Patient.${childPath}`, category, action, detail: 'value withheld (data-absent-reason: masked)' });
+        return;
+      }
+
+      const outcome = this.applyAction(String(value), category, action, run);
+      run.report.push({ target: 'fhir', path: `Patient.${childPath}`, category, action, detail: outcome.detail });
+      if (!outcome.removed) {
+        copy[key] = outcome.value;
+      }
+    });
+
+    if (path.endsWith(']') && Object.keys(copy).every(key => FHIR_QUALIFIERS.includes(key))) {
+      return undefined;
+    }
+    return Object.keys(copy).length > 0 ? copy : undefined;
+  }
+
+  // Array items: objects are walked, primitives (given names, address lines) are transformed in place
+  private transformFhirItem(item: any, path: string, run: Run): any {
+    if (item && typeof item === 'object') {
+      return this.transformFhirNode(item, path, run);
+    }
+
+    const category = this.classifyFhir(path);
+    const action = category ? run.policy.actions[category] : 'keep';
+    if (!category || action === 'keep') {
+      return item;
+    }
+
+    // Withheld array items cannot carry a data-absent-reason of their own, so they are dropped
+    const outcome = action === 'suppress'
+      ? { removed: true, detail: 'value withheld (removed from the list)' }
+      : this.applyAction(String(item), category, action, run);
+    run.report.push({ target: 'fhir', path: `Patient.${path}`, category, action, detail: outcome.detail });
+    return outcome.removed ? undefined : outcome.value;
+  }
+
+  private classifyFhir(path: string, parent?: any): PhiCategory | null {
+    const bare = path.replace(/\[\d+\]/g, '');
+    const category = FHIR_FIELDS.find(field => field.pattern.test(bare))?.category || null;
+
+    // Health card and SIN identifiers follow the same action as their source fields
+    const typeCodes: string[] = parent?.type?.coding?.map((coding: any) => coding.code) || [];
+    if (category === 'identifier' && typeCodes.some(code => SENSITIVE_IDENTIFIER_TYPES.includes(code))) {
+      return 'sensitive';
+    }
+    return category;
+  }
+
+  private applyAction(value: string, category: PhiCategory, action: DeidentificationAction, run: Run): LeafOutcome {
+    switch (action) {
+      case 'mask':
+        return this.mask(value, category);
+
+      case 'generalize':
+        return this.generalize(value, category, run.policy);
+
+      case 'dateShift': {
+        const shifted = this.shiftDate(value, run.offsetDays);
+        return shifted
+          ? { value: shifted, detail: 'shifted by the patient\'s date offset' }
+          : { removed: true, detail: 'not a readable date; removed' };
+      }
+
+      default:
+        return { removed: true, detail: 'removed' };
+    }
+  }
+
+  private mask(value: string, category: PhiCategory): LeafOutcome {
+    if (category === 'telecom' && value.includes('@')) {
+      const [local, domain] = value.split('@');
+      return { value: `${local.charAt(0)}***@${domain}`, detail: 'masked all but the first character and the domain' };
+    }
+
+    if (category === 'name' || category === 'street') {
+      return {
+        value: value.replace(/[\p{L}\p{N}]+/gu, word => word.charAt(0) + '*'.repeat(word.length - 1)),
+        detail: 'masked all but the first character of each word'
+      };
+    }
+
+    // Identifiers, phone numbers and postal codes keep their last characters when long enough to stay unguessable
+    const characters = value.replace(/[^\p{L}\p{N}]/gu, '').length;
+    const visible = characters > MASK_VISIBLE * 2 ? MASK_VISIBLE : 0;
+    let seen = 0;
+    const masked = value.replace(/[\p{L}\p{N}]/gu, char => ++seen > characters - visible ? char : '*');
+    return { value: masked, detail: visible ? `masked all but the last ${visible} characters` : 'masked' };
+  }
+
+  private generalize(value: string, category: PhiCategory, policy: DeidentificationPolicy): LeafOutcome {
+    switch (category) {
+      case 'birthDate':
+      case 'date': {
+        const date = this.dateNormalizer.normalize(value).value;
+        if (!date) return { removed: true, detail: 'not a readable date; removed' };
+        const length = policy.datePrecision === 'year' ? 4 : 7;
+        return { value: date.slice(0, length), detail: `generalized to the ${policy.datePrecision === 'year' ? 'year' : 'year and month'}` };
+      }
+
+      case 'postalCode': {
+        const compact = value.replace(/\s/g, '').toUpperCase();
+        return { value: compact.slice(0, 3), detail: /^[A-Z]\d[A-Z]/.test(compact)
+          ? 'generalized to the forward sortation area (FSA)'
+          : 'generalized to the first 3 characters' };
+      }
+
+      case 'age': {
+        const age = Number(value);
+        if (!Number.isFinite(age)) return { removed: true, detail: 'not a readable age; removed' };
+        if (age >= AGE_TOP_CODE) return { value: `${AGE_TOP_CODE}+`, detail: `generalized to ${AGE_TOP_CODE}+` };
+        const low = Math.floor(age / policy.ageBucketSize) * policy.ageBucketSize;
+        return {
+          value: `${low}-${Math.min(low + policy.ageBucketSize - 1, AGE_TOP_CODE - 1)}`,
+          detail: `generalized to a ${policy.ageBucketSize}-year age band`
+        };
+      }
+
+      default:
+        return { removed: true, detail: 'removed (cannot be generalized)' };
+    }
+  }
+
+  /**
+   * Shifts a date by whole days with UTC arithmetic, keeping its precision
+   */
+  private shiftDate(value: string, offsetDays: number): string | undefined {
+    const date = this.dateNormalizer.normalize(value).value;
+    if (!date) return undefined;
+
+    const [year, month = 1, day = 1] = date.split('-').map(Number);
+    const shifted = new Date(Date.UTC(year, month - 1, day) + offsetDays * DAY_MS);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`.slice(0, date.length);
+  }
+
+  /**
+   * A stable, non-zero offset for the patient within ±maxDateShiftDays, so intervals between their dates survive
+   */
+  private dateOffset(source: any, fhirPatient: FHIRPatient | undefined, policy: DeidentificationPolicy): number {
+    const key = fhirPatient?.id
+      ?? (source && typeof source === 'object' ? source.id ?? source.patientId ?? source.mrn : undefined)
+      ?? JSON.stringify(source ?? '');
+
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (const char of `${this.shiftSalt}:${key}`) {
+      hash ^= char.charCodeAt(0);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+
+    const range = Math.max(1, policy.maxDateShiftDays);
+    const offset = (hash % (2 * range + 1)) - range;
+    return offset === 0 ? 1 : offset;
+  }
+
+  private randomId(): string {
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+      const r = Math.random() * 16 | 0;
+      return (c === 'x' ? r : (r & 0x3 | 0x8)).toString(16);
+    });
+  }
+
+  private copy(policy: DeidentificationPolicy): DeidentificationPolicy {
+    return { ...policy, actions: { ...policy.actions } };
+  }
+}
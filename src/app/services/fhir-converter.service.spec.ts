@@ -0,0 +1,229 @@
+import { TestBed } from '@angular/core/testing';
+import { FHIRPatient } from '../models/fhir.model';
+import { MappingProfile } from '../models/mapping-profile.model';
+import { CdaParserService } from './cda-parser.service';
+import { FhirConverterService } from './fhir-converter.service';
+import { Hl7v2ParserService } from './hl7v2-parser.service';
+import compliantPatient from '../../../sample-data/patient-compliant.json';
+import multipleContactPoints from '../../../sample-data/patient-multiple-contact-points.json';
+
+describe('FhirConverterService', () => {
+  let service: FhirConverterService;
+  const amelie = { firstName: 'Amélie', lastName: 'Tremblay', birthDate: '1980-04-03', gender: 'female' };
+  const luc = { firstName: 'Luc', lastName: 'Gagnon', birthDate: '1975-11-20', gender: 'male' };
+
+  beforeEach(() => {
+    localStorage.clear();
+    service = TestBed.inject(FhirConverterService);
+  });
+
+  describe('convertToFHIRBundle', () => {
+    it('wraps every record in a transaction Bundle with a POST request each', () => {
+      const result = service.convertToFHIRBundle([amelie, luc]);
+
+      expect(result.success).toBe(true);
+      expect(result.bundle).toMatchObject({ resourceType: 'Bundle', type: 'transaction' });
+      expect(result.bundle.entry?.map(entry => (entry.resource as FHIRPatient).name?.[0].family)).toEqual(['Tremblay', 'Gagnon']);
+      result.bundle.entry?.forEach(entry => {
+        expect(entry.fullUrl).toMatch(/^urn:uuid:[0-9a-f-]{36}$/);
+        expect(entry.request).toEqual({ method: 'POST', url: 'Patient' });
+      });
+      expect(result.entries[1].mappingLog).toContain(`Added to Bundle (transaction) as ${result.bundle.entry![1].fullUrl}`);
+    });
+
+    it('leaves out the requests of a collection', () => {
+      const result = service.convertToFHIRBundle([amelie], 'collection');
+
+      expect(result.bundle.type).toBe('collection');
+      expect(result.bundle.entry?.[0].request).toBeUndefined();
+    });
+
+    it('reports records that fail and bundles the others', () => {
+      const result = service.convertToFHIRBundle([amelie, 'not a record', luc]);
+
+      expect(result.success).toBe(false);
+      expect(result.entries).toHaveLength(3);
+      expect(result.bundle.entry).toHaveLength(2);
+      expect(result.errors).toEqual(['Record 2: Conversion failed: Invalid input: expected object or array of objects']);
+    });
+
+    it('fails an empty batch', () => {
+      expect(service.convertToFHIRBundle([]).errors).toEqual(['Batch contains no records']);
+    });
+  });
+
+  it('converts only the first record of an array outside batch mode', () => {
+    const result = service.convertToFHIRPatient([amelie, luc]);
+
+    expect(result.fhirResource?.name?.[0].family).toBe('Tremblay');
+    expect(result.mappingLog?.[0]).toContain('only the first was converted');
+  });
+
+  describe('mapping profiles', () => {
+    const profile: MappingProfile = {
+      id: 'clinic-emr',
+      name: 'Clinic EMR export',
+      mappings: [
+        { source: 'chartNo', target: 'id' },
+        { source: 'patient.fullName', target: 'name[0].family', transforms: [{ type: 'split', separator: ',', index: 0 }] },
+        { source: 'patient.fullName', target: 'name[0].given[]', transforms: [{ type: 'split', separator: ', ', index: 1 }] },
+        { source: ['patient.dob', 'patient.dateNaissance'], target: 'birthDate', transforms: [{ type: 'dateFormat', format: 'DD/MM/YYYY' }] },
+        { source: 'patient.sexe', target: 'gender', transforms: [{ type: 'lookup', table: { H: 'male', F: 'female' }, fallback: 'unknown' }] },
+        { source: 'residence.civic', target: 'address[0].line[]', transforms: [{ type: 'concat', sources: ['residence.street'], separator: ' ' }] },
+        { source: 'residence.country', target: 'address[0].country', transforms: [{ type: 'default', value: 'CA' }] },
+        {
+          source: 'phones',
+          target: 'telecom[]',
+          set: { system: 'phone' },
+          mappings: [{ source: 'number', target: 'value' }, { source: 'kind', target: 'use' }]
+        }
+      ]
+    };
+    const record = {
+      chartNo: 'CH-1001',
+      patient: { fullName: 'Côté, Marie', dateNaissance: '03/04/1980', sexe: 'f' },
+      residence: { civic: '12', street: 'rue Principale' },
+      phones: [{ number: '514-555-0101', kind: 'home' }, { number: '514-555-0202', kind: 'mobile' }],
+      favouriteColour: 'green'
+    };
+
+    it('applies each mapping with its transforms', () => {
+      const result = service.convertToFHIRPatient(record, profile);
+
+      expect(result.success).toBe(true);
+      expect(result.fhirResource).toMatchObject({
+        id: 'CH-1001',
+        name: [{ family: 'Côté', given: ['Marie'] }],
+        birthDate: '1980-04-03',
+        gender: 'female',
+        address: [{ line: ['12 rue Principale'], country: 'CA' }],
+        telecom: [
+          { system: 'phone', value: '514-555-0101', use: 'home' },
+          { system: 'phone', value: '514-555-0202', use: 'mobile' }
+        ]
+      });
+      expect(result.mappingLog?.[0]).toBe('Using mapping profile "Clinic EMR export" (clinic-emr)');
+    });
+  });
+
+  describe('unmapped fields', () => {
+    const record = { ...amelie, favouriteColour: 'green', visitCount: 2, legacyNumber: '130 692 544' };
+
+    it('reports the fields no mapping consumed, masking sensitive values', () => {
+      const unmapped = service.convertToFHIRPatient(record).unmappedFields!;
+
+      expect(unmapped.map(field => [field.path, field.sensitive, field.preserved])).toEqual([
+        ['favouriteColour', false, false],
+        ['visitCount', false, false],
+        ['legacyNumber', true, false]
+      ]);
+      expect(unmapped[2].value).not.toContain('692');
+    });
+
+    it('preserves the values that are not sensitive as extensions when asked to', () => {
+      service.setConversionOptions({ preserveUnmapped: true, extensionNamespace: 'https://clinic.example.org/fhir/source/' });
+      const result = service.convertToFHIRPatient(record);
+
+      expect(result.fhirResource?.extension).toEqual([
+        { url: 'https://clinic.example.org/fhir/source/favouriteColour', valueString: 'green' },
+        { url: 'https://clinic.example.org/fhir/source/visitCount', valueInteger: 2 }
+      ]);
+      expect(result.unmappedFields?.map(field => field.preserved)).toEqual([true, true, false]);
+    });
+  });
+
+  it('maps the emergency contact, preferred language and marital status', () => {
+    const patient = service.convertToFHIRPatient(compliantPatient).fhirResource!;
+
+    expect(patient.contact).toEqual([expect.objectContaining({
+      name: expect.objectContaining({ text: 'Jane Doe' }),
+      telecom: [expect.objectContaining({ system: 'phone', value: '416-555-9876' })]
+    })]);
+    expect(patient.contact?.[0].relationship?.flatMap(concept => concept.coding ?? []).map(coding => coding.code)).toContain('SPS');
+    expect(patient.communication).toEqual([{
+      language: { coding: [{ system: 'urn:ietf:bcp:47', code: 'fr' }], text: 'French' },
+      preferred: true
+    }]);
+    expect(patient.maritalStatus?.coding?.[0].code).toBe('M');
+  });
+
+  it('emits every name, address and contact point with its use, rank and period', () => {
+    const patient = service.convertToFHIRPatient(multipleContactPoints).fhirResource!;
+
+    expect(patient.name?.map(name => [name.use, name.family, name.given?.join(' ')])).toEqual([
+      ['usual', undefined, 'Mimi'],
+      ['official', 'Tremblay', 'Marie Claire'],
+      ['maiden', 'Gagnon', 'Marie']
+    ]);
+    expect(patient.name?.[2].period).toEqual({ end: '2012-06-30' });
+    expect(patient.telecom?.filter(telecom => telecom.rank === 1).map(telecom => telecom.value)).toEqual([
+      '647-555-9876',
+      'marie.tremblay@example.com'
+    ]);
+    expect(patient.telecom?.find(telecom => telecom.use === 'work' && telecom.system === 'phone')?.period).toEqual({ start: '2021-09-01' });
+    expect(patient.address?.map(address => [address.use, address.type, address.postalCode])).toEqual([
+      ['home', 'physical', 'M5J 2J2'],
+      ['home', 'postal', 'M5J 2J3'],
+      ['old', 'physical', 'H2X 3K8']
+    ]);
+  });
+
+  describe('HL7 v2 messages', () => {
+    const message = [
+      'MSH|^~\\&|REGADT|TORONTO_GEN|MEDIBRIDGE|MEDIBRIDGE|20260114093000||ADT^A04^ADT_A01|MSG00001|P|2.5.1',
+      'PID|1||MRN998877^^^TGH^MR~2233445564^^^ON^JHN||Tremblay^Marie^Claire^^Mme^^L||19870322|F|||' +
+        '200 Bay St^Suite 1200^Toronto^ON^M5J 2J2^CAN^H||^PRN^PH^^^416^5551234|||M',
+      'NK1|1|Tremblay^Jacques|SPO^Spouse||^PRN^PH^^^416^5554321||C^Emergency Contact'
+    ].join('\r');
+
+    it('maps PID and NK1 onto the Patient, with the MRN as its id', () => {
+      const result = service.convertToFHIRPatient(TestBed.inject(Hl7v2ParserService).parse(message));
+      const patient = result.fhirResource!;
+
+      expect(result.success).toBe(true);
+      expect(patient.id).toBe('MRN998877');
+      expect(patient.identifier?.map(identifier => [identifier.type?.coding?.[0].code, identifier.value])).toEqual([
+        ['MR', 'MRN998877'],
+        ['JHN', '2233445564']
+      ]);
+      expect(patient.name?.[0]).toMatchObject({ use: 'official', family: 'Tremblay', given: ['Marie', 'Claire'], prefix: ['Mme'] });
+      expect(patient).toMatchObject({ gender: 'female', birthDate: '1987-03-22' });
+      expect(patient.address?.[0]).toMatchObject({ city: 'Toronto', postalCode: 'M5J 2J2' });
+      expect(patient.contact?.[0].name?.family).toBe('Tremblay');
+      expect(result.mappingLog).toContain('Mapped PID-3[1].1 → Patient.identifier[1] (JHN)');
+    });
+
+    it('hands the flattened message on as the scanned record', () => {
+      const result = service.convertToFHIRPatient(TestBed.inject(Hl7v2ParserService).parse(message));
+      expect(result.originalData.PID.patientIdentifierList[1].healthCardNumber).toBe('2233445564');
+    });
+  });
+
+  describe('CDA documents', () => {
+    const document = `<ClinicalDocument xmlns="urn:hl7-org:v3">
+      <recordTarget><patientRole>
+        <id root="2.16.840.1.113883.19.5.99999.2" extension="MRN445566" assigningAuthorityName="Ottawa General Hospital"/>
+        <telecom value="tel:+1-613-555-7788" use="HP"/>
+        <patient>
+          <name use="L"><given>Linh</given><family>Nguyen</family></name>
+          <administrativeGenderCode code="F" codeSystem="2.16.840.1.113883.5.1"/>
+          <birthTime value="19720905"/>
+        </patient>
+      </patientRole></recordTarget>
+    </ClinicalDocument>`;
+
+    it('maps the patientRole onto the Patient, citing the XPath of each value', () => {
+      const result = service.convertToFHIRPatient(TestBed.inject(CdaParserService).parse(document));
+
+      expect(result.success).toBe(true);
+      expect(result.fhirResource).toMatchObject({
+        gender: 'female',
+        birthDate: '1972-09-05',
+        name: [{ family: 'Nguyen', given: ['Linh'] }],
+        identifier: [{ value: 'MRN445566' }]
+      });
+      expect(result.mappingLog?.some(entry => entry.includes('/ClinicalDocument/recordTarget/patientRole/patient/birthTime/@value'))).toBe(true);
+      expect(result.originalData.ClinicalDocument.recordTarget.patientRole.telecom).toEqual({ phone: '+1-613-555-7788', use: 'HP' });
+    });
+  });
+});
@@ -5,400 +5,1435 @@ import {
   FHIRContactPoint,
   FHIRAddress,
   FHIRIdentifier,
-  FHIRConversionResult
+  FHIRPatientContact,
+  FHIRCodeableConcept,
+  FHIRReference,
+  FHIRConversionResult,
+  FHIRConversionOptions,
+  FHIRExtension,
+  FHIRUnmappedField,
+  FHIRBundle,
+  FHIRBundleEntry,
+  FHIRBundleType,
+  FHIRBundleConversionResult
 } from '../models/fhir.model';
+import { HL7v2Message, HL7v2Segment } from '../models/hl7v2.model';
+import { Hl7v2ParserService } from './hl7v2-parser.service';
+import { CdaDocument, CdaName, CdaAddress } from '../models/cda.model';
+import { CdaParserService } from './cda-parser.service';
+import { FieldMapping, MappingProfile, MappingTransform } from '../models/mapping-profile.model';
+import { MappingProfileService } from './mapping-profile.service';
+import { PhipaValidationService } from './phipa-validation.service';
+import { NameParserService } from './name-parser.service';
+import { DateNormalizerService } from './date-normalizer.service';
+import { SourceDateFormat } from '../models/date.model';
+import { HealthCardValidatorService } from './health-card-validator.service';
+import { ProvinceCode } from '../models/health-card.model';
+import { PseudonymizationService } from './pseudonymization.service';
+
+const DEFAULT_EXTENSION_NAMESPACE = 'https://medibridge.example.org/fhir/StructureDefinition/source-field';
+const HEALTH_CARD_VERSION_EXTENSION = 'https://medibridge.example.org/fhir/StructureDefinition/health-card-version-code';
+const PSEUDONYMIZED_LABEL = {
+  system: 'http://terminology.hl7.org/CodeSystem/v3-ObservationValue',
+  code: 'PSEUDED',
+  display: 'pseudonymized'
+};
+
+const V2_IDENTIFIER_TYPES: Record<string, string> = {
+  MR: 'Medical Record Number',
+  JHN: 'Jurisdictional Health Number',
+  HC: 'Health Card Number',
+  PPN: 'Passport Number',
+  SS: 'Social Security Number',
+  DL: 'Driver\'s License Number',
+  PI: 'Patient Internal Identifier',
+  PT: 'Patient External Identifier',
+  AN: 'Account Number'
+};
+
+const V2_NAME_USES: Record<string, FHIRHumanName['use']> = {
+  L: 'official',
+  D: 'usual',
+  A: 'usual',
+  M: 'maiden',
+  N: 'nickname',
+  S: 'anonymous',
+  B: 'old'
+};
+
+// v2-0002 marital status → v3 MaritalStatus
+const V2_MARITAL_STATUS: Record<string, { code: string; display: string }> = {
+  S: { code: 'S', display: 'Never Married' },
+  M: { code: 'M', display: 'Married' },
+  D: { code: 'D', display: 'Divorced' },
+  W: { code: 'W', display: 'Widowed' },
+  A: { code: 'L', display: 'Legally Separated' },
+  E: { code: 'L', display: 'Legally Separated' },
+  N: { code: 'A', display: 'Annulled' },
+  I: { code: 'I', display: 'Interlocutory' },
+  P: { code: 'T', display: 'Domestic partner' },
+  R: { code: 'T', display: 'Domestic partner' },
+  C: { code: 'T', display: 'Domestic partner' },
+  G: { code: 'T', display: 'Domestic partner' },
+  B: { code: 'U', display: 'Unmarried' },
+  U: { code: 'UNK', display: 'Unknown' },
+  T: { code: 'UNK', display: 'Unknown' }
+};
+
+const INTEGER_ELEMENTS = ['rank'];
+
+// Language names and ISO 639-2 codes → BCP-47 primary language subtags
+const LANGUAGE_CODES: Record<string, string> = {
+  english: 'en', anglais: 'en', eng: 'en',
+  french: 'fr', 'français': 'fr', francais: 'fr', fre: 'fr', fra: 'fr',
+  spanish: 'es', 'español': 'es', espanol: 'es', espagnol: 'es', spa: 'es',
+  portuguese: 'pt', 'português': 'pt', por: 'pt',
+  italian: 'it', italiano: 'it', ita: 'it',
+  german: 'de', deutsch: 'de', allemand: 'de', ger: 'de', deu: 'de',
+  dutch: 'nl', dut: 'nl', nld: 'nl',
+  polish: 'pl', pol: 'pl',
+  russian: 'ru', rus: 'ru',
+  ukrainian: 'uk', ukr: 'uk',
+  greek: 'el', gre: 'el', ell: 'el',
+  arabic: 'ar', arabe: 'ar', ara: 'ar',
+  persian: 'fa', farsi: 'fa', per: 'fa', fas: 'fa',
+  urdu: 'ur', urd: 'ur',
+  hindi: 'hi', hin: 'hi',
+  punjabi: 'pa', panjabi: 'pa', pan: 'pa',
+  gujarati: 'gu', guj: 'gu',
+  tamil: 'ta', tam: 'ta',
+  bengali: 'bn', ben: 'bn',
+  chinese: 'zh', mandarin: 'zh', chi: 'zh', zho: 'zh',
+  cantonese: 'yue',
+  vietnamese: 'vi', vie: 'vi',
+  korean: 'ko', kor: 'ko',
+  japanese: 'ja', jpn: 'ja',
+  tagalog: 'tl', tgl: 'tl', filipino: 'fil',
+  somali: 'so', som: 'so',
+  inuktitut: 'iu', iku: 'iu',
+  cree: 'cr', cre: 'cr',
+  ojibwe: 'oj', ojibwa: 'oj', oji: 'oj',
+  'american sign language': 'ase', asl: 'ase'
+};
 
 @Injectable({
   providedIn: 'root'
 })
 export class FhirConverterService {
-  constructor() {}
+  private options: FHIRConversionOptions = {
+    preserveUnmapped: false,
+    extensionNamespace: DEFAULT_EXTENSION_NAMESPACE,
+    sourceDateFormat: 'auto',
+    pseudonymizeIdentifiers: false
+  };
+
+  constructor(
+    private hl7Parser: Hl7v2ParserService,
+    private cdaParser: CdaParserService,
+    private mappingProfiles: MappingProfileService,
+    private phipaValidator: PhipaValidationService,
+    private nameParser: NameParserService,
+    private dateNormalizer: DateNormalizerService,
+    private healthCards: HealthCardValidatorService,
+    private pseudonyms: PseudonymizationService
+  ) {}
+
+  getConversionOptions(): FHIRConversionOptions {
+    return { ...this.options };
+  }
+
+  setConversionOptions(options: Partial<FHIRConversionOptions>): void {
+    this.options = { ...this.options, ...options };
+    if (!this.options.extensionNamespace.trim()) {
+      this.options.extensionNamespace = DEFAULT_EXTENSION_NAMESPACE;
+    }
+  }
 
   /**
    * Converts generic JSON patient data to FHIR R4 Patient resource
    * @param data - Generic patient data in JSON format
+   * @param profile - Field mapping profile for generic records (defaults to the active profile)
    * @returns FHIRConversionResult with the FHIR Patient resource
    */
-  convertToFHIRPatient(data: any): FHIRConversionResult {
+  convertToFHIRPatient(data: any, profile?: MappingProfile): FHIRConversionResult {
     const mappingLog: string[] = [];
     const errors: string[] = [];
 
     try {
-      // Handle array input (take first item if array)
+      // Handle array input (take first item if array, use convertToFHIRBundle for batches)
       let patientData = Array.isArray(data) ? data[0] : data;
+      if (Array.isArray(data) && data.length > 1) {
+        mappingLog.push(`⚠ Input contains ${data.length} records; only the first was converted (use batch mode to convert all)`);
+      }
 
       if (!patientData || typeof patientData !== 'object') {
         throw new Error('Invalid input: expected object or array of objects');
       }
 
-      const fhirPatient: FHIRPatient = {
-        resourceType: 'Patient',
-        id: this.extractId(patientData, mappingLog),
-        meta: {
-          lastUpdated: new Date().toISOString(),
-          profile: ['http://hl7.org/fhir/StructureDefinition/Patient']
-        }
-      };
-
-      // Extract and map name
-      const name = this.extractName(patientData, mappingLog);
-      if (name) {
-        fhirPatient.name = [name];
+      if (this.hl7Parser.isMessage(patientData)) {
+        const hl7Patient = this.convertHL7v2Message(patientData, mappingLog);
+        return this.completeConversion(hl7Patient, this.hl7Parser.toRecord(patientData), 'HL7 v2 message', mappingLog);
       }
 
-      // Extract and map identifiers
-      const identifiers = this.extractIdentifiers(patientData, mappingLog);
-      if (identifiers.length > 0) {
-        fhirPatient.identifier = identifiers;
+      if (this.cdaParser.isDocument(patientData)) {
+        const cdaPatient = this.convertCdaDocument(patientData, mappingLog);
+        return this.completeConversion(cdaPatient, this.cdaParser.toRecord(patientData), 'CDA document', mappingLog);
       }
 
-      // Extract gender
-      const gender = this.extractGender(patientData, mappingLog);
-      if (gender) {
-        fhirPatient.gender = gender;
-      }
+      const unmappedFields: FHIRUnmappedField[] = [];
+      const fhirPatient = this.applyMappingProfile(
+        patientData,
+        profile || this.mappingProfiles.getActiveProfile(),
+        mappingLog,
+        unmappedFields
+      );
 
-      // Extract birth date
-      const birthDate = this.extractBirthDate(patientData, mappingLog);
-      if (birthDate) {
-        fhirPatient.birthDate = birthDate;
-      }
+      return { ...this.completeConversion(fhirPatient, patientData, '', mappingLog), unmappedFields };
+    } catch (error) {
+      errors.push(`Conversion failed: ${(error as Error).message}`);
+      return {
+        success: false,
+        originalData: data,
+        mappingLog,
+        errors
+      };
+    }
+  }
+
+  /**
+   * Converts every record of a batch into its own FHIR Patient and wraps them in an R4 Bundle
+   * @param records - Array of generic patient data objects
+   * @param bundleType - 'transaction' (with POST requests) or 'collection'
+   * @param profile - Field mapping profile for generic records (defaults to the active profile)
+   * @returns FHIRBundleConversionResult with the Bundle and one conversion result per record
+   */
+  convertToFHIRBundle(
+    records: any[],
+    bundleType: FHIRBundleType = 'transaction',
+    profile?: MappingProfile
+  ): FHIRBundleConversionResult {
+    const errors: string[] = [];
+    const entries: FHIRConversionResult[] = records.map(record => this.convertToFHIRPatient(record, profile));
 
-      // Extract contact info (phone, email)
-      const telecom = this.extractTelecom(patientData, mappingLog);
-      if (telecom.length > 0) {
-        fhirPatient.telecom = telecom;
+    const bundleEntries: FHIRBundleEntry[] = [];
+    entries.forEach((entry, index) => {
+      if (!entry.success || !entry.fhirResource) {
+        errors.push(`Record ${index + 1}: ${(entry.errors || []).join('; ') || 'Conversion failed'}`);
+        return;
       }
 
-      // Extract address
-      const address = this.extractAddress(patientData, mappingLog);
-      if (address.length > 0) {
-        fhirPatient.address = address;
+      const bundleEntry: FHIRBundleEntry = {
+        fullUrl: `urn:uuid:${this.generateUUID()}`,
+        resource: entry.fhirResource
+      };
+
+      if (bundleType === 'transaction') {
+        bundleEntry.request = {
+          method: 'POST',
+          url: 'Patient'
+        };
       }
 
-      // Extract active status
-      const active = this.extractActive(patientData, mappingLog);
-      if (active !== undefined) {
-        fhirPatient.active = active;
+      bundleEntries.push(bundleEntry);
+      entry.mappingLog?.push(`Added to Bundle (${bundleType}) as ${bundleEntry.fullUrl}`);
+    });
+
+    const timestamp = new Date().toISOString();
+    const bundle: FHIRBundle = {
+      resourceType: 'Bundle',
+      id: this.generateUUID(),
+      meta: {
+        lastUpdated: timestamp
+      },
+      type: bundleType,
+      timestamp,
+      entry: bundleEntries
+    };
+
+    if (records.length === 0) {
+      errors.push('Batch contains no records');
+    }
+
+    return {
+      success: errors.length === 0,
+      bundle,
+      entries,
+      errors
+    };
+  }
+
+  /**
+   * Replaces the MRN, health card and SIN identifiers of a converted Patient with keyed pseudonyms when
+   * the pseudonymizeIdentifiers option is on. Each kind gets its own pseudonym system URI, and a
+   * resource id taken from a pseudonymized value becomes its token. Runs after conversion, as
+   * WebCrypto is asynchronous.
+   * @throws Error if the option is on and the pseudonym vault is locked
+   */
+  async pseudonymizeIdentifiers(conversion: FHIRConversionResult): Promise<void> {
+    const fhirPatient = conversion.fhirResource;
+    if (!this.options.pseudonymizeIdentifiers || !conversion.success || !fhirPatient?.identifier) return;
+    if (!this.pseudonyms.isUnlocked()) {
+      throw new Error('Unlock the pseudonym vault or turn identifier pseudonymization off');
+    }
+
+    const log = conversion.mappingLog ?? [];
+    let pseudonymized = 0;
+    for (const [index, identifier] of fhirPatient.identifier.entries()) {
+      const kind = identifier.type?.coding?.map(coding => this.pseudonyms.kindOf(coding.code)).find(Boolean);
+      if (!kind || !identifier.value) continue;
+
+      const original = identifier.value;
+      const pseudonym = await this.pseudonyms.pseudonymize(kind, original, identifier.system);
+      identifier.value = pseudonym.token;
+      identifier.system = pseudonym.system;
+      // The assigner and version code belong to the real card
+      delete identifier.assigner;
+      delete identifier.extension;
+      log.push(`Pseudonymized Patient.identifier[${index}] (${kind}) → ${pseudonym.system}`);
+
+      if (fhirPatient.id === original) {
+        fhirPatient.id = pseudonym.token;
+        log.push(`Pseudonymized Patient.id (${kind})`);
       }
+      pseudonymized++;
+    }
 
-      mappingLog.push('✓ Successfully converted to FHIR R4 Patient resource');
+    if (pseudonymized > 0) {
+      fhirPatient.meta = { ...fhirPatient.meta, security: [...(fhirPatient.meta?.security || []), { ...PSEUDONYMIZED_LABEL }] };
+    }
+  }
 
-      return {
-        success: true,
-        fhirResource: fhirPatient,
-        originalData: patientData,
-        mappingLog,
-        errors
-      };
-    } catch (error) {
-      errors.push(`Conversion failed: ${(error as Error).message}`);
+  /**
+   * Settles the health card identifiers of a converted Patient and validates it; a Patient that fails
+   * validation (e.g. a health card number with a wrong check digit) fails the conversion
+   */
+  private completeConversion(
+    fhirPatient: FHIRPatient,
+    originalData: any,
+    sourceLabel: string,
+    mappingLog: string[]
+  ): FHIRConversionResult {
+    this.assignHealthCardSystems(fhirPatient, mappingLog);
+
+    const validation = this.validateFHIRPatient(fhirPatient);
+    if (!validation.valid) {
+      mappingLog.push(`✗ FHIR Patient failed validation with ${validation.errors.length} error(s)`);
       return {
         success: false,
-        originalData: data,
+        originalData,
         mappingLog,
-        errors
+        errors: validation.errors,
+        warnings: this.collectWarnings(mappingLog)
       };
     }
+
+    mappingLog.push(`✓ Successfully converted ${sourceLabel ? `${sourceLabel} ` : ''}to FHIR R4 Patient resource`);
+    return {
+      success: true,
+      fhirResource: fhirPatient,
+      originalData,
+      mappingLog,
+      errors: [],
+      warnings: this.collectWarnings(mappingLog)
+    };
   }
 
-  private extractId(data: any, log: string[]): string {
-    const possibleFields = ['id', 'patientId', 'patient_id', 'mrn', 'medicalRecordNumber'];
+  /**
+   * Gives each valid health card identifier the system URI and assigner of its issuing province. The
+   * province comes from the identifier's assigner or system, else from the patient's home address.
+   */
+  private assignHealthCardSystems(fhirPatient: FHIRPatient, log: string[]): void {
+    fhirPatient.identifier?.forEach((identifier, index) => {
+      if (!this.isHealthCard(identifier) || !identifier.value) return;
+
+      const check = this.healthCards.validate(identifier.value, this.healthCardProvince(identifier, fhirPatient));
+      const label = `Patient.identifier[${index}]`;
+
+      if (check.status === 'unknown-province') {
+        log.push(
+          `⚠ ${label}: health card number fits the ${check.candidates.join(', ')} formats; ` +
+          'add the home province or map the issuer to identifier.assigner.display to validate it'
+        );
+        return;
+      }
+      if (check.status === 'invalid') {
+        log.push(`⚠ ${label}: health card number ${check.problem}`);
+        return;
+      }
 
-    for (const field of possibleFields) {
-      if (data[field]) {
-        log.push(`Mapped ${field} → Patient.id`);
-        return String(data[field]);
+      const jurisdiction = check.jurisdiction!;
+      identifier.value = check.number;
+      identifier.system = jurisdiction.system;
+      identifier.assigner = { display: jurisdiction.assigner };
+      if (check.versionCode) {
+        identifier.extension = [{ url: HEALTH_CARD_VERSION_EXTENSION, valueString: check.versionCode }];
       }
-    }
+      log.push(`Validated ${label} as ${jurisdiction.name} ${jurisdiction.cardName}${check.versionCode ? ` (version code ${check.versionCode})` : ''}`);
+    });
+  }
 
-    // Generate UUID if no ID found
-    const generatedId = this.generateUUID();
-    log.push(`Generated UUID for Patient.id: ${generatedId}`);
-    return generatedId;
+  private isHealthCard(identifier: FHIRIdentifier): boolean {
+    return identifier.type?.coding?.some(coding => coding.code === 'HC' || coding.code === 'JHN') ?? false;
   }
 
-  private extractName(data: any, log: string[]): FHIRHumanName | null {
-    const name: FHIRHumanName = {
-      use: 'official'
+  private healthCardProvince(identifier: FHIRIdentifier, fhirPatient: FHIRPatient): ProvinceCode | undefined {
+    const address = fhirPatient.address?.find(a => a.use === 'home') || fhirPatient.address?.[0];
+    return this.healthCards.resolveProvince(identifier.assigner?.display)
+      || this.healthCards.resolveProvince(identifier.system)
+      || this.healthCards.resolveProvince(address?.state);
+  }
+
+  private collectWarnings(log: string[]): string[] {
+    return log.filter(entry => entry.startsWith('⚠')).map(entry => entry.replace(/^⚠\s*/, ''));
+  }
+
+  /**
+   * Maps a generic record onto a FHIR Patient by applying each field mapping of a profile in order.
+   * Targets that already hold a value are left alone, so earlier mappings take precedence over later
+   * fallbacks; "[]" targets always append. Source fields no mapping consumed are added to unmappedFields.
+   */
+  private applyMappingProfile(
+    data: any,
+    profile: MappingProfile,
+    log: string[],
+    unmappedFields: FHIRUnmappedField[]
+  ): FHIRPatient {
+    log.push(`Using mapping profile "${profile.name}" (${profile.id})`);
+
+    const mapped: any = {};
+    const consumed = new Set<string>();
+    profile.mappings.forEach(mapping => this.applyFieldMapping(data, mapping, mapped, consumed, log));
+    this.compactArrays(mapped);
+
+    unmappedFields.push(...this.findUnmappedFields(data, consumed));
+    const extensions = this.preserveUnmappedFields(data, unmappedFields, log);
+
+    const { id, ...elements } = mapped;
+    const fhirPatient: FHIRPatient = {
+      resourceType: 'Patient',
+      id: id || this.generateUUID(),
+      meta: {
+        lastUpdated: new Date().toISOString(),
+        profile: ['http://hl7.org/fhir/StructureDefinition/Patient']
+      },
+      ...(extensions.length > 0 ? { extension: extensions } : {}),
+      ...elements
     };
 
-    // Check for structured name fields
-    if (data.firstName || data.first_name || data.given) {
-      const givenName = data.firstName || data.first_name || data.given;
-      name.given = Array.isArray(givenName) ? givenName : [givenName];
-      log.push(`Mapped firstName/first_name/given → Patient.name.given`);
+    if (!id) {
+      log.push(`Generated UUID for Patient.id: ${fhirPatient.id}`);
+    }
+    if (!fhirPatient.name) {
+      log.push(`⚠ No name data found in input`);
     }
 
-    if (data.lastName || data.last_name || data.family) {
-      name.family = data.lastName || data.last_name || data.family;
-      log.push(`Mapped lastName/last_name/family → Patient.name.family`);
+    return fhirPatient;
+  }
+
+  private applyFieldMapping(
+    data: any,
+    mapping: FieldMapping,
+    patient: any,
+    consumed: Set<string>,
+    log: string[],
+    targetLabel = 'Patient'
+  ): void {
+    if (mapping.mappings) {
+      this.applyElementMapping(data, mapping, patient, consumed, log);
+      return;
     }
 
-    if (data.middleName || data.middle_name) {
-      const middleName = data.middleName || data.middle_name;
-      name.given = name.given || [];
-      name.given.push(middleName);
-      log.push(`Mapped middleName/middle_name → Patient.name.given`);
+    const sources = ([] as string[]).concat(mapping.source ?? []);
+    const source = sources.find(path => !this.isEmpty(this.readPath(data, path)));
+    const label = source || 'default value';
+
+    let value = source ? this.readPath(data, source) : undefined;
+    for (const transform of mapping.transforms || []) {
+      value = this.applyTransform(value, transform, data, label, log);
     }
 
-    if (data.prefix) {
-      name.prefix = Array.isArray(data.prefix) ? data.prefix : [data.prefix];
-      log.push(`Mapped prefix → Patient.name.prefix`);
+    if (this.isEmpty(value)) {
+      return;
+    }
+    if (typeof value === 'object' && !Array.isArray(value)) {
+      log.push(`⚠ ${label} is an object; map its fields with nested paths such as ${label}.${Object.keys(value)[0] || 'field'}`);
+      return;
     }
+    if (Array.isArray(value) && value.some(item => item !== null && typeof item === 'object')) {
+      // Arrays of objects are left to element mappings
+      return;
+    }
+
+    if (!mapping.target.endsWith('[]') && !this.isEmpty(this.readPath(patient, mapping.target))) {
+      return;
+    }
+    Object.entries(mapping.set || {}).forEach(([path, fixed]) => this.writePath(patient, path, fixed));
+    this.writePath(patient, mapping.target, value);
 
-    if (data.suffix) {
-      name.suffix = Array.isArray(data.suffix) ? data.suffix : [data.suffix];
-      log.push(`Mapped suffix → Patient.name.suffix`);
+    if (source) {
+      consumed.add(source);
     }
+    (mapping.transforms || []).forEach(transform => {
+      if (transform.type === 'concat') {
+        transform.sources.filter(path => !this.isEmpty(this.readPath(data, path))).forEach(path => consumed.add(path));
+      }
+    });
+
+    const applied = (mapping.transforms || []).map(transform => transform.type);
+    const target = mapping.target.replace(/\[\d*\]/g, '');
+    log.push(`Mapped ${label} → ${targetLabel}.${target}${applied.length ? ` (${applied.join(', ')})` : ''}`);
 
-    // Check for full name field
-    if (data.name || data.fullName || data.full_name) {
-      const fullName = data.name || data.fullName || data.full_name;
-      const parts = fullName.split(' ');
-      if (parts.length > 1) {
-        name.given = [parts[0]];
-        name.family = parts[parts.length - 1];
-        if (parts.length > 2) {
-          name.given.push(...parts.slice(1, -1));
+    if (targetLabel === 'Patient' && target === 'birthDate' && typeof value === 'string') {
+      this.checkBirthDate(value, label, log);
+    }
+  }
+
+  /**
+   * Maps each element of a source array with the nested mappings and appends the results to the target,
+   * e.g. phones[1].number → telecom[n].value
+   */
+  private applyElementMapping(data: any, mapping: FieldMapping, patient: any, consumed: Set<string>, log: string[]): void {
+    const sources = ([] as string[]).concat(mapping.source ?? []);
+    const source = sources.find(path => {
+      const value = this.readPath(data, path);
+      return Array.isArray(value) && value.some(item => item !== null && typeof item === 'object');
+    });
+    if (!source) return;
+
+    const targetLabel = `Patient.${mapping.target.replace(/\[\d*\]/g, '')}`;
+    (this.readPath(data, source) as any[]).forEach((element, index) => {
+      if (element === null || typeof element !== 'object') return;
+
+      const elementPath = `${source}[${index}]`;
+      const item: any = {};
+      mapping.mappings!.forEach(nested =>
+        this.applyFieldMapping(data, this.scopeMapping(nested, elementPath), item, consumed, log, targetLabel)
+      );
+      if (Object.keys(item).length === 0) return;
+
+      Object.entries(mapping.set || {}).forEach(([path, fixed]) => this.writePath(item, path, fixed));
+      this.compactArrays(item);
+      this.writePath(patient, mapping.target, item);
+    });
+  }
+
+  // Rewrites the source paths of a nested mapping relative to an array element
+  private scopeMapping(mapping: FieldMapping, elementPath: string): FieldMapping {
+    const scope = (path: string) => `${elementPath}.${path}`;
+    return {
+      ...mapping,
+      source: ([] as string[]).concat(mapping.source ?? []).map(scope),
+      transforms: mapping.transforms?.map(transform =>
+        transform.type === 'concat' ? { ...transform, sources: transform.sources.map(scope) } : transform
+      )
+    };
+  }
+
+  /**
+   * Lists every leaf value of the record that is not covered by a consumed source path
+   */
+  private findUnmappedFields(data: any, consumed: Set<string>): FHIRUnmappedField[] {
+    const covered = (path: string) => Array.from(consumed).some(source =>
+      path === source || path.startsWith(`${source}.`) || path.startsWith(`${source}[`)
+    );
+
+    return this.flattenRecord(data)
+      .filter(([path]) => !covered(path))
+      .map(([path, value]) => {
+        // A field is sensitive when its own name, a parent's name or its value trips a PHIPA rule
+        const names = path.split(/[.[\]]/).filter(name => name && isNaN(Number(name)));
+        const violation = names
+          .map(name => this.phipaValidator.checkField(name, value, path)[0])
+          .find(Boolean);
+
+        return {
+          path,
+          value: violation ? violation.value || '[REDACTED]' : String(value),
+          sensitive: !!violation,
+          sensitiveType: violation?.violationType,
+          preserved: false
+        };
+      });
+  }
+
+  /**
+   * Carries non-sensitive unmapped values into Patient.extension when the option is enabled
+   */
+  private preserveUnmappedFields(data: any, unmappedFields: FHIRUnmappedField[], log: string[]): FHIRExtension[] {
+    const extensions: FHIRExtension[] = [];
+
+    unmappedFields.forEach(field => {
+      if (!this.options.preserveUnmapped || field.sensitive) return;
+
+      const value = this.readPath(data, field.path);
+      const extension: FHIRExtension = {
+        url: `${this.options.extensionNamespace.replace(/\/+$/, '')}/${field.path.replace(/\[(\d+)\]/g, '.$1')}`
+      };
+      if (typeof value === 'boolean') {
+        extension.valueBoolean = value;
+      } else if (typeof value === 'number') {
+        if (Number.isInteger(value)) {
+          extension.valueInteger = value;
+        } else {
+          extension.valueDecimal = value;
         }
-        log.push(`Parsed fullName → Patient.name (given + family)`);
       } else {
-        name.text = fullName;
-        log.push(`Mapped fullName → Patient.name.text`);
+        extension.valueString = String(value);
       }
+
+      field.preserved = true;
+      extensions.push(extension);
+      log.push(`Preserved ${field.path} → Patient.extension`);
+    });
+
+    if (unmappedFields.length > 0) {
+      const sensitive = unmappedFields.filter(field => field.sensitive).length;
+      const dropped = unmappedFields.filter(field => !field.preserved).length;
+      log.push(
+        `⚠ ${unmappedFields.length} source field(s) not mapped` +
+        (sensitive > 0 ? `, ${sensitive} sensitive` : '') +
+        (dropped > 0 ? `; ${dropped} dropped from the output` : '')
+      );
     }
 
-    // Return null if no name data found
-    if (!name.given && !name.family && !name.text) {
-      log.push(`⚠ No name data found in input`);
-      return null;
+    return extensions;
+  }
+
+  // { a: { b: [1, 2] } } → [['a.b[0]', 1], ['a.b[1]', 2]]
+  private flattenRecord(node: any, prefix = ''): [string, any][] {
+    if (node === undefined || node === null || (typeof node === 'string' && node.trim() === '')) {
+      return [];
+    }
+    if (Array.isArray(node)) {
+      return node.flatMap((item, index) => this.flattenRecord(item, `${prefix}[${index}]`));
+    }
+    if (typeof node === 'object') {
+      return Object.keys(node).flatMap(key => this.flattenRecord(node[key], prefix ? `${prefix}.${key}` : key));
+    }
+    return [[prefix, node]];
+  }
+
+  private applyTransform(value: any, transform: MappingTransform, data: any, label: string, log: string[]): any {
+    switch (transform.type) {
+      case 'split': {
+        if (typeof value !== 'string') return value;
+        const parts = value.split(transform.separator).map(part => part.trim()).filter(Boolean);
+        if (transform.index !== undefined) {
+          return parts[transform.index < 0 ? parts.length + transform.index : transform.index];
+        }
+        if (transform.start !== undefined || transform.end !== undefined) {
+          return parts.slice(transform.start ?? 0, transform.end);
+        }
+        return parts;
+      }
+
+      case 'concat': {
+        const parts = [value, ...transform.sources.map(path => this.readPath(data, path))]
+          .filter(part => !this.isEmpty(part))
+          .map(part => String(part).trim());
+        return parts.length > 0 ? parts.join(transform.separator ?? ' ') : undefined;
+      }
+
+      case 'lookup': {
+        const lookup = (item: any) => {
+          if (this.isEmpty(item)) return item;
+          const key = String(item).trim().toLowerCase();
+          const match = Object.keys(transform.table).find(k => k.trim().toLowerCase() === key);
+          if (match !== undefined) return transform.table[match];
+          return 'fallback' in transform ? transform.fallback : item;
+        };
+        return Array.isArray(value) ? value.map(lookup) : lookup(value);
+      }
+
+      case 'dateFormat': {
+        if (this.isEmpty(value)) return value;
+        const format = transform.format === 'auto' ? this.options.sourceDateFormat : transform.format;
+        return this.normalizeDate(value, format, label, log);
+      }
+
+      case 'default':
+        return this.isEmpty(value) ? transform.value : value;
+
+      case 'parseName': {
+        if (typeof value !== 'string') return value;
+        const parsed = this.nameParser.parse(value);
+        // Each part of the same name is parsed by its own mapping; report its guesses once
+        parsed.warnings
+          .map(warning => `⚠ ${label}: ${warning}`)
+          .filter(warning => !log.includes(warning))
+          .forEach(warning => log.push(warning));
+        return parsed[transform.part];
+      }
+
+      case 'language': {
+        if (this.isEmpty(value)) return value;
+        const tag = this.toBcp47(value);
+        if (!tag) {
+          log.push(`⚠ ${label} value "${value}" is not a recognised language; skipped`);
+        }
+        return tag;
+      }
+    }
+  }
+
+  /**
+   * Normalizes a language name, ISO 639 code or language tag to BCP-47, e.g. "French" → "fr", "fr_ca" → "fr-CA"
+   */
+  private toBcp47(value: any): string | undefined {
+    const text = String(value).trim().toLowerCase();
+    if (Object.hasOwn(LANGUAGE_CODES, text)) {
+      return LANGUAGE_CODES[text];
     }
 
-    return name;
+    const match = text.replace(/_/g, '-').match(/^([a-z]{2,3})(?:-([a-z]{4}))?(?:-([a-z]{2}|\d{3}))?$/);
+    if (!match) return undefined;
+
+    const [, language, script, region] = match;
+    return [
+      LANGUAGE_CODES[language] || language,
+      script && script[0].toUpperCase() + script.slice(1),
+      region?.toUpperCase()
+    ].filter(Boolean).join('-');
   }
 
-  private extractIdentifiers(data: any, log: string[]): FHIRIdentifier[] {
-    const identifiers: FHIRIdentifier[] = [];
+  /**
+   * Reads a dotted source path with optional array indexes, e.g. "contacts[0].phone"
+   */
+  private readPath(data: any, path: string): any {
+    if (data && typeof data === 'object' && path in data) {
+      return data[path];
+    }
+    return this.parsePath(path).reduce(
+      (node, segment) => (node === undefined || node === null ? undefined : node[segment]),
+      data
+    );
+  }
 
-    // Medical Record Number
-    if (data.mrn || data.medicalRecordNumber || data.medical_record_number) {
-      identifiers.push({
-        use: 'official',
-        type: {
-          coding: [{
-            system: 'http://terminology.hl7.org/CodeSystem/v2-0203',
-            code: 'MR',
-            display: 'Medical Record Number'
-          }]
-        },
-        value: String(data.mrn || data.medicalRecordNumber || data.medical_record_number)
-      });
-      log.push(`Mapped mrn → Patient.identifier (MR)`);
-    }
-
-    // Health Card
-    if (data.healthCard || data.health_card || data.ohip) {
-      identifiers.push({
-        use: 'official',
-        type: {
-          coding: [{
-            system: 'http://terminology.hl7.org/CodeSystem/v2-0203',
-            code: 'HC',
-            display: 'Health Card Number'
-          }]
-        },
-        system: 'urn:oid:2.16.840.1.113883.4.56', // Canadian health card
-        value: String(data.healthCard || data.health_card || data.ohip)
-      });
-      log.push(`Mapped healthCard → Patient.identifier (HC)`);
-    }
-
-    // Passport
-    if (data.passport || data.passportNumber) {
-      identifiers.push({
-        use: 'official',
-        type: {
-          coding: [{
-            system: 'http://terminology.hl7.org/CodeSystem/v2-0203',
-            code: 'PPN',
-            display: 'Passport Number'
-          }]
-        },
-        value: String(data.passport || data.passportNumber)
-      });
-      log.push(`Mapped passport → Patient.identifier (PPN)`);
+  /**
+   * Writes a value at a target path, creating intermediate objects and arrays;
+   * non-append targets that already hold a value are kept
+   */
+  private writePath(target: any, path: string, value: any): void {
+    const append = path.endsWith('[]');
+    const segments = this.parsePath(append ? path.slice(0, -2) : path);
+    const last = segments[segments.length - 1];
+    // FHIR Patient's only numeric elements are integers such as ContactPoint.rank; other numeric
+    // feeder values (e.g. MRNs) become strings
+    const normalize = INTEGER_ELEMENTS.includes(String(last))
+      ? (item: any) => (typeof item === 'string' && /^\d+$/.test(item.trim()) ? Number(item) : item)
+      : (item: any) => (typeof item === 'number' ? String(item) : item);
+
+    let node = target;
+    for (let i = 0; i < segments.length - 1; i++) {
+      const segment = segments[i];
+      if (node[segment] === null || typeof node[segment] !== 'object') {
+        node[segment] = typeof segments[i + 1] === 'number' ? [] : {};
+      }
+      node = node[segment];
     }
 
-    return identifiers;
+    if (append) {
+      if (!Array.isArray(node[last])) {
+        node[last] = this.isEmpty(node[last]) ? [] : [node[last]];
+      }
+      node[last].push(...([] as any[]).concat(value).filter(item => !this.isEmpty(item)).map(normalize));
+    } else if (this.isEmpty(node[last])) {
+      node[last] = Array.isArray(value) ? value.map(normalize) : normalize(value);
+    }
   }
 
-  private extractGender(data: any, log: string[]): 'male' | 'female' | 'other' | 'unknown' | undefined {
-    const genderField = data.gender || data.sex;
+  // "contacts[0].phone" → ['contacts', 0, 'phone']
+  private parsePath(path: string): (string | number)[] {
+    const segments: (string | number)[] = [];
+    path.split('.').forEach(part => {
+      const match = part.match(/^([^[\]]*)((?:\[\d+\])*)$/);
+      if (!match) {
+        segments.push(part);
+        return;
+      }
+      if (match[1]) {
+        segments.push(match[1]);
+      }
+      (match[2].match(/\d+/g) || []).forEach(index => segments.push(Number(index)));
+    });
+    return segments;
+  }
 
-    if (!genderField) {
-      return undefined;
+  /**
+   * Removes the holes left by fixed array indexes whose mappings did not apply
+   */
+  private compactArrays(node: any): void {
+    if (!node || typeof node !== 'object') return;
+    Object.keys(node).forEach(key => {
+      if (Array.isArray(node[key])) {
+        node[key] = node[key].filter((item: any) => item !== undefined && item !== null);
+      }
+      this.compactArrays(node[key]);
+    });
+  }
+
+  private isEmpty(value: any): boolean {
+    return value === undefined ||
+      value === null ||
+      (typeof value === 'string' && value.trim() === '') ||
+      (Array.isArray(value) && value.every(item => this.isEmpty(item)));
+  }
+
+  /**
+   * Maps the PID, PD1 and NK1 segments of an HL7 v2 ADT message onto a FHIR Patient
+   */
+  private convertHL7v2Message(message: HL7v2Message, log: string[]): FHIRPatient {
+    const pid = this.hl7Parser.getSegment(message, 'PID');
+    if (!pid) {
+      throw new Error('HL7 v2 message has no PID segment');
+    }
+
+    const event = [message.messageType, message.triggerEvent].filter(Boolean).join('^');
+    log.push(`Parsed HL7 v2${message.version ? '.' + message.version.replace(/^2\./, '') : ''} ${event || 'message'}` +
+      (message.controlId ? ` (control ID ${message.controlId})` : ''));
+    if (message.messageType && message.messageType !== 'ADT') {
+      log.push(`⚠ Expected an ADT message but received ${event}`);
     }
 
-    const genderStr = String(genderField).toLowerCase();
+    const identifiers = this.extractHL7Identifiers(pid, log);
 
-    if (genderStr.includes('male') && !genderStr.includes('female')) {
-      log.push(`Mapped gender → Patient.gender (male)`);
-      return 'male';
+    const fhirPatient: FHIRPatient = {
+      resourceType: 'Patient',
+      id: this.extractHL7Id(identifiers, log),
+      meta: {
+        lastUpdated: new Date().toISOString(),
+        profile: ['http://hl7.org/fhir/StructureDefinition/Patient']
+      }
+    };
+
+    if (identifiers.length > 0) {
+      fhirPatient.identifier = identifiers;
+    }
+
+    const names = this.hl7Parser.getRepetitions(pid, 5)
+      .map(rep => this.mapXPN(rep, 'PID-5', log))
+      .filter((name): name is FHIRHumanName => name !== null);
+    if (names.length > 0) {
+      fhirPatient.name = names;
+    } else {
+      log.push(`⚠ No name data found in PID-5`);
     }
-    if (genderStr.includes('female')) {
-      log.push(`Mapped gender → Patient.gender (female)`);
-      return 'female';
+
+    const gender = this.mapHL7Gender(this.hl7Parser.getValue(pid, 8));
+    if (gender) {
+      fhirPatient.gender = gender;
+      log.push(`Mapped PID-8 → Patient.gender (${gender})`);
     }
-    if (genderStr.includes('other') || genderStr.includes('non-binary')) {
-      log.push(`Mapped gender → Patient.gender (other)`);
-      return 'other';
+
+    const birthDate = this.normalizeDate(this.hl7Parser.getValue(pid, 7), 'HL7', 'PID-7', log);
+    if (birthDate) {
+      fhirPatient.birthDate = birthDate;
+      log.push(`Mapped PID-7 → Patient.birthDate`);
+      this.checkBirthDate(birthDate, 'PID-7', log);
     }
 
-    log.push(`Mapped gender → Patient.gender (unknown)`);
-    return 'unknown';
+    const telecom = [
+      ...this.hl7Parser.getRepetitions(pid, 13).map(rep => this.mapXTN(rep, 'PID-13', 'home', log)),
+      ...this.hl7Parser.getRepetitions(pid, 14).map(rep => this.mapXTN(rep, 'PID-14', 'work', log))
+    ].filter((cp): cp is FHIRContactPoint => cp !== null);
+    if (telecom.length > 0) {
+      fhirPatient.telecom = telecom;
+    }
+
+    const addresses = this.hl7Parser.getRepetitions(pid, 11)
+      .map(rep => this.mapXAD(rep, 'PID-11', log))
+      .filter((addr): addr is FHIRAddress => addr !== null);
+    if (addresses.length > 0) {
+      fhirPatient.address = addresses;
+    }
+
+    const maritalCode = this.hl7Parser.getValue(pid, 16);
+    if (maritalCode && V2_MARITAL_STATUS[maritalCode]) {
+      fhirPatient.maritalStatus = {
+        coding: [{
+          system: 'http://terminology.hl7.org/CodeSystem/v3-MaritalStatus',
+          ...V2_MARITAL_STATUS[maritalCode]
+        }]
+      };
+      log.push(`Mapped PID-16.1 → Patient.maritalStatus (${V2_MARITAL_STATUS[maritalCode].code})`);
+    }
+
+    const languageCode = this.hl7Parser.getValue(pid, 15);
+    if (languageCode) {
+      // PID-15 commonly carries ISO 639-2 codes (ENG, FRE); FHIR expects BCP-47
+      const language = this.toBcp47(languageCode);
+      fhirPatient.communication = [{
+        language: {
+          ...(language && { coding: [{ system: 'urn:ietf:bcp:47', code: language }] }),
+          text: this.hl7Parser.getValue(pid, 15, 2) || languageCode
+        },
+        preferred: true
+      }];
+      log.push(language
+        ? `Mapped PID-15.1 → Patient.communication.language (${language})`
+        : `⚠ PID-15.1 "${languageCode}" is not a recognised language; kept as text only`);
+    }
+
+    const pd1 = this.hl7Parser.getSegment(message, 'PD1');
+    if (pd1) {
+      this.mapPD1(pd1, fhirPatient, log);
+    }
+
+    const contacts = this.hl7Parser.getSegments(message, 'NK1')
+      .map(nk1 => this.mapNK1(nk1, log))
+      .filter((contact): contact is FHIRPatientContact => contact !== null);
+    if (contacts.length > 0) {
+      fhirPatient.contact = contacts;
+    }
+
+    return fhirPatient;
   }
 
-  private extractBirthDate(data: any, log: string[]): string | undefined {
-    const dateFields = ['birthDate', 'birth_date', 'dob', 'dateOfBirth', 'date_of_birth'];
+  private extractHL7Identifiers(pid: HL7v2Segment, log: string[]): FHIRIdentifier[] {
+    const identifiers: FHIRIdentifier[] = [];
 
-    for (const field of dateFields) {
-      if (data[field]) {
-        const dateStr = this.formatDate(data[field]);
-        if (dateStr) {
-          log.push(`Mapped ${field} → Patient.birthDate`);
-          return dateStr;
-        }
+    this.hl7Parser.getRepetitions(pid, 3).forEach((rep, repetition) => {
+      const value = this.hl7Parser.getComponent(rep, 1);
+      if (!value) return;
+
+      const typeCode = this.hl7Parser.getComponent(rep, 5) || 'PI';
+      const identifier: FHIRIdentifier = {
+        use: typeCode === 'MR' ? 'usual' : 'official',
+        type: this.v2IdentifierType(typeCode),
+        value
+      };
+
+      // CX-4 assigning authority: namespace ID & universal ID & universal ID type
+      const namespace = this.hl7Parser.getComponent(rep, 4, 1);
+      const universalId = this.hl7Parser.getComponent(rep, 4, 2);
+      const universalIdType = this.hl7Parser.getComponent(rep, 4, 3);
+      if (universalId) {
+        identifier.system = universalIdType === 'ISO' ? `urn:oid:${universalId}` : universalId;
+      }
+      if (namespace) {
+        identifier.assigner = { display: namespace };
       }
+
+      identifiers.push(identifier);
+      log.push(`Mapped PID-3[${repetition}].1 → Patient.identifier[${identifiers.length - 1}] (${typeCode})`);
+    });
+
+    const ssn = this.hl7Parser.getValue(pid, 19);
+    if (ssn) {
+      identifiers.push({ use: 'official', type: this.v2IdentifierType('SS'), value: ssn });
+      log.push(`Mapped PID-19 → Patient.identifier (SS)`);
     }
 
-    return undefined;
+    const driversLicense = this.hl7Parser.getValue(pid, 20);
+    if (driversLicense) {
+      identifiers.push({ use: 'official', type: this.v2IdentifierType('DL'), value: driversLicense });
+      log.push(`Mapped PID-20.1 → Patient.identifier (DL)`);
+    }
+
+    return identifiers;
   }
 
-  private extractTelecom(data: any, log: string[]): FHIRContactPoint[] {
-    const telecom: FHIRContactPoint[] = [];
+  private extractHL7Id(identifiers: FHIRIdentifier[], log: string[]): string {
+    const mrn = identifiers.find(id => id.type?.coding?.[0]?.code === 'MR') || identifiers[0];
+    if (mrn?.value) {
+      log.push(`Mapped PID-3.1 (${mrn.type?.coding?.[0]?.code}) → Patient.id`);
+      return mrn.value;
+    }
 
-    // Phone numbers
-    const phoneFields = ['phone', 'phoneNumber', 'phone_number', 'mobile', 'tel', 'telephone'];
-    for (const field of phoneFields) {
-      if (data[field]) {
-        telecom.push({
-          system: 'phone',
-          value: String(data[field]),
-          use: field.includes('mobile') ? 'mobile' : 'home'
-        });
-        log.push(`Mapped ${field} → Patient.telecom (phone)`);
-        break; // Take first phone number found
-      }
+    const generatedId = this.generateUUID();
+    log.push(`Generated UUID for Patient.id: ${generatedId}`);
+    return generatedId;
+  }
+
+  private v2IdentifierType(code: string): FHIRCodeableConcept {
+    return {
+      coding: [{
+        system: 'http://terminology.hl7.org/CodeSystem/v2-0203',
+        code,
+        display: V2_IDENTIFIER_TYPES[code] || code
+      }]
+    };
+  }
+
+  // XPN: family ^ given ^ second given ^ suffix ^ prefix ^ degree ^ name type
+  private mapXPN(rep: string[][], position: string, log: string[]): FHIRHumanName | null {
+    const name: FHIRHumanName = {
+      use: V2_NAME_USES[this.hl7Parser.getComponent(rep, 7) || 'L'] || 'official'
+    };
+
+    const family = this.hl7Parser.getComponent(rep, 1);
+    if (family) {
+      name.family = family;
+      log.push(`Mapped ${position}.1 → ${this.targetPath(position)}.family`);
     }
 
-    // Email
-    if (data.email || data.emailAddress || data.email_address) {
-      telecom.push({
-        system: 'email',
-        value: String(data.email || data.emailAddress || data.email_address),
-        use: 'home'
-      });
-      log.push(`Mapped email → Patient.telecom (email)`);
+    const given = this.hl7Parser.getComponent(rep, 2);
+    if (given) {
+      name.given = [given];
+      log.push(`Mapped ${position}.2 → ${this.targetPath(position)}.given`);
+    }
+
+    const middle = this.hl7Parser.getComponent(rep, 3);
+    if (middle) {
+      name.given = [...(name.given || []), ...middle.split(' ')];
+      log.push(`Mapped ${position}.3 → ${this.targetPath(position)}.given`);
     }
 
-    return telecom;
+    const suffix = this.hl7Parser.getComponent(rep, 4);
+    if (suffix) {
+      name.suffix = [suffix];
+      log.push(`Mapped ${position}.4 → ${this.targetPath(position)}.suffix`);
+    }
+
+    const prefix = this.hl7Parser.getComponent(rep, 5);
+    if (prefix) {
+      name.prefix = [prefix];
+      log.push(`Mapped ${position}.5 → ${this.targetPath(position)}.prefix`);
+    }
+
+    return name.family || name.given ? name : null;
   }
 
-  private extractAddress(data: any, log: string[]): FHIRAddress[] {
-    const addresses: FHIRAddress[] = [];
+  // XTN: number ^ use code ^ equipment type ^ email ^ country ^ area ^ local ^ extension ... ^ unformatted (12)
+  private mapXTN(
+    rep: string[][],
+    position: string,
+    defaultUse: 'home' | 'work',
+    log: string[]
+  ): FHIRContactPoint | null {
+    const useCode = this.hl7Parser.getComponent(rep, 2);
+    const equipment = this.hl7Parser.getComponent(rep, 3);
+
+    if (useCode === 'NET' || equipment === 'Internet' || equipment === 'X.400') {
+      const email = this.hl7Parser.getComponent(rep, 4) || this.hl7Parser.getComponent(rep, 1);
+      if (!email) return null;
+      log.push(`Mapped ${position}.4 → ${this.targetPath(position)} (email)`);
+      return { system: 'email', value: email, use: defaultUse };
+    }
+
+    const areaCode = this.hl7Parser.getComponent(rep, 6);
+    const localNumber = this.hl7Parser.getComponent(rep, 7);
+    const extension = this.hl7Parser.getComponent(rep, 8);
+    let value = this.hl7Parser.getComponent(rep, 12) || this.hl7Parser.getComponent(rep, 1);
+    let source = this.hl7Parser.getComponent(rep, 12) ? `${position}.12` : `${position}.1`;
+    if (!value && localNumber) {
+      const local = localNumber.replace(/^(\d{3})(\d{4})$/, '$1-$2');
+      value = areaCode ? `(${areaCode}) ${local}` : local;
+      source = `${position}.6-7`;
+    }
+    if (!value) return null;
+    if (extension) {
+      value += ` ext. ${extension}`;
+    }
+
+    const contactPoint: FHIRContactPoint = {
+      system: equipment === 'FX' ? 'fax' : equipment === 'BP' || useCode === 'BPN' ? 'pager' : 'phone',
+      value,
+      use: equipment === 'CP' ? 'mobile' : useCode === 'WPN' ? 'work' : useCode === 'PRN' || useCode === 'ORN' ? 'home' : defaultUse
+    };
 
-    // Check if there's an address object
-    const addressData = data.address || data;
+    log.push(`Mapped ${source} → ${this.targetPath(position)} (${contactPoint.system})`);
+    return contactPoint;
+  }
 
+  // XAD: street ^ other designation ^ city ^ state ^ zip ^ country ^ address type
+  private mapXAD(rep: string[][], position: string, log: string[]): FHIRAddress | null {
+    const addressType = this.hl7Parser.getComponent(rep, 7);
     const address: FHIRAddress = {
-      use: 'home',
-      type: 'physical'
+      use: addressType === 'B' || addressType === 'O' ? 'work'
+        : addressType === 'C' ? 'temp'
+        : addressType === 'BA' ? 'old'
+        : 'home',
+      type: addressType === 'M' ? 'postal' : 'physical'
     };
+    const target = this.targetPath(position);
+
+    const lines = [this.hl7Parser.getComponent(rep, 1), this.hl7Parser.getComponent(rep, 2)]
+      .filter((line): line is string => !!line);
+    if (lines.length > 0) {
+      address.line = lines;
+      log.push(`Mapped ${position}.1 → ${target}.line`);
+    }
+
+    const fields: [number, 'city' | 'state' | 'postalCode' | 'country'][] = [
+      [3, 'city'],
+      [4, 'state'],
+      [5, 'postalCode'],
+      [6, 'country']
+    ];
+    fields.forEach(([component, key]) => {
+      const value = this.hl7Parser.getComponent(rep, component);
+      if (value) {
+        address[key] = value;
+        log.push(`Mapped ${position}.${component} → ${target}.${key}`);
+      }
+    });
+
+    return address.line || address.city || address.postalCode ? address : null;
+  }
+
+  private mapPD1(pd1: HL7v2Segment, patient: FHIRPatient, log: string[]): void {
+    // PD1-3 XON: organization name ^ ... ^ organization identifier (10)
+    const facility = this.hl7Parser.getValue(pd1, 3);
+    if (facility) {
+      const organization: FHIRReference = { type: 'Organization', display: facility };
+      const orgId = this.hl7Parser.getValue(pd1, 3, 10);
+      if (orgId) {
+        organization.identifier = { value: orgId };
+      }
+      patient.managingOrganization = organization;
+      log.push(`Mapped PD1-3.1 → Patient.managingOrganization`);
+    }
+
+    // PD1-4 XCN: id ^ family ^ given
+    const practitioners = this.hl7Parser.getRepetitions(pd1, 4)
+      .map(rep => {
+        const id = this.hl7Parser.getComponent(rep, 1);
+        const display = [this.hl7Parser.getComponent(rep, 3), this.hl7Parser.getComponent(rep, 2)]
+          .filter(Boolean).join(' ');
+        if (!id && !display) return null;
+
+        const reference: FHIRReference = { type: 'Practitioner' };
+        if (id) reference.identifier = { value: id };
+        if (display) reference.display = display;
+        return reference;
+      })
+      .filter((ref): ref is FHIRReference => ref !== null);
+    if (practitioners.length > 0) {
+      patient.generalPractitioner = practitioners;
+      log.push(`Mapped PD1-4 → Patient.generalPractitioner`);
+    }
+  }
 
-    let hasAddressData = false;
+  private mapNK1(nk1: HL7v2Segment, log: string[]): FHIRPatientContact | null {
+    const contact: FHIRPatientContact = {};
+    const relationship: FHIRCodeableConcept[] = [];
 
-    if (addressData.street || addressData.streetAddress || addressData.street_address || addressData.line) {
-      const street = addressData.street || addressData.streetAddress || addressData.street_address || addressData.line;
-      address.line = Array.isArray(street) ? street : [street];
-      hasAddressData = true;
-      log.push(`Mapped street → Patient.address.line`);
+    const nameRep = this.hl7Parser.getRepetitions(nk1, 2)[0];
+    const name = nameRep ? this.mapXPN(nameRep, 'NK1-2', log) : null;
+    if (name) {
+      delete name.use;
+      contact.name = name;
     }
 
-    if (addressData.city) {
-      address.city = addressData.city;
-      hasAddressData = true;
-      log.push(`Mapped city → Patient.address.city`);
+    // NK1-3 relationship (v2-0063)
+    const relationshipCode = this.hl7Parser.getValue(nk1, 3);
+    if (relationshipCode) {
+      relationship.push({
+        coding: [{
+          system: 'http://terminology.hl7.org/CodeSystem/v2-0063',
+          code: relationshipCode,
+          display: this.hl7Parser.getValue(nk1, 3, 2)
+        }]
+      });
+      log.push(`Mapped NK1-3.1 → Patient.contact.relationship`);
     }
 
-    if (addressData.state || addressData.province) {
-      address.state = addressData.state || addressData.province;
-      hasAddressData = true;
-      log.push(`Mapped state/province → Patient.address.state`);
+    // NK1-7 contact role (v2-0131)
+    const roleCode = this.hl7Parser.getValue(nk1, 7);
+    if (roleCode) {
+      relationship.push({
+        coding: [{
+          system: 'http://terminology.hl7.org/CodeSystem/v2-0131',
+          code: roleCode,
+          display: this.hl7Parser.getValue(nk1, 7, 2)
+        }]
+      });
+      log.push(`Mapped NK1-7.1 → Patient.contact.relationship`);
     }
 
-    if (addressData.postalCode || addressData.postal_code || addressData.zip || addressData.zipCode) {
-      address.postalCode = addressData.postalCode || addressData.postal_code || addressData.zip || addressData.zipCode;
-      hasAddressData = true;
-      log.push(`Mapped postalCode → Patient.address.postalCode`);
+    if (relationship.length > 0) {
+      contact.relationship = relationship;
     }
 
-    if (addressData.country) {
-      address.country = addressData.country;
-      hasAddressData = true;
-      log.push(`Mapped country → Patient.address.country`);
+    const telecom = [
+      ...this.hl7Parser.getRepetitions(nk1, 5).map(rep => this.mapXTN(rep, 'NK1-5', 'home', log)),
+      ...this.hl7Parser.getRepetitions(nk1, 6).map(rep => this.mapXTN(rep, 'NK1-6', 'work', log))
+    ].filter((cp): cp is FHIRContactPoint => cp !== null);
+    if (telecom.length > 0) {
+      contact.telecom = telecom;
     }
 
-    if (hasAddressData) {
-      addresses.push(address);
+    const addressRep = this.hl7Parser.getRepetitions(nk1, 4)[0];
+    const address = addressRep ? this.mapXAD(addressRep, 'NK1-4', log) : null;
+    if (address) {
+      contact.address = address;
     }
 
-    return addresses;
+    const gender = this.mapHL7Gender(this.hl7Parser.getValue(nk1, 15));
+    if (gender) {
+      contact.gender = gender;
+      log.push(`Mapped NK1-15 → Patient.contact.gender (${gender})`);
+    }
+
+    const start = this.normalizeDate(this.hl7Parser.getValue(nk1, 8), 'HL7', 'NK1-8', log);
+    const end = this.normalizeDate(this.hl7Parser.getValue(nk1, 9), 'HL7', 'NK1-9', log);
+    if (start || end) {
+      contact.period = { ...(start && { start }), ...(end && { end }) };
+      log.push(`Mapped NK1-8/NK1-9 → Patient.contact.period`);
+    }
+
+    return Object.keys(contact).length > 0 ? contact : null;
   }
 
-  private extractActive(data: any, log: string[]): boolean | undefined {
-    const activeFields = ['active', 'isActive', 'is_active', 'status'];
+  /**
+   * Maps recordTarget/patientRole of a CDA R2 / C-CDA document onto a FHIR Patient
+   */
+  private convertCdaDocument(document: CdaDocument, log: string[]): FHIRPatient {
+    const role = document.patientRoles[0];
+    if (!role) {
+      throw new Error('CDA document has no recordTarget/patientRole');
+    }
 
-    for (const field of activeFields) {
-      if (data[field] !== undefined) {
-        const value = data[field];
+    log.push(`Parsed CDA document${document.title ? ` "${document.title}"` : ''}` +
+      (document.documentId ? ` (id ${document.documentId})` : ''));
+    if (document.patientRoles.length > 1) {
+      log.push(`⚠ Document has ${document.patientRoles.length} recordTargets; only the first was converted`);
+    }
 
-        if (typeof value === 'boolean') {
-          log.push(`Mapped ${field} → Patient.active`);
-          return value;
+    const identifiers: FHIRIdentifier[] = role.ids
+      .filter(id => id.root || id.extension)
+      .map(id => {
+        // An id without extension is a globally unique OID/UUID in its own right
+        const identifier: FHIRIdentifier = id.extension
+          ? { value: id.extension }
+          : { system: 'urn:ietf:rfc:3986', value: `urn:oid:${id.root}` };
+        if (id.extension && id.root) {
+          identifier.system = `urn:oid:${id.root}`;
         }
-
-        if (typeof value === 'string') {
-          const lowerValue = value.toLowerCase();
-          if (lowerValue === 'active' || lowerValue === 'true' || lowerValue === '1') {
-            log.push(`Mapped ${field} → Patient.active (true)`);
-            return true;
-          }
-          if (lowerValue === 'inactive' || lowerValue === 'false' || lowerValue === '0') {
-            log.push(`Mapped ${field} → Patient.active (false)`);
-            return false;
-          }
+        if (id.root === '2.16.840.1.113883.4.1') {
+          identifier.type = this.v2IdentifierType('SS');
+        }
+        if (id.assigningAuthorityName) {
+          identifier.assigner = { display: id.assigningAuthorityName };
         }
+        log.push(`Mapped ${id.xpath}/@${id.extension ? 'extension' : 'root'} → Patient.identifier`);
+        return identifier;
+      });
+
+    let patientId = identifiers.find(id => id.value && !id.value.startsWith('urn:'))?.value;
+    if (patientId) {
+      log.push(`Mapped ${role.ids.find(id => id.extension === patientId)?.xpath}/@extension → Patient.id`);
+    } else {
+      patientId = this.generateUUID();
+      log.push(`Generated UUID for Patient.id: ${patientId}`);
+    }
+
+    const fhirPatient: FHIRPatient = {
+      resourceType: 'Patient',
+      id: patientId,
+      meta: {
+        lastUpdated: new Date().toISOString(),
+        profile: ['http://hl7.org/fhir/StructureDefinition/Patient']
       }
+    };
+
+    if (identifiers.length > 0) {
+      fhirPatient.identifier = identifiers;
     }
 
-    return undefined;
+    const names = role.names
+      .map(name => this.mapCdaName(name, log))
+      .filter((name): name is FHIRHumanName => name !== null);
+    if (names.length > 0) {
+      fhirPatient.name = names;
+    } else {
+      log.push(`⚠ No name data found in patientRole/patient/name`);
+    }
+
+    if (role.gender) {
+      const gender = role.gender.code === 'UN' ? 'other' : this.mapHL7Gender(role.gender.code) || 'unknown';
+      fhirPatient.gender = gender;
+      log.push(`Mapped ${role.gender.xpath} → Patient.gender (${gender})`);
+    }
+
+    if (role.birthTime) {
+      // CDA TS values share the HL7 v2 layout
+      const birthDate = this.normalizeDate(role.birthTime.value, 'HL7', role.birthTime.xpath, log);
+      if (birthDate) {
+        fhirPatient.birthDate = birthDate;
+        log.push(`Mapped ${role.birthTime.xpath} → Patient.birthDate`);
+        this.checkBirthDate(birthDate, role.birthTime.xpath, log);
+      }
+    }
+
+    const telecom = role.telecoms
+      .map((cdaTelecom): FHIRContactPoint | null => {
+        const [scheme, ...rest] = cdaTelecom.value.split(':');
+        const value = rest.join(':').replace(/^\/\//, '');
+        const system: FHIRContactPoint['system'] =
+          scheme === 'mailto' ? 'email'
+          : scheme === 'fax' ? 'fax'
+          : scheme === 'http' || scheme === 'https' ? 'url'
+          : scheme === 'tel' ? 'phone'
+          : undefined;
+        if (!system || !value) return null;
+
+        const contactPoint: FHIRContactPoint = {
+          system,
+          value: system === 'url' ? cdaTelecom.value : value
+        };
+        const use = this.mapCdaUse(cdaTelecom.use);
+        if (use === 'mobile' || use === 'home' || use === 'work' || use === 'temp' || use === 'old') {
+          contactPoint.use = use;
+        }
+        log.push(`Mapped ${cdaTelecom.xpath} → Patient.telecom (${system})`);
+        return contactPoint;
+      })
+      .filter((cp): cp is FHIRContactPoint => cp !== null);
+    if (telecom.length > 0) {
+      fhirPatient.telecom = telecom;
+    }
+
+    const addresses = role.addresses
+      .map(addr => this.mapCdaAddress(addr, log))
+      .filter((addr): addr is FHIRAddress => addr !== null);
+    if (addresses.length > 0) {
+      fhirPatient.address = addresses;
+    }
+
+    if (role.maritalStatus) {
+      fhirPatient.maritalStatus = {
+        coding: [{
+          system: 'http://terminology.hl7.org/CodeSystem/v3-MaritalStatus',
+          code: role.maritalStatus.code,
+          display: role.maritalStatus.displayName
+        }]
+      };
+      log.push(`Mapped ${role.maritalStatus.xpath} → Patient.maritalStatus`);
+    }
+
+    if (role.languages.length > 0) {
+      fhirPatient.communication = role.languages.map(language => {
+        log.push(`Mapped ${language.xpath} → Patient.communication.language`);
+        return {
+          language: {
+            coding: [{ system: 'urn:ietf:bcp:47', code: language.code }]
+          },
+          ...(language.preferred !== undefined && { preferred: language.preferred })
+        };
+      });
+    }
+
+    if (role.providerOrganization) {
+      fhirPatient.managingOrganization = { type: 'Organization', display: role.providerOrganization.value };
+      log.push(`Mapped ${role.providerOrganization.xpath} → Patient.managingOrganization`);
+    }
+
+    return fhirPatient;
   }
 
-  private formatDate(dateInput: any): string | undefined {
-    if (!dateInput) return undefined;
+  private mapCdaName(cdaName: CdaName, log: string[]): FHIRHumanName | null {
+    const name: FHIRHumanName = {
+      use: cdaName.use === 'P' ? 'usual' : cdaName.use === 'A' ? 'anonymous' : 'official'
+    };
 
-    try {
-      const date = new Date(dateInput);
-      if (isNaN(date.getTime())) {
-        return undefined;
+    if (cdaName.family) {
+      name.family = cdaName.family.value;
+      log.push(`Mapped ${cdaName.family.xpath} → Patient.name.family`);
+    }
+    if (cdaName.given.length > 0) {
+      name.given = cdaName.given.map(given => given.value);
+      cdaName.given.forEach(given => log.push(`Mapped ${given.xpath} → Patient.name.given`));
+    }
+    if (cdaName.prefix.length > 0) {
+      name.prefix = cdaName.prefix.map(prefix => prefix.value);
+      log.push(`Mapped ${cdaName.xpath}/prefix → Patient.name.prefix`);
+    }
+    if (cdaName.suffix.length > 0) {
+      name.suffix = cdaName.suffix.map(suffix => suffix.value);
+      log.push(`Mapped ${cdaName.xpath}/suffix → Patient.name.suffix`);
+    }
+    if (cdaName.text) {
+      name.text = cdaName.text.value;
+      log.push(`Mapped ${cdaName.text.xpath} → Patient.name.text`);
+    }
+
+    return name.family || name.given || name.text ? name : null;
+  }
+
+  private mapCdaAddress(cdaAddress: CdaAddress, log: string[]): FHIRAddress | null {
+    const uses = (cdaAddress.use || '').split(/\s+/);
+    const use = this.mapCdaUse(cdaAddress.use);
+    const address: FHIRAddress = {
+      use: use === 'work' || use === 'temp' || use === 'old' ? use : 'home',
+      type: uses.includes('PST') ? 'postal' : uses.includes('PHYS') ? 'physical' : 'both'
+    };
+
+    if (cdaAddress.streetAddressLines.length > 0) {
+      address.line = cdaAddress.streetAddressLines.map(line => line.value);
+      cdaAddress.streetAddressLines.forEach(line => log.push(`Mapped ${line.xpath} → Patient.address.line`));
+    }
+
+    const parts: ('city' | 'state' | 'postalCode' | 'country')[] = ['city', 'state', 'postalCode', 'country'];
+    parts.forEach(key => {
+      const part = cdaAddress[key];
+      if (part) {
+        address[key] = part.value;
+        log.push(`Mapped ${part.xpath} → Patient.address.${key}`);
       }
+    });
 
-      // Return ISO date format (YYYY-MM-DD)
-      return date.toISOString().split('T')[0];
-    } catch {
-      return undefined;
+    return address.line || address.city || address.postalCode ? address : null;
+  }
+
+  /**
+   * Maps CDA (v3 AddressUse / TelecommunicationAddressUse) codes to FHIR use codes
+   */
+  private mapCdaUse(use: string | undefined): 'home' | 'work' | 'temp' | 'old' | 'mobile' | undefined {
+    const codes = (use || '').split(/\s+/);
+    if (codes.includes('MC')) return 'mobile';
+    if (codes.includes('WP') || codes.includes('DIR') || codes.includes('PUB')) return 'work';
+    if (codes.includes('TMP')) return 'temp';
+    if (codes.includes('OLD') || codes.includes('BAD')) return 'old';
+    if (codes.some(code => code === 'H' || code === 'HP' || code === 'HV')) return 'home';
+    return undefined;
+  }
+
+  private mapHL7Gender(code: string | undefined): 'male' | 'female' | 'other' | 'unknown' | undefined {
+    switch (code) {
+      case 'M': return 'male';
+      case 'F': return 'female';
+      case 'O':
+      case 'A':
+      case 'N':
+        return 'other';
+      case 'U': return 'unknown';
+      default: return undefined;
+    }
+  }
+
+  /**
+   * Converts a source date to a FHIR date, keeping partial precision and logging anything doubtful
+   */
+  private normalizeDate(value: any, format: SourceDateFormat, label: string, log: string[]): string | undefined {
+    if (this.isEmpty(value)) return undefined;
+
+    const date = this.dateNormalizer.normalize(value, format);
+    if (!date.value) {
+      log.push(`⚠ ${label} skipped: ${date.warnings.join('; ')}`);
+    } else {
+      date.warnings.forEach(warning => log.push(`⚠ ${label}: ${warning}`));
     }
+    return date.value;
+  }
+
+  private checkBirthDate(birthDate: string, label: string, log: string[]): void {
+    this.dateNormalizer.checkBirthDate(birthDate).forEach(warning => log.push(`⚠ ${label}: ${warning}; check the source`));
+  }
+
+  private targetPath(position: string): string {
+    const targets: Record<string, string> = {
+      'PID-5': 'Patient.name',
+      'PID-11': 'Patient.address',
+      'PID-13': 'Patient.telecom',
+      'PID-14': 'Patient.telecom',
+      'NK1-2': 'Patient.contact.name',
+      'NK1-4': 'Patient.contact.address',
+      'NK1-5': 'Patient.contact.telecom',
+      'NK1-6': 'Patient.contact.telecom'
+    };
+    return targets[position] || 'Patient';
   }
 
   private generateUUID(): string {
@@ -423,6 +1458,14 @@ export class FhirConverterService {
       errors.push('Patient must have an id');
     }
 
+    patient.identifier?.forEach((identifier, index) => {
+      if (!this.isHealthCard(identifier) || !identifier.value) return;
+      const check = this.healthCards.validate(identifier.value, this.healthCardProvince(identifier, patient));
+      if (check.status === 'invalid') {
+        errors.push(`identifier[${index}] is not a valid health card number: it ${check.problem}`);
+      }
+    });
+
     if (patient.name && patient.name.length > 0) {
       patient.name.forEach((name: FHIRHumanName, index: number) => {
         if (!name.family && !name.given && !name.text) {
@@ -0,0 +1,60 @@
+import { TestBed } from '@angular/core/testing';
+import { FreeTextPhiService } from './free-text-phi.service';
+import violationsPatient from '../../../sample-data/patient-with-violations.json';
+
+describe('FreeTextPhiService', () => {
+  let service: FreeTextPhiService;
+
+  beforeEach(() => {
+    service = TestBed.inject(FreeTextPhiService);
+  });
+
+  it('counts only long, multi-word text as narrative', () => {
+    expect(service.isNarrative(violationsPatient.notes)).toBe(true);
+    expect(service.isNarrative('Call back tomorrow')).toBe(false);
+    expect(service.isNarrative('x'.repeat(60))).toBe(false);
+    expect(service.isNarrative(42)).toBe(false);
+  });
+
+  it('finds the identifiers, contacts, dates and names of a clinical note', () => {
+    const spans = service.scan(violationsPatient.notes);
+
+    expect(spans.map(span => span.kind)).toEqual(['name', 'sin', 'phone', 'date', 'email', 'name', 'healthCard']);
+    expect(service.redact(violationsPatient.notes, spans)).toBe(
+      'Pt\'s husband [NAME] (SIN [SIN]) called from [PHONE] to move the [DATE] follow-up; '
+        + 'reach him at [EMAIL] or Dr. [NAME]\'s office, OHIP [HEALTH CARD].'
+    );
+  });
+
+  it('needs the keyword for a SIN whose check digit fails, and flags a valid one by checksum alone', () => {
+    const keyed = service.scan('The patient gave SIN 123 456 789 at registration today');
+    const bare = service.scan('The patient gave reference 130 692 544 at registration today');
+
+    expect(keyed.map(span => [span.kind, span.confidence])).toEqual([['sin', 'medium']]);
+    expect(bare.map(span => span.kind)).toEqual(['sin']);
+    expect(service.scan('The patient gave reference 123 456 789 at registration today')).toEqual([]);
+  });
+
+  it('skips capitalized words after cue words that are not names', () => {
+    const spans = service.scan('Patient seen with her daughter Monday, who states the pain is better');
+
+    expect(spans.filter(span => span.kind === 'name')).toEqual([]);
+  });
+
+  it('splits text into plain and identifier segments', () => {
+    const text = 'Reach the patient at jane@example.ca about the results';
+    const segments = service.segments(text, service.scan(text));
+
+    expect(segments.map(segment => segment.text)).toEqual(['Reach the patient at ', 'jane@example.ca', ' about the results']);
+    expect(segments[1].span?.kind).toBe('email');
+  });
+
+  it('redacts the text at a scan path in place', () => {
+    const record = { visits: [{ notes: 'Reach the patient at jane@example.ca about the results' }] };
+    const spans = service.scan(service.textAt(record, 'visits[0].notes')!);
+
+    expect(service.redactAt(record, 'visits[0].notes', spans)).toBe(true);
+    expect(record.visits[0].notes).toBe('Reach the patient at [EMAIL] about the results');
+    expect(service.redactAt(record, 'visits[1].notes', spans)).toBe(false);
+  });
+});
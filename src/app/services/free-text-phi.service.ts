@@ -0,0 +1,228 @@
+import { Injectable } from '@angular/core';
+import { PHITextKind, PHITextSegment, PHITextSpan, ViolationConfidence } from '../models/phipa.model';
+import { HealthCardValidatorService } from './health-card-validator.service';
+import { IdentifierChecksumService } from './identifier-checksum.service';
+
+// Text shorter than this, or with fewer words, is a single value rather than narrative
+const MIN_NARRATIVE_LENGTH = 40;
+const MIN_NARRATIVE_WORDS = 6;
+// How far before a number a keyword such as "SIN" or "OHIP" is looked for
+const KEYWORD_WINDOW = 24;
+
+const KINDS: Record<PHITextKind, { label: string; token: string }> = {
+  sin: { label: 'Social Insurance Number', token: '[SIN]' },
+  healthCard: { label: 'Health card number', token: '[HEALTH CARD]' },
+  paymentCard: { label: 'Payment card number', token: '[CARD NUMBER]' },
+  phone: { label: 'Phone number', token: '[PHONE]' },
+  email: { label: 'E-mail address', token: '[EMAIL]' },
+  postalCode: { label: 'Postal code', token: '[POSTAL CODE]' },
+  date: { label: 'Date', token: '[DATE]' },
+  name: { label: 'Person name', token: '[NAME]' }
+};
+
+const SIN_KEYWORD = /\b(?:SIN|NAS|social insurance(?: number| no\.?)?|assurance sociale)\W*$/i;
+const HEALTH_CARD_KEYWORD = /\b(?:health ?card|health (?:number|no\.?)|HCN|OHIP|RAMQ|NAM|PHN|carte soleil)(?: ?#| number| no\.?)?\W*$/i;
+
+const SIN_CANDIDATE = /\b\d{3}([-\s]?)\d{3}\1\d{3}\b/g;
+const CARD_CANDIDATE = /\b\d(?:[-\s]?\d){12,18}\b/g;
+const HEALTH_CARD_CANDIDATE = /\b(?:[A-Z]{4}[-\s]?\d{4}[-\s]?\d{4}|\d{4}[-\s]?\d{3}[-\s]?\d{3}(?:[-\s]?[A-Z]{1,2})?|\d{8,12})\b/g;
+const PHONE = /(?:\+?1[-.\s]?)?(?:\(\d{3}\)\s?|\b\d{3}[-.\s])\d{3}[-.\s]\d{4}\b/g;
+const EMAIL = /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g;
+// Canadian postal codes; D, F, I, O, Q and U are never used, W and Z never lead
+const POSTAL_CODE = /\b[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z][ -]?\d[ABCEGHJ-NPRSTV-Z]\d\b/g;
+const MONTH = 'Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sept?(?:ember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?';
+const DATE = new RegExp(
+  '\\b(?:(?:19|20)\\d{2}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[12]\\d|3[01])'
+    + '|\\d{1,2}/\\d{1,2}/(?:19|20)?\\d{2}'
+    + `|(?:${MONTH})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}`
+    + `|\\d{1,2}\\s+(?:${MONTH})\\.?,?\\s+\\d{4})\\b`,
+  'gi'
+);
+
+// Words that introduce a person's name in clinical notes, e.g. "husband John", "Dr. Patel"
+const TITLES = ['Mr', 'Mrs', 'Ms', 'Miss', 'Mx', 'Dr', 'Dre', 'Mme'];
+const RELATIONS = [
+  'husband', 'wife', 'spouse', 'partner', 'son', 'daughter', 'mother', 'father', 'brother', 'sister',
+  'grandmother', 'grandfather', 'aunt', 'uncle', 'cousin', 'friend', 'neighbour', 'neighbor',
+  'caregiver', 'guardian', 'named'
+];
+const CAPITALIZED = "[A-Z][a-z'’-]+";
+const NAME = new RegExp(
+  `\\b(?:(?:${TITLES.join('|')})\\.?|${RELATIONS.map(word => `[${word[0]}${word[0].toUpperCase()}]${word.slice(1)}`).join('|')})`
+    + `\\s+(${CAPITALIZED}(?:\\s+${CAPITALIZED})?)`,
+  'g'
+);
+// Capitalized words that follow the same cue words without being names
+const NOT_NAMES = new Set([
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December',
+  'The', 'This', 'That', 'Patient', 'Pt', 'Is', 'Was', 'And', 'Or', 'Called', 'Reports', 'States'
+]);
+
+const CONFIDENCE_RANK: Record<ViolationConfidence, number> = { high: 2, medium: 1, low: 0 };
+
+@Injectable({
+  providedIn: 'root'
+})
+export class FreeTextPhiService {
+  constructor(
+    private healthCards: HealthCardValidatorService,
+    private checksums: IdentifierChecksumService
+  ) {}
+
+  /**
+   * Whether a value is long enough to be narrative (notes, comments, CDA sections) rather than a single value
+   */
+  isNarrative(value: any): value is string {
+    return typeof value === 'string'
+      && value.trim().length >= MIN_NARRATIVE_LENGTH
+      && value.trim().split(/\s+/).length >= MIN_NARRATIVE_WORDS;
+  }
+
+  /**
+   * Finds identifiers, contact details, postal codes, dates and person names embedded in free text
+   * @returns Non-overlapping spans ordered by offset; a longer or more certain span wins an overlap
+   */
+  scan(text: string): PHITextSpan[] {
+    const spans = [
+      ...this.findSins(text),
+      ...this.findPaymentCards(text),
+      ...this.findHealthCards(text),
+      ...this.matches(text, PHONE).map(match => this.span(match, 'phone', 'medium', 'North American phone number format')),
+      ...this.matches(text, EMAIL).map(match => this.span(match, 'email', 'high', 'e-mail address format')),
+      ...this.matches(text, POSTAL_CODE).map(match => this.span(match, 'postalCode', 'medium', 'Canadian postal code format')),
+      ...this.matches(text, DATE).map(match => this.span(match, 'date', 'medium', 'calendar date')),
+      ...this.findNames(text)
+    ];
+
+    const ranked = spans.sort((a, b) =>
+      CONFIDENCE_RANK[b.confidence] - CONFIDENCE_RANK[a.confidence] || (b.end - b.start) - (a.end - a.start) || a.start - b.start
+    );
+    const kept: PHITextSpan[] = [];
+    ranked.forEach(span => {
+      if (!kept.some(other => span.start < other.end && other.start < span.end)) {
+        kept.push(span);
+      }
+    });
+    return kept.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Replaces each span with a placeholder such as "[PHONE]"
+   */
+  redact(text: string, spans: PHITextSpan[]): string {
+    return [...spans]
+      .sort((a, b) => b.start - a.start)
+      .reduce((redacted, span) => redacted.slice(0, span.start) + KINDS[span.kind].token + redacted.slice(span.end), text);
+  }
+
+  /**
+   * Splits a text into plain pieces and identifier pieces, for highlighting
+   */
+  segments(text: string, spans: PHITextSpan[]): PHITextSegment[] {
+    const segments: PHITextSegment[] = [];
+    let offset = 0;
+    spans.forEach(span => {
+      if (span.start > offset) segments.push({ text: text.slice(offset, span.start) });
+      segments.push({ text: text.slice(span.start, span.end), span });
+      offset = span.end;
+    });
+    if (offset < text.length) segments.push({ text: text.slice(offset) });
+    return segments;
+  }
+
+  /**
+   * Reads the text at a path reported by the compliance scan, e.g. "visits[0].notes"
+   */
+  textAt(data: any, path: string): string | undefined {
+    const value = this.parsePath(path).reduce((node, key) => (node === null || node === undefined ? undefined : node[key]), data);
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  /**
+   * Redacts the spans of the text at a path in place
+   * @returns false when the path no longer holds the text the spans were found in
+   */
+  redactAt(data: any, path: string, spans: PHITextSpan[]): boolean {
+    const keys = this.parsePath(path);
+    const parent = keys.slice(0, -1).reduce((node, key) => (node === null || node === undefined ? undefined : node[key]), data);
+    const last = keys[keys.length - 1];
+    const text = parent?.[last];
+    if (typeof text !== 'string' || spans.some(span => span.end > text.length)) {
+      return false;
+    }
+    parent[last] = this.redact(text, spans);
+    return true;
+  }
+
+  /**
+   * Splits a path reported by the compliance scan into keys, e.g. "visits[0].notes" into ["visits", 0, "notes"]
+   */
+  parsePath(path: string): (string | number)[] {
+    return path
+      .split(/\.|\[(\d+)\]/)
+      .filter(key => key !== undefined && key !== '')
+      .map(key => (/^\d+$/.test(key) ? Number(key) : key));
+  }
+
+  private findSins(text: string): PHITextSpan[] {
+    return this.matches(text, SIN_CANDIDATE).flatMap(match => {
+      const valid = this.checksums.isValidSin(match[0].replace(/[-\s]/g, ''));
+      if (this.precededBy(text, match.index, SIN_KEYWORD)) {
+        return [this.span(match, 'sin', valid ? 'high' : 'medium',
+          valid ? 'follows "SIN" and passes the SIN check digit' : 'follows "SIN"')];
+      }
+      // Unseparated nine-digit numbers pass the check digit one time in ten, so they need the keyword
+      return valid && match[1] ? [this.span(match, 'sin', 'medium', 'passes the SIN check digit (Luhn)')] : [];
+    });
+  }
+
+  private findPaymentCards(text: string): PHITextSpan[] {
+    return this.matches(text, CARD_CANDIDATE).flatMap(match => {
+      const issuer = this.checksums.cardIssuer(match[0].replace(/[-\s]/g, ''));
+      return issuer ? [this.span(match, 'paymentCard', 'high', `valid ${issuer} number (issuer prefix, length and Luhn check digit)`)] : [];
+    });
+  }
+
+  private findHealthCards(text: string): PHITextSpan[] {
+    return this.matches(text, HEALTH_CARD_CANDIDATE).flatMap(match => {
+      if (this.precededBy(text, match.index, HEALTH_CARD_KEYWORD) && this.healthCards.fitsAnyFormat(match[0])) {
+        return [this.span(match, 'healthCard', 'high', 'follows a health card keyword and has a health card format')];
+      }
+      const issuer = this.healthCards.detectCard(match[0]);
+      return issuer ? [this.span(match, 'healthCard', 'medium', `valid ${issuer.name} ${issuer.cardName} (format and check digit)`)] : [];
+    });
+  }
+
+  private findNames(text: string): PHITextSpan[] {
+    return this.matches(text, NAME).flatMap(match => {
+      const words = match[1].split(/\s+/);
+      const stop = words.findIndex(word => NOT_NAMES.has(word));
+      const nameWords = stop >= 0 ? words.slice(0, stop) : words;
+      if (nameWords.length === 0) return [];
+
+      const start = match.index + match[0].length - match[1].length;
+      const name = nameWords.join(' ').replace(/['’]s$/, ''); // "Dr. Patel's office"
+      return [{
+        start,
+        end: start + name.length,
+        kind: 'name' as const,
+        label: KINDS.name.label,
+        confidence: 'low' as const,
+        evidence: `capitalized word after "${match[0].slice(0, match[0].length - match[1].length).trim()}"`
+      }];
+    });
+  }
+
+  private matches(text: string, pattern: RegExp): RegExpExecArray[] {
+    return [...text.matchAll(new RegExp(pattern.source, pattern.flags))];
+  }
+
+  private precededBy(text: string, index: number, keyword: RegExp): boolean {
+    return keyword.test(text.slice(Math.max(0, index - KEYWORD_WINDOW), index));
+  }
+
+  private span(match: RegExpExecArray, kind: PHITextKind, confidence: ViolationConfidence, evidence: string): PHITextSpan {
+    return { start: match.index, end: match.index + match[0].length, kind, label: KINDS[kind].label, confidence, evidence };
+  }
+}
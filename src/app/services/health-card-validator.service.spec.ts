@@ -0,0 +1,72 @@
+import { TestBed } from '@angular/core/testing';
+import { HealthCardValidatorService } from './health-card-validator.service';
+
+describe('HealthCardValidatorService', () => {
+  let service: HealthCardValidatorService;
+
+  beforeEach(() => {
+    service = TestBed.inject(HealthCardValidatorService);
+  });
+
+  describe('validate', () => {
+    it('accepts an Ontario number and splits off its version code', () => {
+      const check = service.validate('1234-567-897-AB');
+      expect(check.status).toBe('valid');
+      expect(check.jurisdiction?.province).toBe('ON');
+      expect(check.number).toBe('1234567897');
+      expect(check.versionCode).toBe('AB');
+    });
+
+    it('rejects an Ontario number with a wrong check digit', () => {
+      const check = service.validate('1234567890', 'ON');
+      expect(check.status).toBe('invalid');
+      expect(check.problem).toContain('check digit');
+    });
+
+    it('accepts a British Columbia number by its mod 11 check digit', () => {
+      expect(service.validate('9698 658 215').jurisdiction?.province).toBe('BC');
+      expect(service.validate('9698658216', 'BC').status).toBe('invalid');
+    });
+
+    it('reads the birth date encoded in a RAMQ number', () => {
+      expect(service.validate('GAGL 6811 0312').jurisdiction?.province).toBe('QC');
+      expect(service.validate('GAGL68130312', 'QC').status).toBe('invalid');
+    });
+
+    it('needs the province for formats several provinces share', () => {
+      const check = service.validate('123456789');
+      expect(check.status).toBe('unknown-province');
+      expect(check.candidates).toContain('AB');
+      expect(service.validate('123456789', 'AB').status).toBe('valid');
+    });
+
+    it('rejects a number that fits no provincial format', () => {
+      expect(service.validate('12-34').status).toBe('invalid');
+    });
+  });
+
+  describe('detectCard', () => {
+    it('detects only valid numbers of provinces told from the number alone', () => {
+      expect(service.detectCard('1234567897')?.province).toBe('ON');
+      expect(service.detectCard('1234567890')).toBeUndefined();
+      expect(service.detectCard('123456789')).toBeUndefined();
+    });
+  });
+
+  describe('fitsAnyFormat', () => {
+    it('ignores the check digit', () => {
+      expect(service.fitsAnyFormat('1234567890')).toBe(true);
+      expect(service.fitsAnyFormat('not a number')).toBe(false);
+    });
+  });
+
+  describe('resolveProvince', () => {
+    it('resolves codes, names, plan names and issuers without regard to case or accents', () => {
+      expect(service.resolveProvince('ON')).toBe('ON');
+      expect(service.resolveProvince('Quebec')).toBe('QC');
+      expect(service.resolveProvince('RAMQ')).toBe('QC');
+      expect(service.resolveProvince('Alberta Health')).toBe('AB');
+      expect(service.resolveProvince('Atlantis')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { Injectable } from '@angular/core';
+import { HealthCardCheck, HealthCardJurisdiction, ProvinceCode } from '../models/health-card.model';
+import { IdentifierChecksumService } from './identifier-checksum.service';
+
+const NAMING_SYSTEM = 'https://fhir.infoway-inforoute.ca/NamingSystem';
+
+// Card formats of every province and territory; only Ontario, British Columbia and Quebec numbers
+// carry a check digit or structure distinctive enough to tell the issuer from the number alone
+export const HEALTH_CARD_JURISDICTIONS: HealthCardJurisdiction[] = [
+  {
+    province: 'ON', name: 'Ontario', cardName: 'OHIP health number',
+    system: `${NAMING_SYSTEM}/ca-on-patient-hcn`, assigner: 'Ontario Ministry of Health',
+    aliases: ['ont', 'ohip', 'moh', 'mohltc'], pattern: /^(\d{10})([A-Z]{1,2})?$/, selfIdentifying: true
+  },
+  {
+    province: 'QC', name: 'Québec', cardName: 'RAMQ health insurance number',
+    system: `${NAMING_SYSTEM}/ca-qc-patient-healthcare-id`, assigner: 'Régie de l\'assurance maladie du Québec',
+    aliases: ['quebec', 'que', 'ramq', 'nam'], pattern: /^[A-Z]{4}\d{8}$/, selfIdentifying: true
+  },
+  {
+    province: 'BC', name: 'British Columbia', cardName: 'BC personal health number',
+    system: `${NAMING_SYSTEM}/ca-bc-patient-healthcare-id`, assigner: 'BC Ministry of Health',
+    aliases: ['msp', 'b.c.'], pattern: /^9\d{9}$/, selfIdentifying: true
+  },
+  {
+    province: 'AB', name: 'Alberta', cardName: 'Alberta personal health number',
+    system: `${NAMING_SYSTEM}/ca-ab-patient-healthcare-id`, assigner: 'Alberta Health',
+    aliases: ['alta', 'ahcip'], pattern: /^\d{9}$/, selfIdentifying: false
+  },
+  {
+    province: 'SK', name: 'Saskatchewan', cardName: 'Saskatchewan health services number',
+    system: `${NAMING_SYSTEM}/ca-sk-patient-healthcare-id`, assigner: 'eHealth Saskatchewan',
+    aliases: ['sask'], pattern: /^\d{9}$/, selfIdentifying: false
+  },
+  {
+    province: 'MB', name: 'Manitoba', cardName: 'Manitoba personal health identification number',
+    system: `${NAMING_SYSTEM}/ca-mb-patient-healthcare-id`, assigner: 'Manitoba Health',
+    aliases: ['man', 'phin'], pattern: /^\d{9}$/, selfIdentifying: false
+  },
+  {
+    province: 'NB', name: 'New Brunswick', cardName: 'New Brunswick Medicare number',
+    system: `${NAMING_SYSTEM}/ca-nb-patient-healthcare-id`, assigner: 'New Brunswick Department of Health',
+    aliases: ['nouveau-brunswick'], pattern: /^\d{9}$/, selfIdentifying: false
+  },
+  {
+    province: 'NS', name: 'Nova Scotia', cardName: 'Nova Scotia MSI health card number',
+    system: `${NAMING_SYSTEM}/ca-ns-patient-healthcare-id`, assigner: 'Nova Scotia Department of Health and Wellness',
+    aliases: ['nouvelle-ecosse', 'msi'], pattern: /^\d{10}$/, selfIdentifying: false
+  },
+  {
+    province: 'PE', name: 'Prince Edward Island', cardName: 'PEI health card number',
+    system: `${NAMING_SYSTEM}/ca-pe-patient-healthcare-id`, assigner: 'Health PEI',
+    aliases: ['pei'], pattern: /^\d{8}$/, selfIdentifying: false
+  },
+  {
+    province: 'NL', name: 'Newfoundland and Labrador', cardName: 'MCP number',
+    system: `${NAMING_SYSTEM}/ca-nl-patient-healthcare-id`, assigner: 'Newfoundland and Labrador Department of Health and Community Services',
+    aliases: ['nfld', 'newfoundland', 'mcp'], pattern: /^\d{12}$/, selfIdentifying: false
+  },
+  {
+    province: 'YT', name: 'Yukon', cardName: 'Yukon health care insurance number',
+    system: `${NAMING_SYSTEM}/ca-yt-patient-healthcare-id`, assigner: 'Yukon Health and Social Services',
+    aliases: ['yukon territory', 'yhcip'], pattern: /^\d{9}$/, selfIdentifying: false
+  },
+  {
+    province: 'NT', name: 'Northwest Territories', cardName: 'NWT health care number',
+    system: `${NAMING_SYSTEM}/ca-nt-patient-healthcare-id`, assigner: 'Northwest Territories Health and Social Services',
+    aliases: ['nwt', 'territoires du nord-ouest'], pattern: /^[A-Z]\d{7}$/, selfIdentifying: false
+  },
+  {
+    province: 'NU', name: 'Nunavut', cardName: 'Nunavut health care number',
+    system: `${NAMING_SYSTEM}/ca-nu-patient-healthcare-id`, assigner: 'Nunavut Department of Health',
+    aliases: ['nvt'], pattern: /^\d{9}$/, selfIdentifying: false
+  }
+];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class HealthCardValidatorService {
+  constructor(private checksums: IdentifierChecksumService) {}
+
+  /**
+   * Checks a health card number against the format and check digit of its issuing province
+   * @param value - Number as written, e.g. "1234-567-897-AB", "GAGL 6811 0312" or "9698 658 215"
+   * @param province - Issuing province when known; otherwise the issuer is inferred from the number
+   * @returns HealthCardCheck with the jurisdiction of a valid number, or the problem of an invalid one
+   */
+  validate(value: string, province?: ProvinceCode): HealthCardCheck {
+    const normalized = String(value).replace(/[\s-]/g, '').toUpperCase();
+    const known = province ? HEALTH_CARD_JURISDICTIONS.filter(j => j.province === province) : HEALTH_CARD_JURISDICTIONS;
+    const fitting = known.filter(jurisdiction => jurisdiction.pattern.test(normalized));
+
+    if (fitting.length === 0) {
+      return {
+        status: 'invalid',
+        number: normalized,
+        candidates: [],
+        problem: province
+          ? `does not match the ${known[0].cardName} format`
+          : 'does not match any provincial or territorial health card format'
+      };
+    }
+
+    // Without a province, only numbers that identify their issuer are decided; the rest need the province
+    const deciding = province ? fitting : fitting.filter(jurisdiction => jurisdiction.selfIdentifying);
+    if (deciding.length === 0) {
+      return { status: 'unknown-province', number: normalized, candidates: fitting.map(j => j.province) };
+    }
+
+    const results = deciding.map(jurisdiction => ({ jurisdiction, problem: this.checkProblem(jurisdiction, normalized) }));
+    const passing = results.filter(result => !result.problem);
+
+    if (passing.length > 1) {
+      return { status: 'unknown-province', number: normalized, candidates: passing.map(r => r.jurisdiction.province) };
+    }
+    if (passing.length === 0) {
+      return { status: 'invalid', number: normalized, candidates: [], problem: results.map(r => r.problem).join('; ') };
+    }
+
+    const jurisdiction = passing[0].jurisdiction;
+    const [, digits, versionCode] = normalized.match(jurisdiction.pattern)!;
+    return jurisdiction.province === 'ON'
+      ? { status: 'valid', number: digits, ...(versionCode && { versionCode }), jurisdiction, candidates: [] }
+      : { status: 'valid', number: normalized, jurisdiction, candidates: [] };
+  }
+
+  /**
+   * Whether a value is written like a health card number of any province, whatever its check digit
+   */
+  fitsAnyFormat(value: string): boolean {
+    const normalized = String(value).replace(/[\s-]/g, '').toUpperCase();
+    return HEALTH_CARD_JURISDICTIONS.some(jurisdiction => jurisdiction.pattern.test(normalized));
+  }
+
+  /**
+   * The issuer of a value that is a valid health card number of a province told from the number alone
+   * (Ontario, British Columbia, Quebec); used to catch health numbers under arbitrary field names
+   */
+  detectCard(value: string): HealthCardJurisdiction | undefined {
+    if (!/^[A-Z0-9][A-Z0-9\s-]{7,18}$/i.test(value.trim())) return undefined;
+    const check = this.validate(value);
+    return check.status === 'valid' ? check.jurisdiction : undefined;
+  }
+
+  /**
+   * Resolves a province code, name, plan name, issuer or identifier system (e.g. "ON", "Québec", "RAMQ") to a province
+   */
+  resolveProvince(text: string | undefined): ProvinceCode | undefined {
+    if (!text) return undefined;
+    const key = this.fold(text);
+
+    return HEALTH_CARD_JURISDICTIONS.find(jurisdiction =>
+      [jurisdiction.province, jurisdiction.name, jurisdiction.system, jurisdiction.assigner, ...jurisdiction.aliases]
+        .some(name => this.fold(name) === key)
+    )?.province;
+  }
+
+  getJurisdiction(province: ProvinceCode): HealthCardJurisdiction {
+    return HEALTH_CARD_JURISDICTIONS.find(jurisdiction => jurisdiction.province === province)!;
+  }
+
+  private checkProblem(jurisdiction: HealthCardJurisdiction, normalized: string): string | null {
+    switch (jurisdiction.province) {
+      case 'ON':
+        return this.checksums.luhnValid(normalized.slice(0, 10)) ? null : `fails the ${jurisdiction.cardName} check digit`;
+      case 'BC':
+        return this.bcCheckDigitValid(normalized) ? null : `fails the ${jurisdiction.cardName} check digit`;
+      case 'QC':
+        return this.ramqDateValid(normalized) ? null : `the ${jurisdiction.cardName} does not encode a valid birth date`;
+      default:
+        return null;
+    }
+  }
+
+  private fold(text: string): string {
+    return text.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  }
+
+  // Mod 11 over digits 2-9 with weights 2, 4, 8, 5, 10, 9, 7, 3; the tenth digit is 11 minus the remainder
+  private bcCheckDigitValid(digits: string): boolean {
+    const weights = [2, 4, 8, 5, 10, 9, 7, 3];
+    const sum = weights.reduce((total, weight, index) => total + (Number(digits[index + 1]) * weight) % 11, 0);
+    const check = 11 - (sum % 11);
+    return check < 10 && check === Number(digits[9]);
+  }
+
+  // NAM: 3 letters of the family name, 1 of the given name, YYMMDD (month + 50 for women), 2 administrative digits
+  private ramqDateValid(nam: string): boolean {
+    const month = Number(nam.slice(6, 8)) % 50;
+    const day = Number(nam.slice(8, 10));
+    return month >= 1 && month <= 12 && day >= 1 && day <= 31;
+  }
+}
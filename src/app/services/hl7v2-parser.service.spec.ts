@@ -0,0 +1,102 @@
+import { TestBed } from '@angular/core/testing';
+import { Hl7v2ParserService } from './hl7v2-parser.service';
+
+const ADT_A04 = [
+  'MSH|^~\\&|REGADT|TORONTO_GEN|MEDIBRIDGE|MEDIBRIDGE|20260114093000||ADT^A04^ADT_A01|MSG00001|P|2.5.1',
+  'EVN|A04|20260114093000',
+  'PID|1||MRN998877^^^TGH^MR~2233445564^^^ON^JHN||Tremblay^Marie^Claire^^Mme^^L||19870322|F|||' +
+    '200 Bay St^Suite 1200^Toronto^ON^M5J 2J2^CAN^H||^PRN^PH^^^416^5551234~^NET^Internet^marie.tremblay@example.com|||M',
+  'NK1|1|Tremblay^Jacques|SPO^Spouse||^PRN^PH^^^416^5554321',
+  'NK1|2|O\'Brien^Siobhan|SIS^Sister'
+].join('\r');
+
+describe('Hl7v2ParserService', () => {
+  let service: Hl7v2ParserService;
+
+  beforeEach(() => {
+    service = TestBed.inject(Hl7v2ParserService);
+  });
+
+  it('recognises messages, MLLP-framed or not', () => {
+    expect(service.isHL7v2(ADT_A04)).toBe(true);
+    expect(service.isHL7v2(`\x0b${ADT_A04}\x1c\r`)).toBe(true);
+    expect(service.isHL7v2('{"resourceType": "Patient"}')).toBe(false);
+  });
+
+  it('reads the header and indexes fields by their HL7 number', () => {
+    const message = service.parse(ADT_A04);
+    const pid = service.getSegment(message, 'PID')!;
+
+    expect(message).toMatchObject({ messageType: 'ADT', triggerEvent: 'A04', controlId: 'MSG00001', version: '2.5.1' });
+    expect(message.delimiters).toEqual({ field: '|', component: '^', repetition: '~', escape: '\\', subcomponent: '&' });
+    expect(service.getValue(pid, 5, 2)).toBe('Marie');
+    expect(service.getValue(pid, 3, 1, 1, 1)).toBe('2233445564');
+    expect(service.getRepetitions(pid, 13)).toHaveLength(2);
+    expect(service.getSegments(message, 'NK1')).toHaveLength(2);
+  });
+
+  it('splits a batch into messages and skips the envelope segments', () => {
+    const batch = ['FHS|^~\\&', 'BHS|^~\\&', ADT_A04, ADT_A04.replace('MSG00001', 'MSG00002'), 'BTS|2', 'FTS|1'].join('\n');
+
+    expect(service.parseMessages(batch).map(message => message.controlId)).toEqual(['MSG00001', 'MSG00002']);
+  });
+
+  it('decodes escape sequences', () => {
+    const message = service.parse('MSH|^~\\&|APP\r' + 'NTE|1||Smith \\T\\ Sons\\.br\\Line \\F\\ two \\X41\\');
+    expect(service.getValue(service.getSegment(message, 'NTE')!, 3)).toBe('Smith & Sons\nLine | two A');
+  });
+
+  it('rejects text that does not start with MSH', () => {
+    expect(() => service.parseMessages('PID|1||123')).toThrowError('HL7 v2 message must start with an MSH segment (found "PID")');
+  });
+
+  describe('toRecord', () => {
+    it('names identifiers by their CX-5 type and splits each repetition into named components', () => {
+      const record = service.toRecord(service.parse(ADT_A04));
+
+      expect(record.PID.patientIdentifierList).toEqual([
+        { medicalRecordNumber: 'MRN998877', assigningAuthority: 'TGH', identifierTypeCode: 'MR' },
+        { healthCardNumber: '2233445564', assigningAuthority: 'ON', identifierTypeCode: 'JHN' }
+      ]);
+      expect(record.PID.patientName).toEqual({
+        familyName: 'Tremblay', givenName: 'Marie', middleName: 'Claire', prefix: 'Mme', nameTypeCode: 'L'
+      });
+      expect(record.PID.phoneNumberHome[1]).toEqual({ useCode: 'NET', equipmentType: 'Internet', emailAddress: 'marie.tremblay@example.com' });
+      expect(record.PID.maritalStatus).toBe('M');
+    });
+
+    it('keeps repeated segments as an array and other fields as text', () => {
+      const record = service.toRecord(service.parse(ADT_A04));
+
+      expect(record.MSH.messageType).toBe('ADT^A04^ADT_A01');
+      expect(record.NK1).toHaveLength(2);
+      expect(record.NK1[0]).toMatchObject({ setId: '1', name: { familyName: 'Tremblay', givenName: 'Jacques' }, relationship: 'SPO^Spouse' });
+    });
+  });
+
+  describe('fromRecord', () => {
+    it('rebuilds the message a record was read from', () => {
+      const message = service.parse(ADT_A04);
+      const record = service.toRecord(message);
+      const rebuilt = service.fromRecord(structuredClone(record), message.delimiters);
+
+      expect(rebuilt).toMatchObject({ messageType: 'ADT', triggerEvent: 'A04', controlId: 'MSG00001', version: '2.5.1' });
+      expect(service.toRecord(rebuilt)).toEqual(record);
+      expect(service.toRecord(service.parse(service.toText(rebuilt)))).toEqual(record);
+    });
+
+    it('leaves out removed fields and escapes delimiters in edited values', () => {
+      const message = service.parse(ADT_A04);
+      const record = service.toRecord(message);
+      delete record.PID.patientIdentifierList;
+      record.PID.patientName.familyName = 'Smith|Jones';
+
+      const text = service.toText(service.fromRecord(record, message.delimiters));
+      const pid = service.getSegment(service.parse(text), 'PID')!;
+
+      expect(text).toContain('Smith\\F\\Jones^Marie');
+      expect(service.getValue(pid, 3)).toBeUndefined();
+      expect(service.getValue(pid, 5)).toBe('Smith|Jones');
+    });
+  });
+});
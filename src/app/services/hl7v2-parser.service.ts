@@ -0,0 +1,399 @@
+import { Injectable } from '@angular/core';
+import {
+  HL7v2Message,
+  HL7v2Segment,
+  HL7v2Field,
+  HL7v2Delimiters,
+  HL7v2CompositeType,
+  HL7V2_COMPONENT_NAMES,
+  HL7V2_FIELD_NAMES,
+  HL7V2_FIELD_TYPES,
+  HL7V2_IDENTIFIER_NAMES
+} from '../models/hl7v2.model';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class Hl7v2ParserService {
+  constructor() {}
+
+  /**
+   * Whether the text looks like a pipe-delimited HL7 v2 message (or batch of messages)
+   */
+  isHL7v2(text: string): boolean {
+    return /^(MSH|FHS|BHS)./.test(this.stripFraming(text).trimStart());
+  }
+
+  /**
+   * Parses one or more HL7 v2.x messages; every MSH segment starts a new message
+   * @param text - Raw message text (segments separated by CR, LF or CRLF)
+   * @returns The parsed messages
+   */
+  parseMessages(text: string): HL7v2Message[] {
+    const lines = this.stripFraming(text)
+      .split(/\r\n|\r|\n/)
+      .map(line => line.trim())
+      .filter(line => line.length > 0);
+
+    const messages: string[][] = [];
+    for (const line of lines) {
+      // Batch envelope segments carry no patient data
+      if (/^(FHS|BHS|BTS|FTS)/.test(line)) {
+        continue;
+      }
+      if (line.startsWith('MSH')) {
+        messages.push([]);
+      }
+      if (messages.length === 0) {
+        throw new Error(`HL7 v2 message must start with an MSH segment (found "${line.slice(0, 3)}")`);
+      }
+      messages[messages.length - 1].push(line);
+    }
+
+    if (messages.length === 0) {
+      throw new Error('No HL7 v2 segments found');
+    }
+
+    return messages.map(segmentLines => this.parseMessage(segmentLines));
+  }
+
+  /**
+   * Parses a single HL7 v2.x message
+   */
+  parse(text: string): HL7v2Message {
+    return this.parseMessages(text)[0];
+  }
+
+  /**
+   * Whether a value is an already-parsed HL7 v2 message
+   */
+  isMessage(data: any): data is HL7v2Message {
+    return !!data && typeof data === 'object' && Array.isArray(data.segments) && !!data.delimiters;
+  }
+
+  getSegments(message: HL7v2Message, name: string): HL7v2Segment[] {
+    return message.segments.filter(segment => segment.name === name);
+  }
+
+  getSegment(message: HL7v2Message, name: string): HL7v2Segment | undefined {
+    return message.segments.find(segment => segment.name === name);
+  }
+
+  /**
+   * Returns all repetitions of a field (components of subcomponents)
+   */
+  getRepetitions(segment: HL7v2Segment, field: number): string[][][] {
+    return segment.fields[field] || [];
+  }
+
+  /**
+   * Reads a single value; component/subcomponent positions are 1-based as in HL7 notation
+   */
+  getValue(
+    segment: HL7v2Segment,
+    field: number,
+    component = 1,
+    subcomponent = 1,
+    repetition = 0
+  ): string | undefined {
+    const value = segment.fields[field]?.[repetition]?.[component - 1]?.[subcomponent - 1];
+    return value ? value : undefined;
+  }
+
+  /**
+   * Reads a component from an already selected field repetition
+   */
+  getComponent(repetition: string[][], component: number, subcomponent = 1): string | undefined {
+    const value = repetition[component - 1]?.[subcomponent - 1];
+    return value ? value : undefined;
+  }
+
+  /**
+   * Flattens the message into a plain object keyed by segment and field name so
+   * it can be scanned and displayed like JSON input. Identifiers, names, addresses and
+   * phone numbers are split into their repetitions and named components, e.g.
+   * PID.patientIdentifierList[1].healthCardNumber, so each value is read for what it is.
+   */
+  toRecord(message: HL7v2Message): any {
+    const record: any = {};
+
+    message.segments.forEach(segment => {
+      const names = HL7V2_FIELD_NAMES[segment.name] || {};
+      const types = HL7V2_FIELD_TYPES[segment.name] || {};
+      const fields: any = {};
+
+      segment.fields.forEach((field, index) => {
+        if (index === 0 || (segment.name === 'MSH' && index <= 2)) {
+          return;
+        }
+        const value = types[index]
+          ? this.fieldToComposite(field, types[index], message.delimiters)
+          : this.fieldToText(field, message.delimiters);
+        if (value) {
+          fields[names[index] || `${segment.name}-${index}`] = value;
+        }
+      });
+
+      if (record[segment.name]) {
+        record[segment.name] = ([] as any[]).concat(record[segment.name], fields);
+      } else {
+        record[segment.name] = fields;
+      }
+    });
+
+    return record;
+  }
+
+  /**
+   * Rebuilds a message from the record toRecord flattened it into, e.g. once fields of the record were
+   * masked or removed. Text fields are split at the message's delimiters again, and repeated segments
+   * follow each other in the order of the record.
+   * @param delimiters - Delimiters of the message the record was read from
+   */
+  fromRecord(record: any, delimiters: HL7v2Delimiters): HL7v2Message {
+    const segments: HL7v2Segment[] = [];
+    Object.entries(record ?? {}).forEach(([name, value]) => {
+      ([] as any[]).concat(value).forEach(fields => segments.push(this.segmentFromRecord(name, fields, delimiters)));
+    });
+    return this.toMessage(delimiters, segments);
+  }
+
+  /**
+   * Writes a message as pipe-delimited text, one segment per line ending in CR, with delimiters
+   * and line breaks inside values escaped
+   */
+  toText(message: HL7v2Message): string {
+    const { delimiters } = message;
+    return message.segments
+      .map(segment => {
+        // MSH-1 is the field separator that joins the fields, and MSH-2 is written as it is
+        const fields = segment.name === 'MSH' ? [segment.fields[0], ...segment.fields.slice(2)] : segment.fields;
+        return fields
+          .map((field, index) => (index === 0 || (segment.name === 'MSH' && index === 1)
+            ? field[0]?.[0]?.[0] ?? ''
+            : field
+              .map(repetition => repetition
+                .map(component => component.map(sub => this.escape(sub, delimiters)).join(delimiters.subcomponent))
+                .join(delimiters.component))
+              .join(delimiters.repetition)))
+          .join(delimiters.field);
+      })
+      .map(line => `${line}\r`)
+      .join('');
+  }
+
+  private parseMessage(segmentLines: string[]): HL7v2Message {
+    const header = segmentLines[0];
+    if (header.length < 8) {
+      throw new Error('MSH segment is too short to define delimiters');
+    }
+
+    const encodingEnd = header.indexOf(header[3], 4);
+    const encoding = header.slice(4, encodingEnd === -1 ? undefined : encodingEnd);
+    const delimiters: HL7v2Delimiters = {
+      field: header[3],
+      component: encoding[0] || '^',
+      repetition: encoding[1] || '~',
+      escape: encoding[2] || '\\',
+      subcomponent: encoding[3] || '&'
+    };
+
+    return this.toMessage(delimiters, segmentLines.map(line => this.parseSegment(line, delimiters)));
+  }
+
+  // The message with the type, trigger event, control id and version of its MSH segment
+  private toMessage(delimiters: HL7v2Delimiters, segments: HL7v2Segment[]): HL7v2Message {
+    const msh = this.getSegment({ delimiters, segments }, 'MSH');
+
+    return {
+      delimiters,
+      segments,
+      messageType: msh && this.getValue(msh, 9, 1),
+      triggerEvent: msh && this.getValue(msh, 9, 2),
+      controlId: msh && this.getValue(msh, 10),
+      version: msh && this.getValue(msh, 12)
+    };
+  }
+
+  private parseSegment(line: string, delimiters: HL7v2Delimiters): HL7v2Segment {
+    const rawFields = line.split(delimiters.field);
+    const name = rawFields[0];
+    const fields: HL7v2Field[] = [[[[name]]]];
+
+    if (name === 'MSH') {
+      // MSH-1 is the field separator itself and MSH-2 the (unescaped) encoding characters
+      fields.push([[[delimiters.field]]]);
+      fields.push([[[rawFields[1] || '']]]);
+      rawFields.slice(2).forEach(raw => fields.push(this.parseField(raw, delimiters)));
+    } else {
+      rawFields.slice(1).forEach(raw => fields.push(this.parseField(raw, delimiters)));
+    }
+
+    return { name, fields };
+  }
+
+  private parseField(raw: string, delimiters: HL7v2Delimiters): HL7v2Field {
+    // An explicit HL7 null ("") is treated as an empty value
+    if (raw === '' || raw === '""') {
+      return [];
+    }
+
+    return raw.split(delimiters.repetition).map(repetition =>
+      repetition.split(delimiters.component).map(component =>
+        component.split(delimiters.subcomponent).map(sub => this.unescape(sub, delimiters))
+      )
+    );
+  }
+
+  /**
+   * Decodes HL7 escape sequences (\F\, \S\, \T\, \R\, \E\, \Xhh\, \.br\ and formatting codes)
+   */
+  private unescape(value: string, delimiters: HL7v2Delimiters): string {
+    const esc = delimiters.escape;
+    if (!value.includes(esc)) {
+      return value;
+    }
+
+    const pattern = new RegExp(`${this.escapeRegExp(esc)}([^${this.escapeRegExp(esc)}]*)${this.escapeRegExp(esc)}`, 'g');
+
+    return value.replace(pattern, (match: string, code: string) => {
+      switch (code) {
+        case 'F': return delimiters.field;
+        case 'S': return delimiters.component;
+        case 'T': return delimiters.subcomponent;
+        case 'R': return delimiters.repetition;
+        case 'E': return delimiters.escape;
+        case '.br': return '\n';
+        case 'H':
+        case 'N':
+          return '';
+      }
+
+      if (/^X([0-9A-Fa-f]{2})+$/.test(code)) {
+        return code.slice(1).match(/.{2}/g)!
+          .map(hex => String.fromCharCode(parseInt(hex, 16)))
+          .join('');
+      }
+
+      // Character set switches (\Cxxyy\, \Mxxyyzz\) and formatting commands carry no text
+      if (/^(C|M|\.)/.test(code)) {
+        return '';
+      }
+
+      return match;
+    });
+  }
+
+  private fieldToText(field: HL7v2Field, delimiters: HL7v2Delimiters): string {
+    return field
+      .map(repetition => repetition
+        .map(component => component.join(delimiters.subcomponent))
+        .join(delimiters.component)
+        .replace(new RegExp(`${this.escapeRegExp(delimiters.component)}+$`), ''))
+      .filter(text => text.length > 0)
+      .join(delimiters.repetition);
+  }
+
+  // One object per repetition, keyed by component name; a single repetition is not wrapped in an array
+  private fieldToComposite(field: HL7v2Field, type: HL7v2CompositeType, delimiters: HL7v2Delimiters): any {
+    const repetitions = field
+      .map(repetition => {
+        const names = type === 'CX'
+          ? { ...HL7V2_COMPONENT_NAMES.CX, 1: HL7V2_IDENTIFIER_NAMES[this.getComponent(repetition, 5) ?? ''] || 'idNumber' }
+          : HL7V2_COMPONENT_NAMES[type];
+        const components: Record<string, string> = {};
+        repetition.forEach((subcomponents, index) => {
+          const text = subcomponents.join(delimiters.subcomponent)
+            .replace(new RegExp(`${this.escapeRegExp(delimiters.subcomponent)}+$`), '');
+          if (text) {
+            components[names[index + 1] || `${type}-${index + 1}`] = text;
+          }
+        });
+        return components;
+      })
+      .filter(components => Object.keys(components).length > 0);
+
+    if (repetitions.length === 0) return undefined;
+    return repetitions.length === 1 ? repetitions[0] : repetitions;
+  }
+
+  private segmentFromRecord(name: string, fields: any, delimiters: HL7v2Delimiters): HL7v2Segment {
+    const types = HL7V2_FIELD_TYPES[name] || {};
+    const numbers: Record<string, number> = Object.fromEntries(
+      Object.entries(HL7V2_FIELD_NAMES[name] || {}).map(([index, fieldName]) => [fieldName, Number(index)])
+    );
+    const segment: HL7v2Segment = { name, fields: [[[[name]]]] };
+    if (name === 'MSH') {
+      segment.fields[1] = [[[delimiters.field]]];
+      segment.fields[2] = [[[delimiters.component + delimiters.repetition + delimiters.escape + delimiters.subcomponent]]];
+    }
+
+    Object.entries(fields && typeof fields === 'object' ? fields : {}).forEach(([key, value]) => {
+      const index = numbers[key] ?? this.position(key, name);
+      if (!index || value === undefined || value === null) return;
+      segment.fields[index] = types[index] && typeof value === 'object'
+        ? this.compositeToField(value, types[index], delimiters)
+        : this.textToField(String(value), delimiters);
+    });
+
+    // Fields the record does not hold are empty
+    return { name, fields: Array.from(segment.fields, field => field ?? []) };
+  }
+
+  private compositeToField(value: any, type: HL7v2CompositeType, delimiters: HL7v2Delimiters): HL7v2Field {
+    const positions: Record<string, number> = Object.fromEntries(
+      Object.entries(HL7V2_COMPONENT_NAMES[type]).map(([index, componentName]) => [componentName, Number(index)])
+    );
+    if (type === 'CX') {
+      Object.values(HL7V2_IDENTIFIER_NAMES).forEach(componentName => positions[componentName] = 1);
+    }
+
+    return ([] as any[]).concat(value).map(components => {
+      if (!components || typeof components !== 'object') {
+        return this.textToField(String(components ?? ''), delimiters)[0] ?? [];
+      }
+      const repetition: string[][] = [];
+      Object.entries(components).forEach(([key, text]) => {
+        const position = positions[key] ?? this.position(key, type);
+        if (position) {
+          repetition[position - 1] = String(text).split(delimiters.subcomponent);
+        }
+      });
+      return Array.from(repetition, component => component ?? ['']);
+    });
+  }
+
+  private textToField(text: string, delimiters: HL7v2Delimiters): HL7v2Field {
+    return text === ''
+      ? []
+      : text.split(delimiters.repetition).map(repetition =>
+        repetition.split(delimiters.component).map(component => component.split(delimiters.subcomponent)));
+  }
+
+  // Position of an unnamed field or component from its "PID-21" or "CX-8" style key
+  private position(key: string, prefix: string): number | undefined {
+    const match = key.match(/^(.+)-(\d+)$/);
+    return match && match[1] === prefix ? Number(match[2]) : undefined;
+  }
+
+  private escape(value: string, delimiters: HL7v2Delimiters): string {
+    const codes: Record<string, string> = {
+      [delimiters.escape]: 'E',
+      [delimiters.field]: 'F',
+      [delimiters.component]: 'S',
+      [delimiters.subcomponent]: 'T',
+      [delimiters.repetition]: 'R',
+      '\n': '.br'
+    };
+    return [...value].map(char => (codes[char] ? `${delimiters.escape}${codes[char]}${delimiters.escape}` : char)).join('');
+  }
+
+  private stripFraming(text: string): string {
+    // Remove MLLP start/end block characters
+    return text.replace(/[\x0b\x1c]/g, '');
+  }
+
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -0,0 +1,55 @@
+import { TestBed } from '@angular/core/testing';
+import { IdentifierChecksumService } from './identifier-checksum.service';
+
+describe('IdentifierChecksumService', () => {
+  let service: IdentifierChecksumService;
+
+  beforeEach(() => {
+    service = TestBed.inject(IdentifierChecksumService);
+  });
+
+  describe('luhnValid', () => {
+    it('accepts numbers whose last digit is the mod 10 check digit', () => {
+      expect(service.luhnValid('4111111111111111')).toBe(true);
+      expect(service.luhnValid('1234567897')).toBe(true);
+    });
+
+    it('rejects a wrong check digit and non-digits', () => {
+      expect(service.luhnValid('1234567890')).toBe(false);
+      expect(service.luhnValid('1234-567-897')).toBe(false);
+      expect(service.luhnValid('')).toBe(false);
+    });
+  });
+
+  describe('isValidSin', () => {
+    it('accepts a Luhn-valid nine-digit SIN', () => {
+      expect(service.isValidSin('130692544')).toBe(true);
+    });
+
+    it('rejects a wrong check digit', () => {
+      expect(service.isValidSin('130692545')).toBe(false);
+    });
+
+    it('rejects numbers starting with 0 or 8, which are never issued to individuals', () => {
+      expect(service.isValidSin('046454286')).toBe(false);
+    });
+
+    it('rejects other lengths', () => {
+      expect(service.isValidSin('13069254')).toBe(false);
+      expect(service.isValidSin('1306925440')).toBe(false);
+    });
+  });
+
+  describe('cardIssuer', () => {
+    it('names the issuer when prefix, length and check digit agree', () => {
+      expect(service.cardIssuer('4111111111111111')).toBe('Visa');
+      expect(service.cardIssuer('5555555555554444')).toBe('Mastercard');
+      expect(service.cardIssuer('378282246310005')).toBe('American Express');
+    });
+
+    it('returns undefined for a wrong check digit or a length the issuer does not use', () => {
+      expect(service.cardIssuer('4111111111111112')).toBeUndefined();
+      expect(service.cardIssuer('411111111111111')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { Injectable } from '@angular/core';
+
+interface CardIssuer {
+  name: string;
+  prefix: RegExp; // Issuer identification number range
+  lengths: number[];
+}
+
+// Payment card issuer prefix ranges and the card lengths each issues
+const CARD_ISSUERS: CardIssuer[] = [
+  { name: 'Visa', prefix: /^4/, lengths: [13, 16, 19] },
+  { name: 'Mastercard', prefix: /^(5[1-5]|222[1-9]|22[3-9]\d|2[3-6]\d{2}|27[01]\d|2720)/, lengths: [16] },
+  { name: 'American Express', prefix: /^3[47]/, lengths: [15] },
+  { name: 'Discover', prefix: /^(6011|64[4-9]|65)/, lengths: [16, 19] },
+  { name: 'JCB', prefix: /^(352[89]|35[3-8]\d)/, lengths: [16, 19] },
+  { name: 'Diners Club', prefix: /^(30[0-5]|36|38)/, lengths: [14] }
+];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class IdentifierChecksumService {
+  constructor() {}
+
+  /**
+   * Mod 10 (Luhn) check over all digits, the last being the check digit
+   */
+  luhnValid(digits: string): boolean {
+    if (!/^\d+$/.test(digits)) return false;
+
+    const sum = [...digits].reverse().reduce((total, char, index) => {
+      let digit = Number(char);
+      if (index % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      return total + digit;
+    }, 0);
+    return sum % 10 === 0;
+  }
+
+  /**
+   * Whether nine digits can be a Social Insurance Number: Luhn-valid and not starting with 0 or 8,
+   * which are never issued to individuals
+   */
+  isValidSin(digits: string): boolean {
+    return /^[1-79]\d{8}$/.test(digits) && this.luhnValid(digits);
+  }
+
+  /**
+   * The issuer of a payment card number whose prefix, length and Luhn check digit all agree
+   * @returns The issuer name, or undefined when the number is not a valid card number
+   */
+  cardIssuer(digits: string): string | undefined {
+    const issuer = CARD_ISSUERS.find(card => card.prefix.test(digits) && card.lengths.includes(digits.length));
+    return issuer && this.luhnValid(digits) ? issuer.name : undefined;
+  }
+}
@@ -1,26 +1,157 @@
 import { Injectable } from '@angular/core';
 import { FhirConverterService } from './fhir-converter.service';
 import { PhipaValidationService } from './phipa-validation.service';
-import { FHIRConversionResult } from '../models/fhir.model';
-import { PHIPAValidationResult } from '../models/phipa.model';
+import { FreeTextPhiService } from './free-text-phi.service';
+import { ConsentService } from './consent.service';
+import { CapacityService } from './capacity.service';
+import { ReidentificationRiskService } from './reidentification-risk.service';
+import { Hl7v2ParserService } from './hl7v2-parser.service';
+import { CsvParserService } from './csv-parser.service';
+import { CdaParserService } from './cda-parser.service';
+import { TableDataService } from './table-data.service';
+import { CsvParseOptions, CsvPreview, DecodedText } from '../models/csv.model';
+import {
+  FHIRBundle,
+  FHIRBundleConversionResult,
+  FHIRBundleEntry,
+  FHIRBundleType,
+  FHIRConversionResult,
+  FHIRPatient
+} from '../models/fhir.model';
+import { PHILeakageItem, PHIPAValidationResult, PHIPAViolation } from '../models/phipa.model';
+import { CapacityAssessment } from '../models/capacity.model';
+import { ConsentState } from '../models/consent.model';
+import { ReidentificationRiskAssessment, RiskRecord } from '../models/reidentification-risk.model';
 
 export interface InteroperabilityResult {
   originalData: any;
   fhirConversion: FHIRConversionResult;
   phipaValidation: PHIPAValidationResult;
+  outputValidation?: PHIPAValidationResult; // Same rules applied to the converted Patient as it would be exported
+  consent: ConsentState;
+  capacity: CapacityAssessment; // Age, capacity and substitute decision-makers of the patient
   processedAt: Date;
   dataQualityScore: number;
 }
 
+export type InputFormat = 'json' | 'hl7v2' | 'cda' | 'csv';
+
+export interface BatchSummary {
+  totalRecords: number;
+  convertedCount: number;
+  failedCount: number;
+  compliantCount: number;
+  nonCompliantCount: number;
+  totalViolations: number;
+  averageQualityScore: number;
+}
+
+// How the data quality score was reached: conversion (30, or 10 for a failed conversion with a mapping log),
+// completeness of the Patient (20) and compliance (50, less the weighted penalty of each violation)
+export interface QualityScoreBreakdown {
+  conversion: number;
+  completeness: number;
+  missingElements: string[]; // Patient elements that cost completeness points
+  compliance: number;
+  deduction: number; // Penalty of the violations before the compliance points were floored at 0
+  total: number;
+}
+
+export interface BatchInteroperabilityResult {
+  records: InteroperabilityResult[];
+  bundleConversion: FHIRBundleConversionResult;
+  summary: BatchSummary;
+  riskAssessment: ReidentificationRiskAssessment; // Dataset-level counterpart of each record's PHIPA validation
+  processedAt: Date;
+}
+
+export interface DisclosableBundle {
+  bundle: FHIRBundle;
+  excluded: number; // Records left out because consent was withdrawn
+}
+
 @Injectable({
   providedIn: 'root'
 })
 export class InteroperabilityService {
   constructor(
     private fhirConverter: FhirConverterService,
-    private phipaValidator: PhipaValidationService
+    private phipaValidator: PhipaValidationService,
+    private hl7Parser: Hl7v2ParserService,
+    private csvParser: CsvParserService,
+    private cdaParser: CdaParserService,
+    private tableDataService: TableDataService,
+    private freeText: FreeTextPhiService,
+    private consents: ConsentService,
+    private capacities: CapacityService,
+    private risk: ReidentificationRiskService
   ) {}
 
+  /**
+   * Decodes an uploaded file, handling BOMs and Latin-1 exports
+   */
+  decodeFile(buffer: ArrayBuffer): DecodedText {
+    return this.csvParser.decode(buffer);
+  }
+
+  /**
+   * Detects the format of raw input text
+   */
+  detectFormat(content: string): InputFormat {
+    const trimmed = content.replace(/^\uFEFF/, '').trimStart();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      return 'json';
+    }
+    if (this.hl7Parser.isHL7v2(trimmed)) {
+      return 'hl7v2';
+    }
+    if (this.cdaParser.isCda(trimmed)) {
+      return 'cda';
+    }
+    return 'csv';
+  }
+
+  /**
+   * Parses raw input text: pipe-delimited HL7 v2 messages (a batch when more than
+   * one MSH is present), CDA XML documents or JSON. Delimited text goes through the
+   * CSV preview instead.
+   */
+  parseInput(content: string): any {
+    const format = this.detectFormat(content);
+
+    if (format === 'hl7v2') {
+      const messages = this.hl7Parser.parseMessages(content);
+      return messages.length === 1 ? messages[0] : messages;
+    }
+
+    if (format === 'cda') {
+      return this.cdaParser.parse(content);
+    }
+
+    return JSON.parse(content);
+  }
+
+  /**
+   * Parses delimited text into records plus a typed table preview, so the user can
+   * check columns before committing the run
+   */
+  previewCsv(fileName: string, decoded: DecodedText, options: CsvParseOptions = {}): CsvPreview {
+    const parseResult = this.csvParser.parse(decoded.text, options);
+
+    if (parseResult.records.length === 0) {
+      throw new Error('No data rows found in CSV file');
+    }
+
+    return {
+      fileName,
+      text: decoded.text,
+      encoding: decoded.encoding,
+      options,
+      parseResult,
+      table: this.tableDataService.convertToTableData(parseResult.records)
+    };
+  }
+
   /**
    * Process JSON data through the MediBridge pipeline:
    * 1. Convert to FHIR Patient resource
@@ -31,8 +162,152 @@ export class InteroperabilityService {
     // Step 1: Convert to FHIR
     const fhirConversion = this.fhirConverter.convertToFHIRPatient(jsonData);
 
-    // Step 2: Validate PHIPA compliance on original data
-    const phipaValidation = this.phipaValidator.validateData(jsonData);
+    // Steps 2-3: Validate and score
+    return this.buildResult(jsonData, fhirConversion);
+  }
+
+  /**
+   * Runs the remediated copy of a record through the pipeline again. HL7 v2 messages and CDA documents are
+   * remediated as the record the converter read them into, so the copy is rebuilt into a message or document
+   * first and converted the way the original was.
+   * @param remediated - Remediated copy of the record that was scanned, i.e. of the flattened record for HL7 v2 and CDA
+   */
+  processRemediated(result: InteroperabilityResult, remediated: any): InteroperabilityResult {
+    const original = result.originalData;
+    const source = this.hl7Parser.isMessage(original)
+      ? this.hl7Parser.fromRecord(remediated, original.delimiters)
+      : this.cdaParser.isDocument(original)
+        ? this.cdaParser.fromRecord(remediated, original)
+        : remediated;
+
+    // Directives entered in the application follow the copy into the message or document it was rebuilt into
+    if (source !== remediated) {
+      this.consents.getManualDirectives(remediated).forEach(({ id, source: _, ...directive }) =>
+        this.consents.addManualDirective(source, directive)
+      );
+    }
+    return this.processPatientData(source);
+  }
+
+  /**
+   * Process every record of a batch through the pipeline and wrap the
+   * converted Patients in a single FHIR Bundle
+   */
+  processBatch(records: any[], bundleType: FHIRBundleType = 'transaction'): BatchInteroperabilityResult {
+    const bundleConversion = this.fhirConverter.convertToFHIRBundle(records, bundleType);
+
+    const results = bundleConversion.entries.map((fhirConversion, index) =>
+      this.buildResult(records[index], fhirConversion)
+    );
+
+    return {
+      records: results,
+      bundleConversion,
+      summary: this.summarizeBatch(results),
+      riskAssessment: this.risk.assess(this.getRiskRecords(results)),
+      processedAt: new Date()
+    };
+  }
+
+  /**
+   * Pseudonymizes the identifiers of processed records when the option is on. WebCrypto is
+   * asynchronous, so this follows the synchronous pipeline before results are shown.
+   */
+  async pseudonymize(results: InteroperabilityResult[]): Promise<void> {
+    for (const result of results) {
+      await this.fhirConverter.pseudonymizeIdentifiers(result.fhirConversion);
+      result.outputValidation = this.validateOutput(result.fhirConversion, result.consent);
+    }
+  }
+
+  /**
+   * Redacts the identifiers a free-text finding located, in place in the scanned record, and
+   * re-validates the record. The conversion stands: text flagged as PHI is never carried into the Patient.
+   * @returns false when the text no longer matches the finding
+   */
+  redactFreeText(result: InteroperabilityResult, violation: PHIPAViolation): boolean {
+    const data = result.fhirConversion.originalData ?? result.originalData;
+    if (!violation.spans || !this.freeText.redactAt(data, violation.field, violation.spans)) {
+      return false;
+    }
+
+    this.revalidate(result);
+    return true;
+  }
+
+  /**
+   * Re-reads the consent directives of a record after manual directives were added or removed,
+   * then re-validates and rescores it
+   */
+  refreshConsent(result: InteroperabilityResult): void {
+    result.consent = this.consents.evaluate(result.fhirConversion.originalData ?? result.originalData, result.originalData);
+    this.revalidate(result);
+  }
+
+  /**
+   * The batch Bundle as it may be disclosed: records whose consent was withdrawn are left out, elements
+   * in a lockbox are withheld, and each Patient is followed by Consent resources recording its directives
+   */
+  disclosableBundle(batch: BatchInteroperabilityResult): DisclosableBundle {
+    const source = batch.bundleConversion.bundle;
+    const entry: FHIRBundleEntry[] = [];
+    let excluded = 0;
+
+    (source.entry ?? []).forEach(patientEntry => {
+      const record = batch.records.find(result => result.fhirConversion.fhirResource === patientEntry.resource);
+      if (!record) {
+        entry.push(patientEntry);
+        return;
+      }
+      if (!this.consents.canDisclose(record.consent)) {
+        excluded++;
+        return;
+      }
+
+      entry.push({ ...patientEntry, resource: this.consents.withholdLocked(patientEntry.resource as FHIRPatient, record.consent) });
+      const patientReference = patientEntry.fullUrl ?? `Patient/${patientEntry.resource?.id}`;
+      this.consents.toFhirConsents(record.consent, patientReference).forEach(consent => entry.push({
+        fullUrl: `urn:uuid:${consent.id}`,
+        resource: consent,
+        ...(source.type === 'transaction' && { request: { method: 'POST' as const, url: 'Consent' } })
+      }));
+    });
+
+    return { bundle: { ...source, entry }, excluded };
+  }
+
+  /**
+   * Re-assesses the re-identification risk of a batch, e.g. after the quasi-identifiers changed
+   */
+  assessRisk(batch: BatchInteroperabilityResult): void {
+    batch.riskAssessment = this.risk.assess(this.getRiskRecords(batch.records));
+  }
+
+  // HL7 v2 input is read as the record the converter flattened it into
+  getRiskRecords(results: InteroperabilityResult[]): RiskRecord[] {
+    return results.map(result => ({
+      patient: result.fhirConversion.success ? result.fhirConversion.fhirResource : undefined,
+      source: result.fhirConversion.originalData ?? result.originalData
+    }));
+  }
+
+  /**
+   * Returns the patient records of a batch input (a top-level array or a
+   * `{ "patients": [...] }` wrapper), or undefined for a single record
+   */
+  getBatchRecords(data: any): any[] | undefined {
+    const records = Array.isArray(data) ? data : data?.patients;
+    return Array.isArray(records) && records.length > 1 ? records : undefined;
+  }
+
+  private buildResult(jsonData: any, fhirConversion: FHIRConversionResult): InteroperabilityResult {
+    // Step 2: Validate PHIPA compliance on original data (as flattened by the converter for HL7 input),
+    // taking the consent directives and the patient's capacity into account
+    const scanned = fhirConversion.originalData ?? jsonData;
+    const consent = this.consents.evaluate(scanned, jsonData);
+    const capacity = this.capacities.assess(scanned, fhirConversion.fhirResource);
+    const phipaValidation = this.phipaValidator.validateData(scanned, { consent, capacity });
+    const outputValidation = this.validateOutput(fhirConversion, consent);
 
     // Step 3: Calculate data quality score
     const dataQualityScore = this.calculateDataQualityScore(fhirConversion, phipaValidation);
@@ -41,11 +316,63 @@ export class InteroperabilityService {
       originalData: jsonData,
       fhirConversion,
       phipaValidation,
+      outputValidation,
+      consent,
+      capacity,
       processedAt: new Date(),
       dataQualityScore
     };
   }
 
+  /**
+   * Re-validates and rescores a record, e.g. after another purpose of use was picked
+   */
+  revalidate(result: InteroperabilityResult): void {
+    const data = result.fhirConversion.originalData ?? result.originalData;
+    result.phipaValidation = this.phipaValidator.validateData(data, { consent: result.consent, capacity: result.capacity });
+    result.outputValidation = this.validateOutput(result.fhirConversion, result.consent);
+    result.dataQualityScore = this.calculateDataQualityScore(result.fhirConversion, result.phipaValidation);
+  }
+
+  /**
+   * Which sensitive items of a record were carried into its Patient and which were kept out
+   */
+  getLeakage(result: InteroperabilityResult): PHILeakageItem[] {
+    const patient = result.fhirConversion.fhirResource;
+    if (!patient || !result.outputValidation) return [];
+    return this.phipaValidator.compareWithOutput(
+      result.phipaValidation,
+      result.outputValidation,
+      result.fhirConversion.originalData ?? result.originalData,
+      this.consents.withholdLocked(patient, result.consent)
+    );
+  }
+
+  // The Patient is validated as it leaves the application, without the elements a lockbox withholds
+  private validateOutput(fhirConversion: FHIRConversionResult, consent: ConsentState): PHIPAValidationResult | undefined {
+    const patient = fhirConversion.success ? fhirConversion.fhirResource : undefined;
+    return patient && this.phipaValidator.validateFhirPatient(this.consents.withholdLocked(patient, consent));
+  }
+
+  /**
+   * Totals of a batch; re-run when the results of a record change after processing
+   */
+  summarizeBatch(results: InteroperabilityResult[]): BatchSummary {
+    const convertedCount = results.filter(r => r.fhirConversion.success).length;
+    const compliantCount = results.filter(r => r.phipaValidation.isCompliant).length;
+    const totalScore = results.reduce((sum, r) => sum + r.dataQualityScore, 0);
+
+    return {
+      totalRecords: results.length,
+      convertedCount,
+      failedCount: results.length - convertedCount,
+      compliantCount,
+      nonCompliantCount: results.length - compliantCount,
+      totalViolations: results.reduce((sum, r) => sum + r.phipaValidation.violations.length, 0),
+      averageQualityScore: results.length > 0 ? Math.round(totalScore / results.length) : 0
+    };
+  }
+
   /**
    * Calculate a data quality score based on:
    * - FHIR conversion success and completeness
@@ -56,42 +383,63 @@ export class InteroperabilityService {
     fhirResult: FHIRConversionResult,
     phipaResult: PHIPAValidationResult
   ): number {
-    let score = 0;
+    return this.getQualityBreakdown(fhirResult, phipaResult).total;
+  }
+
+  /**
+   * Points of the data quality score by component, as reported in audit reports
+   */
+  getQualityBreakdown(fhirResult: FHIRConversionResult, phipaResult: PHIPAValidationResult): QualityScoreBreakdown {
+    let conversion = 0;
+    let completeness = 0;
+    const missingElements: string[] = [];
 
     // FHIR conversion success (30 points)
     if (fhirResult.success) {
-      score += 30;
+      conversion = 30;
 
       // Completeness of FHIR resource (20 points)
       const fhir = fhirResult.fhirResource;
       if (fhir) {
-        if (fhir.name && fhir.name.length > 0) score += 5;
-        if (fhir.birthDate) score += 5;
-        if (fhir.gender) score += 3;
-        if (fhir.telecom && fhir.telecom.length > 0) score += 4;
-        if (fhir.address && fhir.address.length > 0) score += 3;
+        const elements: [string, boolean, number][] = [
+          ['name', !!fhir.name && fhir.name.length > 0, 5],
+          ['birthDate', !!fhir.birthDate, 5],
+          ['gender', !!fhir.gender, 3],
+          ['telecom', !!fhir.telecom && fhir.telecom.length > 0, 4],
+          ['address', !!fhir.address && fhir.address.length > 0, 3]
+        ];
+        elements.forEach(([element, present, points]) => {
+          if (present) {
+            completeness += points;
+          } else {
+            missingElements.push(element);
+          }
+        });
       }
     } else {
       // Partial credit for mapping logs
       if (fhirResult.mappingLog && fhirResult.mappingLog.length > 0) {
-        score += 10;
+        conversion = 10;
       }
     }
 
     // PHIPA compliance (50 points)
-    if (phipaResult.isCompliant) {
-      score += 50;
-    } else {
-      // Deduct points based on violation severity
-      const criticalCount = phipaResult.violations.filter(v => v.severity === 'critical').length;
-      const highCount = phipaResult.violations.filter(v => v.severity === 'high').length;
-      const mediumCount = phipaResult.violations.filter(v => v.severity === 'medium').length;
+    // Deduct points based on violation severity, scaled by the weight of the rule that raised it
+    const penalties = { critical: 15, high: 10, medium: 5, low: 0 };
+    const deduction = phipaResult.isCompliant ? 0 : phipaResult.violations.reduce(
+      (sum, violation) => sum + penalties[violation.severity] * (violation.weight ?? 1),
+      0
+    );
+    const compliance = Math.max(0, 50 - deduction);
 
-      const deduction = (criticalCount * 15) + (highCount * 10) + (mediumCount * 5);
-      score += Math.max(0, 50 - deduction);
-    }
-
-    return Math.min(100, Math.max(0, score));
+    return {
+      conversion,
+      completeness,
+      missingElements,
+      compliance,
+      deduction,
+      total: Math.min(100, Math.max(0, conversion + completeness + compliance))
+    };
   }
 
   /**
@@ -0,0 +1,69 @@
+import { TestBed } from '@angular/core/testing';
+import { MappingProfile } from '../models/mapping-profile.model';
+import { AUTO_MAPPING_PROFILE, MappingProfileService } from './mapping-profile.service';
+
+describe('MappingProfileService', () => {
+  let service: MappingProfileService;
+  const clinic: MappingProfile = {
+    id: 'clinic-emr',
+    name: 'Clinic EMR export',
+    mappings: [
+      { source: 'chartNo', target: 'id' },
+      { source: 'demographics.surname', target: 'name[0].family', set: { 'name[0].use': 'official' } }
+    ]
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    service = TestBed.inject(MappingProfileService);
+  });
+
+  it('starts with the built-in auto profile active', () => {
+    expect(service.getActiveProfile()).toBe(AUTO_MAPPING_PROFILE);
+    expect(service.validateProfile(AUTO_MAPPING_PROFILE)).toEqual([]);
+  });
+
+  it('saves, activates, exports and deletes a custom profile', () => {
+    service.saveProfile(clinic);
+    service.setActiveProfile('clinic-emr');
+
+    expect(service.getActiveProfile()).toMatchObject({ id: 'clinic-emr', builtIn: false });
+    expect(JSON.parse(service.exportProfile('clinic-emr'))).toEqual(clinic);
+
+    service.deleteProfile('clinic-emr');
+    expect(service.getActiveProfile().id).toBe(AUTO_MAPPING_PROFILE.id);
+  });
+
+  it('keeps saved profiles in browser storage', () => {
+    service.saveProfile(clinic);
+    expect(new MappingProfileService().getProfile('clinic-emr')?.name).toBe('Clinic EMR export');
+  });
+
+  it('never replaces the built-in profile', () => {
+    expect(() => service.saveProfile({ ...clinic, id: AUTO_MAPPING_PROFILE.id })).toThrowError(/built-in profile/);
+  });
+
+  it('reports every problem of a profile document', () => {
+    expect(service.validateProfile({
+      id: 'bad id',
+      name: '',
+      mappings: [
+        { source: '', target: 'name[0].family' },
+        { source: 'dob', target: 'birthDate', transforms: [{ type: 'dateFormat', format: 'YY' }] },
+        { source: 'phones', target: 'telecom[0]', mappings: [{ source: 'number', target: 'value' }] },
+        { source: 'sex', target: 'gender', transforms: [{ type: 'shout' }] }
+      ]
+    })).toEqual([
+      'Profile "id" must be a non-empty string of letters, digits, ".", "_" or "-"',
+      'Profile "name" is required',
+      'Mapping 1: "source" must be a path or a list of paths',
+      expect.stringMatching(/^Mapping 2: dateFormat transform "format" must be one of/),
+      'Mapping 3: the "target" of an element mapping must append, e.g. telecom[]',
+      'Mapping 4: unknown transform type "shout"'
+    ]);
+  });
+
+  it('rejects an import that is not JSON', () => {
+    expect(() => service.importProfile('{ id: ')).toThrowError(/^Invalid JSON/);
+  });
+});
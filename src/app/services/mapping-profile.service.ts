@@ -0,0 +1,643 @@
+import { Injectable } from '@angular/core';
+import { FieldMapping, LookupTransform, MappingProfile, MappingTransform } from '../models/mapping-profile.model';
+import { SOURCE_DATE_FORMATS } from '../models/date.model';
+
+const STORAGE_KEY = 'medibridge.mappingProfiles';
+const ACTIVE_KEY = 'medibridge.activeMappingProfile';
+const V2_0203 = 'http://terminology.hl7.org/CodeSystem/v2-0203';
+const V2_0131 = 'http://terminology.hl7.org/CodeSystem/v2-0131';
+const V3_ROLE_CODE = 'http://terminology.hl7.org/CodeSystem/v3-RoleCode';
+const V3_MARITAL_STATUS = 'http://terminology.hl7.org/CodeSystem/v3-MaritalStatus';
+
+const NAME_PARTS = ['text', 'prefix', 'given', 'family', 'suffix'];
+const TARGET_PATH = /^[a-zA-Z]+(\[\d+\])*(\.[a-zA-Z]+(\[\d+\])*)*(\[\])?$/;
+
+const officialName = { 'name[0].use': 'official' };
+const homeAddress = { 'address[0].use': 'home', 'address[0].type': 'physical' };
+
+const identifierType = (index: number, code: string, display: string) => ({
+  [`identifier[${index}].use`]: 'official',
+  [`identifier[${index}].type.coding[0].system`]: V2_0203,
+  [`identifier[${index}].type.coding[0].code`]: code,
+  [`identifier[${index}].type.coding[0].display`]: display
+});
+
+// Common administrative sex codes (English and French) → FHIR gender
+export const GENDER_LOOKUP: LookupTransform = {
+  type: 'lookup',
+  table: {
+    m: 'male', male: 'male', man: 'male', h: 'male', homme: 'male',
+    f: 'female', female: 'female', woman: 'female', femme: 'female',
+    o: 'other', x: 'other', other: 'other', 'non-binary': 'other', nonbinary: 'other',
+    u: 'unknown', unknown: 'unknown'
+  },
+  fallback: 'unknown'
+};
+
+// Parses a free-text full name into the parts of a HumanName; structured fields mapped earlier win
+const fullNameMappings = (sources: string[], name: string, set?: Record<string, any>): FieldMapping[] =>
+  (['text', 'prefix', 'given', 'family', 'suffix'] as const).map(part => ({
+    source: sources,
+    target: `${name}.${part}`,
+    transforms: [{ type: 'parseName', part }],
+    ...(set && { set })
+  }));
+
+// Unrecognised values are dropped
+const lookup = (table: Record<string, any>): LookupTransform => ({ type: 'lookup', table, fallback: null });
+
+const NAME_USE = lookup({
+  official: 'official', legal: 'official', usual: 'usual', preferred: 'usual', alias: 'usual',
+  nickname: 'nickname', maiden: 'maiden', birth: 'maiden', old: 'old', former: 'old', previous: 'old',
+  temp: 'temp', temporary: 'temp', anonymous: 'anonymous'
+});
+const CONTACT_POINT_SYSTEM = lookup({
+  phone: 'phone', tel: 'phone', telephone: 'phone', home: 'phone', work: 'phone', mobile: 'phone', cell: 'phone',
+  fax: 'fax', email: 'email', 'e-mail': 'email', pager: 'pager', sms: 'sms', text: 'sms', url: 'url', website: 'url'
+});
+const CONTACT_POINT_USE = lookup({
+  home: 'home', work: 'work', business: 'work', office: 'work', mobile: 'mobile', cell: 'mobile', cellular: 'mobile',
+  temp: 'temp', temporary: 'temp', old: 'old', former: 'old'
+});
+const ADDRESS_USE = lookup({
+  home: 'home', residential: 'home', work: 'work', business: 'work', office: 'work',
+  temp: 'temp', temporary: 'temp', old: 'old', former: 'old', previous: 'old', billing: 'billing'
+});
+const ADDRESS_TYPE = lookup({
+  postal: 'postal', mailing: 'postal', mail: 'postal', physical: 'physical', residential: 'physical', street: 'physical', both: 'both'
+});
+// A "preferred" flag ranks the element first
+const PREFERRED_RANK = lookup({ true: 1, yes: 1, y: 1, '1': 1 });
+
+// Element-relative period mappings
+const periodMappings: FieldMapping[] = [
+  {
+    source: ['period.start', 'startDate', 'start', 'from', 'validFrom'],
+    target: 'period.start',
+    transforms: [{ type: 'dateFormat', format: 'auto' }]
+  },
+  {
+    source: ['period.end', 'endDate', 'end', 'to', 'validTo'],
+    target: 'period.end',
+    transforms: [{ type: 'dateFormat', format: 'auto' }]
+  }
+];
+
+const addressFields = (prefixes: string[], address: string, set: Record<string, any>): FieldMapping[] => {
+  const from = (...fields: string[]) => prefixes.flatMap(prefix => fields.map(field => `${prefix}.${field}`));
+  return [
+    { source: from('street', 'streetAddress', 'street_address', 'line'), target: `${address}.line[]`, set },
+    { source: from('city'), target: `${address}.city`, set },
+    { source: from('state', 'province'), target: `${address}.state`, set },
+    { source: from('postalCode', 'postal_code', 'zip', 'zipCode'), target: `${address}.postalCode`, set },
+    { source: from('country'), target: `${address}.country`, set }
+  ];
+};
+
+// [code, display, words feeder systems use for it]
+type CodedTerm = [string, string, string[]];
+
+// Personal relationships (v3 RoleCode)
+const RELATIONSHIPS: CodedTerm[] = [
+  ['SPS', 'spouse', ['spouse', 'husband', 'wife', 'époux', 'épouse', 'conjoint', 'conjointe']],
+  ['DOMPART', 'domestic partner', ['partner', 'domestic partner', 'common-law', 'common law', 'conjoint de fait']],
+  ['MTH', 'mother', ['mother', 'mom', 'mère', 'mere']],
+  ['FTH', 'father', ['father', 'dad', 'père', 'pere']],
+  ['PRN', 'parent', ['parent']],
+  ['SON', 'natural son', ['son', 'fils']],
+  ['DAU', 'natural daughter', ['daughter', 'fille']],
+  ['CHILD', 'child', ['child', 'enfant']],
+  ['BRO', 'brother', ['brother', 'frère', 'frere']],
+  ['SIS', 'sister', ['sister', 'sœur', 'soeur']],
+  ['SIB', 'sibling', ['sibling']],
+  ['GRMTH', 'grandmother', ['grandmother', 'grand-mère']],
+  ['GRFTH', 'grandfather', ['grandfather', 'grand-père']],
+  ['GRNDCHILD', 'grandchild', ['grandchild', 'grandson', 'granddaughter']],
+  ['AUNT', 'aunt', ['aunt', 'tante']],
+  ['UNCLE', 'uncle', ['uncle', 'oncle']],
+  ['FAMMEMB', 'family member', ['family', 'family member', 'relative']],
+  ['FRND', 'unrelated friend', ['friend', 'ami', 'amie']],
+  ['NBOR', 'neighbor', ['neighbour', 'neighbor', 'voisin', 'voisine']],
+  ['ROOM', 'Roommate', ['roommate', 'colocataire']],
+  ['GUARD', 'guardian', ['guardian', 'legal guardian', 'tuteur', 'tutrice']],
+  ['HPOWATT', 'healthcare power of attorney', ['attorney for personal care', 'healthcare power of attorney', 'personal care attorney']],
+  ['POWATT', 'power of attorney', ['power of attorney', 'attorney', 'poa', 'substitute decision-maker', 'substitute decision maker', 'sdm', 'mandataire']]
+];
+
+// v3 MaritalStatus
+const MARITAL_STATUSES: CodedTerm[] = [
+  ['S', 'Never Married', ['single', 'never married', 'célibataire', 'celibataire']],
+  ['M', 'Married', ['married', 'marié', 'mariée']],
+  ['D', 'Divorced', ['divorced', 'divorcé', 'divorcée']],
+  ['W', 'Widowed', ['widowed', 'widow', 'widower', 'veuf', 'veuve']],
+  ['L', 'Legally Separated', ['separated', 'legally separated', 'séparé', 'séparée']],
+  ['T', 'Domestic partner', ['domestic partner', 'common-law', 'common law', 'conjoint de fait', 'union libre']],
+  ['A', 'Annulled', ['annulled']],
+  ['I', 'Interlocutory', ['interlocutory']],
+  ['P', 'Polygamous', ['polygamous']],
+  ['U', 'unmarried', ['unmarried']]
+];
+
+// Looks up the code or display of a coded term by its code or any of its words; unknown values are dropped
+const codedLookup = (terms: CodedTerm[], field: 'code' | 'display'): LookupTransform => ({
+  type: 'lookup',
+  table: Object.fromEntries(terms.flatMap(([code, display, words]) =>
+    [code, ...words].map(word => [word, field === 'code' ? code : display])
+  )),
+  fallback: null
+});
+
+/**
+ * Mappings for a next-of-kin, emergency contact or guardian object found under any of the given source paths.
+ * The contact role (v2-0131, or v3 RoleCode for a guardian) is recorded as the first relationship and the
+ * personal relationship (v3 RoleCode) as the second.
+ */
+const contactMappings = (sources: string[], index: number, roleCode: string, roleDisplay: string, roleSystem = V2_0131): FieldMapping[] => {
+  const contact = `contact[${index}]`;
+  const from = (...fields: string[]) => sources.flatMap(source => fields.map(field => `${source}.${field}`));
+  const role = {
+    [`${contact}.relationship[0].coding[0].system`]: roleSystem,
+    [`${contact}.relationship[0].coding[0].code`]: roleCode,
+    [`${contact}.relationship[0].coding[0].display`]: roleDisplay
+  };
+  const relationship = from('relationship', 'relation', 'relationshipType');
+  const fullName = from('name', 'fullName', 'full_name');
+
+  return [
+    { source: from('firstName', 'first_name', 'given'), target: `${contact}.name.given[]`, set: role },
+    { source: from('lastName', 'last_name', 'family'), target: `${contact}.name.family`, set: role },
+    ...fullNameMappings(fullName, `${contact}.name`, role),
+    {
+      source: relationship,
+      target: `${contact}.relationship[1].coding[0].code`,
+      transforms: [codedLookup(RELATIONSHIPS, 'code')],
+      set: { ...role, [`${contact}.relationship[1].coding[0].system`]: V3_ROLE_CODE }
+    },
+    {
+      source: relationship,
+      target: `${contact}.relationship[1].coding[0].display`,
+      transforms: [codedLookup(RELATIONSHIPS, 'display')]
+    },
+    { source: relationship, target: `${contact}.relationship[1].text`, set: role },
+    {
+      source: from('phone', 'phoneNumber', 'phone_number', 'telephone', 'tel'),
+      target: `${contact}.telecom[0].value`,
+      set: { ...role, [`${contact}.telecom[0].system`]: 'phone' }
+    },
+    {
+      source: from('mobile', 'cell'),
+      target: `${contact}.telecom[1].value`,
+      set: { ...role, [`${contact}.telecom[1].system`]: 'phone', [`${contact}.telecom[1].use`]: 'mobile' }
+    },
+    {
+      source: from('email', 'emailAddress', 'email_address'),
+      target: `${contact}.telecom[2].value`,
+      set: { ...role, [`${contact}.telecom[2].system`]: 'email' }
+    },
+    { source: from('address.street', 'address.line'), target: `${contact}.address.line[]`, set: role },
+    { source: from('address.city'), target: `${contact}.address.city`, set: role },
+    { source: from('address.state', 'address.province'), target: `${contact}.address.state`, set: role },
+    { source: from('address.postalCode', 'address.postal_code', 'address.zip'), target: `${contact}.address.postalCode`, set: role },
+    { source: from('gender', 'sex'), target: `${contact}.gender`, transforms: [GENDER_LOOKUP], set: role }
+  ];
+};
+
+/**
+ * The field name heuristics MediBridge has always used, expressed as a profile
+ */
+export const AUTO_MAPPING_PROFILE: MappingProfile = {
+  id: 'auto',
+  name: 'Auto',
+  description: 'Built-in heuristics for common JSON and CSV patient field names',
+  version: '1.5.0',
+  builtIn: true,
+  mappings: [
+    { source: ['id', 'patientId', 'patient_id', 'mrn', 'medicalRecordNumber'], target: 'id' },
+
+    // Name
+    { source: ['firstName', 'first_name', 'given'], target: 'name[0].given[]', set: officialName },
+    { source: ['lastName', 'last_name', 'family'], target: 'name[0].family', set: officialName },
+    { source: ['middleName', 'middle_name'], target: 'name[0].given[]', set: officialName },
+    { source: 'prefix', target: 'name[0].prefix[]', set: officialName },
+    { source: 'suffix', target: 'name[0].suffix[]', set: officialName },
+    ...fullNameMappings(['name', 'fullName', 'full_name'], 'name[0]', officialName),
+    {
+      source: ['maidenName', 'maiden_name', 'birthName'],
+      target: 'name[1].family',
+      set: { 'name[1].use': 'maiden' }
+    },
+    { source: ['preferredName', 'preferred_name'], target: 'name[2].given[]', set: { 'name[2].use': 'usual' } },
+    { source: ['nickname', 'nickName'], target: 'name[3].given[]', set: { 'name[3].use': 'nickname' } },
+    {
+      source: ['names', 'name'],
+      target: 'name[]',
+      mappings: [
+        { source: 'use', target: 'use', transforms: [NAME_USE] },
+        { source: ['text', 'fullName'], target: 'text' },
+        { source: ['family', 'lastName', 'last_name', 'surname'], target: 'family' },
+        { source: ['given', 'firstName', 'first_name'], target: 'given[]' },
+        { source: ['middleName', 'middle_name'], target: 'given[]' },
+        { source: 'prefix', target: 'prefix[]' },
+        { source: 'suffix', target: 'suffix[]' },
+        ...periodMappings
+      ]
+    },
+
+    // Identifiers
+    {
+      source: ['mrn', 'medicalRecordNumber', 'medical_record_number'],
+      target: 'identifier[0].value',
+      set: identifierType(0, 'MR', 'Medical Record Number')
+    },
+    // The converter validates health cards and sets the system and assigner of the issuing province,
+    // taken from the home address when the number alone does not tell
+    {
+      source: ['healthCard', 'health_card', 'ohip', 'ramq', 'phn', 'healthNumber', 'health_number'],
+      target: 'identifier[1].value',
+      set: identifierType(1, 'HC', 'Health Card Number')
+    },
+    {
+      source: ['passport', 'passportNumber'],
+      target: 'identifier[2].value',
+      set: identifierType(2, 'PPN', 'Passport Number')
+    },
+
+    // Demographics
+    {
+      source: ['gender', 'sex'],
+      target: 'gender',
+      transforms: [GENDER_LOOKUP]
+    },
+    {
+      source: ['birthDate', 'birth_date', 'dob', 'dateOfBirth', 'date_of_birth'],
+      target: 'birthDate',
+      transforms: [{ type: 'dateFormat', format: 'auto' }]
+    },
+
+    {
+      source: ['maritalStatus', 'marital_status', 'civilStatus'],
+      target: 'maritalStatus.coding[0].code',
+      transforms: [codedLookup(MARITAL_STATUSES, 'code')],
+      set: { 'maritalStatus.coding[0].system': V3_MARITAL_STATUS }
+    },
+    {
+      source: ['maritalStatus', 'marital_status', 'civilStatus'],
+      target: 'maritalStatus.coding[0].display',
+      transforms: [codedLookup(MARITAL_STATUSES, 'display')]
+    },
+    { source: ['maritalStatus', 'marital_status', 'civilStatus'], target: 'maritalStatus.text' },
+
+    // Language (a single language field is taken as the preferred one)
+    {
+      source: ['preferredLanguage', 'preferred_language', 'language', 'primaryLanguage'],
+      target: 'communication[0].language.coding[0].code',
+      transforms: [{ type: 'language' }],
+      set: { 'communication[0].language.coding[0].system': 'urn:ietf:bcp:47', 'communication[0].preferred': true }
+    },
+    {
+      source: ['preferredLanguage', 'preferred_language', 'language', 'primaryLanguage'],
+      target: 'communication[0].language.text'
+    },
+
+    // Telecom
+    {
+      source: ['phone', 'phoneNumber', 'phone_number', 'tel', 'telephone', 'homePhone', 'home_phone'],
+      target: 'telecom[0].value',
+      set: { 'telecom[0].system': 'phone', 'telecom[0].use': 'home' }
+    },
+    {
+      source: ['mobile', 'mobilePhone', 'mobile_phone', 'cellPhone', 'cell_phone', 'cell'],
+      target: 'telecom[1].value',
+      set: { 'telecom[1].system': 'phone', 'telecom[1].use': 'mobile' }
+    },
+    {
+      source: ['email', 'emailAddress', 'email_address'],
+      target: 'telecom[2].value',
+      set: { 'telecom[2].system': 'email', 'telecom[2].use': 'home' }
+    },
+    {
+      source: ['workPhone', 'work_phone', 'businessPhone', 'business_phone'],
+      target: 'telecom[3].value',
+      set: { 'telecom[3].system': 'phone', 'telecom[3].use': 'work' }
+    },
+    { source: ['fax', 'faxNumber', 'fax_number'], target: 'telecom[4].value', set: { 'telecom[4].system': 'fax' } },
+    {
+      source: ['workEmail', 'work_email'],
+      target: 'telecom[5].value',
+      set: { 'telecom[5].system': 'email', 'telecom[5].use': 'work' }
+    },
+    {
+      source: ['phones', 'phoneNumbers', 'telecom', 'contactPoints'],
+      target: 'telecom[]',
+      set: { system: 'phone' },
+      mappings: [
+        { source: ['system', 'type'], target: 'system', transforms: [CONTACT_POINT_SYSTEM] },
+        { source: ['value', 'number', 'phone', 'phoneNumber'], target: 'value' },
+        { source: ['use', 'type'], target: 'use', transforms: [CONTACT_POINT_USE] },
+        { source: 'rank', target: 'rank' },
+        { source: ['preferred', 'primary'], target: 'rank', transforms: [PREFERRED_RANK] },
+        ...periodMappings
+      ]
+    },
+    {
+      source: ['emails', 'emailAddresses'],
+      target: 'telecom[]',
+      set: { system: 'email' },
+      mappings: [
+        { source: ['value', 'address', 'email'], target: 'value' },
+        { source: ['use', 'type'], target: 'use', transforms: [CONTACT_POINT_USE] },
+        { source: 'rank', target: 'rank' },
+        { source: ['preferred', 'primary'], target: 'rank', transforms: [PREFERRED_RANK] },
+        ...periodMappings
+      ]
+    },
+
+    // Address (nested under "address" or at the top level)
+    {
+      source: [
+        'address.street', 'address.streetAddress', 'address.street_address', 'address.line',
+        'street', 'streetAddress', 'street_address', 'line'
+      ],
+      target: 'address[0].line[]',
+      set: homeAddress
+    },
+    { source: ['address.city', 'city'], target: 'address[0].city', set: homeAddress },
+    {
+      source: ['address.state', 'address.province', 'state', 'province'],
+      target: 'address[0].state',
+      set: homeAddress
+    },
+    {
+      source: [
+        'address.postalCode', 'address.postal_code', 'address.zip', 'address.zipCode',
+        'postalCode', 'postal_code', 'zip', 'zipCode'
+      ],
+      target: 'address[0].postalCode',
+      set: homeAddress
+    },
+    { source: ['address.country', 'country'], target: 'address[0].country', set: homeAddress },
+    ...addressFields(['mailingAddress', 'mailing_address', 'postalAddress'], 'address[1]', {
+      'address[1].use': 'home',
+      'address[1].type': 'postal'
+    }),
+    ...addressFields(['workAddress', 'work_address'], 'address[2]', { 'address[2].use': 'work' }),
+    {
+      source: ['addresses', 'address'],
+      target: 'address[]',
+      mappings: [
+        { source: ['use', 'type'], target: 'use', transforms: [ADDRESS_USE] },
+        { source: ['type', 'addressType'], target: 'type', transforms: [ADDRESS_TYPE] },
+        { source: 'text', target: 'text' },
+        {
+          source: ['line', 'street', 'streetAddress', 'street_address', 'line1', 'address1'],
+          target: 'line[]'
+        },
+        { source: ['line2', 'address2', 'unit'], target: 'line[]' },
+        { source: 'city', target: 'city' },
+        { source: 'district', target: 'district' },
+        { source: ['state', 'province'], target: 'state' },
+        { source: ['postalCode', 'postal_code', 'zip', 'zipCode'], target: 'postalCode' },
+        { source: 'country', target: 'country' },
+        ...periodMappings
+      ]
+    },
+
+    // Contacts
+    ...contactMappings(['emergencyContact', 'emergency_contact', 'emergencyContacts[0]'], 0, 'C', 'Emergency Contact'),
+    ...contactMappings(['nextOfKin', 'next_of_kin', 'nok'], 1, 'N', 'Next-of-Kin'),
+    ...contactMappings(['guardian', 'legalGuardian', 'substituteDecisionMaker', 'sdm'], 2, 'GUARD', 'guardian', V3_ROLE_CODE),
+
+    // Status (unrecognised values are dropped)
+    {
+      source: ['active', 'isActive', 'is_active', 'status'],
+      target: 'active',
+      transforms: [{
+        type: 'lookup',
+        table: { true: true, active: true, '1': true, false: false, inactive: false, '0': false },
+        fallback: null
+      }]
+    }
+  ]
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class MappingProfileService {
+  private customProfiles: MappingProfile[] = [];
+  private activeProfileId = AUTO_MAPPING_PROFILE.id;
+
+  constructor() {
+    this.load();
+  }
+
+  getProfiles(): MappingProfile[] {
+    return [AUTO_MAPPING_PROFILE, ...this.customProfiles];
+  }
+
+  getProfile(id: string): MappingProfile | undefined {
+    return this.getProfiles().find(profile => profile.id === id);
+  }
+
+  getActiveProfile(): MappingProfile {
+    return this.getProfile(this.activeProfileId) || AUTO_MAPPING_PROFILE;
+  }
+
+  setActiveProfile(id: string): void {
+    if (!this.getProfile(id)) {
+      throw new Error(`Unknown mapping profile "${id}"`);
+    }
+    this.activeProfileId = id;
+    this.persist();
+  }
+
+  /**
+   * Creates or replaces a user-defined profile
+   * @throws Error when the profile is invalid or would replace a built-in profile
+   */
+  saveProfile(profile: MappingProfile): MappingProfile {
+    const errors = this.validateProfile(profile);
+    if (errors.length > 0) {
+      throw new Error(errors.join('\n'));
+    }
+    if (profile.id === AUTO_MAPPING_PROFILE.id) {
+      throw new Error(`"${profile.id}" is a built-in profile and cannot be replaced; choose another id`);
+    }
+
+    const saved: MappingProfile = { ...profile, builtIn: false };
+    const index = this.customProfiles.findIndex(p => p.id === profile.id);
+    if (index >= 0) {
+      this.customProfiles[index] = saved;
+    } else {
+      this.customProfiles.push(saved);
+    }
+    this.persist();
+    return saved;
+  }
+
+  deleteProfile(id: string): void {
+    this.customProfiles = this.customProfiles.filter(profile => profile.id !== id);
+    if (this.activeProfileId === id) {
+      this.activeProfileId = AUTO_MAPPING_PROFILE.id;
+    }
+    this.persist();
+  }
+
+  /**
+   * Parses and saves a profile from its JSON document
+   */
+  importProfile(json: string): MappingProfile {
+    let profile: any;
+    try {
+      profile = JSON.parse(json);
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${(error as Error).message}`);
+    }
+    return this.saveProfile(profile);
+  }
+
+  exportProfile(id: string): string {
+    const profile = this.getProfile(id);
+    if (!profile) {
+      throw new Error(`Unknown mapping profile "${id}"`);
+    }
+    const { builtIn, ...document } = profile;
+    return JSON.stringify(document, null, 2);
+  }
+
+  /**
+   * Checks the structure of a profile document
+   * @returns Human-readable problems; empty when the profile is valid
+   */
+  validateProfile(profile: any): string[] {
+    const errors: string[] = [];
+
+    if (!profile || typeof profile !== 'object' || Array.isArray(profile)) {
+      return ['Profile must be a JSON object'];
+    }
+    if (typeof profile.id !== 'string' || !/^[\w.-]+$/.test(profile.id)) {
+      errors.push('Profile "id" must be a non-empty string of letters, digits, ".", "_" or "-"');
+    }
+    if (typeof profile.name !== 'string' || !profile.name.trim()) {
+      errors.push('Profile "name" is required');
+    }
+    if (!Array.isArray(profile.mappings)) {
+      errors.push('Profile "mappings" must be an array');
+      return errors;
+    }
+
+    profile.mappings.forEach((mapping: FieldMapping, index: number) => {
+      errors.push(...this.validateMapping(mapping).map(error => `Mapping ${index + 1}: ${error}`));
+    });
+
+    return errors;
+  }
+
+  private validateMapping(mapping: FieldMapping): string[] {
+    const errors: string[] = [];
+    if (!mapping || typeof mapping !== 'object') {
+      return ['must be an object'];
+    }
+
+    const sources = Array.isArray(mapping.source) ? mapping.source : [mapping.source];
+    const hasDefault = (mapping.transforms || []).some(t => t?.type === 'default');
+    if (!hasDefault && (sources.length === 0 || sources.some(source => typeof source !== 'string' || !source.trim()))) {
+      errors.push('"source" must be a path or a list of paths');
+    }
+
+    if (typeof mapping.target !== 'string' || !TARGET_PATH.test(mapping.target)) {
+      errors.push(`"target" must be a FHIR Patient path such as name[0].family (got ${JSON.stringify(mapping.target)})`);
+    }
+
+    if (mapping.transforms !== undefined) {
+      if (!Array.isArray(mapping.transforms)) {
+        errors.push('"transforms" must be an array');
+      } else {
+        mapping.transforms.forEach(transform => {
+          const error = this.validateTransform(transform);
+          if (error) errors.push(error);
+        });
+      }
+    }
+
+    if (mapping.set !== undefined) {
+      if (!mapping.set || typeof mapping.set !== 'object' || Array.isArray(mapping.set)) {
+        errors.push('"set" must map target paths to values');
+      } else {
+        Object.keys(mapping.set)
+          .filter(path => !TARGET_PATH.test(path))
+          .forEach(path => errors.push(`"set" path ${JSON.stringify(path)} is not a FHIR Patient path`));
+      }
+    }
+
+    if (mapping.mappings !== undefined) {
+      if (!Array.isArray(mapping.mappings)) {
+        errors.push('"mappings" must be an array');
+      } else {
+        if (typeof mapping.target === 'string' && !mapping.target.endsWith('[]')) {
+          errors.push('the "target" of an element mapping must append, e.g. telecom[]');
+        }
+        if (mapping.transforms !== undefined) {
+          errors.push('element mappings do not take "transforms"; put them on the nested mappings');
+        }
+        mapping.mappings.forEach((nested, index) => {
+          errors.push(...this.validateMapping(nested).map(error => `element mapping ${index + 1}: ${error}`));
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  private validateTransform(transform: MappingTransform): string | null {
+    switch (transform?.type) {
+      case 'split':
+        return typeof transform.separator === 'string' ? null : 'split transform requires a "separator"';
+      case 'concat':
+        return Array.isArray(transform.sources) && transform.sources.every(s => typeof s === 'string')
+          ? null
+          : 'concat transform requires "sources" (a list of paths)';
+      case 'lookup':
+        return transform.table && typeof transform.table === 'object'
+          ? null
+          : 'lookup transform requires a "table" object';
+      case 'dateFormat':
+        return SOURCE_DATE_FORMATS.includes(transform.format)
+          ? null
+          : `dateFormat transform "format" must be one of ${SOURCE_DATE_FORMATS.join(', ')}`;
+      case 'default':
+        return 'value' in transform ? null : 'default transform requires a "value"';
+      case 'parseName':
+        return NAME_PARTS.includes(transform.part)
+          ? null
+          : `parseName transform "part" must be one of ${NAME_PARTS.join(', ')}`;
+      case 'language':
+        return null;
+      default:
+        return `unknown transform type ${JSON.stringify((transform as any)?.type)}`;
+    }
+  }
+
+  private load(): void {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const profiles = stored ? JSON.parse(stored) : [];
+      this.customProfiles = Array.isArray(profiles)
+        ? profiles.filter(profile => this.validateProfile(profile).length === 0)
+        : [];
+      this.activeProfileId = localStorage.getItem(ACTIVE_KEY) || AUTO_MAPPING_PROFILE.id;
+    } catch {
+      // Storage unavailable (private browsing, tests); profiles live for the session only
+      this.customProfiles = [];
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.customProfiles));
+      localStorage.setItem(ACTIVE_KEY, this.activeProfileId);
+    } catch {
+      // Storage unavailable; keep the in-memory state
+    }
+  }
+}
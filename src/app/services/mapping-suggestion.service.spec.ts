@@ -0,0 +1,41 @@
+import { TestBed } from '@angular/core/testing';
+import { FHIRUnmappedField } from '../models/fhir.model';
+import { AUTO_MAPPING_PROFILE, MappingProfileService } from './mapping-profile.service';
+import { MappingSuggestionService } from './mapping-suggestion.service';
+
+function field(path: string, value: string, sensitive = false): FHIRUnmappedField {
+  return { path, value, sensitive, preserved: false };
+}
+
+describe('MappingSuggestionService', () => {
+  let service: MappingSuggestionService;
+  let profiles: MappingProfileService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    service = TestBed.inject(MappingSuggestionService);
+    profiles = TestBed.inject(MappingProfileService);
+  });
+
+  it('ranks candidates by field name, French synonyms included, and value shape', () => {
+    const [postal, email] = service.suggestMappings([field('codePostal', 'K1A 0B1'), field('contact.courriel', 'amelie@example.com')]);
+
+    expect(postal.candidates[0].path).toBe('Patient.address.postalCode');
+    expect(postal.candidates[0].reasons).toContain('Value looks like a postal or ZIP code');
+    expect(email.candidates[0].path).toBe('Patient.telecom (email)');
+  });
+
+  it('skips sensitive fields and fields nothing fits', () => {
+    expect(service.suggestMappings([field('legacyNumber', '***-***-544', true), field('favouriteColour', 'green')])).toEqual([]);
+  });
+
+  it('extends the built-in profile into a new active profile with the accepted mappings', () => {
+    const [suggestion] = service.suggestMappings([field('codePostal', 'K1A 0B1')]);
+    const saved = service.saveAcceptedMappings([{ sourcePath: suggestion.sourcePath, candidate: suggestion.candidates[0] }]);
+
+    expect(saved).toMatchObject({ id: `${AUTO_MAPPING_PROFILE.id}-extended`, builtIn: false });
+    expect(saved.mappings).toHaveLength(AUTO_MAPPING_PROFILE.mappings.length + 1);
+    expect(saved.mappings[saved.mappings.length - 1].source).toBe('codePostal');
+    expect(profiles.getActiveProfile().id).toBe(saved.id);
+  });
+});
@@ -0,0 +1,374 @@
+import { Injectable } from '@angular/core';
+import { FHIRUnmappedField } from '../models/fhir.model';
+import {
+  FieldMapping,
+  MappingCandidate,
+  MappingProfile,
+  MappingSuggestion
+} from '../models/mapping-profile.model';
+import { GENDER_LOOKUP, MappingProfileService } from './mapping-profile.service';
+import { DateNormalizerService } from './date-normalizer.service';
+
+const MIN_CONFIDENCE = 0.45;
+const MAX_CANDIDATES = 3;
+const V2_0203 = 'http://terminology.hl7.org/CodeSystem/v2-0203';
+
+interface ValueShape {
+  pattern: RegExp;
+  // Strong shapes (dates, phones, postal codes, ...) are evidence on their own; weak ones only support a name match
+  strong: boolean;
+  description: string;
+}
+
+interface SuggestionTarget {
+  path: string;
+  synonyms: string[];
+  shape?: ValueShape;
+  mapping: Omit<FieldMapping, 'source'>;
+}
+
+const SHAPES: Record<string, ValueShape> = {
+  date: {
+    pattern: /^(\d{4}-\d{2}-\d{2}(T.*)?|\d{1,2}[/.-]\d{1,2}[/.-]\d{4}|(19|20)\d{2}(0[1-9]|1[0-2])(0[1-9]|[12]\d|3[01]))$/,
+    strong: true,
+    description: 'a date'
+  },
+  phone: {
+    pattern: /^(\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}$/,
+    strong: true,
+    description: 'a phone number'
+  },
+  email: { pattern: /^[^@\s]+@[^@\s]+\.[^@\s]+$/, strong: true, description: 'an email address' },
+  postalCode: {
+    pattern: /^([A-Za-z]\d[A-Za-z][ -]?\d[A-Za-z]\d|\d{5}(-\d{4})?)$/,
+    strong: true,
+    description: 'a postal or ZIP code'
+  },
+  gender: {
+    pattern: /^(m|f|h|x|u|male|female|man|woman|homme|femme|other|unknown)$/i,
+    strong: true,
+    description: 'an administrative sex code'
+  },
+  province: {
+    pattern: /^(AB|BC|MB|NB|NL|NS|NT|NU|ON|PE|QC|SK|YT|Alberta|British Columbia|Manitoba|New Brunswick|Newfoundland and Labrador|Nova Scotia|Ontario|Qu[eé]bec|Saskatchewan|Yukon)$/i,
+    strong: true,
+    description: 'a Canadian province or territory'
+  },
+  country: { pattern: /^(CA|CAN|Canada|US|USA|United States)$/i, strong: true, description: 'a country' },
+  healthCard: {
+    pattern: /^(\d{10}([ -]?[A-Z]{2})?|[A-Z]{4}\d{8})$/,
+    strong: false,
+    description: 'a health card number'
+  },
+  personName: { pattern: /^[\p{L}][\p{L}' .-]{0,40}$/u, strong: false, description: 'a name' },
+  street: { pattern: /^\d+[A-Za-z]?[, ]+\S.*$/, strong: false, description: 'a street address' }
+};
+
+// FHIR Patient elements the suggester can propose, with multilingual field name synonyms
+const SUGGESTION_TARGETS: SuggestionTarget[] = [
+  {
+    path: 'Patient.name.family',
+    synonyms: ['surname', 'last name', 'family name', 'family', 'apellido', 'apellidos', 'nom', 'nom famille', 'nom de famille', 'nachname', 'cognome'],
+    shape: SHAPES['personName'],
+    mapping: { target: 'name[0].family' }
+  },
+  {
+    path: 'Patient.name.given',
+    synonyms: ['given name', 'first name', 'forename', 'given', 'middle name', 'prenom', 'nombre', 'vorname', 'nome'],
+    shape: SHAPES['personName'],
+    mapping: { target: 'name[0].given[]' }
+  },
+  {
+    path: 'Patient.birthDate',
+    synonyms: ['birth date', 'date of birth', 'dob', 'birthday', 'born', 'date naissance', 'date de naissance', 'fecha nacimiento', 'fecha de nacimiento', 'geburtsdatum'],
+    shape: SHAPES['date'],
+    mapping: { target: 'birthDate' }
+  },
+  {
+    path: 'Patient.gender',
+    synonyms: ['gender', 'sex', 'sexe', 'genre', 'sexo', 'genero', 'geschlecht', 'administrative sex'],
+    shape: SHAPES['gender'],
+    mapping: { target: 'gender', transforms: [GENDER_LOOKUP] }
+  },
+  {
+    path: 'Patient.telecom (phone)',
+    synonyms: ['phone', 'telephone', 'tel', 'phone number', 'home phone', 'cell', 'cellphone', 'mobile', 'telefono', 'celular', 'cellulaire', 'telefon'],
+    shape: SHAPES['phone'],
+    mapping: { target: 'telecom[#].value', set: { 'telecom[#].system': 'phone' } }
+  },
+  {
+    path: 'Patient.telecom (email)',
+    synonyms: ['email', 'e mail', 'email address', 'mail', 'courriel', 'correo', 'correo electronico'],
+    shape: SHAPES['email'],
+    mapping: { target: 'telecom[#].value', set: { 'telecom[#].system': 'email' } }
+  },
+  {
+    path: 'Patient.address.line',
+    synonyms: ['street', 'street address', 'address', 'address line', 'line', 'adresse', 'rue', 'calle', 'direccion', 'strasse'],
+    shape: SHAPES['street'],
+    mapping: { target: 'address[0].line[]' }
+  },
+  {
+    path: 'Patient.address.city',
+    synonyms: ['city', 'town', 'municipality', 'ville', 'ciudad', 'localite', 'stadt'],
+    shape: SHAPES['personName'],
+    mapping: { target: 'address[0].city' }
+  },
+  {
+    path: 'Patient.address.state',
+    synonyms: ['province', 'state', 'region', 'territory', 'provincia', 'estado'],
+    shape: SHAPES['province'],
+    mapping: { target: 'address[0].state' }
+  },
+  {
+    path: 'Patient.address.postalCode',
+    synonyms: ['postal code', 'postcode', 'zip', 'zip code', 'code postal', 'codigo postal', 'cp', 'plz'],
+    shape: SHAPES['postalCode'],
+    mapping: { target: 'address[0].postalCode' }
+  },
+  {
+    path: 'Patient.address.country',
+    synonyms: ['country', 'pays', 'pais', 'nation', 'land'],
+    shape: SHAPES['country'],
+    mapping: { target: 'address[0].country' }
+  },
+  {
+    path: 'Patient.identifier (MR)',
+    synonyms: ['mrn', 'medical record number', 'chart number', 'chart', 'record number', 'dossier', 'numero dossier', 'expediente'],
+    mapping: {
+      target: 'identifier[#].value',
+      set: {
+        'identifier[#].type.coding[0].system': V2_0203,
+        'identifier[#].type.coding[0].code': 'MR'
+      }
+    }
+  },
+  {
+    path: 'Patient.identifier (health card)',
+    synonyms: ['health card', 'health card number', 'health number', 'phn', 'ohip', 'ramq', 'carte sante', 'numero assurance maladie', 'nam'],
+    shape: SHAPES['healthCard'],
+    mapping: {
+      target: 'identifier[#].value',
+      set: {
+        'identifier[#].type.coding[0].system': V2_0203,
+        'identifier[#].type.coding[0].code': 'JHN'
+      }
+    }
+  }
+];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class MappingSuggestionService {
+  constructor(
+    private mappingProfiles: MappingProfileService,
+    private dateNormalizer: DateNormalizerService
+  ) {}
+
+  /**
+   * Ranks candidate FHIR Patient paths for each non-sensitive unmapped field
+   * @param unmappedFields - Fields reported by the converter for one record
+   * @returns One suggestion per field that has at least one plausible candidate
+   */
+  suggestMappings(unmappedFields: FHIRUnmappedField[]): MappingSuggestion[] {
+    return unmappedFields
+      .filter(field => !field.sensitive)
+      .map(field => ({
+        sourcePath: field.path,
+        sampleValue: field.value,
+        candidates: this.rankCandidates(field.path, field.value)
+      }))
+      .filter(suggestion => suggestion.candidates.length > 0);
+  }
+
+  /**
+   * Saves accepted candidates as mappings. A built-in active profile is extended into a new
+   * user profile; a user profile is updated in place. The saved profile becomes active.
+   */
+  saveAcceptedMappings(accepted: { sourcePath: string; candidate: MappingCandidate }[]): MappingProfile {
+    const active = this.mappingProfiles.getActiveProfile();
+    const mappings = [...active.mappings];
+
+    accepted.forEach(({ sourcePath, candidate }) => {
+      mappings.push(this.resolveIndexes({ ...candidate.mapping, source: sourcePath }, mappings));
+    });
+
+    if (!active.builtIn) {
+      return this.activate(this.mappingProfiles.saveProfile({ ...active, mappings }));
+    }
+
+    const ids = new Set(this.mappingProfiles.getProfiles().map(profile => profile.id));
+    let id = `${active.id}-extended`;
+    for (let n = 2; ids.has(id); n++) {
+      id = `${active.id}-extended-${n}`;
+    }
+
+    return this.activate(this.mappingProfiles.saveProfile({
+      id,
+      name: `${active.name} + accepted suggestions`,
+      description: `${active.description || active.name}, extended with accepted mapping suggestions`,
+      version: '1.0.0',
+      mappings
+    }));
+  }
+
+  private rankCandidates(path: string, value: string): MappingCandidate[] {
+    const names = path.split(/[.[\]]/).filter(name => name && isNaN(Number(name)));
+    const fieldName = names[names.length - 1] || path;
+    const parentName = names.slice(-2).join(' ');
+
+    return SUGGESTION_TARGETS
+      .map(target => {
+        const reasons: string[] = [];
+
+        // Score the field name alone and together with its parent (e.g. phones[0].number)
+        const [ownScore, ownSynonym] = this.nameSimilarity(fieldName, target.synonyms);
+        const [parentScore, parentSynonym] = this.nameSimilarity(parentName, target.synonyms);
+        const useParent = parentScore * 0.9 > ownScore;
+        const nameScore = useParent ? parentScore * 0.9 : ownScore;
+        const synonym = useParent ? parentSynonym : ownSynonym;
+
+        let confidence = nameScore * 0.75;
+        if (nameScore >= 0.5) {
+          reasons.push(`Field name resembles "${synonym}"`);
+        }
+
+        if (target.shape) {
+          if (target.shape.pattern.test(value.trim())) {
+            confidence += target.shape.strong ? 0.45 : 0.15;
+            reasons.push(`Value looks like ${target.shape.description}`);
+          } else if (target.shape.strong) {
+            confidence *= 0.6;
+          }
+        }
+
+        return {
+          path: target.path,
+          confidence: Math.round(Math.min(confidence, 1) * 100) / 100,
+          reasons,
+          mapping: this.withTransforms(target, value)
+        };
+      })
+      .filter(candidate => candidate.confidence >= MIN_CONFIDENCE)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, MAX_CANDIDATES);
+  }
+
+  /**
+   * Best similarity between a field name and a list of synonyms:
+   * 1 for an exact match, 0.9 when the name contains the synonym, otherwise bigram (Dice) similarity
+   */
+  private nameSimilarity(fieldName: string, synonyms: string[]): [number, string] {
+    const tokens = this.tokenize(fieldName);
+    const joined = tokens.join('');
+    let best: [number, string] = [0, ''];
+
+    synonyms.forEach(synonym => {
+      const synonymTokens = this.tokenize(synonym);
+      const synonymJoined = synonymTokens.join('');
+      let score: number;
+
+      if (joined === synonymJoined) {
+        score = 1;
+      } else if (this.containsSequence(tokens, synonymTokens)) {
+        score = 0.9;
+      } else {
+        score = this.diceCoefficient(joined, synonymJoined);
+      }
+
+      if (score > best[0]) {
+        best = [score, synonym];
+      }
+    });
+
+    return best;
+  }
+
+  // "nomFamille", "nom_famille" and "Nom de famille" → ['nom', 'famille'] / ['nom', 'de', 'famille']
+  private tokenize(name: string): string[] {
+    return name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z\d]+/)
+      .filter(Boolean);
+  }
+
+  private containsSequence(tokens: string[], sequence: string[]): boolean {
+    for (let i = 0; i + sequence.length <= tokens.length; i++) {
+      if (sequence.every((token, j) => tokens[i + j] === token)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private diceCoefficient(a: string, b: string): number {
+    if (a.length < 2 || b.length < 2) {
+      return a === b ? 1 : 0;
+    }
+
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+      const bigram = a.slice(i, i + 2);
+      bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+    }
+
+    let overlap = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+      const bigram = b.slice(i, i + 2);
+      const count = bigrams.get(bigram) || 0;
+      if (count > 0) {
+        bigrams.set(bigram, count - 1);
+        overlap++;
+      }
+    }
+
+    return (2 * overlap) / (a.length + b.length - 2);
+  }
+
+  /**
+   * Adds the transforms the sample value needs, e.g. the date format of a birth date
+   */
+  private withTransforms(target: SuggestionTarget, value: string): Omit<FieldMapping, 'source'> {
+    if (target.mapping.target !== 'birthDate') {
+      return target.mapping;
+    }
+    return { ...target.mapping, transforms: [{ type: 'dateFormat', format: this.dateNormalizer.detectFormat(value) }] };
+  }
+
+  /**
+   * Replaces [#] placeholders with the next array index no existing mapping uses
+   */
+  private resolveIndexes(mapping: FieldMapping, existing: FieldMapping[]): FieldMapping {
+    const placeholder = mapping.target.match(/^(\w+)\[#\]/);
+    if (!placeholder) {
+      return mapping;
+    }
+
+    const element = placeholder[1];
+    const indexPattern = new RegExp(`^${element}\\[(\\d+)\\]`);
+    const used = existing
+      .flatMap(m => [m.target, ...Object.keys(m.set || {})])
+      .map(path => path.match(indexPattern))
+      .filter((match): match is RegExpMatchArray => !!match)
+      .map(match => Number(match[1]));
+    const next = used.length > 0 ? Math.max(...used) + 1 : 0;
+
+    const resolve = (path: string) => path.replace('[#]', `[${next}]`);
+    return {
+      ...mapping,
+      target: resolve(mapping.target),
+      set: mapping.set
+        ? Object.fromEntries(Object.entries(mapping.set).map(([path, value]) => [resolve(path), value]))
+        : undefined
+    };
+  }
+
+  private activate(profile: MappingProfile): MappingProfile {
+    this.mappingProfiles.setActiveProfile(profile.id);
+    return profile;
+  }
+}
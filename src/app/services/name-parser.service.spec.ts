@@ -0,0 +1,68 @@
+import { TestBed } from '@angular/core/testing';
+import { NameParserService } from './name-parser.service';
+
+describe('NameParserService', () => {
+  let service: NameParserService;
+
+  beforeEach(() => {
+    service = TestBed.inject(NameParserService);
+  });
+
+  it('splits prefixes, given names, particles and suffixes', () => {
+    expect(service.parse('Dr. Jane van der Berg Jr.')).toMatchObject({
+      prefix: ['Dr.'],
+      given: ['Jane'],
+      family: 'van der Berg',
+      suffix: ['Jr.'],
+      warnings: []
+    });
+  });
+
+  it('reads "Family, Given" ordering with accented and hyphenated names', () => {
+    expect(service.parse('Côté, Marie-Ève')).toMatchObject({ given: ['Marie-Ève'], family: 'Côté', warnings: [] });
+  });
+
+  it('takes a comma-separated suffix', () => {
+    expect(service.parse('Smith, Jane, MD')).toMatchObject({ given: ['Jane'], family: 'Smith', suffix: ['MD'] });
+  });
+
+  it('joins "y" with the words around it into a Spanish family name', () => {
+    expect(service.parse('Maria García y López')).toMatchObject({ given: ['Maria'], family: 'García y López' });
+  });
+
+  it('warns that a middle word may belong to the family name', () => {
+    const name = service.parse('Jane Quinn Smith');
+    expect(name).toMatchObject({ given: ['Jane', 'Quinn'], family: 'Smith' });
+    expect(name.warnings[0]).toContain('middle name');
+  });
+
+  it('ignores nicknames', () => {
+    const name = service.parse('Robert "Bob" Smith');
+    expect(name).toMatchObject({ text: 'Robert Smith', given: ['Robert'], family: 'Smith' });
+    expect(name.warnings[0]).toContain('nickname');
+  });
+
+  it('maps a single name as the family name with a warning', () => {
+    const name = service.parse('Cher');
+    expect(name.family).toBe('Cher');
+    expect(name.warnings[0]).toContain('single name');
+  });
+
+  it('leaves the family name empty when nothing comes before the comma', () => {
+    const name = service.parse(', Jane');
+    expect(name.family).toBeUndefined();
+    expect(name.given).toEqual(['Jane']);
+    expect(name.warnings[0]).toContain('no family name');
+  });
+
+  it('never takes a prefix alone for a family name', () => {
+    const name = service.parse('Dr.');
+    expect(name.family).toBeUndefined();
+    expect(name.prefix).toEqual(['Dr.']);
+    expect(name.warnings[0]).toContain('no name besides its prefixes');
+  });
+
+  it('returns an empty name for blank input', () => {
+    expect(service.parse('   ')).toEqual({ text: '', prefix: [], given: [], suffix: [], warnings: [] });
+  });
+});
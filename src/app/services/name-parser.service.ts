@@ -0,0 +1,147 @@
+import { Injectable } from '@angular/core';
+import { ParsedPersonName } from '../models/person-name.model';
+
+// Compared in lower case without periods
+const PREFIXES = ['mr', 'mrs', 'ms', 'miss', 'mx', 'dr', 'prof', 'professor', 'rev', 'sir', 'dame', 'hon', 'mme', 'mlle'];
+const SUFFIXES = ['jr', 'sr', 'ii', 'iii', 'iv', 'fils', 'md', 'phd', 'dds', 'dmd', 'rn', 'np', 'esq', 'mba', 'cpa', 'qc', 'kc'];
+
+// Words that join the following word into a multi-word family name ("y" only in lower case, "Y" is an initial)
+const FAMILY_PARTICLES = [
+  'van', 'von', 'der', 'den', 'ter', 'ten', 'de', 'del', 'della', 'di', 'da', 'dos', 'das', 'du',
+  'la', 'le', 'bin', 'binti', 'bint', 'ibn', 'al', 'el', 'st', 'ste'
+];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class NameParserService {
+  constructor() {}
+
+  /**
+   * Splits a free-text personal name into its HumanName parts
+   *
+   * Handles "Family, Given" ordering, known prefixes and suffixes, family name particles
+   * ("van der Berg", "da Silva") and hyphenated or accented names. Every guess is reported
+   * in warnings so callers can surface it.
+   * @param value - Name as written, e.g. "Dr. Jane van der Berg Jr." or "Côté, Marie-Ève"
+   */
+  parse(value: string): ParsedPersonName {
+    const warnings: string[] = [];
+    let text = value.replace(/\s+/g, ' ').replace(/\s*-\s*/g, '-').trim();
+
+    // Nicknames in parentheses or quotes are not part of the legal name
+    const nicknames = text.match(/\([^)]*\)|"[^"]*"|“[^”]*”/g);
+    if (nicknames) {
+      warnings.push(`ignored ${nicknames.join(', ')} (looks like a nickname)`);
+      text = text.replace(/\([^)]*\)|"[^"]*"|“[^”]*”/g, ' ').replace(/\s+/g, ' ').trim();
+    }
+
+    const result: ParsedPersonName = { text, prefix: [], given: [], suffix: [], warnings };
+    if (!text) return result;
+
+    // "Smith, Jane, MD" → family part, given part and a comma-separated suffix; ", Jane" has no family part
+    const parts = text.split(',').map(part => part.trim()).filter(Boolean);
+    const nameParts = parts.filter((part, index) => {
+      const tokens = part.split(' ');
+      if (index > 0 && tokens.every(token => this.isSuffix(token))) {
+        result.suffix.push(...tokens);
+        return false;
+      }
+      return true;
+    });
+
+    if (text.startsWith(',') && nameParts.length > 0) {
+      this.parseFamilyFirst([], nameParts.join(' ').split(' '), result);
+    } else if (nameParts.length === 1) {
+      this.parseGivenFirst(nameParts[0].split(' '), result);
+    } else if (nameParts.length > 1) {
+      if (nameParts.length > 2) {
+        warnings.push(`unexpected commas in "${text}"; read the first part as the family name`);
+      }
+      this.parseFamilyFirst(nameParts[0].split(' '), nameParts.slice(1).join(' ').split(' '), result);
+    }
+
+    return result;
+  }
+
+  // "Dr. Jane Q. van der Berg Jr."
+  private parseGivenFirst(tokens: string[], result: ParsedPersonName): void {
+    const rest = this.stripAffixes(tokens, result);
+
+    if (rest.length === 0) {
+      result.warnings.push(`"${result.text}" has no name besides its prefixes and suffixes`);
+      return;
+    }
+    if (rest.length === 1) {
+      result.family = rest[0];
+      result.warnings.push(`single name "${rest[0]}"; mapped as the family name`);
+      return;
+    }
+
+    // The family name is the last word plus any particles before it; at least one given name is kept
+    let familyStart = rest.length - 1;
+    while (familyStart > 1 && this.isParticle(rest[familyStart - 1])) {
+      familyStart--;
+      // "García y López": the connector joins the word before it as well
+      if (rest[familyStart] === 'y' && familyStart > 1) {
+        familyStart--;
+      }
+    }
+    result.given = rest.slice(0, familyStart);
+    result.family = rest.slice(familyStart).join(' ');
+
+    if (result.given.length > 1 && familyStart === rest.length - 1) {
+      result.warnings.push(
+        `assumed "${result.given.slice(1).join(' ')}" is a middle name; ` +
+        `it may belong to a compound family name ("${rest.slice(1).join(' ')}")`
+      );
+    }
+  }
+
+  // "van der Berg, Dr. Jane Q."
+  private parseFamilyFirst(familyTokens: string[], givenTokens: string[], result: ParsedPersonName): void {
+    const family = this.stripAffixes(familyTokens, result);
+    const given = this.stripAffixes(givenTokens, result);
+
+    if (family.length > 0) {
+      result.family = family.join(' ');
+    } else {
+      result.warnings.push(`no family name before the comma in "${result.text}"`);
+    }
+    result.given = given;
+    if (given.length === 0) {
+      result.warnings.push(`no given name after the comma in "${result.text}"`);
+    }
+  }
+
+  // Moves leading prefixes and trailing suffixes into the result and returns the remaining tokens;
+  // a prefix is never a name ("Dr." alone leaves nothing), while a lone suffix-like word may be one
+  private stripAffixes(tokens: string[], result: ParsedPersonName): string[] {
+    const rest = tokens.filter(Boolean);
+    while (rest.length > 0 && this.isPrefix(rest[0])) {
+      result.prefix.push(rest.shift()!);
+    }
+    const suffixes: string[] = [];
+    while (rest.length > 1 && this.isSuffix(rest[rest.length - 1])) {
+      suffixes.unshift(rest.pop()!);
+    }
+    result.suffix.unshift(...suffixes);
+    return rest;
+  }
+
+  private isPrefix(token: string): boolean {
+    return PREFIXES.includes(this.normalize(token));
+  }
+
+  private isSuffix(token: string): boolean {
+    return SUFFIXES.includes(this.normalize(token));
+  }
+
+  private isParticle(token: string): boolean {
+    return token === 'y' || FAMILY_PARTICLES.includes(this.normalize(token));
+  }
+
+  private normalize(token: string): string {
+    return token.toLowerCase().replace(/\./g, '');
+  }
+}
@@ -0,0 +1,85 @@
+import { TestBed } from '@angular/core/testing';
+import { PHIPARulePack } from '../models/phipa.model';
+import { DEFAULT_PHIPA_RULE_PACK, PhipaRulePackService } from './phipa-rule-pack.service';
+
+describe('PhipaRulePackService', () => {
+  let service: PhipaRulePackService;
+
+  const clinicPack: PHIPARulePack = {
+    id: 'clinic-rules',
+    name: 'Clinic rules',
+    version: '1.0.0',
+    rules: [{
+      id: 'mother-maiden-name',
+      type: 'CUSTOM_SENSITIVE',
+      fieldNamePattern: 'mother.?maiden',
+      severity: 'medium',
+      weight: 2,
+      description: 'Mother\'s maiden name is a common security question answer',
+      recommendation: 'Do not collect security question answers with clinical data',
+      enabled: true
+    }]
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    service = TestBed.inject(PhipaRulePackService);
+  });
+
+  it('uses the built-in pack of each jurisdiction until another one is activated', () => {
+    expect(service.getActivePack().id).toBe('phipa-default');
+    expect(service.getActivePack('HIPAA').id).toBe('hipaa-safe-harbor');
+
+    service.savePack(clinicPack);
+    service.setActivePack('clinic-rules');
+
+    expect(service.getActivePack().id).toBe('clinic-rules');
+    expect(new PhipaRulePackService().getActivePack().id).toBe('clinic-rules');
+  });
+
+  it('replaces a saved pack only with a higher version, and never a built-in pack', () => {
+    service.savePack(clinicPack);
+
+    expect(() => service.savePack(clinicPack)).toThrow('raise the version');
+    expect(service.savePack({ ...clinicPack, version: '1.0.1' }).version).toBe('1.0.1');
+    expect(() => service.savePack({ ...DEFAULT_PHIPA_RULE_PACK, version: '9.0.0' })).toThrow('built-in');
+  });
+
+  it('copies a built-in pack into a new patch version when a rule is disabled', () => {
+    const saved = service.updateRule('genetic', { enabled: false });
+
+    expect(saved.id).toBe('phipa-default-custom');
+    expect(service.compareVersions(saved.version, DEFAULT_PHIPA_RULE_PACK.version)).toBeGreaterThan(0);
+    expect(saved.rules.find(rule => rule.id === 'genetic')?.enabled).toBe(false);
+    expect(service.getActivePack().id).toBe('phipa-default-custom');
+  });
+
+  it('lists every problem of an invalid pack', () => {
+    const errors = service.validatePack({
+      id: 'bad pack',
+      name: '',
+      version: '1',
+      rules: [{ ...clinicPack.rules[0], type: 'toString', fieldNamePattern: '(' }]
+    });
+
+    expect(errors).toEqual([
+      expect.stringContaining('"id"'),
+      expect.stringContaining('"name"'),
+      expect.stringContaining('"version"'),
+      expect.stringContaining('Rule 1 ("mother-maiden-name"): "type"'),
+      expect.stringContaining('Rule 1 ("mother-maiden-name"): "fieldNamePattern"')
+    ]);
+  });
+
+  describe('built-in field name patterns', () => {
+    const matches = (ruleId: string, fieldName: string) =>
+      new RegExp(DEFAULT_PHIPA_RULE_PACK.rules.find(rule => rule.id === ruleId)!.fieldNamePattern, 'i').test(fieldName);
+
+    it('match short names such as "sin" and "dna" as whole words only', () => {
+      ['sin', 'SIN', 'patient_sin', 'sin-number', 'ssn'].forEach(name => expect(matches('sin', name)).toBe(true));
+      ['business', 'using', 'sinus', 'className'].forEach(name => expect(matches('sin', name)).toBe(false));
+      ['dna', 'DNA_test', 'geneticMarker'].forEach(name => expect(matches('genetic', name)).toBe(true));
+      ['preferredName', 'fundName'].forEach(name => expect(matches('genetic', name)).toBe(false));
+    });
+  });
+});
@@ -0,0 +1,634 @@
+import { Injectable } from '@angular/core';
+import {
+  PHIPARule,
+  PHIPARulePack,
+  PHIPASeverity,
+  PHIPAValueCheck,
+  PHIPAViolationType,
+  PrivacyJurisdiction,
+  PrivacyJurisdictionId
+} from '../models/phipa.model';
+
+const STORAGE_KEY = 'medibridge.phipaRulePacks';
+const ACTIVE_KEY = 'medibridge.activePhipaRulePack';
+const VERSION = /^\d+\.\d+\.\d+$/;
+const SEVERITIES: PHIPASeverity[] = ['critical', 'high', 'medium', 'low'];
+const VALUE_CHECKS: PHIPAValueCheck[] = ['healthCardFormat', 'freeTextPhi'];
+const MAX_WEIGHT = 10;
+
+export const PRIVACY_JURISDICTIONS: PrivacyJurisdiction[] = [
+  {
+    id: 'PHIPA', name: 'PHIPA', region: 'Ontario',
+    fullName: 'Personal Health Information Protection Act, 2004'
+  },
+  {
+    id: 'PIPEDA', name: 'PIPEDA', region: 'Canada (federal)',
+    fullName: 'Personal Information Protection and Electronic Documents Act'
+  },
+  {
+    id: 'QC_LAW_25', name: 'Law 25', region: 'Québec',
+    fullName: 'Act to modernize legislative provisions as regards the protection of personal information'
+  },
+  {
+    id: 'AB_HIA', name: 'HIA', region: 'Alberta',
+    fullName: 'Health Information Act'
+  },
+  {
+    id: 'HIPAA', name: 'HIPAA Safe Harbor', region: 'United States',
+    fullName: 'HIPAA Privacy Rule de-identification standard, Safe Harbor method (45 CFR 164.514(b)(2))'
+  }
+];
+
+const rule = (
+  id: string,
+  type: PHIPARule['type'],
+  fieldNamePattern: string,
+  severity: PHIPASeverity,
+  description: string,
+  recommendation: string,
+  match: Pick<PHIPARule, 'valuePattern' | 'valueCheck' | 'pathScope'> = {}
+): PHIPARule => ({ id, type, fieldNamePattern, ...match, severity, weight: 1, description, recommendation, enabled: true });
+
+// Short names match as whole words only, also inside camelCase names (the validator spaces their words out),
+// so that "sin" does not match "business" nor "dna" "preferredName"
+const word = (pattern: string) => `(?<![a-z\\d])(?:${pattern})(?![a-z\\d])`;
+
+const SIN_FIELD = `${word('sin|ssn')}|social.?insurance`;
+const SIN_VALUE = '^\\d{3}([-\\s]?)\\d{3}\\1\\d{3}$';
+const CARD_FIELD = 'credit.?card|card.?number|cc.?num';
+const CARD_VALUE = '^\\d(?:[-\\s]?\\d){12,18}$';
+const BANK_FIELD = 'bank.?account|account.?number|routing';
+const BANK_VALUE = '^\\d{7,17}$';
+const LICENSE_FIELD = 'driver.?license|dl.?number|licence';
+const PASSPORT_VALUE = '^[A-Z]{1,2}\\d{6,9}$';
+const HEALTH_CARD_FIELD = 'health.?card|health.?number|ohip|ramq|phn|medicare.?number|provincial.?health';
+const IP_FIELD = 'ip.?address|ip.?addr';
+const IP_VALUE = '^(?:\\d{1,3}\\.){3}\\d{1,3}$';
+const BIOMETRIC_FIELD = 'fingerprint|retina|biometric|facial.?recognition';
+const GENETIC_FIELD = `genetic|${word('dna')}|genome|hereditary`;
+// Fields that hold notes and narrative; names, addresses and coded fields are left to their own rules
+const NARRATIVE_FIELD = 'note|comment|remark|narrative|text|description|summary|history|reason|instruction|memo|complaint|impression|observation|diagnos';
+
+export const DEFAULT_PHIPA_RULE_PACK: PHIPARulePack = {
+  id: 'phipa-default',
+  name: 'PHIPA Default',
+  jurisdiction: 'PHIPA',
+  version: '1.2.0',
+  description: 'Built-in detection rules for identifiers and special categories of personal health information',
+  builtIn: true,
+  rules: [
+    rule('sin', 'SIN', SIN_FIELD, 'critical',
+      'Social Insurance Numbers must not be stored or transmitted in plain text',
+      'Remove SIN from patient records or use tokenization/encryption',
+      { valuePattern: SIN_VALUE }),
+    rule('credit-card', 'CREDIT_CARD', CARD_FIELD, 'critical',
+      'Credit card numbers are not permitted in health data systems',
+      'Remove credit card information from health records',
+      { valuePattern: CARD_VALUE }),
+    rule('bank-account', 'BANK_ACCOUNT', BANK_FIELD, 'high',
+      'Bank account numbers should not be included in patient data',
+      'Use a separate billing system for financial data',
+      { valuePattern: BANK_VALUE }),
+    rule('drivers-license', 'DRIVERS_LICENSE', LICENSE_FIELD, 'high',
+      'Driver\'s license numbers are personally identifiable and should be encrypted',
+      'Use alternate patient identifiers or encrypt'),
+    rule('passport', 'PASSPORT', 'passport', 'high',
+      'Passport numbers must be protected as sensitive identifiers',
+      'Use alternate identifiers and encrypt if required',
+      { valuePattern: PASSPORT_VALUE }),
+    // Any provincial or territorial card format; a wrong check digit does not make the number less sensitive
+    rule('health-card', 'HEALTH_CARD', HEALTH_CARD_FIELD, 'critical',
+      'Health card numbers are highly sensitive and must be encrypted',
+      'Encrypt health card numbers and use tokenization',
+      { valueCheck: 'healthCardFormat' }),
+    rule('ip-address', 'IP_ADDRESS', IP_FIELD, 'medium',
+      'IP addresses can be used to identify individuals',
+      'Anonymize or remove IP addresses from patient data',
+      { valuePattern: IP_VALUE }),
+    rule('biometric', 'BIOMETRIC_DATA', BIOMETRIC_FIELD, 'critical',
+      'Biometric data requires special encryption and handling',
+      'Use specialized biometric encryption and secure storage'),
+    rule('genetic', 'GENETIC_DATA', GENETIC_FIELD, 'critical',
+      'Genetic information is highly sensitive personal health data',
+      'Apply highest level of encryption and access controls'),
+    rule('free-text', 'FREE_TEXT_PHI', NARRATIVE_FIELD, 'high',
+      'Narrative text contains identifying information',
+      'Redact identifiers from notes and narrative before sharing, or leave the text out of the disclosure',
+      { valueCheck: 'freeTextPhi' })
+  ]
+};
+
+const PIPEDA_RULE_PACK: PHIPARulePack = {
+  id: 'pipeda-default',
+  name: 'PIPEDA Default',
+  jurisdiction: 'PIPEDA',
+  version: '1.2.0',
+  description: 'Sensitive personal information under the federal private-sector privacy law',
+  builtIn: true,
+  rules: [
+    rule('sin', 'SIN', SIN_FIELD, 'critical',
+      'The SIN may only be collected for purposes such as income reporting; it is not a general identifier',
+      'Collect the SIN only where a law requires it (Principle 4.4, Limiting Collection); otherwise remove it',
+      { valuePattern: SIN_VALUE }),
+    rule('credit-card', 'CREDIT_CARD', CARD_FIELD, 'critical',
+      'Payment card numbers are sensitive financial information',
+      'Keep payment data out of health records and protect it with safeguards matching its sensitivity (Principle 4.7)',
+      { valuePattern: CARD_VALUE }),
+    rule('bank-account', 'BANK_ACCOUNT', BANK_FIELD, 'high',
+      'Bank account numbers are sensitive financial information',
+      'Collect financial information only for an identified purpose (Principle 4.4) and keep it in a billing system',
+      { valuePattern: BANK_VALUE }),
+    rule('drivers-license', 'DRIVERS_LICENSE', LICENSE_FIELD, 'high',
+      'Government-issued numbers such as driver\'s licences should not be used as general identifiers',
+      'Identify patients with an internal identifier instead of a government-issued number'),
+    rule('passport', 'PASSPORT', 'passport', 'high',
+      'Passport numbers are government-issued identifiers and sensitive personal information',
+      'Identify patients with an internal identifier instead of a government-issued number',
+      { valuePattern: PASSPORT_VALUE }),
+    rule('health-card', 'HEALTH_CARD', HEALTH_CARD_FIELD, 'critical',
+      'Health information, including health card numbers, is sensitive personal information',
+      'Obtain express consent before disclosing health card numbers (Principle 4.3) and encrypt them',
+      { valueCheck: 'healthCardFormat' }),
+    rule('ip-address', 'IP_ADDRESS', IP_FIELD, 'medium',
+      'The Privacy Commissioner of Canada treats IP addresses as personal information',
+      'Remove or truncate IP addresses before sharing records',
+      { valuePattern: IP_VALUE }),
+    rule('biometric', 'BIOMETRIC_DATA', BIOMETRIC_FIELD, 'critical',
+      'Biometric information is sensitive personal information',
+      'Obtain express consent and keep biometric templates apart from health data'),
+    rule('genetic', 'GENETIC_DATA', GENETIC_FIELD, 'critical',
+      'Genetic test results are sensitive personal information whose use is restricted by the Genetic Non-Discrimination Act',
+      'Obtain express consent and restrict access to genetic information'),
+    rule('free-text', 'FREE_TEXT_PHI', NARRATIVE_FIELD, 'high',
+      'Narrative text contains personal information',
+      'Limit notes to what the identified purpose needs (Principle 4.4) and redact identifiers before disclosure',
+      { valueCheck: 'freeTextPhi' })
+  ]
+};
+
+const QC_LAW_25_RULE_PACK: PHIPARulePack = {
+  id: 'qc-law25-default',
+  name: 'Law 25 Default',
+  jurisdiction: 'QC_LAW_25',
+  version: '1.2.0',
+  description: 'Sensitive personal information under Québec\'s private-sector privacy act as amended by Law 25, '
+    + 'with French field names',
+  builtIn: true,
+  rules: [
+    rule('health-card', 'HEALTH_CARD', `${HEALTH_CARD_FIELD}|nam$|carte.?soleil|assurance.?maladie`, 'critical',
+      'RAMQ health insurance numbers are sensitive personal information',
+      'Obtain express consent and complete a privacy impact assessment before communicating health information outside Québec',
+      { valueCheck: 'healthCardFormat' }),
+    rule('sin', 'SIN', `${SIN_FIELD}|nas$|assurance.?sociale`, 'critical',
+      'The SIN is sensitive personal information',
+      'Collect the SIN only when necessary, and destroy or anonymize it once its purpose is fulfilled',
+      { valuePattern: SIN_VALUE }),
+    rule('credit-card', 'CREDIT_CARD', `${CARD_FIELD}|carte.?de.?cr[eé]dit`, 'critical',
+      'Financial information is sensitive personal information',
+      'Keep payment data out of health records',
+      { valuePattern: CARD_VALUE }),
+    rule('bank-account', 'BANK_ACCOUNT', `${BANK_FIELD}|compte.?bancaire|num[eé]ro.?de.?compte`, 'high',
+      'Financial information is sensitive personal information',
+      'Keep banking details in a billing system, apart from health records',
+      { valuePattern: BANK_VALUE }),
+    rule('drivers-license', 'DRIVERS_LICENSE', `${LICENSE_FIELD}|permis.?de.?conduire`, 'high',
+      'Driver\'s licence numbers identify a person and must be protected',
+      'Use an internal patient identifier instead'),
+    rule('passport', 'PASSPORT', 'passport|passeport', 'high',
+      'Passport numbers identify a person and must be protected',
+      'Use an internal patient identifier instead',
+      { valuePattern: PASSPORT_VALUE }),
+    rule('biometric', 'BIOMETRIC_DATA', `${BIOMETRIC_FIELD}|empreinte|biom[eé]tri`, 'critical',
+      'Biometric databases must be declared to the Commission d\'accès à l\'information before they are used',
+      'Obtain express consent and declare the biometric database to the Commission d\'accès à l\'information'),
+    rule('genetic', 'GENETIC_DATA', `${GENETIC_FIELD}|g[eé]n[eé]tique|adn$`, 'critical',
+      'Genetic information is sensitive personal information',
+      'Obtain express consent and restrict access to genetic information'),
+    rule('location', 'IP_ADDRESS', `${IP_FIELD}|adresse.?ip|geo.?location|g[eé]olocalisation`, 'medium',
+      'Technologies that locate or profile a person must be turned off by default',
+      'Turn location tracking off by default and remove IP addresses and geolocation before sharing'),
+    rule('free-text', 'FREE_TEXT_PHI', NARRATIVE_FIELD, 'high',
+      'Narrative text contains personal information',
+      'Redact identifiers from narrative text before communicating it, including to service providers',
+      { valueCheck: 'freeTextPhi' })
+  ]
+};
+
+const AB_HIA_RULE_PACK: PHIPARulePack = {
+  id: 'ab-hia-default',
+  name: 'HIA Default',
+  jurisdiction: 'AB_HIA',
+  version: '1.2.0',
+  description: 'Individually identifying health information under Alberta\'s Health Information Act',
+  builtIn: true,
+  rules: [
+    rule('health-card', 'HEALTH_CARD', `${HEALTH_CARD_FIELD}|ahcip|uli$|personal.?health.?number`, 'critical',
+      'The Alberta personal health number makes health information individually identifying',
+      'Disclose the PHN only when essential, with the highest degree of anonymity possible (HIA s. 58)',
+      { valueCheck: 'healthCardFormat' }),
+    rule('sin', 'SIN', SIN_FIELD, 'high',
+      'The SIN is not health information and should not be collected with health records',
+      'Remove the SIN; identify patients by PHN or a custodian-assigned identifier',
+      { valuePattern: SIN_VALUE }),
+    rule('drivers-license', 'DRIVERS_LICENSE', LICENSE_FIELD, 'high',
+      'Driver\'s licence numbers make health records identifying without being needed for care',
+      'Remove driver\'s licence numbers; identify patients by PHN'),
+    rule('genetic', 'GENETIC_DATA', GENETIC_FIELD, 'critical',
+      'Genetic information is diagnostic health information of the individual and their relatives',
+      'Disclose genetic information in non-identifying form unless the individual consents (HIA s. 34)'),
+    rule('biometric', 'BIOMETRIC_DATA', BIOMETRIC_FIELD, 'critical',
+      'Biometric identifiers make health information individually identifying',
+      'Remove biometric data before disclosure or obtain consent (HIA s. 34)'),
+    rule('ip-address', 'IP_ADDRESS', IP_FIELD, 'medium',
+      'IP addresses can link health information back to an individual',
+      'Remove IP addresses before disclosure',
+      { valuePattern: IP_VALUE }),
+    rule('free-text', 'FREE_TEXT_PHI', NARRATIVE_FIELD, 'high',
+      'Narrative text makes health information individually identifying',
+      'Strip identifiers from narrative text to disclose it with the highest degree of anonymity possible (HIA s. 58)',
+      { valueCheck: 'freeTextPhi' })
+  ]
+};
+
+const HIPAA_SAFE_HARBOR = '45 CFR 164.514(b)(2)';
+
+const HIPAA_RULE_PACK: PHIPARulePack = {
+  id: 'hipaa-safe-harbor',
+  name: 'HIPAA Safe Harbor',
+  jurisdiction: 'HIPAA',
+  version: '1.2.0',
+  description: `The 18 identifiers the Safe Harbor method (${HIPAA_SAFE_HARBOR}) requires removing before sharing de-identified data`,
+  builtIn: true,
+  rules: [
+    rule('name', 'PERSONAL_NAME',
+      '^(name|(first|last|given|family|middle|maiden|patient|full|sur).?name|given|family|surname)$', 'high',
+      'Names of the individual and their relatives are Safe Harbor identifiers',
+      'Remove names of the individual, relatives, employers and household members'),
+    rule('geographic', 'GEOGRAPHIC_SUBDIVISION', '^(street|address.?line\\d*|lines?|city|town|county|district|municipality)$', 'high',
+      'Geographic subdivisions smaller than a state (street address, city, county) are Safe Harbor identifiers',
+      'Remove street addresses and cities; keep the state or province only'),
+    rule('zip', 'POSTAL_CODE_FULL', 'zip|postal', 'medium',
+      'Full ZIP and postal codes are Safe Harbor identifiers',
+      'Keep only the first 3 digits of a ZIP code whose area holds more than 20,000 people, 000 otherwise',
+      { valuePattern: '^(\\d{5}(-\\d{4})?|[A-Za-z]\\d[A-Za-z] ?\\d[A-Za-z]\\d)$' }),
+    rule('dates', 'DATE_OF_BIRTH_FULL', 'birth|dob|death|admission|admit|discharge|visit.?date|service.?date', 'medium',
+      'All elements of dates except the year that relate to the individual are Safe Harbor identifiers',
+      'Keep only the year, and aggregate ages over 89 into a single category of 90 or older',
+      { valuePattern: '^\\d{4}-\\d{2}-\\d{2}|^\\d{1,2}[/-]\\d{1,2}[/-]\\d{4}$|^\\d{8}$' }),
+    rule('phone', 'PHONE_UNMASKED', 'phone|mobile|fax|cell|tel(ephone)?$', 'high',
+      'Telephone and fax numbers are Safe Harbor identifiers',
+      'Remove telephone and fax numbers'),
+    rule('email', 'EMAIL_UNENCRYPTED', 'e.?mail', 'high',
+      'E-mail addresses are Safe Harbor identifiers',
+      'Remove e-mail addresses',
+      { valuePattern: '@' }),
+    rule('ssn', 'SSN', `${word('ssn')}|social.?security`, 'critical',
+      'Social Security numbers are Safe Harbor identifiers',
+      'Remove Social Security numbers',
+      { valuePattern: '^(?!000|666|9\\d\\d)\\d{3}([-\\s]?)(?!00)\\d{2}\\1(?!0000)\\d{4}$' }),
+    rule('sin', 'SIN', `${word('sin')}|social.?insurance`, 'critical',
+      'A Canadian SIN is a unique identifying number under Safe Harbor',
+      'Remove Social Insurance Numbers',
+      { valuePattern: SIN_VALUE }),
+    rule('mrn', 'MEDICAL_RECORD_NUMBER', '^mrn$|medical.?record|chart.?n(o|umber)|^patient.?id$', 'high',
+      'Medical record numbers are Safe Harbor identifiers',
+      'Replace medical record numbers with a code that cannot be traced back to the individual'),
+    rule('health-plan', 'HEALTH_PLAN_NUMBER',
+      'health.?plan|member.?id|beneficiary|insurance.?(id|n(o|umber))|policy.?n(o|umber)|medicaid|medicare', 'high',
+      'Health plan beneficiary numbers are Safe Harbor identifiers',
+      'Remove health plan and member numbers'),
+    // Canadian health card numbers are health plan beneficiary numbers too
+    rule('health-card', 'HEALTH_CARD', HEALTH_CARD_FIELD, 'critical',
+      'Provincial health card numbers are health plan beneficiary numbers under Safe Harbor',
+      'Remove health card numbers',
+      { valueCheck: 'healthCardFormat' }),
+    rule('account', 'BANK_ACCOUNT', 'account.?n(o|umber)|bank.?account', 'high',
+      'Account numbers are Safe Harbor identifiers',
+      'Remove account numbers'),
+    rule('credit-card', 'CREDIT_CARD', CARD_FIELD, 'critical',
+      'Payment card numbers are unique identifying numbers under Safe Harbor',
+      'Remove payment card numbers',
+      { valuePattern: CARD_VALUE }),
+    rule('license', 'CERTIFICATE_LICENSE', 'licen[cs]e|certificate.?n(o|umber)', 'high',
+      'Certificate and license numbers are Safe Harbor identifiers',
+      'Remove certificate and license numbers'),
+    rule('vehicle', 'VEHICLE_IDENTIFIER', '^vin$|vehicle|licen[cs]e.?plate|plate.?n(o|umber)', 'high',
+      'Vehicle identifiers and serial numbers, including license plates, are Safe Harbor identifiers',
+      'Remove vehicle identifiers and license plate numbers'),
+    rule('device', 'DEVICE_IDENTIFIER', 'device.?(id|serial)|serial.?n(o|umber)|^udi$|imei', 'high',
+      'Device identifiers and serial numbers are Safe Harbor identifiers',
+      'Remove device identifiers and serial numbers'),
+    rule('url', 'WEB_URL', 'url$|website|home.?page|web.?page', 'medium',
+      'Web URLs are Safe Harbor identifiers',
+      'Remove web URLs',
+      { valuePattern: '^https?://' }),
+    rule('ip-address', 'IP_ADDRESS', IP_FIELD, 'medium',
+      'IP addresses are Safe Harbor identifiers',
+      'Remove IP addresses',
+      { valuePattern: IP_VALUE }),
+    rule('biometric', 'BIOMETRIC_DATA', `${BIOMETRIC_FIELD}|voice.?print`, 'critical',
+      'Biometric identifiers, including finger and voice prints, are Safe Harbor identifiers',
+      'Remove biometric identifiers'),
+    rule('photo', 'FULL_FACE_PHOTO', 'photo|portrait|face.?image|head.?shot', 'high',
+      'Full-face photographs and comparable images are Safe Harbor identifiers',
+      'Remove full-face photographs and comparable images'),
+    rule('free-text', 'FREE_TEXT_PHI', NARRATIVE_FIELD, 'high',
+      'Safe Harbor identifiers in narrative text must be removed like those in structured fields',
+      'Redact names, numbers, contact details and dates from narrative text',
+      { valueCheck: 'freeTextPhi' })
+  ]
+};
+
+export const BUILT_IN_RULE_PACKS: PHIPARulePack[] = [
+  DEFAULT_PHIPA_RULE_PACK,
+  PIPEDA_RULE_PACK,
+  QC_LAW_25_RULE_PACK,
+  AB_HIA_RULE_PACK,
+  HIPAA_RULE_PACK
+];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PhipaRulePackService {
+  private customPacks: PHIPARulePack[] = [];
+  // Active pack id per jurisdiction; jurisdictions without an entry use their built-in pack
+  private activePackIds: Partial<Record<PrivacyJurisdictionId, string>> = {};
+
+  constructor() {
+    this.load();
+  }
+
+  /**
+   * All packs, or only the packs of one jurisdiction
+   */
+  getPacks(jurisdiction?: PrivacyJurisdictionId): PHIPARulePack[] {
+    const packs = [...BUILT_IN_RULE_PACKS, ...this.customPacks];
+    return jurisdiction ? packs.filter(pack => this.jurisdictionOf(pack) === jurisdiction) : packs;
+  }
+
+  getPack(id: string): PHIPARulePack | undefined {
+    return this.getPacks().find(pack => pack.id === id);
+  }
+
+  getActivePack(jurisdiction: PrivacyJurisdictionId = 'PHIPA'): PHIPARulePack {
+    const active = this.getPack(this.activePackIds[jurisdiction] ?? '');
+    return active && this.jurisdictionOf(active) === jurisdiction
+      ? active
+      : BUILT_IN_RULE_PACKS.find(pack => pack.jurisdiction === jurisdiction)!;
+  }
+
+  /**
+   * Makes a pack the active one of the jurisdiction it belongs to
+   */
+  setActivePack(id: string): void {
+    const pack = this.getPack(id);
+    if (!pack) {
+      throw new Error(`Unknown rule pack "${id}"`);
+    }
+    this.activePackIds[this.jurisdictionOf(pack)] = id;
+    this.persist();
+  }
+
+  /**
+   * The jurisdiction whose rules a pack holds; packs written before jurisdictions existed are PHIPA packs
+   */
+  jurisdictionOf(pack: PHIPARulePack): PrivacyJurisdictionId {
+    return pack.jurisdiction ?? 'PHIPA';
+  }
+
+  getJurisdiction(id: PrivacyJurisdictionId): PrivacyJurisdiction {
+    return PRIVACY_JURISDICTIONS.find(jurisdiction => jurisdiction.id === id)!;
+  }
+
+  /**
+   * Creates a user-defined rule pack, or replaces one with a higher version
+   * @throws Error when the pack is invalid, would replace a built-in pack or does not raise the version
+   */
+  savePack(pack: PHIPARulePack): PHIPARulePack {
+    const errors = this.validatePack(pack);
+    if (errors.length > 0) {
+      throw new Error(errors.join('\n'));
+    }
+    if (BUILT_IN_RULE_PACKS.some(builtIn => builtIn.id === pack.id)) {
+      throw new Error(`"${pack.id}" is a built-in rule pack and cannot be replaced; choose another id`);
+    }
+
+    const index = this.customPacks.findIndex(p => p.id === pack.id);
+    if (index >= 0 && this.compareVersions(pack.version, this.customPacks[index].version) <= 0) {
+      throw new Error(
+        `Rule pack "${pack.id}" is already at version ${this.customPacks[index].version}; raise the version to replace it`
+      );
+    }
+
+    const saved: PHIPARulePack = { ...pack, builtIn: false };
+    if (index >= 0) {
+      this.customPacks[index] = saved;
+    } else {
+      this.customPacks.push(saved);
+    }
+    this.persist();
+    return saved;
+  }
+
+  deletePack(id: string): void {
+    this.customPacks = this.customPacks.filter(pack => pack.id !== id);
+    (Object.keys(this.activePackIds) as PrivacyJurisdictionId[])
+      .filter(jurisdiction => this.activePackIds[jurisdiction] === id)
+      .forEach(jurisdiction => delete this.activePackIds[jurisdiction]);
+    this.persist();
+  }
+
+  /**
+   * Parses and saves a rule pack from its JSON document
+   */
+  importPack(json: string): PHIPARulePack {
+    let pack: any;
+    try {
+      pack = JSON.parse(json);
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${(error as Error).message}`);
+    }
+    return this.savePack(pack);
+  }
+
+  exportPack(id: string): string {
+    const pack = this.getPack(id);
+    if (!pack) {
+      throw new Error(`Unknown rule pack "${id}"`);
+    }
+    const { builtIn, ...document } = pack;
+    return JSON.stringify(document, null, 2);
+  }
+
+  /**
+   * Enables, disables or re-weights a rule of a jurisdiction's active pack as a new patch version.
+   * A built-in active pack is copied into a new user pack first, which becomes active.
+   */
+  updateRule(
+    ruleId: string,
+    changes: Partial<Pick<PHIPARule, 'enabled' | 'weight' | 'severity'>>,
+    jurisdiction: PrivacyJurisdictionId = 'PHIPA'
+  ): PHIPARulePack {
+    const active = this.getActivePack(jurisdiction);
+    if (!active.rules.some(rule => rule.id === ruleId)) {
+      throw new Error(`Unknown rule "${ruleId}" in rule pack "${active.id}"`);
+    }
+
+    const rules = active.rules.map(rule => (rule.id === ruleId ? { ...rule, ...changes } : rule));
+    const [major, minor, patch] = active.version.split('.').map(Number);
+    const version = `${major}.${minor}.${patch + 1}`;
+
+    let pack: PHIPARulePack;
+    if (active.builtIn) {
+      const ids = new Set(this.getPacks().map(p => p.id));
+      let id = `${active.id}-custom`;
+      for (let n = 2; ids.has(id); n++) {
+        id = `${active.id}-custom-${n}`;
+      }
+      pack = { ...active, id, name: `${active.name} (custom)`, version, rules };
+    } else {
+      pack = { ...active, version, rules };
+    }
+
+    const saved = this.savePack(pack);
+    this.setActivePack(saved.id);
+    return saved;
+  }
+
+  /**
+   * Checks the structure of a rule pack document
+   * @returns Human-readable problems; empty when the pack is valid
+   */
+  validatePack(pack: any): string[] {
+    const errors: string[] = [];
+
+    if (!pack || typeof pack !== 'object' || Array.isArray(pack)) {
+      return ['Rule pack must be a JSON object'];
+    }
+    if (typeof pack.id !== 'string' || !/^[\w.-]+$/.test(pack.id)) {
+      errors.push('Rule pack "id" must be a non-empty string of letters, digits, ".", "_" or "-"');
+    }
+    if (typeof pack.name !== 'string' || !pack.name.trim()) {
+      errors.push('Rule pack "name" is required');
+    }
+    if (typeof pack.version !== 'string' || !VERSION.test(pack.version)) {
+      errors.push('Rule pack "version" must be a semantic version such as "1.0.0"');
+    }
+    if (pack.jurisdiction !== undefined && !PRIVACY_JURISDICTIONS.some(j => j.id === pack.jurisdiction)) {
+      errors.push(`Rule pack "jurisdiction" must be one of ${PRIVACY_JURISDICTIONS.map(j => j.id).join(', ')}`);
+    }
+    if (!Array.isArray(pack.rules)) {
+      errors.push('Rule pack "rules" must be an array');
+      return errors;
+    }
+
+    const ids = new Set<string>();
+    pack.rules.forEach((rule: any, index: number) => {
+      const label = `Rule ${index + 1}${typeof rule?.id === 'string' ? ` ("${rule.id}")` : ''}`;
+      if (typeof rule?.id === 'string' && ids.has(rule.id)) {
+        errors.push(`${label}: "id" is used by an earlier rule`);
+      }
+      ids.add(rule?.id);
+      this.validateRule(rule).forEach(error => errors.push(`${label}: ${error}`));
+    });
+
+    return errors;
+  }
+
+  /**
+   * Orders semantic versions: negative when a is lower than b, positive when higher
+   */
+  compareVersions(a: string, b: string): number {
+    const left = a.split('.').map(Number);
+    const right = b.split('.').map(Number);
+    for (let i = 0; i < 3; i++) {
+      if (left[i] !== right[i]) return left[i] - right[i];
+    }
+    return 0;
+  }
+
+  private validateRule(rule: any): string[] {
+    if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+      return ['must be an object'];
+    }
+
+    const errors: string[] = [];
+    if (typeof rule.id !== 'string' || !/^[\w.-]+$/.test(rule.id)) {
+      errors.push('"id" must be a non-empty string of letters, digits, ".", "_" or "-"');
+    }
+    if (typeof rule.type !== 'string' || !Object.hasOwn(PHIPAViolationType, rule.type)) {
+      errors.push(`"type" must be one of ${Object.keys(PHIPAViolationType).join(', ')}`);
+    }
+    (['fieldNamePattern', 'valuePattern', 'pathScope'] as const).forEach(key => {
+      if (key !== 'fieldNamePattern' && rule[key] === undefined) return;
+      const problem = this.patternProblem(rule[key]);
+      if (problem) errors.push(`"${key}" ${problem}`);
+    });
+    if (rule.valueCheck !== undefined && !VALUE_CHECKS.includes(rule.valueCheck)) {
+      errors.push(`"valueCheck" must be one of ${VALUE_CHECKS.join(', ')}`);
+    }
+    if (!SEVERITIES.includes(rule.severity)) {
+      errors.push(`"severity" must be one of ${SEVERITIES.join(', ')}`);
+    }
+    if (typeof rule.weight !== 'number' || rule.weight < 0 || rule.weight > MAX_WEIGHT) {
+      errors.push(`"weight" must be a number from 0 to ${MAX_WEIGHT}`);
+    }
+    if (typeof rule.description !== 'string' || !rule.description.trim()) {
+      errors.push('"description" is required');
+    }
+    if (typeof rule.recommendation !== 'string' || !rule.recommendation.trim()) {
+      errors.push('"recommendation" is required');
+    }
+    if (typeof rule.enabled !== 'boolean') {
+      errors.push('"enabled" must be true or false');
+    }
+    return errors;
+  }
+
+  private patternProblem(pattern: any): string | null {
+    if (typeof pattern !== 'string' || !pattern) {
+      return 'must be a non-empty regular expression';
+    }
+    try {
+      new RegExp(pattern);
+      return null;
+    } catch (error) {
+      return `is not a valid regular expression: ${(error as Error).message}`;
+    }
+  }
+
+  private load(): void {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const packs = stored ? JSON.parse(stored) : [];
+      this.customPacks = Array.isArray(packs)
+        ? packs.filter(pack => this.validatePack(pack).length === 0)
+        : [];
+      this.activePackIds = this.parseActivePackIds(localStorage.getItem(ACTIVE_KEY));
+    } catch {
+      // Storage unavailable (private browsing, tests); rule packs live for the session only
+      this.customPacks = [];
+    }
+  }
+
+  // Earlier versions stored the id of the single (PHIPA) active pack as a plain string
+  private parseActivePackIds(stored: string | null): Partial<Record<PrivacyJurisdictionId, string>> {
+    if (!stored) return {};
+    try {
+      const ids = JSON.parse(stored);
+      return ids && typeof ids === 'object' && !Array.isArray(ids) ? ids : {};
+    } catch {
+      return { PHIPA: stored };
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.customPacks));
+      localStorage.setItem(ACTIVE_KEY, JSON.stringify(this.activePackIds));
+    } catch {
+      // Storage unavailable; keep the in-memory state
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { TestBed } from '@angular/core/testing';
+import { PHIPAViolationType } from '../models/phipa.model';
+import { ConsentService } from './consent.service';
+import { PhipaValidationService } from './phipa-validation.service';
+import { PurposeOfUseService } from './purpose-of-use.service';
+import multipleContactPoints from '../../../sample-data/patient-multiple-contact-points.json';
+
+describe('PhipaValidationService', () => {
+  let service: PhipaValidationService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    service = TestBed.inject(PhipaValidationService);
+  });
+
+  describe('checksum verification', () => {
+    it('merges the field name and value findings of a verified SIN into one high-confidence finding', () => {
+      const findings = service.checkField('sin', '130 692 544');
+
+      expect(findings.length).toBe(1);
+      expect(findings[0].violationType).toBe(PHIPAViolationType.SIN);
+      expect(findings[0].confidence).toBe('high');
+      expect(findings[0].evidence.some(item => item.startsWith('field name "sin"'))).toBe(true);
+      expect(findings[0].evidence.some(item => /check digit/i.test(item))).toBe(true);
+      expect(findings[0].value).not.toContain('692');
+    });
+
+    it('detects a separated SIN by its value alone, whatever the field is called', () => {
+      const findings = service.checkField('reference', '130-692-544');
+
+      expect(findings.map(f => f.violationType)).toEqual([PHIPAViolationType.SIN]);
+      expect(findings[0].confidence).toBe('medium');
+    });
+
+    it('ignores a SIN-shaped value whose check digit fails', () => {
+      expect(service.checkField('reference', '130-692-545')).toEqual([]);
+    });
+
+    it('reports a Luhn-valid card number and skips an accession number of the same length', () => {
+      expect(service.checkField('reference', '4111 1111 1111 1111').map(f => f.violationType))
+        .toEqual([PHIPAViolationType.CREDIT_CARD]);
+      expect(service.checkField('reference', '4111 1111 1111 1112')).toEqual([]);
+    });
+  });
+
+  describe('rule pack field names', () => {
+    it('raises no genetic or SIN finding on the multiple contact points sample', () => {
+      const types = service.validateData(multipleContactPoints).violations.map(v => v.violationType);
+
+      expect(types).not.toContain(PHIPAViolationType.GENETIC_DATA);
+      expect(types).not.toContain(PHIPAViolationType.SIN);
+    });
+
+    it('matches whole-word rules inside camelCase names but not inside other words', () => {
+      expect(service.checkField('patientSin', '130 692 544')[0]?.evidence[0]).toMatch(/^field name "patientSin"/);
+      expect(service.checkField('dnaSequence', 'ACGT')[0]?.violationType).toBe(PHIPAViolationType.GENETIC_DATA);
+      expect(service.checkField('patientDNA', 'ACGT')[0]?.violationType).toBe(PHIPAViolationType.GENETIC_DATA);
+      expect(service.checkField('preferredName', 'Mimi').map(f => f.violationType)).not.toContain(PHIPAViolationType.GENETIC_DATA);
+      expect(service.checkField('businessUnit', 'Cardiology')).toEqual([]);
+      expect(service.checkField('sinusRhythm', 'normal')).toEqual([]);
+    });
+  });
+
+  describe('jurisdictions', () => {
+    const record = { firstName: 'Amélie', sin: '130 692 544' };
+
+    it('keeps the jurisdictions in a fixed order and requires at least one', () => {
+      service.setJurisdictions(['HIPAA', 'PHIPA']);
+
+      expect(service.getJurisdictions()).toEqual(['PHIPA', 'HIPAA']);
+      expect(() => service.setJurisdictions([])).toThrow('at least one');
+    });
+
+    it('reports a field once per jurisdiction whose rules flag it, with the pack that applied', () => {
+      service.setJurisdictions(['PHIPA', 'HIPAA']);
+      const result = service.validateData(record);
+
+      const sin = result.violations.filter(v => v.violationType === PHIPAViolationType.SIN);
+      expect(sin.map(v => v.jurisdiction)).toEqual(['PHIPA', 'HIPAA']);
+      expect(sin.every(v => v.field === 'sin' && v.confidence === 'high')).toBe(true);
+      expect(result.violations.filter(v => v.violationType === PHIPAViolationType.PERSONAL_NAME).map(v => v.jurisdiction))
+        .toEqual(['HIPAA']);
+      expect(result.rulePacks.map(pack => pack.id)).toEqual(['phipa-default', 'hipaa-safe-harbor']);
+      expect(result.summary).toContain('HIPAA');
+    });
+
+    it('validates against the selected jurisdictions only', () => {
+      const result = service.validateData(record);
+
+      expect(result.jurisdictions).toEqual(['PHIPA']);
+      expect(result.violations.every(v => v.jurisdiction === 'PHIPA')).toBe(true);
+    });
+  });
+
+  describe('options', () => {
+    const record = { firstName: 'Amélie', sin: '130 692 544', consentWithdrawn: true };
+
+    it('validates against the jurisdictions and consent given instead of the selected ones', () => {
+      const consent = TestBed.inject(ConsentService).evaluate(record);
+      const result = service.validateData(record, { jurisdictions: ['HIPAA'], consent });
+
+      expect(result.jurisdictions).toEqual(['HIPAA']);
+      expect(result.violations.some(v => v.violationType === PHIPAViolationType.CONSENT_WITHDRAWN)).toBe(true);
+      expect(service.validateData(record).violations.some(v => v.violationType === PHIPAViolationType.CONSENT_WITHDRAWN))
+        .toBe(false);
+    });
+
+    it('uses the selected purpose of use unless one is given, and none when it is given as undefined', () => {
+      const purposes = TestBed.inject(PurposeOfUseService);
+      purposes.selectPurpose('billing');
+
+      expect(service.validateData(record).purposeOfUse?.id).toBe('billing');
+      expect(service.validateData(record, { purpose: purposes.getPurpose('research') }).purposeOfUse?.id).toBe('research');
+      expect(service.validateData(record, { purpose: undefined }).purposeOfUse).toBeUndefined();
+    });
+  });
+});
@@ -1,108 +1,243 @@
 import { Injectable } from '@angular/core';
 import {
+  PHILeakageItem,
+  PHILeakageStatus,
+  PHIPARule,
+  PHIPARulePack,
+  PHIPARulePackRef,
+  PHIPAValidationOptions,
   PHIPAValidationResult,
   PHIPAViolation,
   PHIPAWarning,
+  PHIPASeverity,
   PHIPAViolationType,
-  SensitiveFieldPattern
+  PHITextSpan,
+  PrivacyJurisdictionId,
+  ViolationConfidence
 } from '../models/phipa.model';
+import { CapacityAssessment } from '../models/capacity.model';
+import { ConsentState } from '../models/consent.model';
+import { FHIRAddress, FHIRContactPoint, FHIRHumanName, FHIRPatient } from '../models/fhir.model';
+import { PurposeElement, PurposeOfUse } from '../models/purpose-of-use.model';
+import { CAPACITY_WARNING_TYPE, CapacityService, MINOR_AGE } from './capacity.service';
+import { ConsentService } from './consent.service';
+import { PurposeOfUseService } from './purpose-of-use.service';
+import { FreeTextPhiService } from './free-text-phi.service';
+import { HealthCardValidatorService } from './health-card-validator.service';
+import { IdentifierChecksumService } from './identifier-checksum.service';
+import { PhipaRulePackService, PRIVACY_JURISDICTIONS } from './phipa-rule-pack.service';
+import { PSEUDONYM_SYSTEM } from './pseudonymization.service';
+
+const SIN_VALUE = /^\d{3}([-\s]?)\d{3}\1\d{3}$/;
+// 13 to 19 digits, optionally grouped with spaces or dashes
+const CARD_VALUE = /^\d(?:[-\s]?\d){12,18}$/;
+
+const SEVERITY_RANK = { critical: 3, high: 2, medium: 1, low: 0 };
+const CONFIDENCE_RANK: Record<ViolationConfidence, number> = { high: 2, medium: 1, low: 0 };
+// Severity of a field collected beyond the purpose of use; every other element is medium
+const BEYOND_PURPOSE_SEVERITY: Partial<Record<PurposeElement, PHIPASeverity>> = {
+  sin: 'high',
+  financial: 'high',
+  healthCard: 'high',
+  other: 'low'
+};
+
+// v2-0203 identifier types of the Patient and the finding types they carry, tried in order against a jurisdiction's rules
+const IDENTIFIER_TYPE_FINDINGS: Record<string, PHIPAViolationType[]> = {
+  SS: [PHIPAViolationType.SIN, PHIPAViolationType.SSN],
+  SB: [PHIPAViolationType.SIN, PHIPAViolationType.SSN],
+  HC: [PHIPAViolationType.HEALTH_CARD, PHIPAViolationType.HEALTH_PLAN_NUMBER],
+  JHN: [PHIPAViolationType.HEALTH_CARD, PHIPAViolationType.HEALTH_PLAN_NUMBER],
+  MB: [PHIPAViolationType.HEALTH_PLAN_NUMBER],
+  MR: [PHIPAViolationType.MEDICAL_RECORD_NUMBER],
+  PPN: [PHIPAViolationType.PASSPORT],
+  DL: [PHIPAViolationType.DRIVERS_LICENSE],
+  BA: [PHIPAViolationType.BANK_ACCOUNT],
+  BC: [PHIPAViolationType.CREDIT_CARD]
+};
+// US Social Security Administration systems, whose SS identifiers are SSNs rather than SINs
+const SSN_SYSTEM = /ssn|2\.16\.840\.1\.113883\.4\.1$/i;
+const TELECOM_FINDINGS: Record<string, PHIPAViolationType> = {
+  phone: PHIPAViolationType.PHONE_UNMASKED,
+  sms: PHIPAViolationType.PHONE_UNMASKED,
+  fax: PHIPAViolationType.PHONE_UNMASKED,
+  pager: PHIPAViolationType.PHONE_UNMASKED,
+  email: PHIPAViolationType.EMAIL_UNENCRYPTED,
+  url: PHIPAViolationType.WEB_URL
+};
+// Word boundaries inside camelCase names ("patientSin", "DNAResult"), spaced out so whole-word patterns match there
+const CAMEL_CASE_WORDS = /(?<=[\p{Ll}\d])(?=\p{Lu})|(?<=\p{Lu})(?=\p{Lu}\p{Ll})/gu;
+const FULL_POSTAL_CODE = /^([A-Z]\d[A-Z]\s?\d[A-Z]\d|\d{5}(-\d{4})?)$/i;
+const LEAKAGE_ORDER: PHILeakageStatus[] = ['carried', 'introduced', 'contained'];
+// Patient keys holding codes and URIs rather than a person's data
+const CODE_KEYS = new Set(['resourceType', 'meta', 'system', 'url', 'coding', 'use', 'type']);
+
+type AddFinding = (path: string, type: PHIPAViolationType, value: string, evidence: string) => void;
+
+interface CompiledRule {
+  jurisdiction: PrivacyJurisdictionId;
+  rule: PHIPARule;
+  type: PHIPAViolationType;
+  fieldName: RegExp;
+  value?: RegExp;
+  path?: RegExp;
+}
 
 @Injectable({
   providedIn: 'root'
 })
 export class PhipaValidationService {
-  private sensitivePatterns: SensitiveFieldPattern[] = [
-    {
-      type: PHIPAViolationType.SIN,
-      fieldNamePattern: /sin|social.?insurance|ssn/i,
-      valuePattern: /^\d{3}[-\s]?\d{3}[-\s]?\d{3}$/,
-      severity: 'critical',
-      description: 'Social Insurance Numbers must not be stored or transmitted in plain text'
-    },
-    {
-      type: PHIPAViolationType.CREDIT_CARD,
-      fieldNamePattern: /credit.?card|card.?number|cc.?num/i,
-      valuePattern: /^(?:\d{4}[-\s]?){3}\d{4}$/,
-      severity: 'critical',
-      description: 'Credit card numbers are not permitted in health data systems'
-    },
-    {
-      type: PHIPAViolationType.BANK_ACCOUNT,
-      fieldNamePattern: /bank.?account|account.?number|routing/i,
-      valuePattern: /^\d{7,17}$/,
-      severity: 'high',
-      description: 'Bank account numbers should not be included in patient data'
-    },
-    {
-      type: PHIPAViolationType.DRIVERS_LICENSE,
-      fieldNamePattern: /driver.?license|dl.?number|licence/i,
-      severity: 'high',
-      description: 'Driver\'s license numbers are personally identifiable and should be encrypted'
-    },
-    {
-      type: PHIPAViolationType.PASSPORT,
-      fieldNamePattern: /passport/i,
-      valuePattern: /^[A-Z]{1,2}\d{6,9}$/,
-      severity: 'high',
-      description: 'Passport numbers must be protected as sensitive identifiers'
-    },
-    {
-      type: PHIPAViolationType.HEALTH_CARD,
-      fieldNamePattern: /health.?card|ohip|medicare.?number|provincial.?health/i,
-      valuePattern: /^\d{10}$/,
-      severity: 'critical',
-      description: 'Health card numbers are highly sensitive and must be encrypted'
-    },
-    {
-      type: PHIPAViolationType.IP_ADDRESS,
-      fieldNamePattern: /ip.?address|ip.?addr/i,
-      valuePattern: /^(?:\d{1,3}\.){3}\d{1,3}$/,
-      severity: 'medium',
-      description: 'IP addresses can be used to identify individuals'
-    },
-    {
-      type: PHIPAViolationType.BIOMETRIC_DATA,
-      fieldNamePattern: /fingerprint|retina|biometric|facial.?recognition/i,
-      severity: 'critical',
-      description: 'Biometric data requires special encryption and handling'
-    },
-    {
-      type: PHIPAViolationType.GENETIC_DATA,
-      fieldNamePattern: /genetic|dna|genome|hereditary/i,
-      severity: 'critical',
-      description: 'Genetic information is highly sensitive personal health data'
-    }
-  ];
-
-  constructor() {}
+  // Active rule pack of each jurisdiction with its patterns compiled, rebuilt when another pack or version becomes active
+  private compiled = new Map<PrivacyJurisdictionId, { pack: PHIPARulePack; rules: CompiledRule[] }>();
+  private jurisdictions: PrivacyJurisdictionId[] = ['PHIPA'];
+
+  constructor(
+    private healthCards: HealthCardValidatorService,
+    private checksums: IdentifierChecksumService,
+    private rulePacks: PhipaRulePackService,
+    private freeText: FreeTextPhiService,
+    private consents: ConsentService,
+    private purposes: PurposeOfUseService,
+    private capacities: CapacityService
+  ) {}
+
+  /**
+   * Jurisdictions whose rules validateData and checkField apply by default
+   */
+  getJurisdictions(): PrivacyJurisdictionId[] {
+    return [...this.jurisdictions];
+  }
+
+  setJurisdictions(jurisdictions: PrivacyJurisdictionId[]): void {
+    if (jurisdictions.length === 0) {
+      throw new Error('Select at least one privacy jurisdiction to validate against');
+    }
+    // Keep the order of PRIVACY_JURISDICTIONS so results read the same whatever the selection order
+    this.jurisdictions = PRIVACY_JURISDICTIONS.map(j => j.id).filter(id => jurisdictions.includes(id));
+  }
 
   /**
-   * Validates JSON data against PHIPA (Personal Health Information Protection Act) requirements
+   * Validates JSON data against the rules of one or more privacy jurisdictions (PHIPA by default)
    * @param data - The JSON data to validate
-   * @returns PHIPAValidationResult with violations and warnings
+   * @param options - Jurisdictions, consent, purpose of use and capacity to validate the data against;
+   * the selected jurisdictions and purpose are used when they are not given
+   * @returns PHIPAValidationResult with violations, each tagged with its jurisdiction, and warnings
    */
-  validateData(data: any): PHIPAValidationResult {
+  validateData(data: any, options: PHIPAValidationOptions = {}): PHIPAValidationResult {
+    const { jurisdictions = this.jurisdictions, consent, capacity } = options;
+    // An explicit undefined purpose validates without one
+    const purpose = 'purpose' in options ? options.purpose : this.purposes.getSelectedPurpose();
     const violations: PHIPAViolation[] = [];
     const warnings: PHIPAWarning[] = [];
 
     // Scan the data recursively
-    this.scanObject(data, '', violations, warnings);
+    this.scanObject(data, '', jurisdictions, violations, warnings);
+    if (consent) {
+      this.checkConsent(consent, jurisdictions, violations, warnings);
+    }
+    if (purpose && data && typeof data === 'object') {
+      this.checkPurpose(data, purpose, jurisdictions, violations, warnings);
+    }
+    if (capacity && jurisdictions.includes('PHIPA')) {
+      this.checkCapacity(capacity, consent, violations, warnings);
+    }
+    const findings = this.mergeFindings(violations);
 
-    const isCompliant = violations.length === 0;
-    const summary = this.generateSummary(violations, warnings);
+    const isCompliant = findings.length === 0;
+    const summary = this.generateSummary(findings, warnings, jurisdictions);
 
     return {
       isCompliant,
-      violations,
+      violations: findings,
       warnings,
       scanDate: new Date(),
-      summary
+      summary,
+      jurisdictions: [...jurisdictions],
+      rulePacks: this.rulePackRefs(jurisdictions),
+      ...(purpose && { purposeOfUse: { id: purpose.id, name: purpose.name } })
+    };
+  }
+
+  /**
+   * Validates a converted Patient, the payload that actually leaves the application, against the same rule
+   * packs. Elements are read by their FHIR meaning (identifier type codes, telecom systems) rather than by
+   * their names, and pseudonymized identifiers are not findings.
+   * @returns PHIPAValidationResult whose violation fields are Patient elements, e.g. "identifier[2]"
+   */
+  validateFhirPatient(patient: FHIRPatient, jurisdictions: PrivacyJurisdictionId[] = this.jurisdictions): PHIPAValidationResult {
+    const violations: PHIPAViolation[] = [];
+    jurisdictions.forEach(jurisdiction => this.scanPatient(patient, jurisdiction, violations));
+    const findings = this.mergeFindings(violations);
+
+    return {
+      isCompliant: findings.length === 0,
+      violations: findings,
+      warnings: [],
+      scanDate: new Date(),
+      summary: this.generateSummary(findings, [], jurisdictions),
+      jurisdictions: [...jurisdictions],
+      rulePacks: this.rulePackRefs(jurisdictions)
     };
   }
 
+  /**
+   * Lines up the findings of a source record with those of its converted Patient, one item per finding type.
+   * Source values that reappear in the Patient link a source field to the element it was carried into,
+   * whatever either is called.
+   * @param input - Validation of the source record
+   * @param output - Validation of the Patient, from validateFhirPatient
+   */
+  compareWithOutput(input: PHIPAValidationResult, output: PHIPAValidationResult, source: any, patient: FHIRPatient): PHILeakageItem[] {
+    const leaves = this.patientLeaves(patient);
+    const types = [...new Set([...input.violations, ...output.violations].map(v => v.violationType))]
+      .filter(type => type !== PHIPAViolationType.CONSENT_WITHDRAWN);
+
+    return types
+      .map(type => {
+        const inputFindings = input.violations.filter(v => v.violationType === type);
+        const outputFindings = output.violations.filter(v => v.violationType === type);
+        const inputFields = [...new Set(inputFindings.map(v => v.field))];
+        const outputFields = [...new Set(outputFindings.map(v => v.field))];
+
+        inputFields.forEach(field => {
+          const key = this.matchKey(this.freeText.parsePath(field).reduce((node, k) => node?.[k], source));
+          leaves
+            .filter(leaf => key && leaf.key === key)
+            .filter(leaf => !outputFields.some(element => leaf.path === element || leaf.path.startsWith(element + '.') || leaf.path.startsWith(element + '[')))
+            .forEach(leaf => outputFields.push(leaf.path));
+        });
+
+        const status: PHILeakageStatus = inputFields.length === 0 ? 'introduced' : outputFields.length > 0 ? 'carried' : 'contained';
+        const severity = [...inputFindings, ...outputFindings]
+          .reduce<PHIPASeverity>((highest, v) => (SEVERITY_RANK[v.severity] > SEVERITY_RANK[highest] ? v.severity : highest), 'low');
+        return { violationType: type, severity, inputFields, outputFields, status };
+      })
+      .sort((a, b) =>
+        LEAKAGE_ORDER.indexOf(a.status) - LEAKAGE_ORDER.indexOf(b.status) || SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+  }
+
+  /**
+   * Checks a single field name and value against the sensitive data rules used by validateData
+   * @returns The violations the field would raise; empty when it is not sensitive
+   */
+  checkField(
+    fieldName: string,
+    value: any,
+    path: string = fieldName,
+    jurisdictions: PrivacyJurisdictionId[] = this.jurisdictions
+  ): PHIPAViolation[] {
+    const violations: PHIPAViolation[] = [];
+    jurisdictions.forEach(jurisdiction => {
+      this.checkFieldName(fieldName, value, path, jurisdiction, violations);
+      this.checkValuePatterns(fieldName, value, path, jurisdiction, violations);
+    });
+    return this.mergeFindings(violations);
+  }
+
   private scanObject(
     obj: any,
     path: string,
+    jurisdictions: PrivacyJurisdictionId[],
     violations: PHIPAViolation[],
     warnings: PHIPAWarning[]
   ): void {
@@ -112,7 +247,7 @@ export class PhipaValidationService {
 
     if (Array.isArray(obj)) {
       obj.forEach((item, index) => {
-        this.scanObject(item, `${path}[${index}]`, violations, warnings);
+        this.scanObject(item, `${path}[${index}]`, jurisdictions, violations, warnings);
       });
       return;
     }
@@ -122,11 +257,13 @@ export class PhipaValidationService {
         const fullPath = path ? `${path}.${key}` : key;
         const value = obj[key];
 
-        // Check field name against patterns
-        this.checkFieldName(key, value, fullPath, violations);
+        jurisdictions.forEach(jurisdiction => {
+          // Check field name against patterns
+          this.checkFieldName(key, value, fullPath, jurisdiction, violations);
 
-        // Check for common sensitive data patterns
-        this.checkValuePatterns(key, value, fullPath, violations);
+          // Check for common sensitive data patterns
+          this.checkValuePatterns(key, value, fullPath, jurisdiction, violations);
+        });
 
         // Additional checks for specific scenarios
         this.checkDateOfBirth(key, value, fullPath, warnings);
@@ -135,7 +272,7 @@ export class PhipaValidationService {
 
         // Recurse for nested objects
         if (typeof value === 'object') {
-          this.scanObject(value, fullPath, violations, warnings);
+          this.scanObject(value, fullPath, jurisdictions, violations, warnings);
         }
       });
     }
@@ -145,74 +282,491 @@ export class PhipaValidationService {
     fieldName: string,
     value: any,
     path: string,
+    jurisdiction: PrivacyJurisdictionId,
     violations: PHIPAViolation[]
   ): void {
-    for (const pattern of this.sensitivePatterns) {
-      if (pattern.fieldNamePattern.test(fieldName)) {
-        // Check if value also matches pattern (if value pattern exists)
-        if (pattern.valuePattern && typeof value === 'string') {
-          if (pattern.valuePattern.test(value)) {
-            violations.push({
-              field: path,
-              violationType: pattern.type,
-              value: this.maskValue(value),
-              severity: pattern.severity,
-              description: pattern.description,
-              recommendation: this.getRecommendation(pattern.type)
-            });
-          }
-        } else {
-          // Field name matches, add violation
-          violations.push({
-            field: path,
-            violationType: pattern.type,
-            value: typeof value === 'string' ? this.maskValue(value) : '[REDACTED]',
-            severity: pattern.severity,
-            description: pattern.description,
-            recommendation: this.getRecommendation(pattern.type)
-          });
+    const words = fieldName.replace(CAMEL_CASE_WORDS, ' ');
+    for (const compiled of this.activeRules(jurisdiction).rules) {
+      if (!(compiled.fieldName.test(fieldName) || compiled.fieldName.test(words))) continue;
+      if (compiled.path && !compiled.path.test(path)) continue;
+
+      const { rule, type } = compiled;
+      if (rule.valueCheck === 'freeTextPhi') {
+        const spans = this.freeText.isNarrative(value) ? this.freeText.scan(value) : [];
+        if (spans.length > 0) {
+          violations.push(this.freeTextFinding(path, value, compiled, jurisdiction, spans));
         }
+        continue;
       }
+
+      // A rule that needs the value's format is left to the object's own fields, e.g. the components of an HL7 v2 field
+      if ((compiled.value || rule.valueCheck) && value && typeof value === 'object') continue;
+
+      const evidence = [`field name "${fieldName}" suggests a ${type}`];
+      let confidence: ViolationConfidence = 'medium';
+
+      // Check if value also matches pattern (if value pattern exists)
+      if ((compiled.value || rule.valueCheck) && typeof value === 'string') {
+        if (!(compiled.value ? compiled.value.test(value) : this.passesValueCheck(rule, value))) {
+          continue;
+        }
+        evidence.push(`value has the ${type} format`);
+
+        // A value that fails its check digit is unlikely to be the real identifier
+        const verified = this.verifyValue(type, value);
+        if (verified) {
+          evidence.push(verified);
+        }
+        confidence = verified || !this.hasCheckDigit(type) ? 'high' : 'medium';
+      }
+
+      violations.push({
+        field: path,
+        violationType: type,
+        value: typeof value === 'string' ? this.maskValue(value) : '[REDACTED]',
+        severity: rule.severity,
+        description: rule.description,
+        recommendation: rule.recommendation,
+        confidence,
+        evidence,
+        jurisdiction,
+        ruleId: rule.id,
+        weight: rule.weight
+      });
     }
   }
 
+  /**
+   * Detects identifiers by their value alone, whatever the field is called. Only values whose
+   * check digit verifies are reported, so look-alikes such as lab accession numbers are not.
+   * Each detector follows the enabled rule of its type in the jurisdiction's active pack and is off without one.
+   */
   private checkValuePatterns(
     fieldName: string,
     value: any,
     path: string,
+    jurisdiction: PrivacyJurisdictionId,
     violations: PHIPAViolation[]
   ): void {
     if (typeof value !== 'string') {
       return;
     }
 
-    // Check for SIN pattern (Canadian)
-    if (/^\d{3}[-\s]?\d{3}[-\s]?\d{3}$/.test(value)) {
-      if (!fieldName.toLowerCase().includes('sin')) {
-        violations.push({
-          field: path,
-          violationType: PHIPAViolationType.SIN,
-          value: this.maskValue(value),
-          severity: 'critical',
-          description: 'Possible Social Insurance Number detected in field value',
-          recommendation: 'Remove or encrypt SIN data'
-        });
+    // Check for SIN pattern (Canadian); unseparated nine-digit numbers pass the check digit one time in ten
+    const sinRule = this.valueRule(jurisdiction, PHIPAViolationType.SIN, path);
+    const sin = sinRule && value.trim().match(SIN_VALUE);
+    const sinEvidence = sin && this.verifyValue(PHIPAViolationType.SIN, value);
+    if (sinEvidence) {
+      violations.push(this.valueFinding(path, value, sinRule!, sin![1] ? 'medium' : 'low', sinEvidence,
+        'Possible Social Insurance Number detected in field value'));
+    }
+
+    // Check for payment card numbers: issuer prefix, length and Luhn check digit
+    const cardRule = this.valueRule(jurisdiction, PHIPAViolationType.CREDIT_CARD, path);
+    const cardEvidence = cardRule && CARD_VALUE.test(value.trim()) && this.verifyValue(PHIPAViolationType.CREDIT_CARD, value);
+    if (cardEvidence) {
+      violations.push(this.valueFinding(path, value, cardRule!, 'medium', cardEvidence,
+        'Possible credit card number detected'));
+    }
+
+    // Check for health card numbers whose format and check digit identify the issuing province
+    const healthCardRule = this.valueRule(jurisdiction, PHIPAViolationType.HEALTH_CARD, path);
+    if (healthCardRule && !/phone|mobile|tel|fax|cell/i.test(fieldName)) {
+      const issuer = this.healthCards.detectCard(value);
+      if (issuer) {
+        violations.push(this.valueFinding(path, value, healthCardRule, 'medium',
+          `value is a valid ${issuer.name} ${issuer.cardName} (format and check digit)`,
+          `Possible ${issuer.name} ${issuer.cardName} detected in field value`));
       }
     }
+  }
 
-    // Check for credit card pattern
-    if (/^\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}$/.test(value)) {
-      violations.push({
-        field: path,
-        violationType: PHIPAViolationType.CREDIT_CARD,
-        value: this.maskValue(value),
+  private freeTextFinding(
+    path: string,
+    text: string,
+    compiled: CompiledRule,
+    jurisdiction: PrivacyJurisdictionId,
+    spans: PHITextSpan[]
+  ): PHIPAViolation {
+    const kinds = [...new Set(spans.map(span => span.label.toLowerCase()))];
+    return {
+      field: path,
+      violationType: compiled.type,
+      // The text with every identifier replaced by a placeholder, so nothing of them is shown
+      value: this.freeText.redact(text, spans),
+      severity: compiled.rule.severity,
+      description: `${compiled.rule.description} (${kinds.join(', ')})`,
+      recommendation: compiled.rule.recommendation,
+      confidence: spans.reduce<ViolationConfidence>(
+        (best, span) => (CONFIDENCE_RANK[span.confidence] > CONFIDENCE_RANK[best] ? span.confidence : best), 'low'),
+      evidence: spans.map(span => `${span.label} at characters ${span.start}-${span.end}: ${span.evidence}`),
+      jurisdiction,
+      ruleId: compiled.rule.id,
+      weight: compiled.rule.weight,
+      spans
+    };
+  }
+
+  private valueFinding(
+    path: string,
+    value: string,
+    compiled: CompiledRule,
+    confidence: ViolationConfidence,
+    evidence: string,
+    description: string
+  ): PHIPAViolation {
+    return {
+      field: path,
+      violationType: compiled.type,
+      value: this.maskValue(value),
+      severity: compiled.rule.severity,
+      description,
+      recommendation: compiled.rule.recommendation,
+      confidence,
+      evidence: [evidence],
+      jurisdiction: compiled.jurisdiction,
+      ruleId: compiled.rule.id,
+      weight: compiled.rule.weight
+    };
+  }
+
+  private scanPatient(patient: FHIRPatient, jurisdiction: PrivacyJurisdictionId, violations: PHIPAViolation[]): void {
+    const add: AddFinding = (path, type, value, evidence) => {
+      const compiled = this.activeRules(jurisdiction).rules.find(candidate => candidate.type === type);
+      if (compiled) {
+        violations.push(this.valueFinding(path, value, compiled, 'high', evidence, compiled.rule.description));
+      }
+    };
+
+    (patient.identifier ?? []).forEach((identifier, i) => {
+      if (!identifier.value || identifier.system?.startsWith(PSEUDONYM_SYSTEM)) return;
+      const path = `identifier[${i}]`;
+      const coding = identifier.type?.coding?.find(c => c.code && IDENTIFIER_TYPE_FINDINGS[c.code]);
+      if (coding) {
+        // An SSN is tried first, then the SIN rule of a jurisdiction without an SSN rule
+        const types = coding.code === 'SS' && SSN_SYSTEM.test(identifier.system ?? '')
+          ? [PHIPAViolationType.SSN, PHIPAViolationType.SIN]
+          : IDENTIFIER_TYPE_FINDINGS[coding.code!];
+        const type = types.find(candidate => this.activeRules(jurisdiction).rules.some(compiled => compiled.type === candidate));
+        if (type) {
+          add(path, type, identifier.value, `identifier type ${coding.code}${coding.display ? ` (${coding.display})` : ''}`);
+          return;
+        }
+      }
+      // Untyped identifiers, and typed ones the jurisdiction has no rule for, are read by their label and value,
+      // as a source field would be
+      const label = identifier.type?.text ?? identifier.type?.coding?.[0]?.display ?? identifier.system?.split(/[/:]/).pop() ?? 'identifier';
+      this.checkFieldName(label, identifier.value, path, jurisdiction, violations);
+      this.checkValuePatterns(label, identifier.value, path, jurisdiction, violations);
+    });
+
+    // Patient.id set from an identifier discloses it as well, e.g. the MRN of an HL7 v2 message
+    const idSource = (patient.identifier ?? []).findIndex(identifier =>
+      identifier.value === patient.id && !identifier.system?.startsWith(PSEUDONYM_SYSTEM));
+    if (patient.id && idSource >= 0) {
+      violations
+        .filter(v => v.field === `identifier[${idSource}]` && v.jurisdiction === jurisdiction)
+        .forEach(v => violations.push({ ...v, field: 'id', evidence: [...v.evidence, `Patient.id repeats identifier[${idSource}]`] }));
+    }
+
+    (patient.name ?? []).forEach((name, i) => this.scanName(name, `name[${i}]`, add));
+    this.scanTelecom(patient.telecom ?? [], 'telecom', add);
+    (patient.address ?? []).forEach((address, i) => this.scanAddress(address, `address[${i}]`, add));
+    (patient.contact ?? []).forEach((contact, i) => {
+      if (contact.name) this.scanName(contact.name, `contact[${i}].name`, add);
+      this.scanTelecom(contact.telecom ?? [], `contact[${i}].telecom`, add);
+      if (contact.address) this.scanAddress(contact.address, `contact[${i}].address`, add);
+    });
+
+    if (patient.birthDate && /^\d{4}-\d{2}-\d{2}/.test(patient.birthDate)) {
+      add('birthDate', PHIPAViolationType.DATE_OF_BIRTH_FULL, patient.birthDate, 'birthDate is recorded to the day');
+    }
+
+    // Preserved source fields keep their name as the last segment of the extension URL
+    (patient.extension ?? []).forEach((extension, i) => {
+      const value = extension.valueString ?? extension.valueInteger ?? extension.valueDecimal;
+      if (value === undefined) return;
+      const fieldName = extension.url.split('/').pop() ?? extension.url;
+      this.checkFieldName(fieldName, value, `extension[${i}]`, jurisdiction, violations);
+      this.checkValuePatterns(fieldName, value, `extension[${i}]`, jurisdiction, violations);
+    });
+  }
+
+  private scanName(name: FHIRHumanName, path: string, add: AddFinding): void {
+    const value = name.text ?? [...(name.given ?? []), name.family].filter(Boolean).join(' ');
+    if (value) {
+      add(path, PHIPAViolationType.PERSONAL_NAME, value, 'HumanName of the person');
+    }
+  }
+
+  private scanTelecom(telecom: FHIRContactPoint[], path: string, add: AddFinding): void {
+    telecom.forEach((point, i) => {
+      const type = point.system && TELECOM_FINDINGS[point.system];
+      if (type && point.value) {
+        add(`${path}[${i}]`, type, point.value, `ContactPoint with system "${point.system}"`);
+      }
+    });
+  }
+
+  private scanAddress(address: FHIRAddress, path: string, add: AddFinding): void {
+    const street = [...(address.line ?? []), address.city].filter(Boolean).join(', ');
+    if (street) {
+      add(path, PHIPAViolationType.GEOGRAPHIC_SUBDIVISION, street, 'Address with street or city');
+    }
+    if (address.postalCode && FULL_POSTAL_CODE.test(address.postalCode.trim())) {
+      add(`${path}.postalCode`, PHIPAViolationType.POSTAL_CODE_FULL, address.postalCode, 'Address.postalCode recorded in full');
+    }
+  }
+
+  // String and number values of a Patient with their path, codes and URIs left out
+  private patientLeaves(node: any, path = ''): { path: string; key: string }[] {
+    if (typeof node === 'string' || typeof node === 'number') {
+      const key = this.matchKey(node);
+      return key ? [{ path, key }] : [];
+    }
+    if (Array.isArray(node)) {
+      return node.flatMap((item, index) => this.patientLeaves(item, `${path}[${index}]`));
+    }
+    if (node && typeof node === 'object') {
+      return Object.keys(node)
+        .filter(key => !CODE_KEYS.has(key))
+        .flatMap(key => this.patientLeaves(node[key], path ? `${path}.${key}` : key));
+    }
+    return [];
+  }
+
+  // Values compare without case, spaces or punctuation; short ones would match by chance
+  private matchKey(value: any): string | undefined {
+    if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+    const key = String(value).toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+    return key.length >= 4 ? key : undefined;
+  }
+
+  private rulePackRefs(jurisdictions: PrivacyJurisdictionId[]): PHIPARulePackRef[] {
+    return jurisdictions.map(jurisdiction => {
+      const { id, name, version } = this.activeRules(jurisdiction).pack;
+      return { id, name, version, jurisdiction };
+    });
+  }
+
+  // The enabled rule of a jurisdiction's active pack that governs value detection of a type at a path
+  private valueRule(jurisdiction: PrivacyJurisdictionId, type: PHIPAViolationType, path: string): CompiledRule | undefined {
+    return this.activeRules(jurisdiction).rules.find(compiled => compiled.type === type && (!compiled.path || compiled.path.test(path)));
+  }
+
+  private passesValueCheck(rule: PHIPARule, value: string): boolean {
+    switch (rule.valueCheck) {
+      case 'healthCardFormat':
+        return this.healthCards.fitsAnyFormat(value);
+      default:
+        return true;
+    }
+  }
+
+  private activeRules(jurisdiction: PrivacyJurisdictionId): { pack: PHIPARulePack; rules: CompiledRule[] } {
+    const pack = this.rulePacks.getActivePack(jurisdiction);
+    let compiled = this.compiled.get(jurisdiction);
+    if (compiled?.pack !== pack) {
+      compiled = {
+        pack,
+        rules: pack.rules
+          .filter(rule => rule.enabled)
+          .map(rule => ({
+            jurisdiction,
+            rule,
+            type: PHIPAViolationType[rule.type],
+            fieldName: new RegExp(rule.fieldNamePattern, 'i'),
+            ...(rule.valuePattern && { value: new RegExp(rule.valuePattern) }),
+            ...(rule.pathScope && { path: new RegExp(rule.pathScope, 'i') })
+          }))
+      };
+      this.compiled.set(jurisdiction, compiled);
+    }
+    return compiled;
+  }
+
+  private hasCheckDigit(type: PHIPAViolationType): boolean {
+    return [PHIPAViolationType.SIN, PHIPAViolationType.CREDIT_CARD, PHIPAViolationType.HEALTH_CARD].includes(type);
+  }
+
+  // Evidence that the value passes the check digit of its identifier type, or null when it does not
+  private verifyValue(type: PHIPAViolationType, value: string): string | null {
+    const digits = value.replace(/[-\s]/g, '');
+
+    switch (type) {
+      case PHIPAViolationType.SIN:
+        return this.checksums.isValidSin(digits) ? 'value passes the SIN check digit (Luhn)' : null;
+      case PHIPAViolationType.CREDIT_CARD: {
+        const issuer = this.checksums.cardIssuer(digits);
+        return issuer ? `value is a valid ${issuer} number (issuer prefix, length and Luhn check digit)` : null;
+      }
+      case PHIPAViolationType.HEALTH_CARD: {
+        const check = this.healthCards.validate(value);
+        return check.status === 'valid'
+          ? `value is a valid ${check.jurisdiction!.name} ${check.jurisdiction!.cardName} (format and check digit)`
+          : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Merges findings of the same type on the same field under the same jurisdiction into one entry
+   * carrying all of their evidence, the highest severity, confidence and weight
+   */
+  private mergeFindings(violations: PHIPAViolation[]): PHIPAViolation[] {
+    const merged = new Map<string, PHIPAViolation>();
+
+    violations.forEach(violation => {
+      const key = `${violation.field}\u0000${violation.violationType}\u0000${violation.jurisdiction}`;
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, { ...violation, evidence: [...violation.evidence] });
+        return;
+      }
+
+      violation.evidence
+        .filter(item => !existing.evidence.includes(item))
+        .forEach(item => existing.evidence.push(item));
+      if (SEVERITY_RANK[violation.severity] > SEVERITY_RANK[existing.severity]) {
+        existing.severity = violation.severity;
+      }
+      if (CONFIDENCE_RANK[violation.confidence] > CONFIDENCE_RANK[existing.confidence]) {
+        existing.confidence = violation.confidence;
+      }
+      if ((violation.weight ?? 1) > (existing.weight ?? 1)) {
+        existing.weight = violation.weight;
+      }
+    });
+
+    return [...merged.values()];
+  }
+
+  /**
+   * Every regime lets a patient withdraw consent, so converting a withdrawn record for disclosure is a
+   * violation under each of them; lockbox instructions are enforced at export and reported as warnings
+   */
+  private checkConsent(
+    consent: ConsentState,
+    jurisdictions: PrivacyJurisdictionId[],
+    violations: PHIPAViolation[],
+    warnings: PHIPAWarning[]
+  ): void {
+    const withdrawal = consent.withdrawal;
+    if (withdrawal) {
+      jurisdictions.forEach(jurisdiction => violations.push({
+        field: withdrawal.sourcePath ?? 'consent',
+        violationType: PHIPAViolationType.CONSENT_WITHDRAWN,
         severity: 'critical',
-        description: 'Possible credit card number detected',
-        recommendation: 'Credit card data should not be stored in patient records'
+        description: `Consent was withdrawn${withdrawal.date ? ` on ${withdrawal.date}` : ''}, yet the record is being prepared for disclosure`,
+        recommendation: 'Do not disclose the record; exports of it are blocked until consent is given again',
+        confidence: 'high',
+        evidence: [withdrawal.source === 'manual' ? 'withdrawal entered manually' : `withdrawal read from "${withdrawal.sourcePath}"`],
+        jurisdiction
+      }));
+    }
+
+    consent.directives
+      .filter(directive => directive.type === 'lockbox')
+      .forEach(lockbox => warnings.push({
+        field: lockbox.sourcePath ?? 'consent',
+        warningType: 'Consent Directive',
+        description: `Lockbox withholds ${lockbox.elements.map(element => this.consents.getElementLabel(element).toLowerCase()).join(', ')}`
+          + `${lockbox.recipient ? ` from ${lockbox.recipient}` : ''}; these elements are left out of exports.`
+      }));
+  }
+
+  /**
+   * Every regime limits collection and disclosure to what the purpose needs (PHIPA s. 30, PIPEDA
+   * principle 4.4, HIPAA minimum necessary), so each field beyond the purpose is a finding under each
+   */
+  private checkPurpose(
+    data: any,
+    purpose: PurposeOfUse,
+    jurisdictions: PrivacyJurisdictionId[],
+    violations: PHIPAViolation[],
+    warnings: PHIPAWarning[]
+  ): void {
+    const analysis = this.purposes.analyze(data, purpose);
+
+    analysis.beyondPurpose.forEach(({ path, element }) => {
+      const label = this.purposes.getElementLabel(element);
+      jurisdictions.forEach(jurisdiction => violations.push({
+        field: path,
+        violationType: PHIPAViolationType.BEYOND_PURPOSE,
+        severity: BEYOND_PURPOSE_SEVERITY[element] ?? 'medium',
+        description: `${label} is not needed for ${purpose.name}`,
+        recommendation: 'Leave the field out of the disclosure; the minimized export drops it',
+        confidence: element === 'other' ? 'medium' : 'high',
+        evidence: [`"${path}" read as ${label.toLowerCase()}`, `${purpose.name} (${purpose.code}) excludes ${label.toLowerCase()}`],
+        jurisdiction
+      }));
+    });
+
+    analysis.missingRequired.forEach(element => warnings.push({
+      field: element,
+      warningType: 'Purpose of Use',
+      description: `${purpose.name} requires ${this.purposes.getElementLabel(element).toLowerCase()}, which the record lacks.`
+    }));
+  }
+
+  /**
+   * PHIPA ss. 23 and 26: a minor under 16 or an incapable patient acts through a substitute decision-maker,
+   * so the record needs a contact who can be one. These are PHIPA rules and are only raised under PHIPA.
+   */
+  private checkCapacity(
+    capacity: CapacityAssessment,
+    consent: ConsentState | undefined,
+    violations: PHIPAViolation[],
+    warnings: PHIPAWarning[]
+  ): void {
+    const age = capacity.age === undefined ? undefined : `${capacity.ageExact ? '' : 'at least '}${capacity.age}`;
+    const hasDecisionMaker = this.capacities.getEligibleDecisionMakers(capacity).length > 0;
+
+    if (capacity.minor && !hasDecisionMaker) {
+      violations.push({
+        field: 'contact',
+        violationType: PHIPAViolationType.MINOR_WITHOUT_SDM,
+        severity: 'high',
+        description: `The patient is ${age} years old, under ${MINOR_AGE}, and no contact is recorded as a parent or guardian`,
+        recommendation: 'Record the parent or guardian as a contact with their relationship, or document that the patient is capable of consenting',
+        confidence: capacity.ageExact ? 'high' : 'medium',
+        evidence: [`age ${age} from the birth date`, this.describeContacts(capacity)],
+        jurisdiction: 'PHIPA'
+      });
+    }
+    if (capacity.incapable && !capacity.minor && !hasDecisionMaker) {
+      violations.push({
+        field: capacity.incapacitySource!,
+        violationType: PHIPAViolationType.INCAPABLE_WITHOUT_SDM,
+        severity: 'high',
+        description: 'The patient is marked incapable, and no contact is recorded as a guardian, attorney or relative who can decide for them',
+        recommendation: 'Record the substitute decision-maker as a contact with their relationship (guardian, attorney for personal care, spouse, parent, child or sibling)',
+        confidence: 'high',
+        evidence: [`incapacity read from "${capacity.incapacitySource}"`, this.describeContacts(capacity)],
+        jurisdiction: 'PHIPA'
+      });
+    }
+
+    // A lockbox on telecom already keeps them out of exports
+    const exposed = consent?.lockedElements.includes('telecom') ? [] : capacity.directContacts;
+    if (capacity.minor && exposed.length > 0) {
+      warnings.push({
+        field: exposed.join(', '),
+        warningType: CAPACITY_WARNING_TYPE,
+        description: `The patient is ${age} years old; their own phone or e-mail would be disclosed. Unless the minor consents for themselves, `
+          + 'reach them through their substitute decision-maker, or withhold these details with a lockbox.'
       });
     }
   }
 
+  private describeContacts(capacity: CapacityAssessment): string {
+    return capacity.decisionMakers.length === 0
+      ? 'no contact with a guardian, attorney or family relationship'
+      : `contacts: ${capacity.decisionMakers.map(maker => `${maker.relationship} (${maker.basis})`).join(', ')}`;
+  }
+
   private checkDateOfBirth(
     fieldName: string,
     value: any,
@@ -288,26 +842,14 @@ export class PhipaValidationService {
     return value.slice(0, visible) + '*'.repeat(value.length - visible);
   }
 
-  private getRecommendation(type: PHIPAViolationType): string {
-    const recommendations: Record<string, string> = {
-      [PHIPAViolationType.SIN]: 'Remove SIN from patient records or use tokenization/encryption',
-      [PHIPAViolationType.CREDIT_CARD]: 'Remove credit card information from health records',
-      [PHIPAViolationType.BANK_ACCOUNT]: 'Use a separate billing system for financial data',
-      [PHIPAViolationType.DRIVERS_LICENSE]: 'Use alternate patient identifiers or encrypt',
-      [PHIPAViolationType.PASSPORT]: 'Use alternate identifiers and encrypt if required',
-      [PHIPAViolationType.HEALTH_CARD]: 'Encrypt health card numbers and use tokenization',
-      [PHIPAViolationType.IP_ADDRESS]: 'Anonymize or remove IP addresses from patient data',
-      [PHIPAViolationType.BIOMETRIC_DATA]: 'Use specialized biometric encryption and secure storage',
-      [PHIPAViolationType.GENETIC_DATA]: 'Apply highest level of encryption and access controls',
-      [PHIPAViolationType.CUSTOM_SENSITIVE]: 'Review and encrypt sensitive fields'
-    };
-
-    return recommendations[type] || 'Encrypt or remove sensitive data';
-  }
-
-  private generateSummary(violations: PHIPAViolation[], warnings: PHIPAWarning[]): string {
+  private generateSummary(
+    violations: PHIPAViolation[],
+    warnings: PHIPAWarning[],
+    jurisdictions: PrivacyJurisdictionId[]
+  ): string {
+    const names = jurisdictions.map(id => this.rulePacks.getJurisdiction(id).name);
     if (violations.length === 0 && warnings.length === 0) {
-      return 'PHIPA Compliant: No violations or warnings detected.';
+      return `${names.join(', ')} Compliant: No violations or warnings detected.`;
     }
 
     const criticalCount = violations.filter(v => v.severity === 'critical').length;
@@ -323,6 +865,11 @@ export class PhipaValidationService {
       if (highCount > 0) {
         summary += `${highCount} high-priority issue(s) found. `;
       }
+      if (jurisdictions.length > 1) {
+        const counts = jurisdictions.map((id, index) =>
+          `${names[index]} ${violations.filter(v => v.jurisdiction === id).length}`);
+        summary += `By jurisdiction: ${counts.join(', ')}. `;
+      }
     }
 
     if (warnings.length > 0) {
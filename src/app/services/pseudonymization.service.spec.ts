@@ -0,0 +1,64 @@
+import { TestBed } from '@angular/core/testing';
+import { PSEUDONYM_SYSTEM, PseudonymizationService } from './pseudonymization.service';
+
+describe('PseudonymizationService', () => {
+  let service: PseudonymizationService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    service = TestBed.inject(PseudonymizationService);
+  });
+
+  it('refuses short keys and works only once unlocked', async () => {
+    await expect(service.unlock('short')).rejects.toThrow('at least 8 characters');
+    await expect(service.pseudonymize('mrn', 'MRN-10042')).rejects.toThrow('locked');
+    expect(service.isUnlocked()).toBe(false);
+  });
+
+  it('gives the same value the same token whatever its separators, and each kind its own system', async () => {
+    await service.unlock('correct horse battery');
+
+    const card = await service.pseudonymize('health-card', '1234-567-897');
+    const again = await service.pseudonymize('health-card', '1234 567 897');
+    const sin = await service.pseudonymize('sin', '1234567897');
+
+    expect(card.token).toMatch(/^[0-9a-f]{32}$/);
+    expect(again.token).toBe(card.token);
+    expect(sin.token).not.toBe(card.token);
+    expect(card.system).toBe(`${PSEUDONYM_SYSTEM}/health-card`);
+    expect(service.getEntryCount()).toBe(2);
+  });
+
+  it('re-identifies tokens from the encrypted vault after a lock, with the same key only', async () => {
+    await service.unlock('correct horse battery');
+    const { token } = await service.pseudonymize('mrn', 'MRN-10042', 'urn:oid:2.16.840.1.113883.3.239');
+    service.lock();
+
+    expect(service.hasStoredVault()).toBe(true);
+    expect(localStorage.getItem('medibridge.pseudonymVault')).not.toContain('MRN-10042');
+    await expect(service.unlock('wrong horse battery')).rejects.toThrow('does not open');
+
+    await service.unlock('correct horse battery');
+    expect(service.reidentify(token.toUpperCase())).toEqual(expect.objectContaining({
+      kind: 'mrn',
+      value: 'MRN-10042',
+      originalSystem: 'urn:oid:2.16.840.1.113883.3.239'
+    }));
+  });
+
+  it('maps v2-0203 identifier types to pseudonym kinds', () => {
+    expect(service.kindOf('MR')).toBe('mrn');
+    expect(service.kindOf('JHN')).toBe('health-card');
+    expect(service.kindOf('SB')).toBe('sin');
+    expect(service.kindOf('DL')).toBeUndefined();
+  });
+
+  it('clears the vault in memory and in storage', async () => {
+    await service.unlock('correct horse battery');
+    await service.pseudonymize('mrn', 'MRN-10042');
+    service.clearVault();
+
+    expect(service.getEntryCount()).toBe(0);
+    expect(service.hasStoredVault()).toBe(false);
+  });
+});
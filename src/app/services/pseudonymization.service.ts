@@ -0,0 +1,215 @@
+import { Injectable } from '@angular/core';
+import { Pseudonym, PseudonymKind, PseudonymVaultEntry, StoredPseudonymVault } from '../models/pseudonym.model';
+
+const VAULT_KEY = 'medibridge.pseudonymVault';
+const PBKDF2_ITERATIONS = 210000;
+const MIN_KEY_LENGTH = 8;
+// The HMAC key is derived with a fixed salt so the same user key yields the same tokens in every
+// browser and session; only the vault encryption key uses a random, per-vault salt
+const HMAC_SALT = 'medibridge-pseudonym-hmac-v1';
+
+export const PSEUDONYM_SYSTEM = 'https://medibridge.example.org/fhir/NamingSystem/pseudonym';
+
+// v2-0203 identifier types → pseudonym kind
+const PSEUDONYM_KINDS: Record<string, PseudonymKind> = {
+  MR: 'mrn',
+  HC: 'health-card',
+  JHN: 'health-card',
+  SS: 'sin',
+  SB: 'sin'
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PseudonymizationService {
+  private hmacKey?: CryptoKey;
+  private vaultKey?: CryptoKey;
+  private salt?: Uint8Array<ArrayBuffer>;
+  private entries = new Map<string, PseudonymVaultEntry>();
+
+  constructor() {}
+
+  isUnlocked(): boolean {
+    return !!this.hmacKey;
+  }
+
+  hasStoredVault(): boolean {
+    return !!this.readStored();
+  }
+
+  getEntryCount(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Derives the tokenization and vault keys from a user-supplied key and opens the stored vault
+   * @throws Error if the key is too short or does not decrypt the stored vault
+   */
+  async unlock(key: string): Promise<void> {
+    if (key.length < MIN_KEY_LENGTH) {
+      throw new Error(`The pseudonymization key must be at least ${MIN_KEY_LENGTH} characters`);
+    }
+
+    const stored = this.readStored();
+    const salt = stored ? this.fromBase64(stored.salt) : crypto.getRandomValues(new Uint8Array(16));
+    const hmacKey = await this.deriveKey(key, new TextEncoder().encode(HMAC_SALT), { name: 'HMAC', hash: 'SHA-256' }, ['sign']);
+    const vaultKey = await this.deriveKey(key, salt, { name: 'AES-GCM', length: 256 }, ['encrypt', 'decrypt']);
+
+    const entries = new Map<string, PseudonymVaultEntry>();
+    if (stored) {
+      let decrypted: PseudonymVaultEntry[];
+      try {
+        const plaintext = await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: this.fromBase64(stored.iv) },
+          vaultKey,
+          this.fromBase64(stored.data)
+        );
+        decrypted = JSON.parse(new TextDecoder().decode(plaintext));
+      } catch {
+        throw new Error('The key does not open the stored pseudonym vault');
+      }
+      decrypted.forEach(entry => entries.set(entry.token, entry));
+    }
+
+    this.hmacKey = hmacKey;
+    this.vaultKey = vaultKey;
+    this.salt = salt;
+    this.entries = entries;
+  }
+
+  /**
+   * Forgets the keys and the decrypted entries; the encrypted vault stays in storage
+   */
+  lock(): void {
+    this.hmacKey = undefined;
+    this.vaultKey = undefined;
+    this.salt = undefined;
+    this.entries = new Map();
+  }
+
+  /**
+   * Pseudonym kind of a v2-0203 identifier type code, or undefined when the type is not pseudonymized
+   */
+  kindOf(typeCode: string | undefined): PseudonymKind | undefined {
+    return typeCode ? PSEUDONYM_KINDS[typeCode] : undefined;
+  }
+
+  /**
+   * Replaces an identifier value with its keyed pseudonym (HMAC-SHA-256 of the kind and the value
+   * without spaces or dashes), recording the original in the vault for re-identification
+   * @param system - Identifier.system of the original value, kept in the vault
+   */
+  async pseudonymize(kind: PseudonymKind, value: string, system?: string): Promise<Pseudonym> {
+    const token = await this.tokenFor(kind, value);
+    const pseudonym: Pseudonym = { kind, token, system: `${PSEUDONYM_SYSTEM}/${kind}` };
+
+    if (!this.entries.has(token)) {
+      this.entries.set(token, {
+        ...pseudonym,
+        value,
+        ...(system && { originalSystem: system }),
+        createdAt: new Date().toISOString()
+      });
+      await this.persist();
+    }
+    return pseudonym;
+  }
+
+  /**
+   * The vault entry of a token, i.e. the original identifier behind a pseudonym
+   */
+  reidentify(token: string): PseudonymVaultEntry | undefined {
+    this.requireUnlocked();
+    return this.entries.get(token.trim().toLowerCase());
+  }
+
+  /**
+   * The vault entry of an original identifier value, if it was pseudonymized under the current key
+   */
+  async lookup(kind: PseudonymKind, value: string): Promise<PseudonymVaultEntry | undefined> {
+    return this.entries.get(await this.tokenFor(kind, value));
+  }
+
+  /**
+   * Deletes every entry of the vault, in memory and in storage
+   */
+  clearVault(): void {
+    this.entries = new Map();
+    try {
+      localStorage.removeItem(VAULT_KEY);
+    } catch {
+      // Storage unavailable; nothing was persisted
+    }
+  }
+
+  private async tokenFor(kind: PseudonymKind, value: string): Promise<string> {
+    this.requireUnlocked();
+    const normalized = value.replace(/[\s-]/g, '').toUpperCase();
+    const signature = await crypto.subtle.sign('HMAC', this.hmacKey!, new TextEncoder().encode(`${kind}|${normalized}`));
+
+    // 128 bits of the MAC, as lower-case hex so the token is also a valid FHIR id
+    return [...new Uint8Array(signature).slice(0, 16)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  private requireUnlocked(): void {
+    if (!this.isUnlocked()) {
+      throw new Error('The pseudonym vault is locked');
+    }
+  }
+
+  private async deriveKey(
+    key: string,
+    salt: Uint8Array<ArrayBuffer>,
+    algorithm: HmacImportParams | AesKeyGenParams,
+    usages: KeyUsage[]
+  ): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(key), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+      material,
+      algorithm,
+      false,
+      usages
+    );
+  }
+
+  private async persist(): Promise<void> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      this.vaultKey!,
+      new TextEncoder().encode(JSON.stringify([...this.entries.values()]))
+    );
+    const stored: StoredPseudonymVault = {
+      version: 1,
+      salt: this.toBase64(this.salt!),
+      iv: this.toBase64(iv),
+      data: this.toBase64(new Uint8Array(ciphertext))
+    };
+
+    try {
+      localStorage.setItem(VAULT_KEY, JSON.stringify(stored));
+    } catch {
+      // Storage unavailable (private browsing, tests); the vault lives for the session only
+    }
+  }
+
+  private readStored(): StoredPseudonymVault | undefined {
+    try {
+      const stored = localStorage.getItem(VAULT_KEY);
+      return stored ? JSON.parse(stored) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private toBase64(bytes: Uint8Array): string {
+    // Byte by byte: spreading a large vault into fromCharCode would overflow the call stack
+    return btoa(bytes.reduce((binary, byte) => binary + String.fromCharCode(byte), ''));
+  }
+
+  private fromBase64(text: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+  }
+}
@@ -0,0 +1,101 @@
+import { TestBed } from '@angular/core/testing';
+import { FHIRPatient } from '../models/fhir.model';
+import { PurposeOfUse } from '../models/purpose-of-use.model';
+import { PurposeOfUseService } from './purpose-of-use.service';
+
+describe('PurposeOfUseService', () => {
+  let service: PurposeOfUseService;
+  let research: PurposeOfUse;
+
+  beforeEach(() => {
+    localStorage.clear();
+    service = TestBed.inject(PurposeOfUseService);
+    research = service.getPurpose('research')!;
+  });
+
+  it('classifies source fields, contact fields by any parent', () => {
+    expect(service.classify('address.postalCode')).toBe('postalCode');
+    expect(service.classify('address.city')).toBe('address');
+    expect(service.classify('emergencyContact.phone')).toBe('contact');
+    expect(service.classify('patient.healthCardNumber')).toBe('healthCard');
+    expect(service.classify('mrn')).toBe('identifier');
+    expect(service.classify('visits[0].diagnosis')).toBe('clinicalNotes');
+    expect(service.classify('favouriteColour')).toBe('other');
+  });
+
+  it('finds fields beyond the purpose and missing required elements, ignoring consent directives', () => {
+    const analysis = service.analyze({
+      firstName: 'Amélie',
+      gender: 'F',
+      phone: '613-555-2468',
+      address: { city: 'Ottawa', postalCode: 'K1A 0B1' },
+      consent: { status: 'yes', lockbox: ['phone'] }
+    }, research);
+
+    expect(analysis.beyondPurpose).toEqual([
+      { path: 'firstName', element: 'name' },
+      { path: 'phone', element: 'telecom' },
+      { path: 'address.city', element: 'address' }
+    ]);
+    expect(analysis.missingRequired).toEqual(['birthDate']);
+  });
+
+  it('minimizes a source record and keeps its consent directives', () => {
+    expect(service.minimizeRecord({
+      firstName: 'Amélie',
+      gender: 'F',
+      address: { city: 'Ottawa', postalCode: 'K1A 0B1' },
+      emergencyContact: { name: 'Luc', phone: '613-555-1357' },
+      consent: { status: 'yes' }
+    }, research)).toEqual({
+      gender: 'F',
+      address: { postalCode: 'K1A 0B1' },
+      consent: { status: 'yes' }
+    });
+  });
+
+  it('minimizes a Patient for research without leaving the MRN behind', () => {
+    const patient: FHIRPatient = {
+      resourceType: 'Patient',
+      id: 'MRN-4471',
+      name: [{ family: 'Tremblay', given: ['Amélie'] }],
+      gender: 'female',
+      birthDate: '1980-04-03',
+      telecom: [{ system: 'phone', value: '613-555-2468' }],
+      address: [{ line: ['12 Elgin St'], city: 'Ottawa', postalCode: 'K1A 0B1' }],
+      identifier: [{ type: { coding: [{ code: 'MR' }] }, value: 'MRN-4471' }],
+      extension: [
+        { url: 'https://example.org/fhir/StructureDefinition/emergencyContact.phone', valueString: '613-555-1357' },
+        { url: 'https://example.org/fhir/StructureDefinition/favouriteColour', valueString: 'green' }
+      ],
+      managingOrganization: { reference: 'Organization/riverside', identifier: { value: 'ORG-1' } }
+    };
+
+    const minimized = service.minimizePatient(patient, research);
+
+    expect(minimized.id).toBeDefined();
+    expect(minimized.id).not.toBe('MRN-4471');
+    expect(minimized).toMatchObject({ gender: 'female', birthDate: '1980-04-03', address: [{ postalCode: 'K1A 0B1' }] });
+    expect(minimized.name).toBeUndefined();
+    expect(minimized.telecom).toBeUndefined();
+    expect(minimized.identifier).toBeUndefined();
+    expect(minimized.extension?.map(extension => extension.valueString)).toEqual(['green']);
+    expect(minimized.managingOrganization).toEqual({ reference: 'Organization/riverside' });
+    expect(patient.id).toBe('MRN-4471');
+  });
+
+  it('copies a built-in purpose before editing it', () => {
+    service.selectPurpose('research');
+    const custom = service.setElementUse('language', 'excluded');
+
+    expect(custom).toMatchObject({ id: 'research-custom', builtIn: false });
+    expect(custom.elements.language).toBe('excluded');
+    expect(service.getPurpose('research')!.elements.language).toBe('permitted');
+    expect(service.getSelectedPurpose()?.id).toBe('research-custom');
+  });
+
+  it('rejects unknown purposes and deleting built-in ones', () => {
+    expect(() => service.selectPurpose('marketing')).toThrowError('Unknown purpose of use "marketing"');
+    expect(() => service.deletePurpose('treatment')).toThrowError('Built-in purposes of use cannot be deleted');
+  });
+});
@@ -0,0 +1,378 @@
+import { Injectable } from '@angular/core';
+import { FHIRAddress, FHIRExtension, FHIRIdentifier, FHIRPatient, FHIRReference } from '../models/fhir.model';
+import {
+  MinimizationAnalysis,
+  MinimizationField,
+  MinimizedExport,
+  PurposeElement,
+  PurposeElementUse,
+  PurposeOfUse
+} from '../models/purpose-of-use.model';
+import { ConsentService } from './consent.service';
+
+const STORAGE_KEY = 'medibridge.purposesOfUse';
+const SELECTED_KEY = 'medibridge.selectedPurposeOfUse';
+const USES: PurposeElementUse[] = ['required', 'permitted', 'excluded'];
+
+// Source fields of each element, tested in order against a field name; contacts are tested against
+// every parent too, so that an emergency contact's phone counts as the contact's
+export const PURPOSE_ELEMENTS: { element: PurposeElement; label: string; aliases?: RegExp }[] = [
+  { element: 'contact', label: 'Emergency contacts', aliases: /^contacts?$|emergency|next.?of.?kin|guardian/i },
+  { element: 'maritalStatus', label: 'Marital status', aliases: /marital/i },
+  { element: 'language', label: 'Language', aliases: /language|communication|^langue$/i },
+  { element: 'healthCard', label: 'Health card number', aliases: /health.?(card|number|no)|^hcn$|ohip|ramq|^nam$|^phn$/i },
+  { element: 'sin', label: 'SIN / SSN', aliases: /^sin$|^nas$|social.?(insurance|security)|^ssn$/i },
+  { element: 'financial', label: 'Payment and bank details', aliases: /credit|debit|card.?(number|no)|^card$|bank|account|iban|payment/i },
+  { element: 'postalCode', label: 'Postal code', aliases: /postal|zip|post.?code/i },
+  { element: 'birthDate', label: 'Birth date', aliases: /birth|^dob$|naissance/i },
+  { element: 'telecom', label: 'Phone and e-mail', aliases: /phone|mobile|tel(ephone)?$|^tel|fax|cell|e.?mail|courriel/i },
+  { element: 'address', label: 'Address', aliases: /address|street|^(city|town|province|state|country|ville|rue)$|^lines?\d*$/i },
+  { element: 'name', label: 'Name', aliases: /name$|^(surname|forename|given|family|prenom|prénom|nom)$/i },
+  { element: 'gender', label: 'Gender', aliases: /gender|^sexe?$/i },
+  {
+    element: 'identifier', label: 'Record number and other identifiers',
+    aliases: /^id$|_id$|[a-z]Id$|mrn|medical.?record|identifier|chart|licen[cs]e|passport/i
+  },
+  { element: 'clinicalNotes', label: 'Clinical notes', aliases: /note|comment|remark|narrative|diagnos|history/i },
+  { element: 'other', label: 'Other fields' }
+];
+
+// v2-0203 identifier types of the identifier elements; other types count as 'identifier'
+const IDENTIFIER_TYPES: Partial<Record<PurposeElement, string[]>> = {
+  healthCard: ['HC', 'JHN'],
+  sin: ['SS', 'SB']
+};
+
+function uses(required: PurposeElement[], permitted: PurposeElement[]): Record<PurposeElement, PurposeElementUse> {
+  return Object.fromEntries(PURPOSE_ELEMENTS.map(({ element }) => [
+    element,
+    required.includes(element) ? 'required' : permitted.includes(element) ? 'permitted' : 'excluded'
+  ])) as Record<PurposeElement, PurposeElementUse>;
+}
+
+export const BUILT_IN_PURPOSES: PurposeOfUse[] = [
+  {
+    id: 'treatment',
+    name: 'Treatment',
+    description: 'Care of the patient within the circle of care',
+    code: 'TREAT',
+    builtIn: true,
+    elements: uses(
+      ['name', 'gender', 'birthDate', 'healthCard'],
+      ['address', 'postalCode', 'telecom', 'identifier', 'contact', 'maritalStatus', 'language', 'clinicalNotes', 'other']
+    )
+  },
+  {
+    id: 'billing',
+    name: 'Billing',
+    description: 'Claims to the provincial health plan or the patient',
+    code: 'HPAYMT',
+    builtIn: true,
+    elements: uses(
+      ['name', 'birthDate', 'healthCard'],
+      ['gender', 'address', 'postalCode', 'identifier', 'financial', 'other']
+    )
+  },
+  {
+    id: 'research',
+    name: 'Research',
+    description: 'Research approved by a research ethics board; no direct identifiers',
+    code: 'HRESCH',
+    builtIn: true,
+    elements: uses(['birthDate', 'gender'], ['postalCode', 'language', 'clinicalNotes', 'other'])
+  },
+  {
+    id: 'public-health',
+    name: 'Public Health Reporting',
+    description: 'Reports to a medical officer of health, e.g. of a reportable disease',
+    code: 'PUBHLTH',
+    builtIn: true,
+    elements: uses(
+      ['name', 'gender', 'birthDate', 'healthCard', 'address', 'postalCode'],
+      ['telecom', 'identifier', 'language', 'clinicalNotes', 'other']
+    )
+  }
+];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PurposeOfUseService {
+  private customPurposes: PurposeOfUse[] = [];
+  private selectedId: string | null = null;
+
+  constructor(private consents: ConsentService) {
+    this.load();
+  }
+
+  getPurposes(): PurposeOfUse[] {
+    return [...BUILT_IN_PURPOSES, ...this.customPurposes];
+  }
+
+  getPurpose(id: string): PurposeOfUse | undefined {
+    return this.getPurposes().find(purpose => purpose.id === id);
+  }
+
+  /**
+   * The purpose records are shared for, or undefined when none was picked and data minimization is not judged
+   */
+  getSelectedPurpose(): PurposeOfUse | undefined {
+    return this.selectedId ? this.getPurpose(this.selectedId) : undefined;
+  }
+
+  selectPurpose(id: string | null): void {
+    if (id !== null && !this.getPurpose(id)) {
+      throw new Error(`Unknown purpose of use "${id}"`);
+    }
+    this.selectedId = id;
+    this.persist();
+  }
+
+  getElementLabel(element: PurposeElement): string {
+    return PURPOSE_ELEMENTS.find(candidate => candidate.element === element)!.label;
+  }
+
+  /**
+   * Changes what the selected purpose declares for an element; a built-in purpose is copied to a custom one first
+   */
+  setElementUse(element: PurposeElement, use: PurposeElementUse): PurposeOfUse {
+    const selected = this.getSelectedPurpose();
+    if (!selected) {
+      throw new Error('Select a purpose of use to edit');
+    }
+    if (!USES.includes(use)) {
+      throw new Error(`Unknown element use "${use}"`);
+    }
+
+    let purpose: PurposeOfUse;
+    if (selected.builtIn) {
+      const ids = new Set(this.getPurposes().map(p => p.id));
+      let id = `${selected.id}-custom`;
+      for (let n = 2; ids.has(id); n++) {
+        id = `${selected.id}-custom-${n}`;
+      }
+      purpose = { ...selected, id, name: `${selected.name} (custom)`, builtIn: false, elements: { ...selected.elements, [element]: use } };
+      this.customPurposes.push(purpose);
+    } else {
+      purpose = { ...selected, elements: { ...selected.elements, [element]: use } };
+      this.customPurposes = this.customPurposes.map(p => (p.id === purpose.id ? purpose : p));
+    }
+
+    this.selectedId = purpose.id;
+    this.persist();
+    return purpose;
+  }
+
+  deletePurpose(id: string): void {
+    if (BUILT_IN_PURPOSES.some(purpose => purpose.id === id)) {
+      throw new Error('Built-in purposes of use cannot be deleted');
+    }
+    this.customPurposes = this.customPurposes.filter(purpose => purpose.id !== id);
+    if (this.selectedId === id) {
+      this.selectedId = null;
+    }
+    this.persist();
+  }
+
+  /**
+   * Element of a source field, e.g. "address.postalCode" → postalCode, "emergencyContact.phone" → contact
+   */
+  classify(path: string): PurposeElement {
+    const keys = path.split(/[.[\]]/).filter(key => key && isNaN(Number(key)));
+    const contact = PURPOSE_ELEMENTS[0];
+    if (keys.some(key => contact.aliases!.test(key))) {
+      return 'contact';
+    }
+
+    for (const key of [...keys].reverse()) {
+      const match = PURPOSE_ELEMENTS.find(candidate => candidate.aliases?.test(key));
+      if (match) return match.element;
+    }
+    return 'other';
+  }
+
+  /**
+   * Finds the fields of a record collected beyond a purpose, and the elements it requires that the record lacks.
+   * Consent directives are never judged: they travel with the record whatever the purpose.
+   */
+  analyze(data: any, purpose: PurposeOfUse): MinimizationAnalysis {
+    const fields = this.fieldsOf(data);
+    const present = new Set(fields.map(field => field.element));
+
+    return {
+      purposeId: purpose.id,
+      beyondPurpose: fields.filter(field => purpose.elements[field.element] === 'excluded'),
+      missingRequired: PURPOSE_ELEMENTS
+        .map(({ element }) => element)
+        .filter(element => purpose.elements[element] === 'required' && !present.has(element))
+    };
+  }
+
+  /**
+   * The minimized export of a record: the source record and its Patient without what the purpose excludes
+   * @param source - Original record (JSON, or the flattened HL7 v2 message); CDA text is left out
+   * @param fhirPatient - Converted Patient, if the conversion succeeded
+   */
+  minimize(source: any, fhirPatient: FHIRPatient | undefined, purpose: PurposeOfUse): MinimizedExport {
+    const isRecord = !!source && typeof source === 'object';
+    return {
+      purpose: { id: purpose.id, name: purpose.name, code: purpose.code },
+      ...(isRecord && { source: this.minimizeRecord(source, purpose) }),
+      ...(fhirPatient && { fhirResource: this.minimizePatient(fhirPatient, purpose) }),
+      removed: isRecord ? this.analyze(source, purpose).beyondPurpose : [],
+      createdAt: new Date()
+    };
+  }
+
+  /**
+   * A copy of a source record without the fields beyond a purpose; objects and arrays left empty are dropped
+   */
+  minimizeRecord(data: any, purpose: PurposeOfUse): any {
+    return this.strip(data, '', purpose) ?? (Array.isArray(data) ? [] : {});
+  }
+
+  /**
+   * A copy of a Patient without the elements beyond a purpose. Preserved extensions are judged by the source
+   * field in their URL; the managing organization and general practitioners are 'other', and the
+   * identifiers of those references are 'identifier'.
+   */
+  minimizePatient(patient: FHIRPatient, purpose: PurposeOfUse): FHIRPatient {
+    const excluded = (element: PurposeElement) => purpose.elements[element] === 'excluded';
+    const copy: FHIRPatient = JSON.parse(JSON.stringify(patient));
+
+    if (excluded('name')) delete copy.name;
+    if (excluded('gender')) delete copy.gender;
+    if (excluded('birthDate')) delete copy.birthDate;
+    if (excluded('telecom')) delete copy.telecom;
+    if (excluded('contact')) delete copy.contact;
+    if (excluded('maritalStatus')) delete copy.maritalStatus;
+    if (excluded('language')) delete copy.communication;
+
+    if (copy.address && (excluded('address') || excluded('postalCode'))) {
+      copy.address = copy.address
+        .map(address => this.minimizeAddress(address, excluded('address'), excluded('postalCode')))
+        .filter((address): address is FHIRAddress => !!address);
+      if (copy.address.length === 0) delete copy.address;
+    }
+
+    if (copy.identifier) {
+      copy.identifier = copy.identifier.filter(identifier => !excluded(this.identifierElement(identifier)));
+      if (copy.identifier.length === 0) delete copy.identifier;
+    }
+    // The resource id is usually the source MRN
+    if (copy.id && excluded('identifier')) {
+      copy.id = crypto.randomUUID();
+    }
+
+    if (copy.extension) {
+      copy.extension = copy.extension.filter(extension => !excluded(this.extensionElement(extension)));
+      if (copy.extension.length === 0) delete copy.extension;
+    }
+
+    if (excluded('other')) {
+      delete copy.managingOrganization;
+      delete copy.generalPractitioner;
+    } else if (excluded('identifier')) {
+      if (copy.managingOrganization) {
+        copy.managingOrganization = this.withoutIdentifier(copy.managingOrganization);
+        if (!copy.managingOrganization) delete copy.managingOrganization;
+      }
+      if (copy.generalPractitioner) {
+        copy.generalPractitioner = copy.generalPractitioner
+          .map(reference => this.withoutIdentifier(reference))
+          .filter((reference): reference is FHIRReference => !!reference);
+        if (copy.generalPractitioner.length === 0) delete copy.generalPractitioner;
+      }
+    }
+    return copy;
+  }
+
+  private fieldsOf(node: any, path = ''): { path: string; element: PurposeElement }[] {
+    if (node === undefined || node === null || (typeof node === 'string' && node.trim() === '')) {
+      return [];
+    }
+    if (Array.isArray(node)) {
+      return node.flatMap((item, index) => this.fieldsOf(item, `${path}[${index}]`));
+    }
+    if (typeof node === 'object') {
+      return Object.keys(node)
+        .filter(key => !this.consents.isDirectiveField(key))
+        .flatMap(key => this.fieldsOf(node[key], path ? `${path}.${key}` : key));
+    }
+    return path ? [{ path, element: this.classify(path) }] : [];
+  }
+
+  private strip(node: any, path: string, purpose: PurposeOfUse): any {
+    if (Array.isArray(node)) {
+      const items = node
+        .map((item, index) => this.strip(item, `${path}[${index}]`, purpose))
+        .filter(item => item !== undefined);
+      return items.length > 0 || node.length === 0 ? items : undefined;
+    }
+    if (node && typeof node === 'object') {
+      const entries = Object.entries(node)
+        .map(([key, value]) => [key, this.consents.isDirectiveField(key) ? value : this.strip(value, path ? `${path}.${key}` : key, purpose)])
+        .filter(([, value]) => value !== undefined);
+      return entries.length > 0 || Object.keys(node).length === 0 ? Object.fromEntries(entries) : undefined;
+    }
+    return path && purpose.elements[this.classify(path)] === 'excluded' ? undefined : node;
+  }
+
+  // The source fields of an address other than its postal code (street, city, province, country) are all 'address'
+  private minimizeAddress(address: FHIRAddress, dropAddress: boolean, dropPostalCode: boolean): FHIRAddress | undefined {
+    const { postalCode, ...rest } = address;
+    const kept: FHIRAddress = dropAddress ? { ...(rest.use && { use: rest.use }) } : rest;
+    if (!dropPostalCode && postalCode) {
+      kept.postalCode = postalCode;
+    }
+    return Object.keys(kept).some(key => key !== 'use' && key !== 'type') ? kept : undefined;
+  }
+
+  private identifierElement(identifier: FHIRIdentifier): PurposeElement {
+    const codes = identifier.type?.coding?.map(coding => coding.code) ?? [];
+    const match = (Object.keys(IDENTIFIER_TYPES) as PurposeElement[])
+      .find(element => IDENTIFIER_TYPES[element]!.some(code => codes.includes(code)));
+    return match ?? 'identifier';
+  }
+
+  // "https://example.org/fhir/StructureDefinition/emergencyContact.phone" → contact
+  private extensionElement(extension: FHIRExtension): PurposeElement {
+    return this.classify(extension.url.slice(extension.url.lastIndexOf('/') + 1));
+  }
+
+  private withoutIdentifier(reference: FHIRReference): FHIRReference | undefined {
+    const { identifier, ...rest } = reference;
+    return rest.reference || rest.display ? rest : undefined;
+  }
+
+  private load(): void {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const purposes = stored ? JSON.parse(stored) : [];
+      this.customPurposes = Array.isArray(purposes) ? purposes.filter(purpose => this.isPurpose(purpose)) : [];
+      const selected = localStorage.getItem(SELECTED_KEY);
+      this.selectedId = selected && this.getPurpose(selected) ? selected : null;
+    } catch {
+      // Storage unavailable (private browsing, tests); purposes live for the session only
+      this.customPurposes = [];
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.customPurposes));
+      if (this.selectedId) {
+        localStorage.setItem(SELECTED_KEY, this.selectedId);
+      } else {
+        localStorage.removeItem(SELECTED_KEY);
+      }
+    } catch {
+      // Storage unavailable; keep the in-memory state
+    }
+  }
+
+  private isPurpose(purpose: any): purpose is PurposeOfUse {
+    return !!purpose && typeof purpose.id === 'string' && typeof purpose.name === 'string'
+      && !!purpose.elements && PURPOSE_ELEMENTS.every(({ element }) => USES.includes(purpose.elements[element]));
+  }
+}
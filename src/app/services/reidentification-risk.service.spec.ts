@@ -0,0 +1,81 @@
+import { TestBed } from '@angular/core/testing';
+import { RiskOptions, RiskRecord } from '../models/reidentification-risk.model';
+import { ReidentificationRiskService } from './reidentification-risk.service';
+
+function record(birthDate: string, postalCode: string, gender: string, diagnosis: string): RiskRecord {
+  return {
+    patient: { resourceType: 'Patient', birthDate, gender, address: [{ postalCode }] },
+    source: { diagnosis }
+  };
+}
+
+describe('ReidentificationRiskService', () => {
+  let service: ReidentificationRiskService;
+  const records: RiskRecord[] = [
+    record('1980-04-03', 'K1A 0B1', 'female', 'asthma'),
+    record('1980-04-03', 'k1a0b1', 'female', 'asthma'),
+    { source: { diagnosis: 'diabetes' } },
+    record('1980-07-21', 'K1A 2C3', 'female', 'diabetes')
+  ];
+  const options: RiskOptions = {
+    quasiIdentifiers: ['birthDate', 'postalCode', 'gender'],
+    generalization: {},
+    kTarget: 2,
+    sensitiveAttribute: 'diagnosis'
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    service = TestBed.inject(ReidentificationRiskService);
+  });
+
+  it('measures k, uniqueness and l-diversity of the equivalence classes', () => {
+    const assessment = service.assess(records, options);
+
+    expect(assessment).toMatchObject({
+      recordCount: 3,
+      skippedCount: 1,
+      k: 1,
+      l: 1,
+      uniqueCount: 1,
+      maxRisk: 1,
+      homogeneousClasses: 1,
+      meetsTarget: false
+    });
+    expect(assessment.uniqueProportion).toBeCloseTo(1 / 3);
+    expect(assessment.classes.map(c => c.records)).toEqual([[0, 1], [3]]);
+    expect(assessment.outliers).toEqual([
+      { record: 3, classSize: 1, values: { birthDate: '1980-07-21', postalCode: 'K1A2C3', gender: 'female' } }
+    ]);
+  });
+
+  it('suggests the generalization losing least information first', () => {
+    const [first] = service.assess(records, options).suggestions;
+
+    expect(first.generalization).toEqual({ birthDate: 2, postalCode: 1, gender: 0 });
+    expect(first.steps).toEqual(['Birth date → year', 'Postal code → fsa (first 3 characters)']);
+    expect(first.k).toBe(3);
+  });
+
+  it('meets the target once generalized', () => {
+    const assessment = service.assess(records, { ...options, generalization: { birthDate: 2, postalCode: 1 } });
+
+    expect(assessment.k).toBe(3);
+    expect(assessment.meetsTarget).toBe(true);
+    expect(assessment.classes[0].values).toEqual({ birthDate: '1980', postalCode: 'K1A', gender: 'female' });
+    expect(assessment.suggestions).toEqual([]);
+  });
+
+  it('keeps a missing value apart until the quasi-identifier is suppressed', () => {
+    const withoutGender = [...records, { patient: { resourceType: 'Patient', birthDate: '1980-04-03', address: [{ postalCode: 'K1A 0B1' }] } }];
+
+    expect(service.assess(withoutGender, options).classes).toHaveLength(3);
+    expect(service.assess(withoutGender, { ...options, generalization: { gender: 1 } }).classes[0].records).toEqual([0, 1, 4]);
+  });
+
+  it('rejects options that cannot be assessed', () => {
+    expect(() => service.setOptions({ quasiIdentifiers: [] })).toThrowError('Select at least one quasi-identifier');
+    expect(() => service.setOptions({ kTarget: 1 })).toThrowError(/at least 2/);
+    expect(service.getOptions()).toMatchObject({ quasiIdentifiers: ['birthDate', 'postalCode', 'gender'], kTarget: 5 });
+  });
+});
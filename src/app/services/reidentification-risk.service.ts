@@ -0,0 +1,292 @@
+import { Injectable } from '@angular/core';
+import { FHIRPatient } from '../models/fhir.model';
+import {
+  EquivalenceClass,
+  GeneralizationSuggestion,
+  QuasiIdentifier,
+  QuasiIdentifierSet,
+  ReidentificationRiskAssessment,
+  RiskOptions,
+  RiskRecord
+} from '../models/reidentification-risk.model';
+import { ConsentService } from './consent.service';
+import { PurposeOfUseService } from './purpose-of-use.service';
+
+const MISSING = '(missing)';
+const SUPPRESSED = '*';
+const MAX_SUGGESTIONS = 3;
+// Longer values are narrative rather than a category a sensitive attribute can take
+const MAX_SENSITIVE_LENGTH = 60;
+
+interface QuasiIdentifierDefinition {
+  id: QuasiIdentifier;
+  label: string;
+  levels: string[]; // Generalization levels, from as recorded to suppressed
+  read: (patient: FHIRPatient) => string | undefined;
+  generalize: (value: string, level: number) => string;
+}
+
+// Levels other than the first and the last only apply to birth dates and postal codes
+function keepOrSuppress(value: string, level: number): string {
+  return level === 0 ? value : SUPPRESSED;
+}
+
+function yearBand(year: number, size: number): string {
+  const start = Math.floor(year / size) * size;
+  return `${start}-${start + size - 1}`;
+}
+
+interface ClassBuilder {
+  values: Partial<Record<QuasiIdentifier, string>>;
+  records: number[];
+  sensitive: Set<string>;
+}
+
+export const QUASI_IDENTIFIERS: QuasiIdentifierDefinition[] = [
+  {
+    id: 'birthDate',
+    label: 'Birth date',
+    levels: ['As recorded', 'Year and month', 'Year', '5-year band', '10-year band', 'Suppressed'],
+    read: patient => patient.birthDate,
+    generalize: (value, level) => {
+      const year = Number(value.slice(0, 4));
+      switch (level) {
+        case 0: return value;
+        case 1: return value.slice(0, 7);
+        case 2: return value.slice(0, 4);
+        case 3: return isNaN(year) ? value : yearBand(year, 5);
+        case 4: return isNaN(year) ? value : yearBand(year, 10);
+        default: return SUPPRESSED;
+      }
+    }
+  },
+  {
+    id: 'postalCode',
+    label: 'Postal code',
+    levels: ['As recorded', 'FSA (first 3 characters)', 'Region (first character)', 'Suppressed'],
+    read: patient => patient.address?.find(address => address.postalCode)?.postalCode?.replace(/\s/g, '').toUpperCase(),
+    generalize: (value, level) => (level === 0 ? value : level === 1 ? value.slice(0, 3) : level === 2 ? value.slice(0, 1) : SUPPRESSED)
+  },
+  {
+    id: 'gender',
+    label: 'Gender',
+    levels: ['As recorded', 'Suppressed'],
+    read: patient => patient.gender,
+    generalize: keepOrSuppress
+  },
+  {
+    id: 'city',
+    label: 'City',
+    levels: ['As recorded', 'Suppressed'],
+    read: patient => patient.address?.find(address => address.city)?.city?.trim().toLowerCase(),
+    generalize: keepOrSuppress
+  },
+  {
+    id: 'language',
+    label: 'Language',
+    levels: ['As recorded', 'Suppressed'],
+    read: patient => patient.communication?.[0]?.language.coding?.[0]?.code ?? patient.communication?.[0]?.language.text,
+    generalize: keepOrSuppress
+  },
+  {
+    id: 'maritalStatus',
+    label: 'Marital status',
+    levels: ['As recorded', 'Suppressed'],
+    read: patient => patient.maritalStatus?.coding?.[0]?.code ?? patient.maritalStatus?.text,
+    generalize: keepOrSuppress
+  }
+];
+
+export const QUASI_IDENTIFIER_SETS: QuasiIdentifierSet[] = [
+  {
+    id: 'birth-postal-gender',
+    name: 'Birth date, postal code, gender',
+    quasiIdentifiers: ['birthDate', 'postalCode', 'gender']
+  },
+  {
+    id: 'demographics',
+    name: 'All demographics',
+    quasiIdentifiers: ['birthDate', 'postalCode', 'gender', 'city', 'language', 'maritalStatus']
+  },
+  {
+    id: 'birth-gender',
+    name: 'Birth date, gender',
+    quasiIdentifiers: ['birthDate', 'gender']
+  }
+];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ReidentificationRiskService {
+  private options: RiskOptions = {
+    quasiIdentifiers: [...QUASI_IDENTIFIER_SETS[0].quasiIdentifiers],
+    generalization: {},
+    kTarget: 5
+  };
+
+  constructor(
+    private purposes: PurposeOfUseService,
+    private consents: ConsentService
+  ) {}
+
+  getOptions(): RiskOptions {
+    return { ...this.options, quasiIdentifiers: [...this.options.quasiIdentifiers], generalization: { ...this.options.generalization } };
+  }
+
+  setOptions(options: Partial<RiskOptions>): void {
+    const next = { ...this.options, ...options };
+    if (next.quasiIdentifiers.length === 0) {
+      throw new Error('Select at least one quasi-identifier');
+    }
+    if (!Number.isInteger(next.kTarget) || next.kTarget < 2) {
+      throw new Error('The target k must be a whole number of at least 2');
+    }
+    // Keep the order of QUASI_IDENTIFIERS so that class values read the same whatever the selection order
+    next.quasiIdentifiers = QUASI_IDENTIFIERS.map(qi => qi.id).filter(id => next.quasiIdentifiers.includes(id));
+    this.options = next;
+  }
+
+  getQuasiIdentifier(id: QuasiIdentifier): QuasiIdentifierDefinition {
+    return QUASI_IDENTIFIERS.find(qi => qi.id === id)!;
+  }
+
+  /**
+   * Source fields that can serve as the sensitive attribute of l-diversity: short values that are
+   * neither direct identifiers nor quasi-identifiers, e.g. "diagnosis" or "program"
+   */
+  getSensitiveCandidates(records: RiskRecord[]): string[] {
+    const paths = new Set<string>();
+    records.forEach(record => this.leafPaths(record.source).forEach(path => paths.add(path)));
+    return [...paths].filter(path => ['clinicalNotes', 'other'].includes(this.purposes.classify(path)));
+  }
+
+  /**
+   * Measures how re-identifiable a batch is through the combination of its quasi-identifiers
+   * @param records - Converted Patients of the batch with their source records
+   * @param options - Quasi-identifiers, generalization, target k and sensitive attribute; the current options when omitted
+   * @returns ReidentificationRiskAssessment with k, l, uniqueness, outliers and generalizations reaching the target k
+   */
+  assess(records: RiskRecord[], options: RiskOptions = this.getOptions()): ReidentificationRiskAssessment {
+    const assessed = records
+      .map((record, index) => ({ index, patient: record.patient as FHIRPatient | undefined, source: record.source }))
+      .filter((record): record is { index: number; patient: FHIRPatient; source: any } => !!record.patient);
+
+    const raw = assessed.map(record => options.quasiIdentifiers.map(id => this.getQuasiIdentifier(id).read(record.patient) || MISSING));
+    const sensitive = assessed.map(record =>
+      options.sensitiveAttribute ? String(this.readPath(record.source, options.sensitiveAttribute) ?? MISSING) : ''
+    );
+    const classes = this.group(raw, options, sensitive).map(group => ({
+      ...group,
+      records: group.records.map(position => assessed[position].index)
+    }));
+
+    const recordCount = assessed.length;
+    const sizes = classes.map(c => c.records.length);
+    const k = sizes.length > 0 ? Math.min(...sizes) : 0;
+    const uniqueCount = classes.filter(c => c.records.length === 1).length;
+
+    return {
+      options,
+      recordCount,
+      skippedCount: records.length - recordCount,
+      k,
+      ...(options.sensitiveAttribute && classes.length > 0 && { l: Math.min(...classes.map(c => c.sensitiveValues)) }),
+      uniqueCount,
+      uniqueProportion: recordCount > 0 ? uniqueCount / recordCount : 0,
+      maxRisk: k > 0 ? 1 / k : 0,
+      averageRisk: recordCount > 0 ? classes.length / recordCount : 0,
+      homogeneousClasses: options.sensitiveAttribute ? classes.filter(c => c.sensitiveValues === 1 && c.records.length > 1).length : 0,
+      meetsTarget: k >= options.kTarget,
+      classes,
+      outliers: classes
+        .filter(c => c.records.length < options.kTarget)
+        .flatMap(c => c.records.map(record => ({ record, classSize: c.records.length, values: c.values })))
+        .sort((a, b) => a.classSize - b.classSize || a.record - b.record),
+      suggestions: k >= options.kTarget ? [] : this.suggest(raw, options),
+      assessedAt: new Date()
+    };
+  }
+
+  /**
+   * Generalizations of the quasi-identifiers that bring k up to the target, least information lost first.
+   * Only minimal ones are kept: generalizing any quasi-identifier less would miss the target.
+   */
+  private suggest(raw: string[][], options: RiskOptions): GeneralizationSuggestion[] {
+    const definitions = options.quasiIdentifiers.map(id => this.getQuasiIdentifier(id));
+    const reaching: { levels: number[]; k: number; unique: number }[] = [];
+
+    const visit = (levels: number[]) => {
+      if (levels.length < definitions.length) {
+        definitions[levels.length].levels.forEach((_, level) => visit([...levels, level]));
+        return;
+      }
+      const generalization = Object.fromEntries(definitions.map((qi, i) => [qi.id, levels[i]]));
+      const sizes = this.group(raw, { ...options, generalization }, []).map(c => c.records.length);
+      const k = Math.min(...sizes);
+      if (k >= options.kTarget) {
+        reaching.push({ levels, k, unique: sizes.filter(size => size === 1).length });
+      }
+    };
+    if (raw.length >= options.kTarget) {
+      visit([]);
+    }
+
+    const loss = (levels: number[]) =>
+      levels.reduce((total, level, i) => total + level / (definitions[i].levels.length - 1), 0) / definitions.length;
+    const minimal = reaching.filter(node => !reaching.some(other =>
+      other !== node && other.levels.every((level, i) => level <= node.levels[i])
+    ));
+
+    return minimal
+      .sort((a, b) => loss(a.levels) - loss(b.levels) || b.k - a.k)
+      .slice(0, MAX_SUGGESTIONS)
+      .map(node => ({
+        generalization: Object.fromEntries(definitions.map((qi, i) => [qi.id, node.levels[i]])),
+        steps: definitions
+          .map((qi, i) => (node.levels[i] > 0 ? `${qi.label} → ${qi.levels[node.levels[i]].toLowerCase()}` : ''))
+          .filter(Boolean),
+        k: node.k,
+        uniqueProportion: raw.length > 0 ? node.unique / raw.length : 0,
+        informationLoss: loss(node.levels)
+      }));
+  }
+
+  private group(raw: string[][], options: RiskOptions, sensitive: string[]): EquivalenceClass[] {
+    const classes = new Map<string, ClassBuilder>();
+
+    raw.forEach((values, position) => {
+      // A missing value stays apart from recorded ones until the quasi-identifier is suppressed
+      const generalized = options.quasiIdentifiers.map((id, i) => {
+        const qi = this.getQuasiIdentifier(id);
+        const level = options.generalization[id] ?? 0;
+        return values[i] === MISSING && level < qi.levels.length - 1 ? MISSING : qi.generalize(values[i], level);
+      });
+      const key = generalized.join('|');
+      const entry: ClassBuilder = classes.get(key) ?? {
+        values: Object.fromEntries(options.quasiIdentifiers.map((id, i) => [id, generalized[i]])),
+        records: [],
+        sensitive: new Set<string>()
+      };
+      entry.records.push(position);
+      entry.sensitive.add(sensitive[position] ?? '');
+      classes.set(key, entry);
+    });
+
+    return [...classes.values()].map(({ values, records, sensitive: distinct }) => ({ values, records, sensitiveValues: distinct.size }));
+  }
+
+  private leafPaths(node: any, path = ''): string[] {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) {
+      const short = ['string', 'number', 'boolean'].includes(typeof node) && String(node).length <= MAX_SENSITIVE_LENGTH;
+      return path && short ? [path] : [];
+    }
+    return Object.keys(node)
+      .filter(key => !this.consents.isDirectiveField(key))
+      .flatMap(key => this.leafPaths(node[key], path ? `${path}.${key}` : key));
+  }
+
+  private readPath(data: any, path: string): any {
+    return path.split('.').reduce((node, key) => (node === null || node === undefined ? undefined : node[key]), data);
+  }
+}
@@ -0,0 +1,125 @@
+import { TestBed } from '@angular/core/testing';
+import { PHIPAViolationType } from '../models/phipa.model';
+import { RemediationChoice, RemediationItem } from '../models/remediation.model';
+import { ConsentService } from './consent.service';
+import { InteroperabilityService } from './interoperability.service';
+import { PhipaValidationService } from './phipa-validation.service';
+import { RemediationService } from './remediation.service';
+import violationsPatient from '../../../sample-data/patient-with-violations.json';
+
+const ADT_A04 = [
+  'MSH|^~\\&|REGADT|TORONTO_GEN|MEDIBRIDGE|MEDIBRIDGE|20260114093000||ADT^A04^ADT_A01|MSG00001|P|2.5.1',
+  'EVN|A04|20260114093000',
+  'PID|1||MRN998877^^^TGH^MR~2233445564^^^ON^JHN||Tremblay^Marie^Claire^^Mme^^L||19870322|F|||' +
+    '200 Bay St^Suite 1200^Toronto^ON^M5J 2J2^CAN^H||^PRN^PH^^^416^5551234|||M'
+].join('\r');
+
+const DISCHARGE_SUMMARY = `<?xml version="1.0" encoding="UTF-8"?>
+<ClinicalDocument xmlns="urn:hl7-org:v3">
+  <id root="2.16.840.1.113883.19.5.99999.1" extension="DS-20260114-0042"/>
+  <title>Discharge Summary</title>
+  <recordTarget>
+    <patientRole>
+      <id root="2.16.840.1.113883.19.5.99999.2" extension="MRN445566"/>
+      <id root="2.16.840.1.113883.4.1" extension="046-454-286"/>
+      <addr use="HP"><streetAddressLine>1053 Carling Avenue</streetAddressLine><city>Ottawa</city><postalCode>K1Y 4E9</postalCode></addr>
+      <telecom value="tel:+1-613-555-7788" use="HP"/>
+      <patient>
+        <name use="L"><given>Linh</given><family>Nguyen</family></name>
+        <administrativeGenderCode code="F" codeSystem="2.16.840.1.113883.5.1"/>
+        <birthTime value="19720905"/>
+      </patient>
+    </patientRole>
+  </recordTarget>
+</ClinicalDocument>`;
+
+describe('RemediationService', () => {
+  let service: RemediationService;
+  let record: any;
+  let items: RemediationItem[];
+
+  const item = (field: string) => items.find(candidate => candidate.field === field)!;
+
+  beforeEach(() => {
+    localStorage.clear();
+    service = TestBed.inject(RemediationService);
+    record = structuredClone(violationsPatient);
+    items = service.getItems(TestBed.inject(PhipaValidationService).validateData(record), record);
+  });
+
+  it('defaults critical findings to removal and free text to masking, and keeps a withdrawal only', () => {
+    expect(service.getDefaultChoice(item('sin')).action).toBe('remove');
+    expect(service.getDefaultChoice(item('notes')).action).toBe('mask');
+    expect(item('notes').allowedActions).not.toContain('tokenize');
+
+    const withdrawn = service.getItems({
+      ...TestBed.inject(PhipaValidationService).validateData(record),
+      violations: [{ ...item('sin').violations[0], violationType: PHIPAViolationType.CONSENT_WITHDRAWN }]
+    }, record);
+    expect(withdrawn[0].allowedActions).toEqual(['keep']);
+  });
+
+  it('applies the choices to a copy and logs every violation without its value', async () => {
+    const choices: Record<string, RemediationChoice> = Object.fromEntries(items.map(i => [i.field, { action: 'remove' }]));
+    choices['creditCard'] = { action: 'mask' };
+    choices['notes'] = { action: 'mask' };
+    choices['healthCard'] = { action: 'keep', justification: ' Needed to bill OHIP ' };
+
+    const outcome = await service.apply(record, items, choices);
+
+    expect(record).toEqual(violationsPatient);
+    expect(outcome.remediated.sin).toBeUndefined();
+    expect(outcome.remediated.creditCard).toBe('****-****-****-9012');
+    expect(outcome.remediated.notes).toContain('(SIN [SIN])');
+    expect(outcome.remediated.healthCard).toBe('9876543217');
+    expect(outcome.diff).toContainEqual({ path: 'sin', change: 'removed', before: '123-456-789' });
+    expect(outcome.log.filter(entry => entry.field === 'healthCard').map(entry => entry.justification)).toEqual(
+      item('healthCard').violations.map(() => 'Needed to bill OHIP')
+    );
+    expect(JSON.stringify(outcome.log)).not.toContain('123-456-789');
+  });
+
+  it('requires a justification for every kept field and an unlocked vault to tokenize', async () => {
+    await expect(service.apply(record, items, {})).rejects.toThrow('Give a justification for keeping');
+
+    const choices = Object.fromEntries(items.map(i => [i.field, { action: 'remove' } as RemediationChoice]));
+    await expect(service.apply(record, items, { ...choices, sin: { action: 'tokenize' } })).rejects.toThrow('Unlock the pseudonym vault');
+  });
+
+  it('carries the directives entered in the application over to the copy', async () => {
+    const consents = TestBed.inject(ConsentService);
+    consents.addManualDirective(record, { type: 'withdrawal', elements: [], note: 'Withdrew at the front desk' });
+    const choices = Object.fromEntries(items.map(i => [i.field, { action: 'remove' } as RemediationChoice]));
+
+    const outcome = await service.apply(record, items, choices);
+
+    expect(consents.getManualDirectives(outcome.remediated).map(directive => directive.note)).toEqual(['Withdrew at the front desk']);
+  });
+
+  it('lists removed and changed leaves with the paths the scan reports', () => {
+    expect(service.diff({ a: { b: [1, 2] }, c: 'x' }, { a: { b: [1] }, c: 'y' })).toEqual([
+      { path: 'a.b[1]', change: 'removed', before: 2 },
+      { path: 'c', change: 'changed', before: 'x', after: 'y' }
+    ]);
+  });
+
+  describe('re-validating a remediated HL7 v2 message or CDA document', () => {
+    let interop: InteroperabilityService;
+
+    beforeEach(() => {
+      interop = TestBed.inject(InteroperabilityService);
+    });
+
+    [['HL7 v2 message', ADT_A04], ['CDA document', DISCHARGE_SUMMARY]].forEach(([format, content]) => {
+      it(`scores an unchanged ${format} as the original`, () => {
+        const result = interop.processPatientData(interop.parseInput(content));
+        const remediated = interop.processRemediated(result, structuredClone(result.fhirConversion.originalData));
+
+        expect(remediated.dataQualityScore).toBe(result.dataQualityScore);
+        expect(remediated.phipaValidation.violations.length).toBe(result.phipaValidation.violations.length);
+        expect(remediated.fhirConversion.fhirResource?.name).toHaveLength(1);
+        expect(remediated.fhirConversion.fhirResource?.name).toEqual(result.fhirConversion.fhirResource?.name);
+      });
+    });
+  });
+});
@@ -0,0 +1,263 @@
+import { Injectable } from '@angular/core';
+import { PHIPAValidationResult, PHIPAViolation, PHIPAViolationType } from '../models/phipa.model';
+import { PseudonymKind } from '../models/pseudonym.model';
+import {
+  AppliedRemediation,
+  JustificationLogEntry,
+  RemediationAction,
+  RemediationChoice,
+  RemediationDiffEntry,
+  RemediationItem,
+  RemediationOutcome
+} from '../models/remediation.model';
+import { CAPACITY_VIOLATION_TYPES } from './capacity.service';
+import { ConsentService } from './consent.service';
+import { FreeTextPhiService } from './free-text-phi.service';
+import { PseudonymizationService } from './pseudonymization.service';
+
+export const REMEDIATION_ACTIONS: { action: RemediationAction; label: string; description: string }[] = [
+  { action: 'remove', label: 'Remove', description: 'Drop the field from the record' },
+  { action: 'mask', label: 'Mask', description: 'Hide all but the last characters; identifiers in free text are replaced by placeholders' },
+  { action: 'tokenize', label: 'Tokenize', description: 'Replace the value with its pseudonym; the pseudonym vault keeps the original' },
+  { action: 'keep', label: 'Keep', description: 'Leave the value as it is and record why' }
+];
+
+const MASK_VISIBLE = 4;
+
+// Identifier types with a pseudonym system of their own; any other value is tokenized as 'value'
+const TOKEN_KINDS: Partial<Record<PHIPAViolationType, PseudonymKind>> = {
+  [PHIPAViolationType.SIN]: 'sin',
+  [PHIPAViolationType.SSN]: 'sin',
+  [PHIPAViolationType.HEALTH_CARD]: 'health-card',
+  [PHIPAViolationType.MEDICAL_RECORD_NUMBER]: 'mrn'
+};
+
+const KEEP_ONLY_TYPES: PHIPAViolationType[] = [PHIPAViolationType.CONSENT_WITHDRAWN, ...CAPACITY_VIOLATION_TYPES];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class RemediationService {
+  // Kept per source record, as consent directives are, so that reports of the record can tell what was decided
+  private applied = new WeakMap<object, AppliedRemediation>();
+
+  constructor(
+    private freeText: FreeTextPhiService,
+    private pseudonyms: PseudonymizationService,
+    private consents: ConsentService
+  ) {}
+
+  /**
+   * The violations of a record grouped by field, with the actions each field allows
+   * @param source - Record the violations were found in
+   */
+  getItems(validation: PHIPAValidationResult, source: any): RemediationItem[] {
+    const fields = new Map<string, PHIPAViolation[]>();
+    validation.violations.forEach(violation => fields.set(violation.field, [...(fields.get(violation.field) ?? []), violation]));
+
+    return [...fields.entries()].map(([field, violations]) => ({
+      field,
+      violations,
+      allowedActions: this.allowedActions(violations, this.readAt(source, field))
+    }));
+  }
+
+  /**
+   * What a field defaults to: removal for critical findings and fields beyond the purpose of use,
+   * masking otherwise (free text included), and keeping when nothing else is allowed
+   */
+  getDefaultChoice(item: RemediationItem): RemediationChoice {
+    const narrative = item.violations.some(v => v.violationType === PHIPAViolationType.FREE_TEXT_PHI);
+    const drop = !narrative && item.violations.some(v => v.severity === 'critical' || v.violationType === PHIPAViolationType.BEYOND_PURPOSE);
+    const preferred: RemediationAction = drop ? 'remove' : 'mask';
+    return { action: item.allowedActions.includes(preferred) ? preferred : item.allowedActions[0] };
+  }
+
+  /**
+   * Applies the choices to a copy of the record; the record itself is left untouched
+   * @param choices - Choice per field; fields without one are kept
+   * @returns The remediated copy, a justification log entry per violation and the changes made
+   * @throws Error if a kept field has no justification, or tokenizing while the pseudonym vault is locked
+   */
+  async apply(source: any, items: RemediationItem[], choices: Record<string, RemediationChoice>): Promise<RemediationOutcome> {
+    if (!source || typeof source !== 'object') {
+      throw new Error('Only records read into fields can be remediated');
+    }
+    const unjustified = items.filter(item => (choices[item.field]?.action ?? 'keep') === 'keep' && !choices[item.field]?.justification?.trim());
+    if (unjustified.length > 0) {
+      throw new Error(`Give a justification for keeping ${unjustified.map(item => item.field).join(', ')}`);
+    }
+    if (items.some(item => choices[item.field]?.action === 'tokenize') && !this.pseudonyms.isUnlocked()) {
+      throw new Error('Unlock the pseudonym vault to tokenize values');
+    }
+
+    const remediated = structuredClone(source);
+    // Directives entered in the application belong to the record, so they follow it into the copy
+    this.consents.getManualDirectives(source).forEach(({ id, source: _, ...directive }) =>
+      this.consents.addManualDirective(remediated, directive)
+    );
+
+    const details = new Map<string, string>();
+    for (const item of items) {
+      const choice = choices[item.field] ?? { action: 'keep' };
+      if (choice.action === 'mask') {
+        details.set(item.field, this.maskAt(remediated, item));
+      } else if (choice.action === 'tokenize') {
+        details.set(item.field, await this.tokenizeAt(remediated, item));
+      } else if (choice.action === 'keep') {
+        details.set(item.field, 'kept as recorded');
+      }
+    }
+
+    // Removals go last, deepest and highest array index first, so that they do not shift the paths still to remove
+    items
+      .filter(item => choices[item.field]?.action === 'remove')
+      .map(item => ({ item, keys: this.freeText.parsePath(item.field) }))
+      .sort((a, b) => this.compareKeys(b.keys, a.keys))
+      .forEach(({ item, keys }) => details.set(item.field, this.removeAt(remediated, keys) ? 'removed' : 'already removed with its parent'));
+
+    const decidedAt = new Date().toISOString();
+    const log: JustificationLogEntry[] = items.flatMap(item => {
+      const choice = choices[item.field] ?? { action: 'keep' };
+      return item.violations.map(violation => ({
+        field: item.field,
+        violationType: violation.violationType,
+        jurisdiction: violation.jurisdiction,
+        severity: violation.severity,
+        action: choice.action,
+        detail: details.get(item.field)!,
+        ...(choice.action === 'keep' && { justification: choice.justification!.trim() }),
+        decidedAt
+      }));
+    });
+
+    return { remediated, log, diff: this.diff(source, remediated) };
+  }
+
+  /**
+   * Records the remediation applied to a record once its remediated copy was re-validated
+   */
+  recordApplied(source: any, applied: AppliedRemediation): void {
+    if (source && typeof source === 'object') {
+      this.applied.set(source, applied);
+    }
+  }
+
+  getApplied(source: any): AppliedRemediation | undefined {
+    return source && typeof source === 'object' ? this.applied.get(source) : undefined;
+  }
+
+  /**
+   * Leaf-level differences between two records, with paths in the form the compliance scan reports
+   */
+  diff(before: any, after: any, path = ''): RemediationDiffEntry[] {
+    const isContainer = (value: any) => value !== null && typeof value === 'object';
+    if (!isContainer(before) || !isContainer(after) || Array.isArray(before) !== Array.isArray(after)) {
+      return before === after ? [] : [{ path, change: 'changed', before, after }];
+    }
+
+    const keys = Array.isArray(before)
+      ? Array.from({ length: Math.max(before.length, after.length) }, (_, index) => index)
+      : [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+    return keys.flatMap((key: string | number) => {
+      const childPath = typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+      if (!(key in after)) return [{ path: childPath, change: 'removed' as const, before: before[key] }];
+      if (!(key in before)) return [{ path: childPath, change: 'added' as const, after: after[key] }];
+      return this.diff(before[key], after[key], childPath);
+    });
+  }
+
+  private allowedActions(violations: PHIPAViolation[], value: any): RemediationAction[] {
+    // A withdrawal is decided by the patient, and a missing decision-maker is added to the record rather than
+    // remediated away; such records can only be kept, with the reason they are still processed
+    if (value === undefined || violations.some(v => KEEP_ONLY_TYPES.includes(v.violationType))) {
+      return ['keep'];
+    }
+    const scalar = typeof value === 'string' || typeof value === 'number';
+    const narrative = violations.some(v => v.violationType === PHIPAViolationType.FREE_TEXT_PHI);
+    return REMEDIATION_ACTIONS
+      .map(({ action }) => action)
+      .filter(action => action !== 'tokenize' || (scalar && !narrative));
+  }
+
+  // Free text has its identifiers replaced by placeholders; other values have each string masked
+  private maskAt(data: any, item: RemediationItem): string {
+    const spans = item.violations.find(v => v.spans)?.spans;
+    if (spans && this.freeText.redactAt(data, item.field, spans)) {
+      return `redacted ${spans.length} identifier${spans.length === 1 ? '' : 's'} in the text`;
+    }
+
+    const value = this.readAt(data, item.field);
+    if (typeof value === 'string' || typeof value === 'number') {
+      const masked = this.mask(String(value));
+      this.writeAt(data, item.field, masked.value);
+      return masked.detail;
+    }
+    const maskAll = (node: any): any => {
+      if (typeof node === 'string' || typeof node === 'number') return this.mask(String(node)).value;
+      if (Array.isArray(node)) return node.map(maskAll);
+      if (node && typeof node === 'object') return Object.fromEntries(Object.entries(node).map(([key, child]) => [key, maskAll(child)]));
+      return node;
+    };
+    this.writeAt(data, item.field, maskAll(value));
+    return 'masked every value';
+  }
+
+  private mask(value: string): { value: string; detail: string } {
+    if (/^[^@\s]+@[^@\s]+$/.test(value)) {
+      const [local, domain] = value.split('@');
+      return { value: `${local.charAt(0)}***@${domain}`, detail: 'masked all but the first character and the domain' };
+    }
+    // Short values would be guessable from their last characters, so they are masked whole
+    const characters = value.replace(/[^\p{L}\p{N}]/gu, '').length;
+    const visible = characters > MASK_VISIBLE * 2 ? MASK_VISIBLE : 0;
+    let seen = 0;
+    const masked = value.replace(/[\p{L}\p{N}]/gu, char => ++seen > characters - visible ? char : '*');
+    return { value: masked, detail: visible ? `masked all but the last ${visible} characters` : 'masked' };
+  }
+
+  private async tokenizeAt(data: any, item: RemediationItem): Promise<string> {
+    const kind = item.violations.map(v => TOKEN_KINDS[v.violationType]).find(Boolean) ?? 'value';
+    const pseudonym = await this.pseudonyms.pseudonymize(kind, String(this.readAt(data, item.field)));
+    this.writeAt(data, item.field, pseudonym.token);
+    return `replaced by a ${kind} pseudonym; the vault keeps the original`;
+  }
+
+  private readAt(data: any, path: string): any {
+    return this.freeText.parsePath(path).reduce((node, key) => (node === null || node === undefined ? undefined : node[key]), data);
+  }
+
+  private writeAt(data: any, path: string, value: any): void {
+    const keys = this.freeText.parsePath(path);
+    const parent = keys.slice(0, -1).reduce((node, key) => node?.[key], data);
+    if (parent && typeof parent === 'object') {
+      parent[keys[keys.length - 1]] = value;
+    }
+  }
+
+  private removeAt(data: any, keys: (string | number)[]): boolean {
+    const parent = keys.slice(0, -1).reduce((node, key) => node?.[key], data);
+    const last = keys[keys.length - 1];
+    if (!parent || typeof parent !== 'object' || !(last in parent)) {
+      return false;
+    }
+    if (Array.isArray(parent) && typeof last === 'number') {
+      parent.splice(last, 1);
+    } else {
+      delete parent[last];
+    }
+    return true;
+  }
+
+  // Orders paths key by key, array indexes numerically
+  private compareKeys(a: (string | number)[], b: (string | number)[]): number {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      if (a[i] === b[i]) continue;
+      return typeof a[i] === 'number' && typeof b[i] === 'number'
+        ? (a[i] as number) - (b[i] as number)
+        : String(a[i]).localeCompare(String(b[i]));
+    }
+    return a.length - b.length;
+  }
+}
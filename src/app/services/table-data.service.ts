@@ -1,6 +1,8 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
 import { TableColumn, TableData } from '../models/table-data.model';
+import { CsvParseOptions } from '../models/csv.model';
+import { CsvParserService } from './csv-parser.service';
 
 @Injectable({
   providedIn: 'root'
@@ -9,7 +11,7 @@ export class TableDataService {
   private tableDataSubject = new BehaviorSubject<TableData | null>(null);
   public tableData$: Observable<TableData | null> = this.tableDataSubject.asObservable();
 
-  constructor() { }
+  constructor(private csvParser: CsvParserService) { }
 
   updateTableData(data: TableData): void {
     console.log('Updating table data:', data);
@@ -71,10 +73,45 @@ export class TableDataService {
     });
   }
 
+  processCsvFile(file: File, options: CsvParseOptions = {}): Promise<TableData> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+
+      reader.onload = (e: ProgressEvent<FileReader>) => {
+        try {
+          const decoded = this.csvParser.decode(e.target?.result as ArrayBuffer);
+          const parsed = this.csvParser.parse(decoded.text, options);
+
+          if (parsed.records.length === 0) {
+            reject(new Error('No data rows found in CSV file'));
+            return;
+          }
+
+          const tableData = this.convertToTableData(parsed.records);
+          this.tableDataSubject.next(tableData);
+          resolve(tableData);
+        } catch (error) {
+          console.error('Error parsing CSV:', error);
+          reject(new Error('Invalid CSV file: ' + (error as Error).message));
+        }
+      };
+
+      reader.onerror = () => {
+        console.error('Error reading file');
+        reject(new Error('Error reading file'));
+      };
+
+      reader.readAsArrayBuffer(file);
+    });
+  }
+
   convertToTableData(data: any[]): TableData {
+    // Flatten nested objects so each leaf value gets its own column (e.g. address.city)
+    const rows = data.map(obj => this.flatten(obj));
+
     // Extract all unique keys from all objects
     const allKeys = new Set<string>();
-    data.forEach(obj => {
+    rows.forEach(obj => {
       Object.keys(obj).forEach(key => allKeys.add(key));
     });
 
@@ -82,20 +119,39 @@ export class TableDataService {
     const columns: TableColumn[] = Array.from(allKeys).map(key => ({
       key,
       label: this.formatLabel(key),
-      type: this.detectType(data, key)
+      type: this.detectType(rows, key)
     }));
 
     return {
       columns,
-      rows: data
+      rows
     };
   }
 
+  private flatten(obj: any, prefix = '', target: any = {}): any {
+    if (obj === null || typeof obj !== 'object' || Array.isArray(obj)) {
+      target[prefix || 'value'] = obj;
+      return target;
+    }
+
+    Object.keys(obj).forEach(key => {
+      const path = prefix ? `${prefix}.${key}` : key;
+      const value = obj[key];
+      if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+        this.flatten(value, path, target);
+      } else {
+        target[path] = value;
+      }
+    });
+
+    return target;
+  }
+
   private formatLabel(key: string): string {
     // Convert camelCase or snake_case to Title Case
     return key
       .replace(/([A-Z])/g, ' $1')
-      .replace(/_/g, ' ')
+      .replace(/[_.]/g, ' ')
       .replace(/^./, str => str.toUpperCase())
       .trim();
   }
@@ -103,13 +159,13 @@ export class TableDataService {
   private detectType(data: any[], key: string): 'string' | 'number' | 'boolean' | 'date' {
     const samples = data
       .map(obj => obj[key])
-      .filter(val => val !== null && val !== undefined)
+      .filter(val => val !== null && val !== undefined && val !== '')
       .slice(0, 10); // Sample first 10 values
 
     if (samples.length === 0) return 'string';
 
-    // Check if all samples are boolean
-    if (samples.every(val => typeof val === 'boolean')) {
+    // Check if all samples are boolean (CSV cells arrive as text)
+    if (samples.every(val => typeof val === 'boolean' || /^(true|false)$/i.test(String(val)))) {
       return 'boolean';
     }
 